@@ -7,6 +7,11 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+
+  experimental: {
+    // The code runner loads the TypeScript compiler at runtime instead of bundling it
+    serverComponentsExternalPackages: ['typescript'],
+  },
 };
 
 export default nextConfig;
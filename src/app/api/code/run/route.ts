@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getRunnableCases } from '@/lib/test-cases';
+import {
+  isSandboxLanguage,
+  MAX_CASES,
+  MAX_CODE_LENGTH,
+  runCode,
+  SandboxError,
+  SANDBOX_LANGUAGES,
+  TestCase,
+} from '@/lib/sandbox/runner';
+
+// Child processes need the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RunRequestBody {
+  code?: string;
+  language?: string;
+  // Run against this question's enabled test cases
+  questionId?: string;
+  // Or against explicit cases supplied by the caller
+  cases?: TestCase[];
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = createServerComponentClient({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    let body: RunRequestBody;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const { code, language, questionId } = body;
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'Missing required field: code' }, { status: 400 });
+    }
+    if (code.length > MAX_CODE_LENGTH) {
+      return NextResponse.json({ error: `Code must be at most ${MAX_CODE_LENGTH / 1024} KB` }, { status: 413 });
+    }
+    if (!isSandboxLanguage(language)) {
+      return NextResponse.json(
+        { error: `Unsupported language. Supported languages: ${SANDBOX_LANGUAGES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let cases: TestCase[] = [];
+
+    if (Array.isArray(body.cases)) {
+      cases = body.cases
+        .filter(c => c && typeof c.input === 'string' && typeof c.expected === 'string')
+        .map(c => ({ input: c.input, expected: c.expected }));
+    } else if (questionId) {
+      const { data: question, error: questionError } = await supabase
+        .from('questions_user')
+        .select('id, user_id, question, test_cases_seeded_at')
+        .eq('id', questionId)
+        .single();
+
+      if (questionError || !question) {
+        return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+      }
+      if (question.user_id !== user.id) {
+        return NextResponse.json({ error: 'Unauthorized to run this question' }, { status: 403 });
+      }
+
+      cases = await getRunnableCases(supabase, question);
+    }
+
+    if (cases.length === 0) {
+      return NextResponse.json(
+        { error: 'No test cases to run. Add or enable test cases for this question first.' },
+        { status: 422 }
+      );
+    }
+
+    const result = await runCode(code, language, cases.slice(0, MAX_CASES));
+    console.log(`Ran ${language} code for user ${user.id}: ${result.passedCount}/${result.cases.length} passed`);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof SandboxError) {
+      const status = error.kind === 'busy' ? 429 : error.kind === 'toolchain' ? 501 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    console.error('Error running code:', error);
+    return NextResponse.json(
+      { error: 'Failed to run code', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
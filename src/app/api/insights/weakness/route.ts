@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { createClient } from '@supabase/supabase-js';
+import { cookies } from 'next/headers';
+import { enqueueJob, kickJobWorker } from '@/lib/jobs';
+import { getWeakSpots, weaknessPromptContext } from '@/lib/weakness-model';
+
+/**
+ * Weak spots for the signed-in user, plus a prompt snippet tutors can use to bias hints
+ */
+export async function GET() {
+  try {
+    const supabase = createServerComponentClient({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const weakSpots = await getWeakSpots(supabase, user.id);
+    return NextResponse.json({ weakSpots, promptContext: weaknessPromptContext(weakSpots) });
+  } catch (error) {
+    console.error('Error loading weak spots:', error);
+    return NextResponse.json(
+      { error: 'Failed to load weak spots', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Queue a rebuild of the weakness model; the job worker re-analyzes attempts.
+ * Called by the signed-in user, or server-to-server with x-service-key and { userId }.
+ */
+export async function POST(request: Request) {
+  try {
+    const serviceKey = request.headers.get('x-service-key');
+    let userId: string | undefined;
+
+    if (serviceKey) {
+      if (serviceKey !== process.env.SERVICE_KEY) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const body = await request.json().catch(() => ({}));
+      userId = body.userId;
+      if (!userId) {
+        return NextResponse.json({ error: 'Missing required field: userId' }, { status: 400 });
+      }
+    } else {
+      const supabase = createServerComponentClient({ cookies });
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+      userId = user.id;
+    }
+
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return NextResponse.json({ error: 'Server configuration error: Missing service role key' }, { status: 500 });
+    }
+
+    // Jobs are written with the service role
+    const admin = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+      process.env.SUPABASE_SERVICE_ROLE_KEY,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    const { job, created } = await enqueueJob(admin, { userId, type: 'refresh_weaknesses' });
+    if (created) kickJobWorker(request.url);
+
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+  } catch (error) {
+    console.error('Error queuing weakness refresh:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue weakness refresh', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { kickJobWorker, type Job } from '@/lib/jobs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const JOB_COLUMNS = 'id, type, question_id, status, attempts, max_attempts, run_after, last_error, result, created_at, updated_at, finished_at';
+
+// A due job nobody has picked up for this long gets the worker kicked again
+const WORKER_NUDGE_AFTER_MS = 20 * 1000;
+
+/**
+ * Status of one of the signed-in user's background jobs
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const supabase = createServerComponentClient({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // RLS limits this to the user's own jobs
+    const { data, error } = await supabase
+      .from('jobs')
+      .select(JOB_COLUMNS)
+      .eq('id', params.id)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    // Polling doubles as a fallback trigger when the kick after enqueue was lost
+    const job = data as Pick<Job, 'status' | 'run_after'>;
+    if (job.status === 'queued' && Date.now() - new Date(job.run_after).getTime() > WORKER_NUDGE_AFTER_MS) {
+      kickJobWorker(request.url);
+    }
+
+    return NextResponse.json({ job: data });
+  } catch (error) {
+    console.error('Error loading job:', error);
+    return NextResponse.json(
+      { error: 'Failed to load job', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
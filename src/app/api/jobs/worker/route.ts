@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { claimJobs, settleJob, type Job, type JobFailureHandler, type JobHandler, type JobType } from '@/lib/jobs';
+import { failQuestionProcessingJob, processQuestionJob } from '@/lib/process-question-job';
+import { refreshWeaknessesJob } from '@/lib/refresh-weaknesses-job';
+import { verifyReferenceJob } from '@/lib/verify-reference-job';
+
+export const runtime = 'nodejs';
+// Solution generation with repair passes can take a few minutes
+export const maxDuration = 300;
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  process_question: processQuestionJob,
+  verify_reference: verifyReferenceJob,
+  refresh_weaknesses: refreshWeaknessesJob,
+};
+
+const FAILURE_HANDLERS: Partial<Record<JobType, JobFailureHandler>> = {
+  process_question: failQuestionProcessingJob,
+};
+
+// Jobs run one after another; keep the batch small enough to finish within maxDuration
+const BATCH_SIZE = 2;
+
+function isAuthorized(request: Request): boolean {
+  const serviceKey = request.headers.get('x-service-key');
+  if (serviceKey && serviceKey === process.env.SERVICE_KEY) return true;
+
+  // Scheduled invocations (e.g. Vercel Cron) authenticate with CRON_SECRET
+  const cronSecret = process.env.CRON_SECRET;
+  return !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
+
+// Fail a job for good, letting its type release what it holds first
+async function failJob(admin: SupabaseClient, job: Job, error: string) {
+  let result: Record<string, unknown> | undefined;
+  try {
+    result = await FAILURE_HANDLERS[job.type]?.(admin, job, error);
+  } catch (failureError) {
+    console.error(`Failed to clean up after job ${job.id} (${job.type}):`, failureError);
+  }
+  return settleJob(admin, job, { status: 'failed', error, retryable: false, result });
+}
+
+async function runJob(admin: SupabaseClient, job: Job) {
+  // A job reclaimed after its worker died may already be past its last attempt
+  if (job.attempts > job.max_attempts) {
+    return failJob(admin, job, 'Worker stopped responding on the last attempt');
+  }
+
+  try {
+    const outcome = await JOB_HANDLERS[job.type](admin, job);
+    return settleJob(admin, job, outcome);
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.type}) threw:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    if (job.attempts >= job.max_attempts) return failJob(admin, job, message);
+    return settleJob(admin, job, { status: 'failed', error: message, retryable: true });
+  }
+}
+
+/**
+ * Claim and run due jobs. Called server-to-server with x-service-key right
+ * after a job is queued, and periodically by a scheduler to pick up retries.
+ */
+async function handle(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json({ error: 'Server configuration error: Missing service role key' }, { status: 500 });
+  }
+
+  try {
+    const admin = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+      process.env.SUPABASE_SERVICE_ROLE_KEY,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    const jobs = await claimJobs(admin, BATCH_SIZE);
+    const processed: { id: string; type: JobType; status: string }[] = [];
+
+    for (const job of jobs) {
+      const status = await runJob(admin, job);
+      console.log(`Job ${job.id} (${job.type}) attempt ${job.attempts}/${job.max_attempts}: ${status}`);
+      processed.push({ id: job.id, type: job.type, status });
+    }
+
+    return NextResponse.json({ processed });
+  } catch (error) {
+    console.error('Error running job worker:', error);
+    return NextResponse.json(
+      { error: 'Failed to run jobs', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -3,6 +3,7 @@ import { createClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
 import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
+import { grantPurchasedCredits } from '@/lib/credits';
 
 // Use environment variable for Razorpay API key secret
 const RAZORPAY_KEY_ID = process.env.RAZORPAY_KEY_ID || process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID;
@@ -123,41 +124,43 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Try to update user credits directly (simpler approach)
+    if (!Number.isInteger(credits) || credits <= 0 || !razorpay_payment_id) {
+      return NextResponse.json(
+        { error: 'Invalid credits or payment id', success: false },
+        { status: 400 }
+      );
+    }
+
+    // Credits are granted through the ledger, which needs the service role
+    if (!SUPABASE_SERVICE_ROLE_KEY) {
+      return NextResponse.json(
+        { error: 'Server configuration error', success: false },
+        { status: 500 }
+      );
+    }
+
     try {
-      // 1. Get current user credits
-      const { data: userData, error: userError } = await (SUPABASE_SERVICE_ROLE_KEY ? supabaseAdmin : supabase)
-        .from('users')
-        .select('credits, plan')
-        .eq('id', userId)
-        .single();
-        
-      if (userError) {
-        console.error('Error fetching user credits:', userError);
-        return NextResponse.json(
-          { error: 'Failed to retrieve user credits', success: false },
-          { status: 500 }
-        );
-      }
-      
-      const previousCredits = userData?.credits || 0;
-      const newTotal = previousCredits + credits;
-      
-      // 2. Update user credits first (without changing plan)
-      const { error: updateError } = await (SUPABASE_SERVICE_ROLE_KEY ? supabaseAdmin : supabase)
-        .from('users')
-        .update({ 
-          credits: newTotal
-        })
-        .eq('id', userId);
-        
-      if (updateError) {
-        console.error('Error updating user credits:', updateError);
-        return NextResponse.json(
-          { error: 'Failed to update user credits', success: false },
-          { status: 500 }
-        );
+      // 1. Add the credits as a ledger entry keyed by the payment id, so
+      // retried or concurrent verifications of one payment credit it once
+      const grant = await grantPurchasedCredits(supabaseAdmin, userId, razorpay_payment_id, credits, {
+        orderId: razorpay_order_id,
+        packId
+      });
+
+      if (grant.status === 'duplicate') {
+        console.log('Payment already credited:', { userId, paymentId: razorpay_payment_id });
+        return NextResponse.json({
+          success: true,
+          message: 'Payment was already credited',
+          credits: grant.balance,
+          creditsAdded: 0,
+          previousCredits: grant.balance,
+          plan: 'payg'
+        });
       }
+
+      const newTotal = grant.balance;
+      const previousCredits = newTotal - credits;
       
       // 2b. Update the user's plan to 'premium' using the dedicated API endpoint
       try {
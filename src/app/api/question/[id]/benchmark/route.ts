@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { BenchmarkError, getBenchmarkGenerator, runBenchmark, type BenchmarkQuestion } from '@/lib/benchmark';
+import { isSandboxLanguage, MAX_CODE_LENGTH, SandboxError, SANDBOX_LANGUAGES } from '@/lib/sandbox/runner';
+
+// Child processes need the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Resolve the signed-in user and the question they own, or an error response
+async function loadQuestion(questionId: string) {
+  const supabase = createServerComponentClient({ cookies });
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: question, error: questionError } = await supabase
+    .from('questions_user')
+    .select('id, user_id, title, question, solution, benchmark_generator')
+    .eq('id', questionId)
+    .single();
+
+  if (questionError || !question) {
+    return { error: NextResponse.json({ error: 'Question not found' }, { status: 404 }) };
+  }
+  if (question.user_id !== user.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized to access this question' }, { status: 403 }) };
+  }
+
+  return { supabase, question: question as BenchmarkQuestion & { user_id: string } };
+}
+
+/**
+ * Benchmark code on inputs of growing size: { code, language }. Returns the
+ * timings, the fitted complexity and how it compares with the solution's.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.code !== 'string' || !body.code.trim()) {
+      return NextResponse.json({ error: 'Missing required field: code' }, { status: 400 });
+    }
+    if (body.code.length > MAX_CODE_LENGTH) {
+      return NextResponse.json({ error: `Code must be at most ${MAX_CODE_LENGTH / 1024} KB` }, { status: 413 });
+    }
+    if (!isSandboxLanguage(body.language)) {
+      return NextResponse.json(
+        { error: `Unsupported language. Supported languages: ${SANDBOX_LANGUAGES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let generator;
+    try {
+      generator = await getBenchmarkGenerator(supabase, question);
+    } catch (generationError) {
+      console.error('Error generating the benchmark input generator:', generationError);
+      return NextResponse.json(
+        { error: 'Could not prepare benchmark inputs right now. Please try again later.' },
+        { status: 503 }
+      );
+    }
+
+    const result = await runBenchmark(body.code, body.language, generator, question.solution);
+    console.log(`Benchmarked ${body.language} code for question ${question.id}: ${result.verdict} (${result.measured ?? 'no fit'})`);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof BenchmarkError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    if (error instanceof SandboxError) {
+      const status = error.kind === 'busy' ? 429 : error.kind === 'toolchain' ? 501 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    console.error('Error benchmarking code:', error);
+    return NextResponse.json(
+      { error: 'Failed to benchmark code', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { DraftConflictError, isDraftLanguage, listDrafts, MAX_DRAFT_LENGTH, saveDraft } from '@/lib/code-drafts';
+import { parseStarterCode } from '@/lib/starter-code';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Resolve the signed-in user and the question they own, or an error response
+async function loadQuestion(questionId: string) {
+  const supabase = createServerComponentClient({ cookies });
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: question, error: questionError } = await supabase
+    .from('questions_user')
+    .select('id, user_id, starter_code')
+    .eq('id', questionId)
+    .single();
+
+  if (questionError || !question) {
+    return { error: NextResponse.json({ error: 'Question not found' }, { status: 404 }) };
+  }
+  if (question.user_id !== user.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized to access this question' }, { status: 403 }) };
+  }
+
+  return { supabase, question: question as { id: string; user_id: string; starter_code: unknown } };
+}
+
+/**
+ * Every editor draft for the question, most recently saved first, and the
+ * starter programs languages without a draft begin from
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const drafts = await listDrafts(supabase, question.user_id, question.id);
+    return NextResponse.json({ drafts, starter: parseStarterCode(question.starter_code) });
+  } catch (error) {
+    console.error('Error loading drafts:', error);
+    return NextResponse.json(
+      { error: 'Failed to load drafts', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save a draft: { language, code, baseRevision }. 409 with the stored draft
+ * when it was saved elsewhere since baseRevision.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => null);
+    if (!isDraftLanguage(body?.language)) {
+      return NextResponse.json({ error: 'Invalid language' }, { status: 400 });
+    }
+    if (typeof body.code !== 'string') {
+      return NextResponse.json({ error: 'Invalid code: expected a string' }, { status: 400 });
+    }
+    if (body.code.length > MAX_DRAFT_LENGTH) {
+      return NextResponse.json({ error: `Drafts are limited to ${MAX_DRAFT_LENGTH} characters` }, { status: 413 });
+    }
+    if (!Number.isInteger(body.baseRevision) || body.baseRevision < 0) {
+      return NextResponse.json({ error: 'Invalid baseRevision' }, { status: 400 });
+    }
+
+    try {
+      const draft = await saveDraft(supabase, question.user_id, question.id, body.language, body.code, body.baseRevision);
+      return NextResponse.json({ draft });
+    } catch (saveError) {
+      if (saveError instanceof DraftConflictError) {
+        return NextResponse.json({ error: saveError.message, draft: saveError.current }, { status: 409 });
+      }
+      throw saveError;
+    }
+  } catch (error) {
+    console.error('Error saving draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to save draft', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { createClient } from '@supabase/supabase-js';
+import { cookies } from 'next/headers';
+import {
+  AiHintChargeError,
+  getAiHintPricing,
+  HINT_QUESTION_COLUMNS,
+  requestNextHint,
+  toHintDetails,
+  type HintQuestion,
+} from '@/lib/ai-hints';
+import { unlockedContent, UnlockError } from '@/lib/hint-unlocks';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Resolve the signed-in user and the question they own, or an error response
+async function loadQuestion(questionId: string) {
+  const supabase = createServerComponentClient({ cookies });
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: question, error: questionError } = await supabase
+    .from('questions_user')
+    .select(HINT_QUESTION_COLUMNS)
+    .eq('id', questionId)
+    .single();
+
+  if (questionError || !question) {
+    return { error: NextResponse.json({ error: 'Question not found' }, { status: 404 }) };
+  }
+  if (question.user_id !== user.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized to access this question' }, { status: 403 }) };
+  }
+
+  return { supabase, question: question as HintQuestion };
+}
+
+/**
+ * Specificity level of every hint, and what the next generated hint costs
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const hints = Array.isArray(question.hint) ? question.hint : [];
+    return NextResponse.json({
+      hintDetails: toHintDetails(hints, question.hint_details),
+      pricing: await getAiHintPricing(supabase, question.user_id),
+    });
+  } catch (error) {
+    console.error('Error loading hints:', error);
+    return NextResponse.json(
+      { error: 'Failed to load hints', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Generate the next hint: { code?: string } with the user's current editor code
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      console.error('SUPABASE_SERVICE_ROLE_KEY is not set in environment variables');
+      return NextResponse.json({ error: 'Server configuration error: Missing service role key' }, { status: 500 });
+    }
+
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => null);
+    if (body?.code !== undefined && typeof body.code !== 'string') {
+      return NextResponse.json({ error: 'Invalid code: expected a string' }, { status: 400 });
+    }
+
+    // The credit ledger is only writable with the service role
+    const adminSupabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+      process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    try {
+      const { charge, unlocks, ...result } = await requestNextHint(supabase, adminSupabase, question, body?.code ?? '');
+      return NextResponse.json({
+        ...result,
+        unlocks: { ...unlocks, ...unlockedContent({ ...question, hint: result.hints }, unlocks) },
+        credits: charge?.balance ?? null,
+      });
+    } catch (hintError) {
+      if (hintError instanceof UnlockError) {
+        return NextResponse.json({ error: hintError.message, reason: hintError.kind }, { status: 409 });
+      }
+      if (hintError instanceof AiHintChargeError) {
+        return NextResponse.json({ error: hintError.message, credits: hintError.balance }, { status: 402 });
+      }
+      throw hintError;
+    }
+  } catch (error) {
+    console.error('Error generating hint:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate hint', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { BenchmarkError, getBenchmarkGenerator, type BenchmarkGenerator } from '@/lib/benchmark';
+import {
+  getReferenceProgram,
+  isVerificationCurrent,
+  ReferenceError,
+  REFERENCE_QUESTION_COLUMNS,
+  verifyReference,
+  type ReferenceQuestion,
+} from '@/lib/reference-program';
+import { runStressTest } from '@/lib/stress-test';
+import { isSandboxLanguage, MAX_CODE_LENGTH, SandboxError, SANDBOX_LANGUAGES } from '@/lib/sandbox/runner';
+
+// Child processes need the Node.js runtime
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+type StressQuestion = ReferenceQuestion & { user_id: string; benchmark_generator: BenchmarkGenerator | null };
+
+// Resolve the signed-in user and the question they own, or an error response
+async function loadQuestion(questionId: string) {
+  const supabase = createServerComponentClient({ cookies });
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: question, error: questionError } = await supabase
+    .from('questions_user')
+    .select(`${REFERENCE_QUESTION_COLUMNS}, user_id, benchmark_generator`)
+    .eq('id', questionId)
+    .single<StressQuestion>();
+
+  if (questionError || !question) {
+    return { error: NextResponse.json({ error: 'Question not found' }, { status: 404 }) };
+  }
+  if (question.user_id !== user.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized to access this question' }, { status: 403 }) };
+  }
+
+  return { supabase, question };
+}
+
+/**
+ * Stress test code against the stored optimal solution: { code, language }.
+ * 409 with the verification when the stored solution fails its own examples.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.code !== 'string' || !body.code.trim()) {
+      return NextResponse.json({ error: 'Missing required field: code' }, { status: 400 });
+    }
+    if (body.code.length > MAX_CODE_LENGTH) {
+      return NextResponse.json({ error: `Code must be at most ${MAX_CODE_LENGTH / 1024} KB` }, { status: 413 });
+    }
+    if (!isSandboxLanguage(body.language)) {
+      return NextResponse.json(
+        { error: `Unsupported language. Supported languages: ${SANDBOX_LANGUAGES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let reference;
+    let generator;
+    try {
+      reference = await getReferenceProgram(supabase, question);
+      generator = await getBenchmarkGenerator(supabase, question);
+    } catch (generationError) {
+      if (generationError instanceof ReferenceError) throw generationError;
+      console.error('Error preparing the stress test:', generationError);
+      return NextResponse.json(
+        { error: 'Could not prepare the stress test right now. Please try again later.' },
+        { status: 503 }
+      );
+    }
+
+    // Only a reference that reproduces the statement's examples can judge other code
+    const stored = question.reference_program === reference ? question.reference_verification : null;
+    const verification = stored && isVerificationCurrent(reference, stored)
+      ? stored
+      : await verifyReference(supabase, question, reference);
+    if (verification.status === 'failed') {
+      return NextResponse.json(
+        {
+          error: `The stored solution fails ${verification.total - verification.passed} of ${verification.total} examples, so it cannot be used to check your code.`,
+          verification,
+        },
+        { status: 409 }
+      );
+    }
+
+    const result = await runStressTest(body.code, body.language, generator, reference);
+    console.log(`Stress tested ${body.language} code for question ${question.id}: ${result.verdict} after ${result.rounds} inputs`);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ReferenceError || error instanceof BenchmarkError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    if (error instanceof SandboxError) {
+      const status = error.kind === 'busy' ? 429 : error.kind === 'toolchain' ? 501 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    console.error('Error stress testing code:', error);
+    return NextResponse.json(
+      { error: 'Failed to stress test code', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
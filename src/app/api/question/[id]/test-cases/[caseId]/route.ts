@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+
+interface RouteContext {
+  params: { id: string; caseId: string };
+}
+
+// Row-level security scopes these queries to the signed-in user's cases
+async function getAuthenticatedClient() {
+  const supabase = createServerComponentClient({ cookies });
+  const { data: { user }, error } = await supabase.auth.getUser();
+  return { supabase, user: error ? null : user };
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getAuthenticatedClient();
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    // Only these fields are editable
+    const updates: Record<string, unknown> = {};
+    if (typeof body.input === 'string') updates.input = body.input;
+    if (typeof body.expected === 'string') updates.expected = body.expected;
+    if (typeof body.explanation === 'string' || body.explanation === null) updates.explanation = body.explanation;
+    if (typeof body.enabled === 'boolean') updates.enabled = body.enabled;
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No editable fields provided' }, { status: 400 });
+    }
+    updates.updated_at = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('question_test_cases')
+      .update(updates)
+      .eq('id', params.caseId)
+      .eq('question_id', params.id)
+      .eq('user_id', user.id)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ case: data });
+  } catch (error) {
+    console.error('Error updating test case:', error);
+    return NextResponse.json(
+      { error: 'Failed to update test case', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, user } = await getAuthenticatedClient();
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { error } = await supabase
+      .from('question_test_cases')
+      .delete()
+      .eq('id', params.caseId)
+      .eq('question_id', params.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      return NextResponse.json({ error: 'Failed to delete test case', details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting test case:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete test case', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { generateEdgeCaseTests } from '@/lib/gemini-api';
+import { addTestCases, listTestCases, TestCaseQuestion } from '@/lib/test-cases';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Resolve the signed-in user and the question they own, or an error response
+async function loadQuestion(questionId: string) {
+  const supabase = createServerComponentClient({ cookies });
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: question, error: questionError } = await supabase
+    .from('questions_user')
+    .select('id, user_id, title, question, test_cases_seeded_at')
+    .eq('id', questionId)
+    .single();
+
+  if (questionError || !question) {
+    return { error: NextResponse.json({ error: 'Question not found' }, { status: 404 }) };
+  }
+  if (question.user_id !== user.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized to access this question' }, { status: 403 }) };
+  }
+
+  return { supabase, question: question as TestCaseQuestion & { title: string } };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const cases = await listTestCases(supabase, question);
+    return NextResponse.json({ cases });
+  } catch (error) {
+    console.error('Error loading test cases:', error);
+    return NextResponse.json(
+      { error: 'Failed to load test cases', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add a custom case: { input, expected, explanation? }
+ * Or generate edge cases with AI: { generate: true, count? }
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (body.generate) {
+      const count = Math.min(Math.max(Number(body.count) || 3, 1), 5);
+      const existing = await listTestCases(supabase, question);
+
+      let generated;
+      try {
+        generated = await generateEdgeCaseTests(question.title, question.question, existing.map(c => c.input), count);
+      } catch (generationError) {
+        console.error('Error generating edge cases:', generationError);
+        return NextResponse.json(
+          { error: 'Could not generate edge cases right now. Please try again later.' },
+          { status: 503 }
+        );
+      }
+
+      if (generated.tests.length === 0) {
+        return NextResponse.json({ error: 'The AI did not return any usable test cases' }, { status: 502 });
+      }
+
+      const cases = await addTestCases(supabase, question, generated.tests, 'ai', generated.promptVersion);
+      return NextResponse.json({ cases }, { status: 201 });
+    }
+
+    if (typeof body.input !== 'string' || typeof body.expected !== 'string') {
+      return NextResponse.json({ error: 'Missing required fields: input, expected' }, { status: 400 });
+    }
+
+    const cases = await addTestCases(supabase, question, [{
+      input: body.input,
+      expected: body.expected,
+      explanation: typeof body.explanation === 'string' ? body.explanation : null,
+    }], 'custom');
+    return NextResponse.json({ cases }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding test cases:', error);
+    return NextResponse.json(
+      { error: 'Failed to add test cases', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
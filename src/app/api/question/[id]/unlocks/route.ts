@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import {
+  getUnlockState,
+  isUnlockKind,
+  toReviewAssistance,
+  UnlockError,
+  unlockedContent,
+  unlockNext,
+  type UnlockQuestion,
+} from '@/lib/hint-unlocks';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Resolve the signed-in user and the question they own, or an error response
+async function loadQuestion(questionId: string) {
+  const supabase = createServerComponentClient({ cookies });
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: question, error: questionError } = await supabase
+    .from('questions_user')
+    .select('id, user_id, hint, solution')
+    .eq('id', questionId)
+    .single();
+
+  if (questionError || !question) {
+    return { error: NextResponse.json({ error: 'Question not found' }, { status: 404 }) };
+  }
+  if (question.user_id !== user.id) {
+    return { error: NextResponse.json({ error: 'Unauthorized to access this question' }, { status: 403 }) };
+  }
+
+  return { supabase, question: question as UnlockQuestion };
+}
+
+/**
+ * Hints and solution sections unlocked in the current attempt, with their content
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const state = await getUnlockState(supabase, question);
+    return NextResponse.json({ ...state, ...unlockedContent(question, state), assistance: toReviewAssistance(state) });
+  } catch (error) {
+    console.error('Error loading unlocks:', error);
+    return NextResponse.json(
+      { error: 'Failed to load unlocks', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Unlock the next item: { kind: 'hint' | 'solution' }
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { supabase, question, error } = await loadQuestion(params.id);
+    if (error) return error;
+
+    const body = await request.json().catch(() => null);
+    if (!isUnlockKind(body?.kind)) {
+      return NextResponse.json({ error: "Invalid kind: expected 'hint' or 'solution'" }, { status: 400 });
+    }
+
+    try {
+      const state = await unlockNext(supabase, question, body.kind);
+      return NextResponse.json({ ...state, ...unlockedContent(question, state), assistance: toReviewAssistance(state) });
+    } catch (unlockError) {
+      if (unlockError instanceof UnlockError) {
+        return NextResponse.json({ error: unlockError.message, reason: unlockError.kind }, { status: 409 });
+      }
+      throw unlockError;
+    }
+  } catch (error) {
+    console.error('Error unlocking:', error);
+    return NextResponse.json(
+      { error: 'Failed to unlock', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { BUNDLE_COLUMNS, bundleQuestionFromRow, type BundleSourceRow } from '@/lib/question-bundle/bundle';
+import { serializeBundle } from '@/lib/question-bundle/files';
+import { BUNDLE_FILE_FORMATS, type BundleFileFormat } from '@/lib/question-bundle/types';
+
+// Rows fetched per request; PostgREST caps a single response at 1000
+const PAGE_SIZE = 500;
+
+/**
+ * Download the user's questions as a bundle: { format: 'json' | 'markdown' | 'csv', ids? }
+ * Without ids every question is exported, oldest first.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = createServerComponentClient({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    if (!BUNDLE_FILE_FORMATS.includes(body.format)) {
+      return NextResponse.json({ error: `format must be one of: ${BUNDLE_FILE_FORMATS.join(', ')}` }, { status: 400 });
+    }
+    const ids: string[] | null = Array.isArray(body.ids) ? body.ids.filter((id: unknown) => typeof id === 'string') : null;
+    if (ids && ids.length === 0) {
+      return NextResponse.json({ error: 'No questions selected' }, { status: 400 });
+    }
+
+    const rows: BundleSourceRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('questions_user')
+        .select(BUNDLE_COLUMNS)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (ids) query = query.in('id', ids);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Failed to load questions: ${error.message}`);
+      rows.push(...((data ?? []) as BundleSourceRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'No questions to export' }, { status: 404 });
+    }
+
+    const file = serializeBundle(rows.map(bundleQuestionFromRow), body.format as BundleFileFormat);
+    return new NextResponse(typeof file.body === 'string' ? file.body : file.body.slice(), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting questions:', error);
+    return NextResponse.json(
+      { error: 'Failed to export questions', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
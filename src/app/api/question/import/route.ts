@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { UNIQUE_VIOLATION } from '@/lib/problem-import/duplicates';
+import { MAX_BUNDLE_QUESTIONS, questionRowFields, toBundleQuestion } from '@/lib/question-bundle/bundle';
+import {
+  CONFLICT_RESOLUTIONS,
+  planImport,
+  type ConflictResolution,
+  type ExistingQuestion,
+  type ImportReport,
+  type ImportRowReport,
+} from '@/lib/question-bundle/import-plan';
+import type { BundleRow } from '@/lib/question-bundle/types';
+
+/**
+ * Bulk import parsed bundle rows: { rows: [{ row, question }], resolution, dryRun? }
+ * Rows are validated again here, then each one is created, replaces the
+ * question it conflicts with, or is skipped. With dryRun nothing is written
+ * and the report says what would happen.
+ *
+ * Replacing a question drops its test cases, which belong to the old statement.
+ * Its review schedule, review history and hint or solution unlocks carry over:
+ * the conflict is the same problem, and that progress is the user's own.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = createServerComponentClient({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || !Array.isArray(body.rows)) {
+      return NextResponse.json({ error: 'Missing required field: rows' }, { status: 400 });
+    }
+    if (body.rows.length === 0 || body.rows.length > MAX_BUNDLE_QUESTIONS) {
+      return NextResponse.json({ error: `Import between 1 and ${MAX_BUNDLE_QUESTIONS} questions at a time` }, { status: 400 });
+    }
+    const resolution: ConflictResolution = CONFLICT_RESOLUTIONS.includes(body.resolution) ? body.resolution : 'skip';
+    const dryRun = body.dryRun === true;
+
+    const reports: ImportRowReport[] = [];
+    const rows: BundleRow[] = [];
+    body.rows.forEach((item: { row?: unknown; question?: { title?: unknown } } | null, index: number) => {
+      const row = typeof item?.row === 'string' && item.row ? item.row : `question ${index + 1}`;
+      try {
+        rows.push({ row, question: toBundleQuestion(item?.question) });
+      } catch (err) {
+        const title = typeof item?.question?.title === 'string' ? item.question.title : '';
+        reports.push({ row, title, status: 'failed', message: err instanceof Error ? err.message : String(err) });
+      }
+    });
+
+    const { data: existing, error: existingError } = await supabase
+      .from('questions_user')
+      .select('id, title, source_platform, source_id')
+      .eq('user_id', user.id);
+    if (existingError) throw new Error(`Failed to load questions: ${existingError.message}`);
+
+    for (const planned of planImport(rows, (existing ?? []) as ExistingQuestion[], resolution)) {
+      const { row, question } = planned;
+      if (planned.action === 'skip') {
+        reports.push({ row, title: question.title, status: 'skipped', questionId: planned.conflict?.id, message: planned.message });
+        continue;
+      }
+      const status = planned.action === 'create' ? 'created' : 'updated';
+      const message = planned.action === 'create' ? planned.message : `Replaces "${planned.conflict.title}"`;
+      if (dryRun) {
+        reports.push({ row, title: question.title, status, questionId: planned.action === 'update' ? planned.conflict.id : undefined, message });
+        continue;
+      }
+
+      if (planned.action === 'update') {
+        const { error: testCasesError } = await supabase
+          .from('question_test_cases')
+          .delete()
+          .eq('question_id', planned.conflict.id)
+          .eq('user_id', user.id);
+        if (testCasesError) {
+          console.error(`Error clearing test cases for ${row}:`, testCasesError);
+          reports.push({ row, title: question.title, status: 'failed', message: `Could not clear the old test cases: ${testCasesError.message}` });
+          continue;
+        }
+      }
+
+      const { data, error } = planned.action === 'create'
+        ? await supabase
+          .from('questions_user')
+          .insert({ ...questionRowFields(question), user_id: user.id, ...(question.createdAt && { created_at: question.createdAt }) })
+          .select('id')
+          .single()
+        : await supabase
+          .from('questions_user')
+          .update(questionRowFields(question))
+          .eq('id', planned.conflict.id)
+          .eq('user_id', user.id)
+          .select('id')
+          .single();
+
+      if (error || !data) {
+        console.error(`Error importing ${row}:`, error);
+        reports.push({
+          row,
+          title: question.title,
+          status: 'failed',
+          message: error?.code === UNIQUE_VIOLATION
+            ? 'This problem was imported from its platform in the meantime'
+            : `Could not save the question${error ? `: ${error.message}` : ''}`,
+        });
+        continue;
+      }
+      reports.push({ row, title: question.title, status, questionId: data.id, message });
+    }
+
+    const count = (status: ImportRowReport['status']) => reports.filter(report => report.status === status).length;
+    const report: ImportReport = {
+      dryRun,
+      summary: { created: count('created'), updated: count('updated'), skipped: count('skipped'), failed: count('failed') },
+      rows: reports,
+    };
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error importing questions:', error);
+    return NextResponse.json(
+      { error: 'Failed to import questions', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,15 @@ import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
 // Import createClient explicitly for admin operations that bypass RLS
 import { createClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
-import { generateProblemSolution } from '@/lib/gemini-api';
+import { debitQuestionProcessing, refundQuestionProcessing, type QuestionDebit } from '@/lib/credits';
+import { enqueueJob, getActiveJob, kickJobWorker } from '@/lib/jobs';
+import type { ProcessQuestionPayload } from '@/lib/process-question-job';
 
+/**
+ * Queue AI processing for a question. The credit is debited here and the
+ * work runs in the background job worker; poll GET /api/jobs/[id] or
+ * subscribe to the jobs table for the outcome.
+ */
 export async function POST(request: Request) {
   try {
     // Check if service role key is available
@@ -18,11 +25,11 @@ export async function POST(request: Request) {
     
     // Parse request body
     const body = await request.json();
-    const { questionId, title, question } = body;
+    const { questionId } = body;
     
-    if (!questionId || !title || !question) {
+    if (!questionId) {
       return NextResponse.json(
-        { error: 'Missing required fields: questionId, title, or question' },
+        { error: 'Missing required field: questionId' },
         { status: 400 }
       );
     }
@@ -55,7 +62,7 @@ export async function POST(request: Request) {
     // Check if the user owns this question
     const { data: questionData, error: questionError } = await supabase
       .from('questions_user')
-      .select('user_id')
+      .select('user_id, processing_status')
       .eq('id', questionId)
       .single();
       
@@ -73,133 +80,91 @@ export async function POST(request: Request) {
       );
     }
     
-    // Check if user has enough credits
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('credits')
-      .eq('id', user.id)
-      .single();
-      
-    if (userError || !userData) {
+    if (questionData.processing_status === 'success') {
       return NextResponse.json(
-        { error: 'Failed to retrieve user data' },
-        { status: 500 }
+        { error: 'This question has already been processed' },
+        { status: 409 }
       );
     }
     
-    if (userData.credits < 1) {
+    // Use admin client with service role key for the credit ledger and job queue,
+    // which regular users cannot write to
+    const adminSupabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+      process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    );
+    
+    // Already queued or running: hand back the same job instead of charging again
+    const activeJob = await getActiveJob(adminSupabase, questionId, 'process_question');
+    if (activeJob) {
       return NextResponse.json(
-        { error: 'Insufficient credits' },
-        { status: 402 }
+        { success: true, jobId: activeJob.id, status: activeJob.status },
+        { status: 202 }
       );
     }
     
-    // Use Gemini to analyze the question and generate hints and solution
-    let jsonResponse;
+    // Debit the credit up front; the ledger locks the user row, so concurrent
+    // requests cannot both spend the last credit. A duplicate debit means a
+    // credit from an earlier degraded run is still held for this question.
+    let debit: QuestionDebit;
     try {
-      jsonResponse = await generateProblemSolution(title, question);
-      
-      // Check if we got a "models are busy" response
-      if (jsonResponse.solution?.explanation?.includes("models are currently busy")) {
-        console.log("Models are busy, returning appropriate error");
-        return NextResponse.json(
-          { error: 'AI models are currently busy. Please try again later.' },
-          { status: 503 } // Service Unavailable
-        );
-      }
-    } catch (aiError: unknown) {
-      console.error("Error generating solution:", aiError);
-      const errorMessage = aiError instanceof Error ? aiError.message : 'Unknown error';
+      debit = await debitQuestionProcessing(adminSupabase, user.id, questionId);
+    } catch (creditError: unknown) {
+      console.error('Failed to debit credit:', creditError);
+      const errorMessage = creditError instanceof Error ? creditError.message : 'Unknown error';
       return NextResponse.json(
-        { error: 'Failed to process with AI: ' + errorMessage },
+        { error: 'Failed to deduct credit: ' + errorMessage },
         { status: 500 }
       );
     }
     
-    // Update the question in the database with the generated content
-    // Do NOT store the Gemini output in the chat column anymore
-    const { error: updateError } = await supabase
-      .from('questions_user')
-      .update({
-        hint: jsonResponse.hints || [],
-        solution: JSON.stringify(jsonResponse.solution) || "",
-        // Initialize chat as empty array if not already set
-        // This ensures we have the chat column but don't populate it with Gemini output
-        chat: []
-      })
-      .eq('id', questionId);
-      
-    if (updateError) {
-      console.error('Failed to update question with AI response:', updateError);
+    if (debit.status === 'insufficient') {
       return NextResponse.json(
-        { error: 'Failed to store AI-generated content' },
-        { status: 500 }
+        { error: 'Insufficient credits' },
+        { status: 402 }
       );
     }
     
-    // Use admin client with service role key to deduct credits directly
-    // This bypasses RLS policies and can update the credits table directly
-    const adminSupabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL || '',
-      process.env.SUPABASE_SERVICE_ROLE_KEY || '',
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        }
-      }
-    );
+    console.log(debit.status === 'duplicate'
+      ? `Reusing held credit for question ${questionId}, balance ${debit.balance}`
+      : `Credit debited for user ${user.id}, balance now ${debit.balance}`);
     
+    const payload: ProcessQuestionPayload = { debitAttempt: debit.attempt, debitEntryId: debit.entryId };
+    let job;
     try {
-      // First get the current credits using admin client
-      const { data: userCreditData, error: fetchError } = await adminSupabase
-        .from('users')
-        .select('credits')
-        .eq('id', user.id)
-        .single();
-        
-      if (fetchError || !userCreditData) {
-        console.error('Failed to fetch user credits:', fetchError);
-        return NextResponse.json(
-          { error: 'Failed to retrieve user data for credit deduction' },
-          { status: 500 }
-        );
-      }
-      
-      // Log the credit update attempt
-      console.log(`Attempting to update credits for user ${user.id} from ${userCreditData.credits} to ${userCreditData.credits - 1}`);
-      
-      // Then update with one less credit using admin client which bypasses RLS
-      const { error: creditError } = await adminSupabase
-        .from('users')
-        .update({ credits: userCreditData.credits - 1 })
-        .eq('id', user.id);
-      
-      if (creditError) {
-        console.error('Failed to deduct credit:', creditError);
-        return NextResponse.json(
-          { error: 'Failed to deduct credit: ' + creditError.message },
-          { status: 500 }
-        );
-      }
-      
-      console.log('Credit successfully deducted');
-    } catch (creditUpdateError: unknown) {
-      console.error('Exception during credit deduction:', creditUpdateError);
-      const errorMessage = creditUpdateError instanceof Error ? creditUpdateError.message : 'Unknown error';
+      ({ job } = await enqueueJob(adminSupabase, {
+        userId: user.id,
+        type: 'process_question',
+        questionId,
+        payload: { ...payload }
+      }));
+    } catch (queueError: unknown) {
+      console.error('Failed to queue question processing:', queueError);
+      await refundQuestionProcessing(adminSupabase, user.id, debit, 'enqueue_failed')
+        .catch(refundError => console.error(`Failed to refund credit for question ${questionId}:`, refundError));
       return NextResponse.json(
-        { error: 'Exception during credit deduction: ' + errorMessage },
+        { error: 'Failed to queue question for processing. Your credit has been refunded.' },
         { status: 500 }
       );
     }
     
-    // Return success response
-    return NextResponse.json({ 
-      success: true,
-      message: 'Question processed successfully',
-      hints: jsonResponse.hints,
-      solutionAvailable: !!jsonResponse.solution
-    });
+    await supabase
+      .from('questions_user')
+      .update({ processing_status: 'processing', processing_reason: null, processing_updated_at: new Date().toISOString() })
+      .eq('id', questionId);
+    
+    kickJobWorker(request.url);
+    
+    return NextResponse.json(
+      { success: true, jobId: job.id, status: job.status, credits: debit.balance },
+      { status: 202 }
+    );
   } catch (error: unknown) {
     console.error('Error processing question with AI:', error);
     const errorMessage = error instanceof Error ? error.message : 'Failed to process question';
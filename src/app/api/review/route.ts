@@ -0,0 +1,181 @@
+import { NextResponse } from 'next/server';
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { getUnlockState, toReviewAssistance, type UnlockQuestion } from '@/lib/hint-unlocks';
+import { capRatingForAssistance, isRecallRating, ratingQuality, ReviewState, scheduleReview } from '@/lib/review-scheduler';
+import { getWeakSpots } from '@/lib/weakness-model';
+
+const REVIEW_COLUMNS = 'question_id, ease_factor, interval_days, repetitions, lapses, due_at, last_reviewed_at';
+
+/**
+ * GET /api/review                -> the user's review queue (due now, weak topics first, then oldest first)
+ * GET /api/review?questionId=... -> the review state for one question
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = createServerComponentClient({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const questionId = searchParams.get('questionId');
+
+    if (questionId) {
+      const { data, error } = await supabase
+        .from('question_reviews')
+        .select(REVIEW_COLUMNS)
+        .eq('user_id', user.id)
+        .eq('question_id', questionId)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return NextResponse.json({ review: data });
+    }
+
+    const limit = Math.min(Number(searchParams.get('limit')) || 10, 50);
+    const now = new Date().toISOString();
+
+    const { data: due, error: dueError } = await supabase
+      .from('question_reviews')
+      .select(`${REVIEW_COLUMNS}, questions_user(title)`)
+      .eq('user_id', user.id)
+      .lte('due_at', now)
+      .order('due_at', { ascending: true })
+      .limit(limit);
+
+    if (dueError) throw new Error(dueError.message);
+
+    const { count: upcomingCount, error: countError } = await supabase
+      .from('question_reviews')
+      .select('question_id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .gt('due_at', now);
+
+    if (countError) throw new Error(countError.message);
+
+    const dueItems = (due || []).map(({ questions_user, ...review }) => ({
+      ...review,
+      title: (questions_user as unknown as { title: string } | null)?.title || 'Untitled problem',
+      weakTags: [] as string[],
+    }));
+
+    // Bias the queue towards the user's weak topics: due problems touching a weak tag come first
+    if (dueItems.length > 1) {
+      const weakTags = new Set((await getWeakSpots(supabase, user.id)).slice(0, 5).map(spot => spot.tag));
+
+      if (weakTags.size > 0) {
+        const { data: analyses } = await supabase
+          .from('question_mistake_analyses')
+          .select('question_id, tags')
+          .eq('user_id', user.id)
+          .in('question_id', dueItems.map(item => item.question_id));
+
+        const tagsByQuestion = new Map((analyses || []).map(a => [a.question_id as string, a.tags as string[]]));
+        for (const item of dueItems) {
+          item.weakTags = (tagsByQuestion.get(item.question_id) || []).filter(tag => weakTags.has(tag));
+        }
+        // Stable sort keeps oldest-due first within each group
+        dueItems.sort((a, b) => Number(b.weakTags.length > 0) - Number(a.weakTags.length > 0));
+      }
+    }
+
+    return NextResponse.json({
+      due: dueItems,
+      upcomingCount: upcomingCount || 0,
+    });
+  } catch (error) {
+    console.error('Error loading reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to load reviews', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Record a review: { questionId, rating: 'again' | 'hard' | 'good' | 'easy' }
+ * The rating is capped by the hints and solution sections unlocked since the
+ * last review, and those unlocks start over for the next attempt.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = createServerComponentClient({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const questionId = body?.questionId;
+    const rating = body?.rating;
+
+    if (!questionId || !isRecallRating(rating)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: questionId and a rating of again, hard, good or easy' },
+        { status: 400 }
+      );
+    }
+
+    // Make sure the question belongs to this user
+    const { data: question, error: questionError } = await supabase
+      .from('questions_user')
+      .select('id, user_id, hint, solution')
+      .eq('id', questionId)
+      .single();
+
+    if (questionError || !question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+    if (question.user_id !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized to review this question' }, { status: 403 });
+    }
+
+    const { data: previous, error: previousError } = await supabase
+      .from('question_reviews')
+      .select(REVIEW_COLUMNS)
+      .eq('user_id', user.id)
+      .eq('question_id', questionId)
+      .maybeSingle();
+
+    if (previousError) throw new Error(previousError.message);
+
+    const assistance = toReviewAssistance(await getUnlockState(supabase, question as UnlockQuestion));
+    const effectiveRating = capRatingForAssistance(rating, assistance);
+    const next = scheduleReview(previous as ReviewState | null, effectiveRating);
+
+    const { data: review, error: upsertError } = await supabase
+      .from('question_reviews')
+      .upsert({ user_id: user.id, question_id: questionId, ...next }, { onConflict: 'user_id,question_id' })
+      .select(REVIEW_COLUMNS)
+      .single();
+
+    if (upsertError) throw new Error(upsertError.message);
+
+    const { error: attemptError } = await supabase.from('review_attempts').insert({
+      user_id: user.id,
+      question_id: questionId,
+      rating: effectiveRating,
+      self_rating: rating,
+      quality: ratingQuality(effectiveRating),
+      interval_days: next.interval_days,
+      ease_factor: next.ease_factor,
+      hints_used: assistance.hintsUsed,
+      solution_viewed: assistance.solutionViewed,
+    });
+
+    // The schedule is already saved, a missing history row should not fail the request
+    if (attemptError) console.error('Failed to record review attempt:', attemptError);
+
+    return NextResponse.json({ review, rating: effectiveRating, assistance });
+  } catch (error) {
+    console.error('Error recording review:', error);
+    return NextResponse.json(
+      { error: 'Failed to record review', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
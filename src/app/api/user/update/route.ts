@@ -20,9 +20,10 @@ export async function POST(req: NextRequest) {
     // Parse the request body
     const userData = await req.json();
     
-    // Explicitly remove plan from update data to prevent direct manipulation
-    const { ...safeUpdateData } = userData;
-    // The 'plan' variable is intentionally unused to prevent it from being updated.
+    // Explicitly remove plan and credits from update data to prevent direct manipulation.
+    // Credits only change through the credit ledger (see src/lib/credits.ts).
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { plan, credits, ...safeUpdateData } = userData;
 
     // Only update allowed fields
     const { data, error } = await supabase
@@ -35,17 +36,6 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 400 });
     }
 
-    // Handle credits update only if a valid service key is provided
-    if ('credits' in userData && req.headers.get('x-service-key') === process.env.SERVICE_KEY) {
-      const { error: creditsError } = await supabase
-        .from('users')
-        .update({ credits: userData.credits })
-        .eq('id', session.user.id);
-      if (creditsError) {
-        return NextResponse.json({ error: creditsError.message }, { status: 400 });
-      }
-    }
-
     return NextResponse.json({ data });
   } catch (error) {
     console.error('Error updating user:', error);
@@ -45,6 +45,8 @@ import {
   ChevronRight,
   Menu,
   ArrowRight,
+  CalendarClock,
+  Target,
 } from "lucide-react";
 import clsx from "clsx";
 import { motion } from "framer-motion";
@@ -58,6 +60,8 @@ import UserHistoryView from "@/components/account/user-history";
 import LoginStreak from "@/components/account/login-streak";
 import QuestionUpload from "@/components/question-bank/question-upload";
 import MyQuestions from "@/components/question-bank/my-questions";
+import ReviewQueue from "@/components/question-bank/review-queue";
+import WeakSpotsView from "@/components/account/weak-spots";
 
 // --- Types ---
 type SupabaseClient = ReturnType<typeof createSupabaseBrowserClient>;
@@ -129,7 +133,7 @@ const useUserProfile = (supabase: SupabaseClient) => {
 // --- Core UI Components (Sidebar, Headers, etc. - Unchanged) ---
 
 const MobileHeader = ({ profile, onTabChange, onProfileClick, onHistoryClick, onSignOut, onBuyCredits }: { profile: UserProfile | null; onTabChange: (tab: string) => void; onProfileClick: () => void; onHistoryClick: () => void; onSignOut: () => void; onBuyCredits: () => void; }) => {
-  const navItems = [{ key: "home", label: "Dashboard", icon: <Home size={20} /> }, { key: "bank", label: "Question Bank", icon: <List size={20} /> }, { key: "problems", label: "My Problems", icon: <Code size={20} /> }];
+  const navItems = [{ key: "home", label: "Dashboard", icon: <Home size={20} /> }, { key: "bank", label: "Question Bank", icon: <List size={20} /> }, { key: "problems", label: "My Problems", icon: <Code size={20} /> }, { key: "insights", label: "Weak Spots", icon: <Target size={20} /> }];
   return (
     <header className="lg:hidden fixed top-0 left-0 right-0 h-16 bg-white/80 backdrop-blur-lg z-40 border-b border-slate-200 flex items-center justify-between px-4">
       <Dropdown backdrop="blur">
@@ -165,7 +169,7 @@ const SidebarNavItem = ({ icon, label, isActive, isCollapsed, onPress }: { icon:
 );
 
 const Sidebar = ({ activeTab, onTabChange, profile, onSignOut, onProfileClick, onHistoryClick, isCollapsed, setCollapsed }: { activeTab: string; onTabChange: (tab: string) => void; profile: UserProfile | null; onSignOut: () => void; onProfileClick: () => void; onHistoryClick: () => void; isCollapsed: boolean; setCollapsed: (isCollapsed: boolean) => void; }) => {
-  const navItems = [{ key: "home", label: "Dashboard", icon: <Home size={20} /> }, { key: "bank", label: "Question Bank", icon: <List size={20} /> }, { key: "problems", label: "My Problems", icon: <Code size={20} /> }];
+  const navItems = [{ key: "home", label: "Dashboard", icon: <Home size={20} /> }, { key: "bank", label: "Question Bank", icon: <List size={20} /> }, { key: "problems", label: "My Problems", icon: <Code size={20} /> }, { key: "insights", label: "Weak Spots", icon: <Target size={20} /> }];
   const ProfileDropdownSection = (
     <Dropdown placement={isCollapsed ? "bottom-end" : "top-end"} backdrop="blur" className="shadow-2xl border border-slate-100">
       <DropdownTrigger>
@@ -214,7 +218,7 @@ const Header = ({ profile, onBuyCredits }: { profile: UserProfile | null; onBuyC
 // --- View Components for Tabs ---
 // Each component represents the content of a specific tab for better organization.
 
-const features = [{ icon: Sparkles, text: "Curated coding questions for all levels" }, { icon: History, text: "Track your progress and login streaks" }, { icon: Code, text: "Create and manage your own problems" }];
+const features = [{ icon: Sparkles, text: "Curated coding questions for all levels" }, { icon: History, text: "Track your progress and login streaks" }, { icon: Code, text: "Create and manage your own problems" }, { icon: CalendarClock, text: "Spaced reviews of the problems you've solved" }];
 
 const DashboardHomeView = ({ profile, onTabChange }: { profile: UserProfile | null; onTabChange: (tab: string) => void; }) => (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -239,6 +243,7 @@ const DashboardHomeView = ({ profile, onTabChange }: { profile: UserProfile | nu
           </div>
         </div>
       </Card>
+      <div className="lg:col-span-3"><ReviewQueue /></div>
       <div className="lg:col-span-3"><h2 className="text-xl font-semibold text-slate-900">Activity Overview</h2><p className="text-slate-500 mt-1">Track your daily progress and login streak.</p></div>
       <Card className="lg:col-span-3 p-2 shadow-sm border border-slate-200/80">
         <LoginStreak loginTimes={profile?.login_times || []} userId={profile?.id || ""} />
@@ -400,6 +405,8 @@ export default function Dashboard() {
                 return supabase ? <QuestionBank supabase={supabase} /> : null;
             case "problems":
                 return <ProblemsWorkspace profile={profile} supabase={supabase} fetchUserProfile={fetchUserProfile} onBuyCredits={handleBuyCredits} />;
+            case "insights":
+                return <WeakSpotsView />;
             default:
                 return null;
         }
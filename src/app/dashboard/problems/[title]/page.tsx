@@ -6,16 +6,23 @@ import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { Button, Tooltip, Spinner, Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Tabs, Tab } from "@nextui-org/react";
 import { 
   ArrowLeft, Lightbulb, Code, MessageCircle, Check, Trash2, AlertCircle, 
-  Clock, BookOpen, PanelLeftClose, PanelLeftOpen, PanelRightClose, PanelRightOpen, ChevronUp, ChevronDown 
+  Clock, BookOpen, PanelLeftClose, PanelLeftOpen, PanelRightClose, PanelRightOpen, ChevronUp, ChevronDown, FlaskConical, Lock, Sparkles
 } from "lucide-react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { motion, AnimatePresence } from 'framer-motion';
-import { formatSolution } from '@/lib/question-formatter';
+import { parseStatement } from '@/lib/statement/formats';
+import { renderStatement } from '@/lib/statement/render';
 import { ProblemChat } from '@/components/question-bank/problem-chat';
+import { TestCaseEditor } from '@/components/question-bank/test-case-editor';
+import { ReviewRating } from '@/components/question-bank/review-rating';
 import { useToast } from '@/components/ui/toast';
 import { cn } from '@/lib/utils';
+import type { UnlockedContent, UnlockKind, UnlockState } from '@/lib/hint-unlocks';
+import type { AiHintPricing, HintDetail } from '@/lib/ai-hints';
+import type { ReferenceVerification } from '@/lib/reference-program';
+import { readCurrentCode } from '@/lib/code-drafts';
 
 // --- TYPE DEFINITIONS ---
 // (These remain the same as they are fundamental to the data structure)
@@ -27,16 +34,20 @@ interface SolutionSection {
   language?: string;
 }
 interface ParsedSolution { [key: string]: SolutionSection; }
+// Hints and solution are left out; only their unlocked parts come, with the unlocks
 interface UserQuestion {
   id: string;
   user_id: string;
   title: string;
   question: string;
-  hint: string[];
-  solution: string;
   created_at: string;
   chat: { role: string; content: string }[];
+  // Stored solution run against the statement's examples, once verified
+  reference_verification?: ReferenceVerification | null;
 }
+type QuestionUnlocks = UnlockState & UnlockedContent;
+
+const QUESTION_COLUMNS = 'id, user_id, title, question, created_at, chat, reference_verification';
 
 
 // --- REUSABLE & HELPER COMPONENTS ---
@@ -109,11 +120,10 @@ const ProblemHeader = ({ title, onBack, onToggleNav, isNavVisible, onDelete }: {
 /**
  * Left-side navigation panel for desktop
  */
-const SideNavigation = ({ activeTab, onTabChange, question, parsedSolution }: {
+const SideNavigation = ({ activeTab, onTabChange, unlocks }: {
   activeTab: string;
   onTabChange: (key: string) => void;
-  question: UserQuestion;
-  parsedSolution: ParsedSolution | null;
+  unlocks: QuestionUnlocks | null;
 }) => (
   <motion.nav
     initial={false}
@@ -124,8 +134,9 @@ const SideNavigation = ({ activeTab, onTabChange, question, parsedSolution }: {
   >
     {[
       { key: 'problem', icon: BookOpen, label: 'Problem', disabled: false },
-      { key: 'hints', icon: Lightbulb, label: 'Hints', disabled: !question.hint?.length },
-      { key: 'solution', icon: Code, label: 'Solution', disabled: !parsedSolution },
+      { key: 'hints', icon: Lightbulb, label: 'Hints', disabled: !unlocks?.totalHints },
+      { key: 'solution', icon: Code, label: 'Solution', disabled: !unlocks?.totalSolutionSections },
+      { key: 'tests', icon: FlaskConical, label: 'Tests', disabled: false },
     ].map((item) => (
       <Button
         key={item.key}
@@ -143,44 +154,108 @@ const SideNavigation = ({ activeTab, onTabChange, question, parsedSolution }: {
 );
 
 /**
- * Main content area that switches between Problem, Hints, and Solution
+ * Main content area that switches between Problem, Hints, Solution, and Tests
  */
-const ContentArea = ({ activeTab, onTabChange, question, parsedSolution, currentHint, onHintChange, onNextHint }: {
+const ContentArea = ({ activeTab, onTabChange, question, currentHint, onHintChange, onNextHint, unlocks, isUnlocking, onUnlock, hintDetails, hintPricing, isGeneratingHint, onGenerateHint, onReviewed }: {
   activeTab: string;
   onTabChange: (key: string) => void;
   question: UserQuestion;
-  parsedSolution: ParsedSolution | null;
   currentHint: number;
   onHintChange: (index: number) => void;
   onNextHint: () => void;
+  // Hints and solution sections revealed in the current attempt, with their content
+  unlocks: QuestionUnlocks | null;
+  isUnlocking: boolean;
+  onUnlock: (kind: UnlockKind) => void;
+  // Specificity level of each hint and the price of a generated one
+  hintDetails: HintDetail[] | null;
+  hintPricing: AiHintPricing | null;
+  isGeneratingHint: boolean;
+  onGenerateHint: () => void;
+  onReviewed: () => void;
 }) => {
   const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
 
   const renderContent = () => {
     switch (activeTab) {
-      case 'hints':
+      case 'hints': {
+        const hintsUnlocked = unlocks?.hintsUnlocked ?? 0;
+        const isLastUnlocked = currentHint >= hintsUnlocked - 1;
+        const totalHints = unlocks?.totalHints ?? 0;
+        const allHintsUnlocked = !!unlocks && hintsUnlocked >= totalHints;
+        const currentDetail = hintDetails?.[currentHint];
+        const hintCostNote = !hintPricing || hintPricing.hintsPerCredit === 0
+          ? null
+          : hintPricing.prepaidRemaining > 0
+            ? `${hintPricing.prepaidRemaining} prepaid hint${hintPricing.prepaidRemaining === 1 ? '' : 's'} left`
+            : `1 credit for the next ${hintPricing.hintsPerCredit} hints`;
         return (
           <>
             <SectionHeader>Hints</SectionHeader>
             <div className="flex flex-col gap-6 h-full">
               <div className="flex-grow border-l-4 border-blue-500 bg-blue-50 dark:bg-blue-900/20 dark:border-blue-600 rounded-r-lg p-6 md:p-8 flex items-center justify-center min-h-[200px]">
                 <AnimatePresence mode="wait">
-                  <motion.div key={currentHint} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className="text-center text-lg text-blue-800 dark:text-blue-300 font-medium">
-                    {question.hint[currentHint]}
-                  </motion.div>
+                  {hintsUnlocked > 0 ? (
+                    <motion.div key={currentHint} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className="flex flex-col items-center gap-3 text-center text-lg text-blue-800 dark:text-blue-300 font-medium">
+                      {currentDetail && (
+                        <span className="flex items-center gap-1 rounded-full bg-blue-100 dark:bg-blue-900/40 px-2.5 py-0.5 text-xs font-semibold text-blue-700 dark:text-blue-300">
+                          {currentDetail.source === 'ai' && <Sparkles size={12} />}
+                          Level {currentDetail.level}
+                        </span>
+                      )}
+                      {unlocks?.hints[currentHint]}
+                    </motion.div>
+                  ) : (
+                    <motion.div key="locked" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="flex flex-col items-center gap-2 text-center text-slate-500 dark:text-slate-400">
+                      <Lock size={28} />
+                      <p className="font-medium">Hints are locked</p>
+                      <p className="text-sm max-w-sm">Try the problem first. Each hint you unlock is counted for this attempt and affects when it comes back for review.</p>
+                    </motion.div>
+                  )}
                 </AnimatePresence>
               </div>
               <div className="flex items-center justify-between gap-4 mt-auto pt-4">
-                <div className="flex gap-2 flex-1">{question.hint.map((_, index) => (<button key={index} onClick={() => onHintChange(index)} aria-label={`Go to hint ${index + 1}`} className={cn("h-1.5 flex-1 rounded-full transition-colors", index <= currentHint ? "bg-primary" : "bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600")} />))}</div>
-                <Button size="md" variant="flat" isDisabled={currentHint >= question.hint.length - 1} onPress={onNextHint}>Next Hint</Button>
+                <div className="flex gap-2 flex-1">{Array.from({ length: totalHints }, (_, index) => (<button key={index} onClick={() => onHintChange(index)} disabled={index >= hintsUnlocked} aria-label={index < hintsUnlocked ? `Go to hint ${index + 1}` : `Hint ${index + 1} is locked`} className={cn("h-1.5 flex-1 rounded-full transition-colors", index <= currentHint && index < hintsUnlocked ? "bg-primary" : index < hintsUnlocked ? "bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600" : "bg-slate-100 dark:bg-slate-800 cursor-not-allowed")} />))}</div>
+                {!isLastUnlocked ? (
+                  <Button size="md" variant="flat" onPress={onNextHint}>Next Hint</Button>
+                ) : allHintsUnlocked ? (
+                  <div className="flex flex-col items-end gap-1">
+                    <Button size="md" variant="flat" color="primary" startContent={!isGeneratingHint && <Sparkles size={14} />} isLoading={isGeneratingHint} onPress={onGenerateHint}>
+                      Give me another hint
+                    </Button>
+                    {hintCostNote && <span className="text-xs text-slate-500 dark:text-slate-400">{hintCostNote}</span>}
+                  </div>
+                ) : (
+                  <Button size="md" variant="flat" color="primary" startContent={!isUnlocking && <Lock size={14} />} isLoading={isUnlocking} isDisabled={!unlocks} onPress={() => onUnlock('hint')}>
+                    {`Unlock Hint ${hintsUnlocked + 1}`}
+                  </Button>
+                )}
               </div>
             </div>
           </>
         );
-      case 'solution':
-        return parsedSolution ? (
+      }
+      case 'solution': {
+        if (!unlocks?.totalSolutionSections) {
+          return (
+            <div className="flex flex-col items-center justify-center h-full text-slate-500 gap-4 text-center p-8"><Code size={48} className="text-slate-400" /><p className="text-lg font-semibold">Solution Not Available</p></div>
+          );
+        }
+        const parsedSolution = unlocks.solution as ParsedSolution;
+        const hintsRemaining = unlocks.totalHints - unlocks.hintsUnlocked;
+        return (
             <>
               <SectionHeader>Solution Breakdown</SectionHeader>
+              {question.reference_verification?.status === 'failed' && (
+                <div className="flex items-start gap-3 p-4 mb-6 rounded-lg border border-amber-300 bg-amber-50 text-amber-800 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-200">
+                  <AlertCircle size={20} className="shrink-0 mt-0.5" />
+                  <p className="text-sm">
+                    {question.reference_verification.compileError
+                      ? 'The stored solution code does not compile, so it could not be checked against the examples.'
+                      : `The stored solution gives the wrong answer on ${question.reference_verification.total - question.reference_verification.passed} of ${question.reference_verification.total} examples. Treat its code with caution.`}
+                  </p>
+                </div>
+              )}
               <div className="flex flex-col gap-8">
                 {Object.keys(parsedSolution).sort().map(key => {
                   const section = parsedSolution[key];
@@ -192,11 +267,35 @@ const ContentArea = ({ activeTab, onTabChange, question, parsedSolution, current
                   );
                   return null;
                 })}
+                {unlocks.nextSectionTitle && (
+                  <div className="flex flex-col items-center gap-3 p-6 text-center rounded-lg border border-dashed border-slate-300 dark:border-slate-700 text-slate-500 dark:text-slate-400">
+                    <Lock size={24} />
+                    {hintsRemaining > 0 ? (
+                      <>
+                        <p className="text-sm max-w-sm">The solution opens after every hint. {hintsRemaining} hint{hintsRemaining === 1 ? '' : 's'} still locked.</p>
+                        <Button size="sm" variant="flat" startContent={<Lightbulb size={14} />} onPress={() => onTabChange('hints')}>Go to Hints</Button>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-sm max-w-sm">Sections are revealed one at a time. Viewing the solution counts as at most &quot;Hard&quot; when you review this problem.</p>
+                        <Button size="sm" variant="flat" color="primary" isLoading={isUnlocking} isDisabled={!unlocks} onPress={() => onUnlock('solution')}>
+                          Reveal: {unlocks.nextSectionTitle}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
             </>
-          ) : (
-            <div className="flex flex-col items-center justify-center h-full text-slate-500 gap-4 text-center p-8"><Code size={48} className="text-slate-400" /><p className="text-lg font-semibold">Solution Not Available</p></div>
           );
+      }
+      case 'tests':
+        return (
+          <>
+            <SectionHeader>Test Cases</SectionHeader>
+            <TestCaseEditor questionId={question.id} />
+          </>
+        );
       case 'problem':
       default:
         return (
@@ -207,8 +306,12 @@ const ContentArea = ({ activeTab, onTabChange, question, parsedSolution, current
               <div className="flex items-center gap-2"><Clock size={14} /><span>Created on {formatDate(question.created_at)}</span></div>
             </div>
             <h3>Problem Statement</h3>
-            <div className="not-prose text-base leading-relaxed p-5 bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-800 rounded-lg whitespace-pre-wrap font-mono text-slate-700 dark:text-slate-300">
-              {question.question}
+            <div
+              className="text-base leading-relaxed p-5 bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-800 rounded-lg text-slate-700 dark:text-slate-300"
+              dangerouslySetInnerHTML={{ __html: renderStatement(parseStatement(question.question), { title: false }) }}
+            />
+            <div className="not-prose">
+              <ReviewRating questionId={question.id} onReviewed={onReviewed} />
             </div>
           </div>
         );
@@ -221,8 +324,9 @@ const ContentArea = ({ activeTab, onTabChange, question, parsedSolution, current
         <div className="lg:hidden mb-6">
           <Tabs fullWidth aria-label="Problem sections" selectedKey={activeTab} onSelectionChange={(key) => onTabChange(key as string)} color="primary" variant="underlined">
             <Tab key="problem" title={<div className="flex items-center gap-2"><BookOpen size={16} /><span>Problem</span></div>} />
-            <Tab key="hints" title={<div className="flex items-center gap-2"><Lightbulb size={16} /><span>Hints</span></div>} isDisabled={!question.hint?.length} />
-            <Tab key="solution" title={<div className="flex items-center gap-2"><Code size={16} /><span>Solution</span></div>} isDisabled={!parsedSolution} />
+            <Tab key="hints" title={<div className="flex items-center gap-2"><Lightbulb size={16} /><span>Hints</span></div>} isDisabled={!unlocks?.totalHints} />
+            <Tab key="solution" title={<div className="flex items-center gap-2"><Code size={16} /><span>Solution</span></div>} isDisabled={!unlocks?.totalSolutionSections} />
+            <Tab key="tests" title={<div className="flex items-center gap-2"><FlaskConical size={16} /><span>Tests</span></div>} />
           </Tabs>
         </div>
         <AnimatePresence mode="wait">
@@ -325,7 +429,7 @@ const DesktopChatPanel = ({ question }: { question: UserQuestion }) => {
               {panelMode === 'ai' ? (
                 <ProblemChat question={{ ...question, chat: safeChat }} />
               ) : (
-                AcademicCodeEditor ? <AcademicCodeEditor /> : null
+                AcademicCodeEditor ? <AcademicCodeEditor questionId={question.id} /> : null
               )}
             </div>
           </motion.div>
@@ -388,12 +492,16 @@ export default function ProblemDetail() {
   const searchParams = useSearchParams();
 
   const [question, setQuestion] = useState<UserQuestion | null>(null);
-  const [parsedSolution, setParsedSolution] = useState<ParsedSolution | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   const [activeTab, setActiveTab] = useState("problem");
   const [currentHintIndex, setCurrentHintIndex] = useState(0);
+  const [unlocks, setUnlocks] = useState<QuestionUnlocks | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [hintDetails, setHintDetails] = useState<HintDetail[] | null>(null);
+  const [hintPricing, setHintPricing] = useState<AiHintPricing | null>(null);
+  const [isGeneratingHint, setIsGeneratingHint] = useState(false);
   const [isNavVisible, setIsNavVisible] = useState(true);
 
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -423,22 +531,13 @@ export default function ProblemDetail() {
           return;
         }
 
-        let query = supabase.from('questions_user').select('*').eq('user_id', user.id);
+        let query = supabase.from('questions_user').select(QUESTION_COLUMNS).eq('user_id', user.id);
         query = questionId ? query.eq('id', questionId) : query.eq('title', title);
-        const { data, error: qError } = await query.single();
+        const { data, error: qError } = await query.single<UserQuestion>();
         
         if (qError || !data) throw new Error(qError?.message || 'Question not found');
 
-        setQuestion(data as UserQuestion);
-        if (data.solution) {
-          try {
-            const formatted = formatSolution(JSON.parse(data.solution));
-            setParsedSolution(formatted as ParsedSolution);
-          } catch (err) {
-            console.error('Solution formatting error:', err);
-            setParsedSolution({ error: { sectionType: 'text', subsection: 'Formatting Error', text: 'Could not display the solution.' } });
-          }
-        }
+        setQuestion(data);
       } catch (err: unknown) {
         if (err instanceof Error) {
           setError(err.message);
@@ -452,6 +551,86 @@ export default function ProblemDetail() {
     fetchQuestion();
   }, [params, searchParams, supabase, router]);
 
+  // --- Hint and solution unlocks for the current attempt ---
+  const questionId = question?.id;
+  const fetchUnlocks = useCallback(async () => {
+    if (!questionId) return;
+    try {
+      const res = await fetch(`/api/question/${questionId}/unlocks`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load unlocks');
+      setUnlocks(data as QuestionUnlocks);
+      setCurrentHintIndex(index => Math.min(index, Math.max(0, data.hintsUnlocked - 1)));
+    } catch (err) {
+      console.error('Error loading unlocks:', err);
+    }
+  }, [questionId]);
+
+  useEffect(() => {
+    fetchUnlocks();
+  }, [fetchUnlocks]);
+
+  const fetchHintInfo = useCallback(async () => {
+    if (!questionId) return;
+    try {
+      const res = await fetch(`/api/question/${questionId}/hints`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load hints');
+      setHintDetails(data.hintDetails);
+      setHintPricing(data.pricing);
+    } catch (err) {
+      console.error('Error loading hint details:', err);
+    }
+  }, [questionId]);
+
+  useEffect(() => {
+    fetchHintInfo();
+  }, [fetchHintInfo]);
+
+  const handleGenerateHint = async () => {
+    if (!question) return;
+    setIsGeneratingHint(true);
+    try {
+      const res = await fetch(`/api/question/${question.id}/hints`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // The collaborator editor mirrors its current draft in the browser
+        body: JSON.stringify({ code: readCurrentCode(question.id) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to generate a hint');
+      setHintDetails(data.hintDetails);
+      setHintPricing(data.pricing);
+      setUnlocks(data.unlocks);
+      setCurrentHintIndex(data.hints.length - 1);
+      success("New Hint", `Level ${data.detail.level} hint added.`);
+    } catch (err: unknown) {
+      showError("Hint Failed", err instanceof Error ? err.message : "An unknown error occurred.");
+    } finally {
+      setIsGeneratingHint(false);
+    }
+  };
+
+  const handleUnlock = async (kind: UnlockKind) => {
+    if (!question) return;
+    setIsUnlocking(true);
+    try {
+      const res = await fetch(`/api/question/${question.id}/unlocks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to unlock');
+      setUnlocks(data as QuestionUnlocks);
+      if (kind === 'hint') setCurrentHintIndex(data.hintsUnlocked - 1);
+    } catch (err: unknown) {
+      showError("Unlock Failed", err instanceof Error ? err.message : "An unknown error occurred.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
   const handleDeleteQuestion = async () => {
     if (!question || !supabase) return;
     setIsDeleting(true);
@@ -510,8 +689,7 @@ export default function ProblemDetail() {
               <SideNavigation
                 activeTab={activeTab}
                 onTabChange={setActiveTab}
-                question={question}
-                parsedSolution={parsedSolution}
+                unlocks={unlocks}
               />
             )}
           </AnimatePresence>
@@ -520,10 +698,21 @@ export default function ProblemDetail() {
             activeTab={activeTab}
             onTabChange={setActiveTab}
             question={question}
-            parsedSolution={parsedSolution}
             currentHint={currentHintIndex}
             onHintChange={setCurrentHintIndex}
-            onNextHint={() => setCurrentHintIndex(prev => Math.min(prev + 1, question.hint.length - 1))}
+            onNextHint={() => setCurrentHintIndex(prev => Math.min(prev + 1, (unlocks?.hintsUnlocked ?? 0) - 1))}
+            unlocks={unlocks}
+            isUnlocking={isUnlocking}
+            onUnlock={handleUnlock}
+            hintDetails={hintDetails}
+            hintPricing={hintPricing}
+            isGeneratingHint={isGeneratingHint}
+            onGenerateHint={handleGenerateHint}
+            onReviewed={() => {
+              // A review closes the attempt; hints and solution lock again for the next one
+              setCurrentHintIndex(0);
+              fetchUnlocks();
+            }}
           />
           
           <DesktopChatPanel question={question} />
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Button, Tabs, Tab, Chip, Tooltip, Progress } from "@nextui-org/react";
 import { ArrowLeft, Lightbulb, Code, LightbulbOff, Sparkles, Copy, Check, RefreshCw, MessageSquare, GripVertical, PanelLeftClose, PanelLeftOpen, ChevronUp } from "lucide-react";
@@ -10,6 +10,8 @@ import SyntaxHighlighter from 'react-syntax-highlighter';
 import { atomOneDark } from 'react-syntax-highlighter/dist/esm/styles/hljs';
 import { motion, AnimatePresence } from 'framer-motion';
 import { parseQuestionText, formatSolution, FormattedQuestion } from '@/lib/question-formatter';
+import { parseStatement, renderRichText } from '@/lib/statement/formats';
+import { renderSections, renderStatement } from '@/lib/statement/render';
 import { QuestionChat } from '@/components/question-bank/question-chat';
 import clsx from 'clsx';
 
@@ -368,10 +370,17 @@ function NotFoundState() {
 }
 
 function ProblemSection({ formattedQuestion, question }: { formattedQuestion: FormattedQuestion | null, question: Question | null }) {
+    const statement = useMemo(() => (question?.question ? parseStatement(question.question) : null), [question?.question]);
+
     if (!formattedQuestion && !question?.question) {
         return <div className="text-center py-8 text-slate-500">No problem description available.</div>;
     }
 
+    // Notes are shown in their own callout below
+    const descriptionHtml = statement
+        ? renderSections(statement.sections.filter(section => section.kind !== 'notes' && section.kind !== 'follow_up'))
+        : '';
+
     return (
         <div className="prose prose-lg max-w-none dark:prose-invert prose-slate dark:prose-zinc">
             <h1>{formattedQuestion?.title || question?.title}</h1>
@@ -385,7 +394,7 @@ function ProblemSection({ formattedQuestion, question }: { formattedQuestion: Fo
 
             {formattedQuestion ? (
                 <div className="space-y-10">
-                    <div dangerouslySetInnerHTML={{ __html: formattedQuestion.description }} />
+                    <div dangerouslySetInnerHTML={{ __html: descriptionHtml }} />
                     {formattedQuestion.examples && formattedQuestion.examples.length > 0 && (
                         <div>
                             <h3 className="font-semibold">Examples</h3>
@@ -419,7 +428,7 @@ function ProblemSection({ formattedQuestion, question }: { formattedQuestion: Fo
                     )}
                 </div>
             ) : (
-                <div dangerouslySetInnerHTML={{ __html: question?.question || '' }} />
+                <div dangerouslySetInnerHTML={{ __html: statement ? renderStatement(statement, { title: false }) : '' }} />
             )}
         </div>
     );
@@ -490,7 +499,7 @@ function SolutionSection({ parsedSolution, question, copyToClipboard, copied }:
             return (
               <div key={key}>
                 {section.subsection && <h3 className="font-semibold">{section.subsection}</h3>}
-                {section.text && <div dangerouslySetInnerHTML={{ __html: section.text }} />}
+                {section.text && <div dangerouslySetInnerHTML={{ __html: renderRichText(section.text) }} />}
                 {section.code && (
                   <div className="not-prose relative my-6">
                     <Tooltip content={copied === sectionId ? "Copied!" : "Copy code"}>
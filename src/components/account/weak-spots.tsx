@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Button, Card, CardBody, Chip, Progress, Spinner } from "@nextui-org/react";
+import { Target, RefreshCw, TrendingDown } from "lucide-react";
+import type { MistakeCategory, WeakSpot } from "@/lib/weakness-model";
+
+// Kept in sync with MISTAKE_LABELS in the weakness model, which is server-only
+const mistakeLabels: Record<MistakeCategory, string> = {
+  off_by_one: "Off-by-one",
+  wrong_complexity: "Complexity",
+  missed_edge_case: "Edge cases",
+  wrong_data_structure: "Data structure",
+};
+
+const JOB_POLL_INTERVAL_MS = 3000;
+
+/**
+ * "My weak spots" view: mistake categories per topic, built from collaborator attempts and chat history
+ */
+export default function WeakSpotsView() {
+  const [weakSpots, setWeakSpots] = useState<WeakSpot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [pending, setPending] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWeakSpots = useCallback(async () => {
+    try {
+      const res = await fetch("/api/insights/weakness");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load weak spots");
+      setWeakSpots(data.weakSpots);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load weak spots");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWeakSpots();
+  }, [fetchWeakSpots]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/insights/weakness", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to refresh weak spots");
+
+      // The refresh runs as a background job; wait for it to settle
+      for (;;) {
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+        const jobRes = await fetch(`/api/jobs/${data.jobId}`);
+        const { job } = await jobRes.json();
+        if (!jobRes.ok) throw new Error("Failed to check the refresh");
+        if (job.status === "failed") throw new Error(job.last_error || "Failed to refresh weak spots");
+        if (job.status === "succeeded") {
+          setPending(job.result?.pending ?? 0);
+          break;
+        }
+      }
+      await fetchWeakSpots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to refresh weak spots");
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const maxScore = Math.max(...weakSpots.map(spot => spot.score), 1);
+
+  return (
+    <div className="flex flex-col gap-6 w-full">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-bold tracking-tight text-slate-900">My Weak Spots</h2>
+          <p className="mt-2 max-w-2xl text-sm md:text-base text-slate-500">
+            Recurring mistakes from your editor attempts and AI chats, grouped by topic. Hints and review recommendations focus on these areas.
+          </p>
+        </div>
+        <Button
+          variant="flat"
+          color="primary"
+          startContent={!isRefreshing && <RefreshCw size={16} />}
+          isLoading={isRefreshing}
+          onPress={handleRefresh}
+          className="flex-shrink-0"
+        >
+          Re-analyze Attempts
+        </Button>
+      </div>
+
+      {pending > 0 && (
+        <p className="text-sm text-amber-600">{pending} more problem{pending === 1 ? " is" : "s are"} still being analyzed in the background.</p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16"><Spinner /></div>
+      ) : weakSpots.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-xl border border-dashed border-slate-300 bg-slate-50/80 py-16 px-4 text-center">
+          <div className="mb-4 rounded-full bg-slate-200/60 p-4"><Target size={28} className="text-slate-500" /></div>
+          <h3 className="text-lg font-semibold text-slate-800">No weak spots yet</h3>
+          <p className="mt-1 max-w-sm text-slate-500">Analyse your code in the editor or chat with the AI on your problems, then re-analyze to see patterns here.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {weakSpots.map((spot, index) => (
+            <Card key={spot.tag} className="shadow-sm border border-slate-200/80">
+              <CardBody className="p-5 gap-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    {index < 3 && <TrendingDown size={18} className="text-red-500" />}
+                    <h3 className="font-semibold text-slate-800 capitalize">{spot.tag}</h3>
+                  </div>
+                  <span className="text-xs text-slate-500">{spot.question_count} problem{spot.question_count === 1 ? "" : "s"}</span>
+                </div>
+                <Progress
+                  size="sm"
+                  aria-label={`${spot.tag} weakness score`}
+                  value={(spot.score / maxScore) * 100}
+                  color={index < 3 ? "danger" : "warning"}
+                />
+                <div className="flex flex-wrap gap-2">
+                  {(Object.entries(spot.mistakes) as [MistakeCategory, number][])
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([category, count]) => (
+                      <Chip key={category} size="sm" variant="flat">
+                        {mistakeLabels[category]} · {count}
+                      </Chip>
+                    ))}
+                </div>
+              </CardBody>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { X, Loader2, RotateCcw, History } from 'lucide-react';
+import type { Attempt } from '@/lib/attempt-history';
+import { diffLines, diffStats, toSplitRows, type DiffLine } from '@/lib/code-diff';
+
+interface AttemptTimelineProps {
+  attempts: Attempt[];
+  // Editor contents, offered as a comparison target
+  currentCode: string;
+  isLoading: boolean;
+  error: string | null;
+  onRestore: (attempt: Attempt) => void;
+  onClose: () => void;
+}
+
+type DiffView = 'unified' | 'split';
+
+// What the selected attempt is compared against: another attempt's index, or the editor
+type CompareTarget = number | 'current';
+
+const lineStyles: Record<DiffLine['type'], string> = {
+  same: 'text-gray-700',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+const linePrefix: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+const formatTime = (createdAt: string | null) =>
+  createdAt ? new Date(createdAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : null;
+
+const DiffCell = ({ line, number }: { line?: DiffLine; number?: number }) => (
+  <div className={`flex min-w-0 ${line ? lineStyles[line.type] : 'bg-gray-50'}`}>
+    <span className="w-10 shrink-0 pr-2 text-right text-gray-400 select-none">{number ?? ''}</span>
+    <span className="whitespace-pre-wrap break-all">{line?.text ?? ''}</span>
+  </div>
+);
+
+export function AttemptTimeline({ attempts, currentCode, isLoading, error, onRestore, onClose }: AttemptTimelineProps) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [compareTarget, setCompareTarget] = useState<CompareTarget | null>(null);
+  const [view, setView] = useState<DiffView>('unified');
+
+  // Default to the latest attempt compared with the one before it
+  const position = selectedIndex === null ? attempts.length - 1 : attempts.findIndex(a => a.index === selectedIndex);
+  const selected = position >= 0 ? attempts[position] : undefined;
+  const previous = position > 0 ? attempts[position - 1] : undefined;
+  const target = compareTarget ?? previous?.index ?? 'current';
+  const base = target === 'current' ? undefined : attempts.find(a => a.index === target);
+
+  // Older code on the left: an earlier attempt, or the selected attempt when compared with the editor
+  const [oldCode, newCode, oldLabel, newLabel] = useMemo(() => {
+    if (!selected) return ['', '', '', ''];
+    if (target === 'current') return [selected.code, currentCode, `Attempt ${selected.index + 1}`, 'Editor'];
+    const other = base?.code ?? '';
+    const otherLabel = `Attempt ${target + 1}`;
+    return target < selected.index
+      ? [other, selected.code, otherLabel, `Attempt ${selected.index + 1}`]
+      : [selected.code, other, `Attempt ${selected.index + 1}`, otherLabel];
+  }, [selected, base, target, currentCode]);
+
+  const diff = useMemo(() => diffLines(oldCode, newCode), [oldCode, newCode]);
+  const stats = diffStats(diff);
+
+  // Lines changed from the previous attempt, shown in the list
+  const attemptStats = useMemo(
+    () => attempts.map((attempt, i) => diffStats(diffLines(i > 0 ? attempts[i - 1].code : '', attempt.code))),
+    [attempts]
+  );
+
+  return (
+    <div className="flex-shrink-0 max-h-[55%] flex flex-col border-t border-gray-200 bg-white">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+          <History size={16} />
+          Attempt History
+          {attempts.length > 0 && (
+            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{attempts.length}</span>
+          )}
+        </div>
+        <button onClick={onClose} title="Close attempt history" className="p-1 rounded-md text-gray-500 hover:bg-gray-100">
+          <X size={16} />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 p-4 text-sm text-gray-500">
+          <Loader2 size={16} className="animate-spin" />
+          Loading attempts...
+        </div>
+      ) : error ? (
+        <div className="p-3 text-sm text-red-700 bg-red-50">{error}</div>
+      ) : !selected ? (
+        <div className="p-4 text-sm text-gray-500">No attempts yet. Each analysis saves the code as an attempt.</div>
+      ) : (
+        <div className="flex min-h-0 flex-grow">
+          {/* Timeline */}
+          <ol className="w-56 shrink-0 overflow-y-auto border-r border-gray-100 py-1">
+            {[...attempts].reverse().map(attempt => {
+              const attemptStat = attemptStats[attempts.indexOf(attempt)];
+              return (
+                <li key={attempt.index}>
+                  <button
+                    onClick={() => {
+                      setSelectedIndex(attempt.index);
+                      setCompareTarget(null);
+                    }}
+                    className={`w-full text-left px-3 py-2 text-xs hover:bg-gray-50 ${attempt === selected ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-gray-800">Attempt {attempt.index + 1}</span>
+                      <span className="font-mono">
+                        <span className="text-green-700">+{attemptStat.added}</span>{' '}
+                        <span className="text-red-700">-{attemptStat.removed}</span>
+                      </span>
+                    </div>
+                    {formatTime(attempt.createdAt) && <div className="text-gray-400">{formatTime(attempt.createdAt)}</div>}
+                    <p className="mt-1 text-gray-600 line-clamp-2">{attempt.review.reason}</p>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+
+          {/* Selected attempt */}
+          <div className="flex min-w-0 flex-grow flex-col">
+            <div className="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-gray-100 text-xs">
+              <label className="flex items-center gap-2 text-gray-600">
+                Compare with
+                <select
+                  value={String(target)}
+                  onChange={e => setCompareTarget(e.target.value === 'current' ? 'current' : Number(e.target.value))}
+                  className="px-2 py-1 rounded bg-gray-100 text-gray-700 border border-gray-200 outline-none"
+                >
+                  {attempts.filter(a => a !== selected).map(a => (
+                    <option key={a.index} value={a.index}>Attempt {a.index + 1}</option>
+                  ))}
+                  <option value="current">Current editor</option>
+                </select>
+              </label>
+              <div className="flex rounded border border-gray-200 overflow-hidden">
+                {(['unified', 'split'] as DiffView[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-2 py-1 capitalize ${view === option ? 'bg-gray-800 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+              <span className="font-mono">
+                <span className="text-green-700">+{stats.added}</span>{' '}
+                <span className="text-red-700">-{stats.removed}</span>
+              </span>
+              <button
+                onClick={() => onRestore(selected)}
+                className="ml-auto flex items-center gap-1.5 px-2 py-1 rounded-md font-medium text-blue-600 border border-blue-200 bg-blue-50 hover:bg-blue-100"
+              >
+                <RotateCcw size={14} />
+                Restore Attempt {selected.index + 1}
+              </button>
+            </div>
+
+            <div className="px-3 py-2 border-b border-gray-100 text-xs text-gray-700">
+              <span className="font-semibold">AI reason: </span>
+              {selected.review.reason}
+              {selected.review.summary && <p className="mt-1 text-gray-500 whitespace-pre-wrap">{selected.review.summary}</p>}
+            </div>
+
+            <div className="min-h-0 flex-grow overflow-auto font-mono text-xs leading-5">
+              {stats.added === 0 && stats.removed === 0 ? (
+                <p className="p-3 font-sans text-gray-500">{oldLabel} and {newLabel} are identical.</p>
+              ) : view === 'unified' ? (
+                <div className="py-1">
+                  <div className="px-2 pb-1 font-sans font-semibold text-gray-500">{oldLabel} → {newLabel}</div>
+                  {diff.map((line, i) => (
+                    <div key={i} className={`flex ${lineStyles[line.type]}`}>
+                      <span className="w-10 shrink-0 pr-2 text-right text-gray-400 select-none">{line.oldLine ?? ''}</span>
+                      <span className="w-10 shrink-0 pr-2 text-right text-gray-400 select-none">{line.newLine ?? ''}</span>
+                      <span className="w-4 shrink-0 select-none">{linePrefix[line.type]}</span>
+                      <span className="whitespace-pre-wrap break-all">{line.text}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 py-1">
+                  <div className="px-2 pb-1 font-sans font-semibold text-gray-500">{oldLabel}</div>
+                  <div className="px-2 pb-1 font-sans font-semibold text-gray-500 border-l border-gray-100">{newLabel}</div>
+                  {toSplitRows(diff).map((row, i) => (
+                    <React.Fragment key={i}>
+                      <DiffCell line={row.left} number={row.left?.oldLine} />
+                      <div className="border-l border-gray-100"><DiffCell line={row.right} number={row.right?.newLine} /></div>
+                    </React.Fragment>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import React from 'react';
+import { Gauge, Loader2, X } from 'lucide-react';
+import type { BenchmarkResult, BenchmarkVerdict } from '@/lib/benchmark';
+import { formatComplexity } from '@/lib/complexity-fit';
+
+interface BenchmarkPanelProps {
+  result: BenchmarkResult | null;
+  error: string | null;
+  isRunning: boolean;
+  onClose: () => void;
+}
+
+const verdictStyles: Record<BenchmarkVerdict, string> = {
+  matches_optimal: 'text-green-800 bg-green-50 border-green-200',
+  slower_than_optimal: 'text-amber-800 bg-amber-50 border-amber-200',
+  timed_out: 'text-red-800 bg-red-50 border-red-200',
+  inconclusive: 'text-gray-700 bg-gray-50 border-gray-200',
+  compile_error: 'text-red-800 bg-red-50 border-red-200',
+  runtime_error: 'text-orange-800 bg-orange-50 border-orange-200',
+};
+
+export function BenchmarkPanel({ result, error, isRunning, onClose }: BenchmarkPanelProps) {
+  const slowest = result ? Math.max(...result.samples.map(s => s.timeMs), 1) : 1;
+
+  return (
+    <div className="flex-shrink-0 max-h-[45%] flex flex-col border-t border-gray-200 bg-white">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+          <Gauge size={16} />
+          Complexity Benchmark
+          {result?.measured && (
+            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+              {formatComplexity(result.measured)}
+            </span>
+          )}
+        </div>
+        <button onClick={onClose} title="Close benchmark" className="p-1 rounded text-gray-500 hover:bg-gray-100">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-3 space-y-3">
+        {isRunning && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 size={16} className="animate-spin" />
+            Timing your code on inputs of growing size...
+          </div>
+        )}
+
+        {!isRunning && error && (
+          <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">{error}</div>
+        )}
+
+        {!isRunning && result && (
+          <>
+            <div className={`text-sm border rounded p-2 ${verdictStyles[result.verdict]}`}>{result.message}</div>
+
+            {result.stderr && (
+              <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-2 whitespace-pre-wrap break-words max-h-40 overflow-auto">
+                {result.stderr}
+              </pre>
+            )}
+
+            {(result.claimed.optimal || result.claimed.bruteForce) && (
+              <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+                {result.claimed.bruteForce && <span>Brute force: <span className="font-mono">{result.claimed.bruteForce.text}</span></span>}
+                {result.claimed.optimal && <span>Optimal: <span className="font-mono">{result.claimed.optimal.text}</span></span>}
+              </div>
+            )}
+
+            {result.samples.length > 0 && (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-3 font-semibold">n ({result.sizeParameter})</th>
+                    <th className="py-1 pr-3 font-semibold">Time</th>
+                    <th className="py-1 w-1/2" />
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-gray-700">
+                  {result.samples.map(sample => (
+                    <tr key={sample.n}>
+                      <td className="py-0.5 pr-3">{sample.n.toLocaleString()}</td>
+                      <td className="py-0.5 pr-3">{sample.timeMs} ms</td>
+                      <td className="py-0.5">
+                        <div className="h-2 rounded bg-blue-400" style={{ width: `${(sample.timeMs / slowest) * 100}%` }} />
+                      </td>
+                    </tr>
+                  ))}
+                  {result.timedOutAt !== null && (
+                    <tr className="text-red-700">
+                      <td className="py-0.5 pr-3">{result.timedOutAt.toLocaleString()}</td>
+                      <td className="py-0.5 pr-3" colSpan={2}>time limit exceeded</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
+
+            <p className="text-[11px] text-gray-400">
+              Times include process start-up and vary between runs; the fitted class is an estimate.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
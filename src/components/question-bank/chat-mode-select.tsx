@@ -0,0 +1,55 @@
+"use client";
+
+import React from 'react';
+import { Select, SelectItem } from "@nextui-org/react";
+import { BookOpen, Code2, HelpCircle, Lightbulb } from "lucide-react";
+import type { ChatMode, TutorMode } from '@/lib/chat-session';
+
+interface ChatModeSelectProps {
+  mode: TutorMode;
+  // Modes the user's plan allows; the rest are shown disabled
+  allowedModes: ChatMode[];
+  onChange: (mode: TutorMode) => void;
+  isDisabled?: boolean;
+}
+
+export const TUTOR_MODE_OPTIONS: { mode: TutorMode; label: string; description: string; icon: React.ReactNode }[] = [
+  { mode: 'socratic', label: 'Socratic', description: 'Guiding questions, reveals little', icon: <HelpCircle size={14} /> },
+  { mode: 'hintOnly', label: 'Hints only', description: 'Never shows solution code', icon: <Lightbulb size={14} /> },
+  { mode: 'codeReview', label: 'Code review', description: 'Paste your code for feedback', icon: <Code2 size={14} /> },
+  { mode: 'fullExplanation', label: 'Full explanation', description: 'Complete walkthrough with code, unlocks the solution', icon: <BookOpen size={14} /> },
+];
+
+/**
+ * Tutor mode picker for the chat panels; the server enforces the same modes per plan
+ */
+export function ChatModeSelect({ mode, allowedModes, onChange, isDisabled }: ChatModeSelectProps) {
+  const disabledKeys = TUTOR_MODE_OPTIONS
+    .filter(option => !allowedModes.includes(option.mode))
+    .map(option => option.mode);
+
+  return (
+    <Select
+      aria-label="Tutor mode"
+      size="sm"
+      className="w-44"
+      selectedKeys={[mode]}
+      disabledKeys={disabledKeys}
+      isDisabled={isDisabled}
+      onSelectionChange={keys => {
+        const selected = Array.from(keys)[0];
+        if (selected) onChange(selected as TutorMode);
+      }}
+    >
+      {TUTOR_MODE_OPTIONS.map(option => (
+        <SelectItem
+          key={option.mode}
+          startContent={option.icon}
+          description={disabledKeys.includes(option.mode) ? 'Upgrade your plan to use this mode' : option.description}
+        >
+          {option.label}
+        </SelectItem>
+      ))}
+    </Select>
+  );
+}
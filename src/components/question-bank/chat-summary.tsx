@@ -0,0 +1,40 @@
+"use client";
+
+import React, { useState } from 'react';
+import { History, ChevronDown, ChevronUp } from "lucide-react";
+import ReactMarkdown from 'react-markdown';
+
+interface ChatSummaryProps {
+  summary: string | null;
+}
+
+/**
+ * Collapsible note with the summary of earlier turns the tutor still remembers
+ */
+export function ChatSummary({ summary }: ChatSummaryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!summary) return null;
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white/60 dark:bg-slate-900/40 text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex w-full items-center justify-between gap-2 px-3 py-2 text-slate-600 dark:text-slate-300"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2 font-medium">
+          <History size={14} />
+          Earlier in this conversation
+        </span>
+        {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+      {isOpen && (
+        <div className="prose prose-sm prose-slate dark:prose-invert max-w-none px-3 pb-3">
+          <ReactMarkdown>{summary}</ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+}
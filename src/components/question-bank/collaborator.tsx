@@ -2,15 +2,40 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Highlight, themes, type Language } from 'prism-react-renderer';
-import { Download, BrainCircuit } from 'lucide-react';
-import { useMistralChat } from '@/lib/mistral-api';
+import { Download, BrainCircuit, Play, X, Wand2, History, RotateCcw, Gauge, FlaskConical } from 'lucide-react';
+import { chatWithMistral } from '@/lib/mistral-api';
+import {
+  applyFindingFix,
+  numberLines,
+  parseCodeReview,
+  shiftFindings,
+  type CodeReview,
+  type ReviewFinding,
+  type ReviewSeverity,
+} from '@/lib/code-review';
 // Assuming these are correctly set up for client-side usage
 import { createSupabaseBrowserClient } from '@/lib/supabase/client';
 import { useParams } from 'next/navigation';
+import { TestPanel } from '@/components/question-bank/test-panel';
+import { BenchmarkPanel } from '@/components/question-bank/benchmark-panel';
+import { StressTestPanel } from '@/components/question-bank/stress-test-panel';
+import { AttemptTimeline } from '@/components/question-bank/attempt-timeline';
+import { toAttempts, type Attempt, type StoredAttempts } from '@/lib/attempt-history';
+import type { RunResult, SandboxLanguage } from '@/lib/sandbox/types';
+import type { BenchmarkResult } from '@/lib/benchmark';
+import type { StressTestResult } from '@/lib/stress-test';
+import { useCodeDrafts, type DraftStatus } from '@/lib/draft-sync';
 
-const initialCode = `// Welcome to your collaborative editor.
-// Start writing your masterpiece.
+/**
+ * What a language's draft shows before anything is typed, when the question
+ * has no starter program for it.
+ */
+const initialCode = (language: string): string => {
+  const comment = language === 'python' ? '#' : '//';
+  return `${comment} Welcome to your collaborative editor.
+${comment} Start writing your masterpiece.
 `;
+};
 
 /**
  * A map to get the correct file extension for a given language.
@@ -29,83 +54,107 @@ const languageExtensions: Partial<Record<Language, string>> = {
   rust: 'rs',
 };
 
-const AI_ANALYSIS_HEADER = '// --- AI Analysis ---';
+/**
+ * Editor languages the code runner can execute, mapped to the sandbox language.
+ */
+const runnableLanguages: Partial<Record<Language, SandboxLanguage>> = {
+  javascript: 'javascript',
+  jsx: 'javascript',
+  typescript: 'typescript',
+  tsx: 'typescript',
+  python: 'python',
+  cpp: 'cpp',
+  java: 'java',
+};
 
 /**
- * Removes previous AI analysis comments from the code string.
- * @param code The full code string from the editor.
- * @returns The code with the AI analysis block removed.
+ * Gutter marker, line tint and label for each review severity.
  */
-const stripAiComments = (code: string): string => {
-  const analysisStartIndex = code.indexOf(AI_ANALYSIS_HEADER);
-  if (analysisStartIndex !== -1) {
-    // Trim trailing whitespace from the user's code
-    return code.substring(0, analysisStartIndex).trimEnd();
-  }
-  return code;
+const severityStyles: Record<ReviewSeverity, { marker: string; line: string; label: string }> = {
+  error: { marker: 'bg-red-500', line: 'bg-red-50', label: 'text-red-700' },
+  warning: { marker: 'bg-amber-400', line: 'bg-amber-50', label: 'text-amber-700' },
+  info: { marker: 'bg-blue-400', line: 'bg-blue-50', label: 'text-blue-700' },
+};
+
+const draftStatusStyles: Record<DraftStatus, { dot: string; title: string }> = {
+  loading: { dot: 'bg-gray-300', title: 'Loading draft...' },
+  saved: { dot: 'bg-green-500', title: 'Draft saved' },
+  unsaved: { dot: 'bg-yellow-400', title: 'Unsaved changes' },
+  saving: { dot: 'bg-yellow-400 animate-pulse', title: 'Saving draft...' },
+  conflict: { dot: 'bg-red-500', title: 'Draft changed on another device' },
+  error: { dot: 'bg-red-500', title: 'Draft not synced; kept in this browser' },
 };
 
 /**
- * Parses the LLM's string response, attempting to extract a JSON object.
- * @param llmReply The raw string reply from the LLM.
- * @returns A parsed object, or a default error object.
+ * Guess the language from what was typed, or null when nothing matches.
  */
-const parseLlmResponse = (llmReply: string | null): { analysis: string; reason: string; error?: string } => {
-  if (!llmReply) {
-    return { analysis: '', reason: '', error: 'No LLM response received.' };
-  }
-
-  try {
-    // Try to extract a JSON block from the string
-    const jsonMatch = llmReply.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      // The prompt expects a JSON with keys "0" (analysis) and "1" (reason)
-      return {
-        analysis: parsed['0'] || '',
-        reason: parsed['1'] || 'No reason provided.',
-      };
-    }
-  } catch{
-    // If parsing fails, treat the entire reply as the analysis for robustness.
-    return {
-      analysis: `${llmReply}`,
-      reason: 'Response parsing failed.',
-      error: 'Error parsing JSON from LLM response.',
-    };
-  }
-
-  // Fallback if no JSON is found
-  return {
-    analysis: llmReply,
-    reason: 'Response was not in the expected JSON format.',
-    error: 'No JSON object found in LLM response.',
-  };
+const detectLanguage = (code: string): Language | null => {
+  const trimmedCode = code.trim();
+  if (/^#include|int\s+main\s*\(|std::/i.test(trimmedCode)) return 'cpp';
+  if (/^public\s+class|System\.out\.println/i.test(trimmedCode)) return 'java';
+  if (/^def\s|print\(|import\s+/i.test(trimmedCode)) return 'python';
+  if (/<[a-z][\s\S]*>/i.test(trimmedCode)) return 'html';
+  if (/\.[a-zA-Z0-9-]+\s*\{/i.test(trimmedCode)) return 'css';
+  if (/package main|func main/i.test(trimmedCode)) return 'go';
+  if (/fn main|use std::/i.test(trimmedCode)) return 'rust';
+  if (/`jsx`|=>\s*\(</i.test(trimmedCode)) return 'tsx';
+  if (/function\s|console\.log|const\s|let\s/i.test(trimmedCode)) return 'javascript';
+  return null;
 };
 
+// Line of the textarea caret, 1-based
+const caretLine = (text: string, caret: number): number => text.slice(0, caret).split('\n').length;
 
-const AcademicCodeEditor = () => {
-  const [code, setCode] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('collab_code') || initialCode;
-    }
-    return initialCode;
+
+interface AcademicCodeEditorProps {
+  questionId: string;
+}
+
+const AcademicCodeEditor = ({ questionId }: AcademicCodeEditorProps) => {
+  // One draft per language, synced to the server (see lib/draft-sync)
+  const drafts = useCodeDrafts(questionId, {
+    languages: Object.keys(languageExtensions),
+    defaultLanguage: 'javascript',
+    initialCode,
   });
+  const { code, setCode, switchLanguage, relabelLanguage } = drafts;
+  const language = drafts.language as Language;
 
+  // Changed since the last analysis
   const [isUnsaved, setIsUnsaved] = useState(false);
-  const [language, setLanguage] = useState<Language>('javascript');
+  // Once the user picks a language explicitly, stop auto-detecting it
+  const [isLanguageLocked, setIsLanguageLocked] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runResult, setRunResult] = useState<RunResult | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [isTestPanelOpen, setIsTestPanelOpen] = useState(false);
+  const [isBenchmarking, setIsBenchmarking] = useState(false);
+  const [benchmarkResult, setBenchmarkResult] = useState<BenchmarkResult | null>(null);
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
+  const [isBenchmarkOpen, setIsBenchmarkOpen] = useState(false);
+  const [isStressTesting, setIsStressTesting] = useState(false);
+  const [stressResult, setStressResult] = useState<StressTestResult | null>(null);
+  const [stressError, setStressError] = useState<string | null>(null);
+  const [isStressTestOpen, setIsStressTestOpen] = useState(false);
   const [isAnalysing, setIsAnalysing] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [review, setReview] = useState<CodeReview | null>(null);
+  // Finding whose hover card is open
+  const [activeFinding, setActiveFinding] = useState<ReviewFinding | null>(null);
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
 
   // --- Hooks and Client-side dependencies ---
   // Memoize to prevent re-creation on every render
   const supabase = useMemo(() => createSupabaseBrowserClient(), []);
   const params = useParams();
   const problemTitle = useMemo(() => params?.title ? decodeURIComponent(params.title as string) : '', [params.title]);
-  const { sendMessage, messages } = useMistralChat(problemTitle);
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const preRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
 
   /**
    * Main analysis handler
@@ -113,14 +162,15 @@ const AcademicCodeEditor = () => {
   const handleAnalyse = useCallback(async () => {
     setIsAnalysing(true);
     setAnalysisError(null);
+    setActiveFinding(null);
 
-    const userCodeToAnalyse = stripAiComments(code);
+    const userCodeToAnalyse = code;
 
     try {
       // 1. Get question data from Supabase
       const { data: questionRow, error: questionError } = await supabase
         .from('questions_user')
-        .select('*')
+        .select('id, collaborator_chat, tdiff')
         .eq('title', problemTitle)
         .single();
 
@@ -128,77 +178,44 @@ const AcademicCodeEditor = () => {
         throw new Error(`Question "${problemTitle}" not found or failed to load.`);
       }
 
-      // 2. Load the prompt template
-      let promptTemplate = '';
-      try {
-        const promptRes = await fetch('/data/prompts/mistral.json');
-        promptTemplate = (await promptRes.json())['questionChatWithHistory'] || '';
-      } catch (e) {
-        console.warn('Could not load prompt template, proceeding without it.', e);
-      }
-      
-      const prevCollabChat = Array.isArray(questionRow.collaborator_chat) ? questionRow.collaborator_chat : [];
-      const historyString = prevCollabChat.map((c: string, idx: number) => `Attempt ${idx + 1}:\n${c}`).join('\n\n');
-
-      // 3. Construct the full prompt for the LLM
-      const prompt = promptTemplate
-        .replace(/{title}/g, questionRow.title)
-        .replace(/{question}/g, questionRow.question)
-        .replace(/{hint}/g, Array.isArray(questionRow.hint) ? questionRow.hint.join('\n') : '')
-        .replace(/{solution}/g, questionRow.solution || '')
-        .replace(/{history}/g, historyString)
-        .replace(/{query}/g, `User's Current Code:\n${userCodeToAnalyse}`);
-        
-      // 4. Send the message and wait for the response
-      // This part now relies on the `messages` state from the `useMistralChat` hook being updated.
-      const initialMessageCount = messages.length;
-      await sendMessage(prompt, {
-        title: '',
-        question: '',
-        hint: [],
-        solution: ''
-      }, 'codeAnalysis');
-
-      // Poll for the new assistant message
-      let llmReply: string | null = null;
-      for (let i = 0; i < 20; i++) { // Poll for 6 seconds (20 * 300ms)
-        const currentChatHistory = JSON.parse(localStorage.getItem(`chat_history_${problemTitle}`) || '[]');
-        if (currentChatHistory.length > initialMessageCount) {
-          const lastMsg = currentChatHistory[currentChatHistory.length - 1];
-          if (lastMsg && lastMsg.role === 'assistant') {
-            llmReply = lastMsg.content;
-            break;
-          }
-        }
-        await new Promise(res => setTimeout(res, 300));
-      }
+      // 2. Send the code for review; the server adds the question, test cases and previous attempts
+      const reply = await chatWithMistral({
+        questionId: questionRow.id,
+        userMessage: `User's Current Code:\n${numberLines(userCodeToAnalyse)}`,
+        mode: 'codeAnalysis',
+      });
+      const llmReply = reply.content;
+      const promptVersion = reply.promptVersion;
 
-      // 5. Parse the response
-      const { analysis, error: parseError } = parseLlmResponse(llmReply);
-      if (parseError) console.warn(parseError);
+      // 3. Parse the findings, anchored to the lines that were sent
+      const codeReview = parseCodeReview(llmReply, userCodeToAnalyse.split('\n').length);
 
-      // 6. Update Supabase with the new attempt and diff
+      // 4. Update Supabase with the new attempt and diff
+      const prevCollabChat = Array.isArray(questionRow.collaborator_chat) ? questionRow.collaborator_chat : [];
       const newCollabChat = [...prevCollabChat, userCodeToAnalyse];
-      const tdiff = questionRow.tdiff || {};
+      const tdiff: StoredAttempts = questionRow.tdiff || {};
       const tdiffIndex = Object.keys(tdiff).length;
-      tdiff[tdiffIndex] = { usercodediff: userCodeToAnalyse, llmreason: llmReply };
+      tdiff[tdiffIndex] = {
+        usercodediff: userCodeToAnalyse,
+        llmreason: llmReply,
+        promptVersion,
+        review: codeReview,
+        createdAt: new Date().toISOString(),
+      };
 
       await supabase
         .from('questions_user')
         .update({ collaborator_chat: newCollabChat, tdiff })
         .eq('id', questionRow.id);
 
-      // 7. **UNIFY THE CANVAS**: Update the code state with the AI's feedback
-      if (analysis && analysis.trim()) {
-        const commentedAnalysis = analysis.split('\n').map(line => `// ${line}`).join('\n');
-        const newCode = `${userCodeToAnalyse}\n\n${AI_ANALYSIS_HEADER}\n${commentedAnalysis}\n`;
-        setCode(newCode);
-        localStorage.setItem('collab_code', newCode); // Persist the full new code
-      } else {
-        // If AI gives no feedback, at least save the user's stripped code
-        localStorage.setItem('collab_code', userCodeToAnalyse);
-      }
+      // Queue a weakness model refresh; the job worker analyzes the new attempt
+      fetch('/api/insights/weakness', { method: 'POST' }).catch(e => {
+        console.warn('Could not refresh weak spots.', e);
+      });
 
+      // 5. Show the findings in the gutter; the code itself is left untouched
+      setReview(codeReview);
+      setAttempts(toAttempts(tdiff));
       setIsUnsaved(false);
 
     } catch (err) {
@@ -208,23 +225,217 @@ const AcademicCodeEditor = () => {
     } finally {
       setIsAnalysing(false);
     }
-  }, [code, supabase, problemTitle, sendMessage, messages]);
+  }, [code, supabase, problemTitle]);
+
+  /**
+   * Opens the attempt timeline, loading every saved attempt for the question
+   */
+  const handleOpenHistory = useCallback(async () => {
+    setIsHistoryOpen(true);
+    setIsLoadingHistory(true);
+    setHistoryError(null);
+
+    try {
+      const { data: questionRow, error: questionError } = await supabase
+        .from('questions_user')
+        .select('id, tdiff')
+        .eq('title', problemTitle)
+        .single();
+
+      if (questionError || !questionRow) {
+        throw new Error(`Question "${problemTitle}" not found or failed to load.`);
+      }
+
+      setAttempts(toAttempts(questionRow.tdiff));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('History Error:', errorMessage);
+      setHistoryError(errorMessage);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [supabase, problemTitle]);
+
+  // Put an earlier attempt back in the editor, with the review it received
+  const handleRestoreAttempt = useCallback((attempt: Attempt) => {
+    setCode(attempt.code);
+    setReview(attempt.review);
+    setActiveFinding(null);
+    setIsUnsaved(true);
+  }, [setCode]);
+
+  // Start the current language over from the question's starter program
+  const handleResetToStarter = useCallback(() => {
+    if (!drafts.starter) return;
+    setCode(drafts.starter.code);
+    setReview(null);
+    setActiveFinding(null);
+    setIsUnsaved(true);
+  }, [drafts.starter, setCode]);
+
+  /**
+   * Runs the editor contents against the examples parsed from the question
+   */
+  const handleRun = useCallback(async () => {
+    const sandboxLanguage = runnableLanguages[language];
+    if (!sandboxLanguage) return;
+
+    setIsRunning(true);
+    setRunError(null);
+    setRunResult(null);
+    setIsTestPanelOpen(true);
+
+    try {
+      const { data: questionRow, error: questionError } = await supabase
+        .from('questions_user')
+        .select('id')
+        .eq('title', problemTitle)
+        .single();
+
+      if (questionError || !questionRow) {
+        throw new Error(`Question "${problemTitle}" not found or failed to load.`);
+      }
+
+      const response = await fetch('/api/code/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code,
+          language: sandboxLanguage,
+          questionId: questionRow.id,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Run failed with status ${response.status}`);
+      }
+
+      setRunResult(data as RunResult);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('Run Error:', errorMessage);
+      setRunError(errorMessage);
+    } finally {
+      setIsRunning(false);
+    }
+  }, [code, language, supabase, problemTitle]);
 
-  // Syncs the scroll position of the textarea and the highlighted pre.
+  /**
+   * Times the editor contents on generated inputs of growing size and
+   * compares the fitted complexity with the solution's
+   */
+  const handleBenchmark = useCallback(async () => {
+    const sandboxLanguage = runnableLanguages[language];
+    if (!sandboxLanguage) return;
+
+    setIsBenchmarking(true);
+    setBenchmarkError(null);
+    setBenchmarkResult(null);
+    setIsBenchmarkOpen(true);
+
+    try {
+      const response = await fetch(`/api/question/${questionId}/benchmark`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, language: sandboxLanguage }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Benchmark failed with status ${response.status}`);
+      }
+
+      setBenchmarkResult(data as BenchmarkResult);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('Benchmark Error:', errorMessage);
+      setBenchmarkError(errorMessage);
+    } finally {
+      setIsBenchmarking(false);
+    }
+  }, [code, language, questionId]);
+
+  /**
+   * Compares the editor contents with the stored optimal solution on random inputs
+   */
+  const handleStressTest = useCallback(async () => {
+    const sandboxLanguage = runnableLanguages[language];
+    if (!sandboxLanguage) return;
+
+    setIsStressTesting(true);
+    setStressError(null);
+    setStressResult(null);
+    setIsStressTestOpen(true);
+
+    try {
+      const response = await fetch(`/api/question/${questionId}/stress-test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, language: sandboxLanguage }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Stress test failed with status ${response.status}`);
+      }
+
+      setStressResult(data as StressTestResult);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('Stress Test Error:', errorMessage);
+      setStressError(errorMessage);
+    } finally {
+      setIsStressTesting(false);
+    }
+  }, [code, language, questionId]);
+
+  const handleAddCounterexample = useCallback(async (input: string, expected: string) => {
+    const response = await fetch(`/api/question/${questionId}/test-cases`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ input, expected, explanation: 'Counterexample found by a stress test' }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Failed with status ${response.status}`);
+    }
+  }, [questionId]);
+
+  // Syncs the scroll position of the textarea with the highlighted pre and the gutter.
   const syncScroll = useCallback((e: React.UIEvent<HTMLTextAreaElement>) => {
     if (preRef.current) {
       preRef.current.scrollTop = e.currentTarget.scrollTop;
       preRef.current.scrollLeft = e.currentTarget.scrollLeft;
     }
+    if (gutterRef.current) {
+      // Translated rather than scrolled, so hover cards can overflow the gutter
+      gutterRef.current.style.transform = `translateY(${-e.currentTarget.scrollTop}px)`;
+    }
   }, []);
 
   const handleCodeChange = useCallback((event: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newCode = event.target.value;
+    // Keep findings on their lines when lines are added or removed
+    const delta = newCode.split('\n').length - code.split('\n').length;
+    if (delta !== 0) {
+      const editLine = caretLine(newCode, event.target.selectionStart) - Math.max(delta, 0);
+      setReview(prev => prev && { ...prev, findings: shiftFindings(prev.findings, editLine, delta) });
+    }
     setCode(newCode);
     setIsUnsaved(true);
     setAnalysisError(null); // Clear error on new input
-    localStorage.setItem('collab_code', newCode);
-  }, []);
+  }, [code, setCode]);
+
+  // Swap the finding's lines for its suggested fix
+  const handleApplyFix = useCallback((finding: ReviewFinding) => {
+    if (!review) return;
+    const result = applyFindingFix(code, review.findings, finding);
+    setCode(result.code);
+    setReview({ ...review, findings: result.findings });
+    setActiveFinding(null);
+    setIsUnsaved(true);
+  }, [code, review, setCode]);
 
   // Advanced Tab handling for indentation.
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -241,11 +452,11 @@ const AcademicCodeEditor = () => {
         }
       }, 0);
     }
-  }, []);
+  }, [setCode]);
 
   // Export code to a file.
   const handleExport = useCallback(() => {
-    const codeToExport = stripAiComments(code); // Export only user code
+    const codeToExport = code;
     const extension = languageExtensions[language] || 'txt';
     const blob = new Blob([codeToExport], { type: 'text/plain;charset=utf-8' });
     const url = URL.createObjectURL(blob);
@@ -256,22 +467,17 @@ const AcademicCodeEditor = () => {
     URL.revokeObjectURL(url);
   }, [code, language]);
 
-  // Auto-detect language based on code content (debounced).
+  // Auto-detect language based on code content (debounced). Only a draft that
+  // was never saved is moved; saved drafts keep the language they were saved under.
+  // Questions with starter code open in a program of the selected language already.
   useEffect(() => {
+    if (isLanguageLocked || drafts.hasStarter || drafts.status === 'loading') return;
     const timer = setTimeout(() => {
-      const trimmedCode = code.trim();
-      if (/^#include|int\s+main\s*\(|std::/i.test(trimmedCode)) setLanguage('cpp');
-      else if (/^public\s+class|System\.out\.println/i.test(trimmedCode)) setLanguage('java');
-      else if (/^def\s|print\(|import\s+/i.test(trimmedCode)) setLanguage('python');
-      else if (/<[a-z][\s\S]*>/i.test(trimmedCode)) setLanguage('html');
-      else if (/\.[a-zA-Z0-9-]+\s*\{/i.test(trimmedCode)) setLanguage('css');
-      else if (/package main|func main/i.test(trimmedCode)) setLanguage('go');
-      else if (/fn main|use std::/i.test(trimmedCode)) setLanguage('rust');
-      else if (/`jsx`|=>\s*\(</i.test(trimmedCode)) setLanguage('tsx');
-      else if (/function\s|console\.log|const\s|let\s/i.test(trimmedCode)) setLanguage('javascript');
+      const detected = detectLanguage(code);
+      if (detected) relabelLanguage(detected);
     }, 500);
     return () => clearTimeout(timer);
-  }, [code]);
+  }, [code, isLanguageLocked, drafts.hasStarter, drafts.status, relabelLanguage]);
 
   // Inject styles for the textarea selection to keep syntax highlighting visible.
   useEffect(() => {
@@ -292,6 +498,8 @@ const AcademicCodeEditor = () => {
   const currentSyntaxTheme = themes.oneLight;
   const lineCount = code.split('\n').length;
   const lineNumbers = Array.from({ length: Math.max(lineCount, 1) }, (_, i) => i + 1);
+  const findings = review?.findings ?? [];
+  const findingCovering = (line: number) => findings.find(f => f.startLine <= line && line <= f.endLine);
 
   return (
     <div className="rounded-xl shadow-lg border w-full h-full flex flex-col overflow-hidden bg-white border-gray-200">
@@ -300,15 +508,62 @@ const AcademicCodeEditor = () => {
         <h2 className="font-sans text-lg font-semibold text-gray-800">Editor</h2>
         <div className="flex items-center space-x-4">
           <span
-            className={`w-3 h-3 rounded-full border border-gray-400 transition-colors ${isUnsaved ? 'bg-yellow-400' : 'bg-green-500'}`}
-            title={isUnsaved ? 'Unsaved changes' : 'Code is saved'}
+            className={`w-3 h-3 rounded-full border border-gray-400 transition-colors ${draftStatusStyles[drafts.status].dot}`}
+            title={draftStatusStyles[drafts.status].title}
           />
-          <span className="px-2 py-1 rounded text-xs font-mono bg-gray-100 text-gray-700 border border-gray-200">
-            {language.toUpperCase()}
-          </span>
+          <select
+            value={language}
+            onChange={(e) => {
+              // Each language keeps its own draft; switching never overwrites one
+              switchLanguage(e.target.value);
+              setIsLanguageLocked(true);
+              setReview(null);
+              setActiveFinding(null);
+            }}
+            title="Editor language"
+            className="px-2 py-1 rounded text-xs font-mono bg-gray-100 text-gray-700 border border-gray-200 outline-none"
+          >
+            {Object.keys(languageExtensions).map(lang => (
+              <option key={lang} value={lang}>{lang.toUpperCase()}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => (isHistoryOpen ? setIsHistoryOpen(false) : handleOpenHistory())}
+            title="Attempt history"
+            className={`p-1.5 rounded-md transition-colors ${isHistoryOpen ? 'text-blue-600 bg-blue-50' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            <History size={20} />
+          </button>
           <button onClick={handleExport} title="Export User Code" className="p-1.5 rounded-md text-gray-600 hover:bg-gray-100 transition-colors">
             <Download size={20} />
           </button>
+          <button
+            onClick={handleRun}
+            disabled={isRunning || !runnableLanguages[language]}
+            title={runnableLanguages[language] ? "Run against test cases" : `Running ${language} code is not supported`}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium text-green-700 border border-green-200 bg-green-50 hover:bg-green-100 transition-colors disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            <Play size={16} />
+            {isRunning ? 'Running...' : 'Run'}
+          </button>
+          <button
+            onClick={handleBenchmark}
+            disabled={isBenchmarking || !runnableLanguages[language]}
+            title={runnableLanguages[language] ? "Estimate time complexity on growing inputs" : `Benchmarking ${language} code is not supported`}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium text-purple-700 border border-purple-200 bg-purple-50 hover:bg-purple-100 transition-colors disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            <Gauge size={16} />
+            {isBenchmarking ? 'Benchmarking...' : 'Benchmark'}
+          </button>
+          <button
+            onClick={handleStressTest}
+            disabled={isStressTesting || !runnableLanguages[language]}
+            title={runnableLanguages[language] ? "Compare with the reference solution on random inputs" : `Stress testing ${language} code is not supported`}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium text-orange-700 border border-orange-200 bg-orange-50 hover:bg-orange-100 transition-colors disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            <FlaskConical size={16} />
+            {isStressTesting ? 'Testing...' : 'Stress Test'}
+          </button>
           <button
             onClick={handleAnalyse}
             disabled={isAnalysing || !isUnsaved}
@@ -321,13 +576,82 @@ const AcademicCodeEditor = () => {
         </div>
       </header>
 
+      {/* Draft Conflict */}
+      {drafts.conflict && (
+        <div className="flex-shrink-0 flex flex-wrap items-center gap-3 p-2 text-sm text-amber-800 bg-amber-50 border-b border-amber-200">
+          <span className="flex-grow">
+            This {language} draft was changed on another device {new Date(drafts.conflict.updatedAt).toLocaleString()}.
+          </span>
+          <button onClick={() => drafts.resolveConflict('theirs')} className="px-2 py-1 rounded-md text-xs font-medium border border-amber-300 hover:bg-amber-100">
+            Use saved version
+          </button>
+          <button onClick={() => drafts.resolveConflict('mine')} className="px-2 py-1 rounded-md text-xs font-medium text-white bg-amber-600 hover:bg-amber-700">
+            Keep mine
+          </button>
+        </div>
+      )}
+
+      {/* Starter Signature */}
+      {drafts.starter && (
+        <div className="flex-shrink-0 flex items-center gap-3 px-3 py-1.5 text-xs text-gray-600 bg-gray-50 border-b border-gray-200">
+          <span className="shrink-0 font-semibold">Implement</span>
+          <code className="flex-grow truncate font-mono text-gray-800" title={drafts.starter.signature}>{drafts.starter.signature}</code>
+          <button
+            onClick={handleResetToStarter}
+            disabled={code === drafts.starter.code}
+            title="Replace the editor contents with the starter code"
+            className="shrink-0 flex items-center gap-1.5 px-2 py-1 rounded-md font-medium text-gray-600 border border-gray-200 hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+          >
+            <RotateCcw size={14} />
+            Reset to starter
+          </button>
+        </div>
+      )}
+
       {/* Editor Body */}
       <div className="flex-grow w-full flex font-mono text-base leading-relaxed overflow-hidden relative">
-        {/* Line Numbers Gutter */}
-        <div className="select-none text-right pr-4 pt-4 shrink-0 text-gray-400 bg-white z-10 sticky left-0">
-          {lineNumbers.map(num => (
-            <div key={num}>{num}</div>
-          ))}
+        {/* Line Numbers Gutter, with a marker where each review finding starts */}
+        <div ref={gutterRef} className="select-none text-right pr-4 pt-4 shrink-0 text-gray-400 bg-white z-10 sticky left-0">
+          {lineNumbers.map(num => {
+            const finding = findings.find(f => f.startLine === num);
+            return (
+              <div key={num} className="relative flex items-center justify-end gap-2" onMouseLeave={() => finding && setActiveFinding(null)}>
+                {finding ? (
+                  <button
+                    type="button"
+                    onMouseEnter={() => setActiveFinding(finding)}
+                    onClick={() => setActiveFinding(activeFinding === finding ? null : finding)}
+                    aria-label={`${finding.severity} on line ${num}`}
+                    className={`w-2.5 h-2.5 rounded-full ${severityStyles[finding.severity].marker}`}
+                  />
+                ) : (
+                  <span className="w-2.5" />
+                )}
+                <span>{num}</span>
+                {finding && activeFinding === finding && (
+                  <div className="absolute left-full top-0 ml-2 w-80 p-3 rounded-lg border border-gray-200 bg-white shadow-lg text-left font-sans text-sm text-gray-700 z-20">
+                    <div className={`mb-1 text-xs font-semibold uppercase ${severityStyles[finding.severity].label}`}>
+                      {finding.severity} · {finding.startLine === finding.endLine ? `line ${finding.startLine}` : `lines ${finding.startLine}-${finding.endLine}`}
+                    </div>
+                    <p className="whitespace-pre-wrap">{finding.message}</p>
+                    {finding.fix !== undefined && (
+                      <>
+                        <pre className="mt-2 p-2 rounded bg-gray-50 border border-gray-200 font-mono text-xs overflow-x-auto">{finding.fix || '(remove these lines)'}</pre>
+                        <button
+                          type="button"
+                          onClick={() => handleApplyFix(finding)}
+                          className="mt-2 flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium text-blue-600 border border-blue-200 bg-blue-50 hover:bg-blue-100 transition-colors"
+                        >
+                          <Wand2 size={14} />
+                          Apply fix
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
         
         {/* Code Area */}
@@ -345,8 +669,9 @@ const AcademicCodeEditor = () => {
                   if (i === tokens.length - 1 && line.length === 1 && line[0].empty) {
                     return null;
                   }
+                  const finding = findingCovering(i + 1);
                   return (
-                    <div key={i} {...getLineProps({ line, key: i })}>
+                    <div key={i} {...getLineProps({ line, key: i, className: finding ? severityStyles[finding.severity].line : undefined })}>
                       {line.map((token, key) => <span key={key} {...getTokenProps({ token, key })} />)}
                     </div>
                   );
@@ -361,6 +686,7 @@ const AcademicCodeEditor = () => {
             onChange={handleCodeChange}
             onKeyDown={handleKeyDown}
             onScroll={syncScroll}
+            readOnly={drafts.status === 'loading'}
             spellCheck="false"
             autoCapitalize="off"
             autoCorrect="off"
@@ -371,6 +697,61 @@ const AcademicCodeEditor = () => {
           />
         </div>
       </div>
+       {/* Test Results */}
+       {isTestPanelOpen && (
+          <TestPanel
+            result={runResult}
+            error={runError}
+            isRunning={isRunning}
+            onClose={() => setIsTestPanelOpen(false)}
+          />
+        )}
+       {/* Complexity Benchmark */}
+       {isBenchmarkOpen && (
+          <BenchmarkPanel
+            result={benchmarkResult}
+            error={benchmarkError}
+            isRunning={isBenchmarking}
+            onClose={() => setIsBenchmarkOpen(false)}
+          />
+        )}
+       {/* Stress Test */}
+       {isStressTestOpen && (
+          <StressTestPanel
+            result={stressResult}
+            error={stressError}
+            isRunning={isStressTesting}
+            onAddTestCase={handleAddCounterexample}
+            onClose={() => setIsStressTestOpen(false)}
+          />
+        )}
+       {/* Attempt History */}
+       {isHistoryOpen && (
+          <AttemptTimeline
+            attempts={attempts}
+            currentCode={code}
+            isLoading={isLoadingHistory}
+            error={historyError}
+            onRestore={handleRestoreAttempt}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        )}
+       {/* Review Summary */}
+       {review && (
+          <div className="flex-shrink-0 flex items-start gap-3 p-3 text-sm text-gray-700 bg-blue-50 border-t border-blue-200">
+            <BrainCircuit size={16} className="mt-0.5 shrink-0 text-blue-600" />
+            <div className="flex-grow">
+              {review.summary && <p className="whitespace-pre-wrap">{review.summary}</p>}
+              <p className="mt-1 text-xs text-gray-500">
+                {review.reason}
+                {review.findings.length > 0 && ` ${review.findings.length} finding${review.findings.length === 1 ? '' : 's'} marked in the gutter.`}
+              </p>
+            </div>
+            <button onClick={() => { setReview(null); setActiveFinding(null); }} title="Dismiss review" className="p-1 rounded-md text-gray-500 hover:bg-blue-100 transition-colors">
+              <X size={16} />
+            </button>
+          </div>
+        )}
        {/* Status/Error Footer */}
        {analysisError && (
           <div className="flex-shrink-0 p-2 text-sm text-red-700 bg-red-50 border-t border-red-200">
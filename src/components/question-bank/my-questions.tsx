@@ -7,7 +7,13 @@ import {
   Skeleton,
   Button,
   Chip,
-  Tooltip
+  Tooltip,
+  Checkbox,
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownItem,
+  useDisclosure
 } from "@nextui-org/react";
 import { 
   Search, 
@@ -15,11 +21,17 @@ import {
   Inbox, 
   ArrowRight, 
   ArrowDownNarrowWide, 
-  ArrowUpNarrowWide 
+  ArrowUpNarrowWide,
+  Loader2,
+  Download,
+  Upload
 } from 'lucide-react';
 import { TypedSupabaseClient } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useToast } from '@/components/ui/toast';
+import QuestionBundleImport from './question-bundle-import';
+import type { BundleFileFormat } from '@/lib/question-bundle/types';
 
 // Debounce hook for efficient searching
 function useDebounce<T>(value: T, delay: number): T {
@@ -36,11 +48,24 @@ interface UserQuestion {
   user_id: string;
   title: string;
   question: string;
-  hint: string[];
-  solution: string;
   created_at: string;
+  processing_status: 'processing' | 'success' | 'degraded' | 'failed' | null;
 }
 
+// Queued or running background processing job for a question
+interface ActiveJob {
+  question_id: string;
+  status: 'queued' | 'running';
+  attempts: number;
+  max_attempts: number;
+}
+
+const EXPORT_FORMATS: { key: BundleFileFormat; label: string; description: string }[] = [
+  { key: 'json', label: 'JSON bundle', description: 'Everything, for importing again' },
+  { key: 'markdown', label: 'Markdown folder', description: 'A readable .zip, one file per problem' },
+  { key: 'csv', label: 'CSV', description: 'One row per problem, for spreadsheets' },
+];
+
 interface MyQuestionsProps {
   supabase: TypedSupabaseClient;
   userId: string;
@@ -55,8 +80,14 @@ export default function MyQuestions({ supabase, userId, onProblemClick }: MyQues
   const [totalQuestions, setTotalQuestions] = useState(0);
   const [searchQuery, setSearchQuery] = useState("");
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [activeJobs, setActiveJobs] = useState<Record<string, ActiveJob>>({});
+  // Selected question ids, kept across pages
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const { isOpen: isImportOpen, onOpen: onImportOpen, onOpenChange: onImportOpenChange } = useDisclosure();
   
   const router = useRouter();
+  const toast = useToast();
   const questionsPerPage = 10;
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
   const totalPages = Math.ceil(totalQuestions / questionsPerPage);
@@ -66,7 +97,7 @@ export default function MyQuestions({ supabase, userId, onProblemClick }: MyQues
     try {
       let query = supabase
         .from('questions_user')
-        .select('*', { count: 'exact' })
+        .select('id, user_id, title, question, created_at, processing_status', { count: 'exact' })
         .eq('user_id', userId)
         .order('created_at', { ascending: sortOrder === 'asc' });
 
@@ -90,7 +121,23 @@ export default function MyQuestions({ supabase, userId, onProblemClick }: MyQues
     }
   }, [supabase, userId, page, debouncedSearchQuery, sortOrder]);
 
+  const fetchActiveJobs = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('question_id, status, attempts, max_attempts')
+      .eq('user_id', userId)
+      .eq('type', 'process_question')
+      .in('status', ['queued', 'running']);
+
+    if (error) {
+      console.error('Failed to fetch processing jobs:', error);
+      return;
+    }
+    setActiveJobs(Object.fromEntries((data as ActiveJob[]).map(job => [job.question_id, job])));
+  }, [supabase, userId]);
+
   useEffect(() => { fetchQuestions(); }, [fetchQuestions]);
+  useEffect(() => { fetchActiveJobs(); }, [fetchActiveJobs]);
   useEffect(() => { if (debouncedSearchQuery && page !== 1) setPage(1); }, [debouncedSearchQuery, page]);
   
   useEffect(() => {
@@ -101,9 +148,14 @@ export default function MyQuestions({ supabase, userId, onProblemClick }: MyQues
         { event: '*', schema: 'public', table: 'questions_user', filter: `user_id=eq.${userId}` },
         () => fetchQuestions()
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'jobs', filter: `user_id=eq.${userId}` },
+        () => fetchActiveJobs()
+      )
       .subscribe();
     return () => { supabase.removeChannel(channel); };
-  }, [supabase, userId, fetchQuestions]);
+  }, [supabase, userId, fetchQuestions, fetchActiveJobs]);
   
   const toggleSortOrder = () => setSortOrder(prev => (prev === 'asc' ? 'desc' : 'asc'));
 
@@ -115,8 +167,72 @@ export default function MyQuestions({ supabase, userId, onProblemClick }: MyQues
     router.push(`/dashboard/problems/${encodeURIComponent(title ?? "")}?id=${id}`);
   };
 
+  const toggleSelected = (id: string) => setSelectedIds(prev => (prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]));
+  const pageIds = questions.map(q => q.id);
+  const isPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.includes(id));
+  const togglePageSelected = () => setSelectedIds(prev => (
+    isPageSelected ? prev.filter(id => !pageIds.includes(id)) : Array.from(new Set([...prev, ...pageIds]))
+  ));
+
+  // Download the selected problems, or all of them when none are selected
+  const exportQuestions = async (format: BundleFileFormat) => {
+    setIsExporting(true);
+    try {
+      const response = await fetch('/api/question/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, ...(selectedIds.length > 0 && { ids: selectedIds }) }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'coderduo-questions';
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      toast.success('Download Started', `${selectedIds.length > 0 ? `${selectedIds.length} selected` : 'All'} problems are downloading.`);
+    } catch (err) {
+      console.error('Failed to export questions:', err);
+      toast.error('Export Failed', err instanceof Error ? err.message : 'Could not export your problems.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const formatDate = (dateStr: string) => new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-  const truncateText = (text: string, maxLength: number) => text.length <= maxLength ? text : text.slice(0, maxLength) + '...';
+
+  const renderProcessingChip = (q: UserQuestion) => {
+    const job = activeJobs[q.id];
+    if (job) {
+      const label = job.attempts > 0 && job.status === 'queued'
+        ? `Retrying (${job.attempts + 1}/${job.max_attempts})`
+        : job.status === 'running' ? 'Generating...' : 'Queued';
+      return (
+        <Chip size="sm" variant="flat" color="primary" startContent={<Loader2 size={12} className="animate-spin" />}>
+          {label}
+        </Chip>
+      );
+    }
+    if (q.processing_status === 'degraded') {
+      return (
+        <Tooltip content="The AI was busy. Your credit is held, so retrying is free." placement="top" delay={300}>
+          <Chip size="sm" variant="flat" color="warning">AI busy</Chip>
+        </Tooltip>
+      );
+    }
+    if (q.processing_status === 'failed') {
+      return <Chip size="sm" variant="flat" color="danger">Processing failed</Chip>;
+    }
+    return null;
+  };
 
   const renderSkeleton = () => (
     <div className="divide-y divide-slate-200 dark:divide-slate-800">
@@ -165,6 +281,21 @@ export default function MyQuestions({ supabase, userId, onProblemClick }: MyQues
               className="flex-grow"
               classNames={{ input: "text-sm", inputWrapper: "bg-white dark:bg-slate-900 border border-slate-300/70 dark:border-slate-700/70 shadow-sm"}}
             />
+           <Dropdown>
+             <DropdownTrigger>
+               <Button variant="flat" size="md" isLoading={isExporting} startContent={!isExporting && <Download size={16} />} className="flex-shrink-0">
+                 {selectedIds.length > 0 ? `Export (${selectedIds.length})` : 'Export all'}
+               </Button>
+             </DropdownTrigger>
+             <DropdownMenu aria-label="Export format" onAction={(key) => exportQuestions(key as BundleFileFormat)}>
+               {EXPORT_FORMATS.map(format => (
+                 <DropdownItem key={format.key} description={format.description}>{format.label}</DropdownItem>
+               ))}
+             </DropdownMenu>
+           </Dropdown>
+           <Button variant="flat" size="md" startContent={<Upload size={16} />} onPress={onImportOpen} className="flex-shrink-0">
+             Import
+           </Button>
            <Tooltip content={`Sort by Date (${sortOrder === 'asc' ? 'Oldest First' : 'Newest First'})`} placement="top" delay={300}>
                 <Button isIconOnly size="md" variant="light" onPress={toggleSortOrder} className="text-slate-500 dark:text-slate-400 flex-shrink-0">
                   {sortOrder === 'asc' ? <ArrowUpNarrowWide size={18} /> : <ArrowDownNarrowWide size={18} />}
@@ -175,6 +306,20 @@ export default function MyQuestions({ supabase, userId, onProblemClick }: MyQues
       
       {/* MAIN CONTENT: List of Problems */}
       <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl shadow-sm">
+        {/* SELECTION BAR */}
+        {status === 'success' && questions.length > 0 && (
+          <div className="flex items-center justify-between px-4 py-2 border-b border-slate-200 dark:border-slate-800">
+            <Checkbox size="sm" isSelected={isPageSelected} onValueChange={togglePageSelected}>
+              <span className="text-sm text-slate-600 dark:text-slate-400">Select page</span>
+            </Checkbox>
+            {selectedIds.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-slate-600 dark:text-slate-400">{selectedIds.length} selected</span>
+                <Button size="sm" variant="light" onPress={() => setSelectedIds([])}>Clear</Button>
+              </div>
+            )}
+          </div>
+        )}
         <div className="min-h-[500px]">
           {status === 'loading' && renderSkeleton()}
           {status === 'error' && renderEmptyOrErrorState(true)}
@@ -193,20 +338,15 @@ export default function MyQuestions({ supabase, userId, onProblemClick }: MyQues
                       className="group p-4 transition-colors duration-200 hover:bg-slate-50 dark:hover:bg-slate-800/50"
                     >
                       {/* Title */}
-                      <h3 className="font-semibold text-slate-800 dark:text-slate-200 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
-                        {q.title}
-                      </h3>
-                      
-                      {/* Hints */}
-                      {q.hint?.length > 0 && (
-                        <div className="mt-2.5 flex flex-wrap gap-1.5">
-                          {q.hint.slice(0, 3).map((hint, i) => (
-                            <Chip key={i} size="sm" variant="flat" classNames={{base: "h-6 px-2", content: "text-xs"}}>
-                              {truncateText(hint, 25)}
-                            </Chip>
-                          ))}
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-1">
+                          <Checkbox size="sm" aria-label={`Select ${q.title}`} isSelected={selectedIds.includes(q.id)} onValueChange={() => toggleSelected(q.id)} />
+                          <h3 className="font-semibold text-slate-800 dark:text-slate-200 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
+                            {q.title}
+                          </h3>
                         </div>
-                      )}
+                        {renderProcessingChip(q)}
+                      </div>
                       
                       {/* Metadata and Action */}
                       <div className="mt-3 flex items-center justify-between">
@@ -243,6 +383,9 @@ export default function MyQuestions({ supabase, userId, onProblemClick }: MyQues
           </div>
         )}
       </div>
+
+      <QuestionBundleImport isOpen={isImportOpen} onOpenChange={onImportOpenChange} onImported={fetchQuestions} />
+      <toast.ToastContainer />
     </div>
   );
 }
\ No newline at end of file
@@ -2,10 +2,12 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { Textarea, Button, Card, CardBody, Avatar, Dropdown, DropdownTrigger, DropdownMenu, DropdownItem, Tooltip } from "@nextui-org/react";
-import { SendHorizonal, Sparkles, Loader2, AlertTriangle, Trash2, MoreVertical, Copy, Download, Code, Check, User } from "lucide-react";
+import { SendHorizonal, Sparkles, Loader2, Square, AlertTriangle, Trash2, MoreVertical, Copy, Download, Code, Check, User } from "lucide-react";
 import { motion, AnimatePresence } from 'framer-motion';
 import { useMistralChat, ChatMessage } from '@/lib/mistral-api';
-import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { ChatSummary } from '@/components/question-bank/chat-summary';
+import { ChatModeSelect } from '@/components/question-bank/chat-mode-select';
+import type { TutorMode } from '@/lib/chat-session';
 import { useToast } from "@/components/ui/toast";
 import ReactMarkdown from 'react-markdown';
 import 'highlight.js/styles/github-dark.css';
@@ -15,8 +17,6 @@ interface UserQuestion {
   user_id: string;
   title: string;
   question: string;
-  hint: string[];
-  solution: string;
   chat: ChatMessage[];
   created_at: string;
 }
@@ -28,105 +28,35 @@ interface ProblemChatProps {
 export function ProblemChat({ question }: ProblemChatProps) {
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const isInitialMount = useRef(true); // Ref to track the initial render
-  const supabase = createSupabaseBrowserClient();
   const toast = useToast();
   const [isClearing, setIsClearing] = useState(false);
-  const [, setIsSaving] = useState(false);
   const [copiedMessageId, setCopiedMessageId] = useState<number | null>(null);
 
+  // The conversation is loaded from and stored by /api/chat/mistral
+  const [mode, setMode] = useState<TutorMode>('socratic');
+
   const { 
     messages, 
+    summary,
+    modes,
     isLoading, 
     error, 
+    streamingContent,
+    isStreaming,
     sendMessage, 
-    clearChat,
-    setMessages
-  } = useMistralChat(question.title);
-
-  const context = {
-    title: question.title,
-    question: question.question,
-    hint: question.hint || [],
-    solution: question.solution || ''
-  };
-
-  // Effect to load chat history from the question prop on mount
-  useEffect(() => {
-    if (question.chat && Array.isArray(question.chat)) {
-      try {
-        setMessages(question.chat);
-      } catch (err) {
-        console.error('Error loading chat history from question:', err);
-        toast.error("Error", "Could not load chat history.");
-      }
-    }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [question.id, question.chat]); // Only run when the question itself changes
+    cancel,
+    clearChat
+  } = useMistralChat(question.id);
 
   // Effect to automatically scroll to the latest message
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
-
-  const saveChatToSupabase = async () => {
-    if (!messages.length) return;
-    
-    try {
-      setIsSaving(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("User not authenticated.");
-
-      const { error: updateError } = await supabase
-        .from('questions_user')
-        .update({ chat: messages })
-        .eq('id', question.id)
-        .eq('user_id', user.id);
-
-      if (updateError) {
-        throw updateError;
-      }
-      // Optional: Add a subtle 'saved' confirmation. A toast might be too noisy for every message.
-      // console.log("Chat saved successfully.");
-    } catch (err: unknown) {
-      console.error('Error in handleClearChat:', err);
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      toast.error('Clear Failed', 'Failed to clear chat history. ' + errorMessage);
-    } finally {
-      setIsSaving(false);
-    }
-  };
-  
-  // *** KEY CHANGE: Use a useEffect to save chat whenever messages change ***
-  useEffect(() => {
-    // Don't save on the initial component render/load.
-    if (isInitialMount.current) {
-      isInitialMount.current = false;
-      return;
-    }
-    
-    // Only save if there are messages to prevent saving an empty array after clearing.
-    if (messages.length > 0) {
-      saveChatToSupabase();
-    }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [messages]); // This effect depends on the messages array.
+  }, [messages, streamingContent]);
 
   const handleClearChat = async () => {
     try {
       setIsClearing(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("User not authenticated.");
-
-      const { error: updateError } = await supabase
-        .from('questions_user')
-        .update({ chat: [] }) // Set chat to an empty array in the database
-        .eq('id', question.id)
-        .eq('user_id', user.id);
-
-      if (updateError) throw updateError;
-
-      clearChat(); // Clear the local state
+      await clearChat();
       toast.success('Chat Cleared', 'Your chat history has been deleted.');
     } catch (err: unknown) {
       console.error('Error in handleClearChat:', err);
@@ -141,8 +71,8 @@ export function ProblemChat({ question }: ProblemChatProps) {
     if (input.trim() && !isLoading) {
       const userMessage = input.trim();
       setInput('');
-      // Just send the message. The useEffect will handle saving automatically.
-      await sendMessage(userMessage, context);
+      // The server stores the message and the reply with the question
+      await sendMessage(userMessage, mode);
     }
   };
 
@@ -216,6 +146,7 @@ export function ProblemChat({ question }: ProblemChatProps) {
           <span className="font-medium text-slate-800 dark:text-slate-200">AI Problem Assistant</span>
         </div>
         <div className="flex items-center gap-1">
+          <ChatModeSelect mode={mode} allowedModes={modes} onChange={setMode} isDisabled={isLoading} />
           <Dropdown placement="bottom-end">
             <DropdownTrigger>
               <Button isIconOnly variant="ghost" size="sm" className="text-slate-600 dark:text-slate-400">
@@ -257,6 +188,9 @@ export function ProblemChat({ question }: ProblemChatProps) {
           </div>
         )}
         
+        {/* Summary of turns the tutor only remembers in condensed form */}
+        <ChatSummary summary={summary} />
+
         {messages.map((message, index) => (
           <motion.div
             key={index}
@@ -305,8 +239,19 @@ export function ProblemChat({ question }: ProblemChatProps) {
           </motion.div>
         ))}
         
+        {isStreaming && (
+          <div className="flex items-start gap-3 justify-start">
+            <Avatar className="bg-slate-100 dark:bg-slate-800 flex-shrink-0" size="sm" icon={<Sparkles size={18} className="text-slate-500 dark:text-slate-400"/>} />
+            <div className="max-w-[85%] px-4 py-3 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-800 dark:text-slate-200">
+              <div className="prose prose-sm prose-slate dark:prose-invert max-w-none">
+                <ReactMarkdown>{streamingContent}</ReactMarkdown>
+              </div>
+            </div>
+          </div>
+        )}
+        
         <AnimatePresence>
-          {isLoading && (
+          {isLoading && !isStreaming && (
             <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className="flex items-start gap-3 justify-start">
               <Avatar className="bg-slate-100 dark:bg-slate-800 flex-shrink-0" size="sm" icon={<Sparkles size={18} className="text-slate-500 dark:text-slate-400"/>} />
               <div className="px-4 py-3 rounded-lg bg-slate-100 dark:bg-slate-800">
@@ -356,16 +301,31 @@ export function ProblemChat({ question }: ProblemChatProps) {
               inputWrapper: "bg-white dark:bg-slate-950 !border-slate-300 dark:!border-slate-700",
             }}
           />
-          <Button
-            isIconOnly
-            isLoading={isLoading}
-            isDisabled={!input.trim()}
-            onPress={handleSendMessage}
-            className="h-[44px] w-[44px] min-w-[44px] flex-shrink-0 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-200 dark:disabled:bg-slate-800"
-            radius="lg"
-          >
-            {!isLoading && <SendHorizonal className="h-5 w-5" />}
-          </Button>
+          {isLoading ? (
+            <Tooltip content="Stop generating" closeDelay={0}>
+              <Button
+                isIconOnly
+                color="danger"
+                variant="flat"
+                onPress={cancel}
+                aria-label="Stop generating"
+                className="h-[44px] w-[44px] min-w-[44px] flex-shrink-0"
+                radius="lg"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            </Tooltip>
+          ) : (
+            <Button
+              isIconOnly
+              isDisabled={!input.trim()}
+              onPress={handleSendMessage}
+              className="h-[44px] w-[44px] min-w-[44px] flex-shrink-0 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-200 dark:disabled:bg-slate-800"
+              radius="lg"
+            >
+              <SendHorizonal className="h-5 w-5" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,205 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { Button, Chip, Input, Spinner } from "@nextui-org/react";
+import { AlertTriangle, ExternalLink, FileUp, Search, X } from 'lucide-react';
+import { TypedSupabaseClient } from '@/lib/supabase/client';
+import { findDuplicateQuestions, type DuplicateQuestion } from '@/lib/problem-import/duplicates';
+import { MAX_EXPORT_SIZE, parseExportFile } from '@/lib/problem-import/exports';
+import { findProblem, parseProblemReference } from '@/lib/problem-import/reference';
+import type { ImportedProblem, ProblemPlatform } from '@/lib/problem-import/types';
+
+interface ProblemImportProps {
+    supabase: TypedSupabaseClient;
+    userId: string;
+    // Called with the chosen problem and what it duplicates, or null when the import is cleared
+    onSelect: (problem: ImportedProblem | null, duplicates: DuplicateQuestion[]) => void;
+}
+
+const PLATFORM_NAMES: Record<ProblemPlatform, string> = {
+    leetcode: 'LeetCode',
+    codeforces: 'Codeforces',
+    atcoder: 'AtCoder',
+};
+
+const difficultyColors = { Easy: 'success', Medium: 'warning', Hard: 'danger' } as const;
+
+function duplicateLink(duplicate: DuplicateQuestion): string {
+    const title = encodeURIComponent(duplicate.title);
+    return duplicate.table === 'questions_user'
+        ? `/dashboard/problems/${title}?id=${duplicate.id}`
+        : `/dashboard/question_bank/${title}`;
+}
+
+function duplicateMessage(duplicate: DuplicateQuestion): string {
+    if (duplicate.match === 'source') return 'Already imported as';
+    return duplicate.table === 'questions_user' ? 'You have a question with this title:' : 'In the question bank as';
+}
+
+export default function ProblemImport({ supabase, userId, onSelect }: ProblemImportProps) {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [problems, setProblems] = useState<ImportedProblem[]>([]);
+    const [reference, setReference] = useState('');
+    const [selected, setSelected] = useState<ImportedProblem | null>(null);
+    const [duplicates, setDuplicates] = useState<DuplicateQuestion[]>([]);
+    const [importError, setImportError] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const select = async (problem: ImportedProblem) => {
+        setSelected(problem);
+        setDuplicates([]);
+        setIsWorking(true);
+        try {
+            const found = await findDuplicateQuestions(supabase, userId, problem);
+            setDuplicates(found);
+            onSelect(problem, found);
+        } catch (err) {
+            console.error('Error checking for duplicate questions:', err);
+            setImportError(err instanceof Error ? err.message : 'Could not check for duplicates.');
+            onSelect(problem, []);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const resolve = async (loaded: ImportedProblem[], name: string | null, text: string) => {
+        const parsed = parseProblemReference(text);
+        if (!parsed) return;
+        if (loaded.length === 0) {
+            setImportError('Choose the export file that contains this problem; problems are read from the file, not downloaded.');
+            return;
+        }
+        const problem = findProblem(loaded, parsed);
+        if (!problem) {
+            setImportError(`No problem matching "${text.trim()}" in ${name ?? 'the export file'}.`);
+            return;
+        }
+        await select(problem);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Picking the same file again should re-read it
+        e.target.value = '';
+        if (!file) return;
+        setImportError(null);
+        if (file.size > MAX_EXPORT_SIZE) {
+            setImportError('The export file is too large.');
+            return;
+        }
+
+        try {
+            const loaded = parseExportFile(await file.text());
+            setFileName(file.name);
+            setProblems(loaded);
+            if (reference.trim()) await resolve(loaded, file.name, reference);
+            else if (loaded.length === 1) await select(loaded[0]);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'Could not read the export file.');
+        }
+    };
+
+    const handleFind = async () => {
+        setImportError(null);
+        await resolve(problems, fileName, reference);
+    };
+
+    const handleClear = () => {
+        setFileName(null);
+        setProblems([]);
+        setReference('');
+        setSelected(null);
+        setDuplicates([]);
+        setImportError(null);
+        onSelect(null, []);
+    };
+
+    return (
+        <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 space-y-4">
+            <div className="flex items-center justify-between gap-2">
+                <div>
+                    <p className="font-semibold text-slate-700">Import from LeetCode, Codeforces or AtCoder</p>
+                    <p className="text-sm text-slate-500">
+                        Use a Codeforces problemset JSON, a LeetCode GraphQL dump or a saved AtCoder or Codeforces problem page.
+                    </p>
+                </div>
+                {(fileName || selected) && (
+                    <Button size="sm" variant="light" isIconOnly aria-label="Clear import" onPress={handleClear}>
+                        <X size={16} />
+                    </Button>
+                )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+                <input ref={fileInput} type="file" accept=".json,.html,.htm,application/json,text/html" className="hidden" onChange={handleFile} />
+                <Button variant="bordered" className="bg-white font-medium" startContent={<FileUp size={18} />} onPress={() => fileInput.current?.click()}>
+                    {fileName ?? 'Choose Export File'}
+                </Button>
+                <Input
+                    size="sm"
+                    variant="bordered"
+                    placeholder="URL, ID or title, e.g. CF 1520B, two-sum, abc300_a"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    onKeyDown={(e) => {
+                        // Enter finds the problem instead of submitting the upload form
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            handleFind();
+                        }
+                    }}
+                    classNames={{ inputWrapper: "bg-white" }}
+                    className="flex-1"
+                />
+                <Button color="primary" variant="flat" startContent={<Search size={16} />} isDisabled={!reference.trim() || isWorking} onPress={handleFind}>
+                    Find
+                </Button>
+            </div>
+
+            {fileName && problems.length > 1 && !selected && (
+                <p className="text-sm text-slate-500">{problems.length} problems in this file. Enter the one to import.</p>
+            )}
+
+            {importError && (
+                <p className="flex items-center gap-2 text-sm text-red-600">
+                    <AlertTriangle size={16} className="flex-shrink-0" /> {importError}
+                </p>
+            )}
+
+            {selected && (
+                <div className="rounded-lg border border-slate-200 bg-white p-3 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold text-slate-800">{selected.title}</span>
+                        <Chip size="sm" variant="flat">{PLATFORM_NAMES[selected.platform]} {selected.externalId}</Chip>
+                        {selected.difficulty && (
+                            <Chip size="sm" variant="flat" color={difficultyColors[selected.difficulty]}>{selected.difficulty}</Chip>
+                        )}
+                        <a href={selected.url} target="_blank" rel="noopener noreferrer" className="text-slate-400 hover:text-blue-600" aria-label="Open on the platform">
+                            <ExternalLink size={14} />
+                        </a>
+                        {isWorking && <Spinner size="sm" />}
+                    </div>
+                    {selected.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                            {selected.tags.map(tag => <Chip key={tag} size="sm" variant="bordered">{tag}</Chip>)}
+                        </div>
+                    )}
+                    <p className="text-sm text-slate-500">
+                        {selected.statement
+                            ? `${selected.statement.examples.length} ${selected.statement.examples.length === 1 ? 'example' : 'examples'} imported.`
+                            : 'This export has no statement text. Paste the statement into the description below.'}
+                    </p>
+                    {duplicates.map(duplicate => (
+                        <p key={`${duplicate.table}-${duplicate.id}`} className={`text-sm ${duplicate.match === 'source' ? 'text-red-600' : 'text-amber-600'}`}>
+                            {duplicateMessage(duplicate)}{' '}
+                            <a href={duplicateLink(duplicate)} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+                                {duplicate.title}
+                            </a>
+                        </p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import { useRef, useState } from 'react';
+import {
+  Button,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Select,
+  SelectItem,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from "@nextui-org/react";
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { MAX_EXPORT_SIZE } from '@/lib/problem-import/exports';
+import { readBundleFiles } from '@/lib/question-bundle/files';
+import type { ConflictResolution, ImportReport, ImportRowReport } from '@/lib/question-bundle/import-plan';
+import type { ParsedBundle } from '@/lib/question-bundle/types';
+
+interface QuestionBundleImportProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  // Called after an import that created or replaced questions
+  onImported: () => void;
+}
+
+const RESOLUTIONS: { key: ConflictResolution; label: string; description: string }[] = [
+  { key: 'skip', label: 'Skip', description: 'Leave the existing question alone' },
+  { key: 'replace', label: 'Replace', description: 'Overwrite the existing question and its test cases; reviews are kept' },
+  { key: 'keep_both', label: 'Keep both', description: 'Import a renamed copy' },
+];
+
+const STATUS_CHIPS: Record<ImportRowReport['status'], { color: 'success' | 'primary' | 'default' | 'danger'; label: string; dryRunLabel: string }> = {
+  created: { color: 'success', label: 'Created', dryRunLabel: 'Will create' },
+  updated: { color: 'primary', label: 'Replaced', dryRunLabel: 'Will replace' },
+  skipped: { color: 'default', label: 'Skipped', dryRunLabel: 'Will skip' },
+  failed: { color: 'danger', label: 'Failed', dryRunLabel: 'Will fail' },
+};
+
+export default function QuestionBundleImport({ isOpen, onOpenChange, onImported }: QuestionBundleImportProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileNames, setFileNames] = useState<string[]>([]);
+  const [parsed, setParsed] = useState<ParsedBundle | null>(null);
+  const [unreadable, setUnreadable] = useState<ImportRowReport[]>([]);
+  const [resolution, setResolution] = useState<ConflictResolution>('skip');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setFileNames([]);
+    setParsed(null);
+    setUnreadable([]);
+    setReport(null);
+    setImportError(null);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleFiles = async (list: FileList | null) => {
+    const files = Array.from(list ?? []);
+    if (files.length === 0) return;
+    reset();
+    setFileNames(files.map(file => file.name));
+
+    if (files.reduce((total, file) => total + file.size, 0) > MAX_EXPORT_SIZE) {
+      setImportError(`The files are larger than ${MAX_EXPORT_SIZE / 1024 / 1024} MB.`);
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const data = await Promise.all(files.map(async file => ({ name: file.name, data: new Uint8Array(await file.arrayBuffer()) })));
+      const bundle = await readBundleFiles(data);
+      setParsed(bundle);
+      setUnreadable(bundle.errors.map(error => ({ row: error.row, title: '', status: 'failed', message: error.message })));
+      if (bundle.rows.length === 0) setImportError('None of the questions in these files can be imported.');
+    } catch (err) {
+      console.error('Error reading import files:', err);
+      setImportError(err instanceof Error ? err.message : 'Could not read the files.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!parsed || parsed.rows.length === 0) return;
+    setIsWorking(true);
+    setImportError(null);
+    try {
+      const response = await fetch('/api/question/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rows: parsed.rows, resolution, dryRun }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.details || data.error || 'Import failed');
+
+      setReport(data as ImportReport);
+      if (!dryRun) {
+        // The rows are in now; importing them again would only make duplicates
+        setParsed(null);
+        if (data.summary.created + data.summary.updated > 0) onImported();
+      }
+    } catch (err) {
+      console.error('Error importing questions:', err);
+      setImportError(err instanceof Error ? err.message : 'Import failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Rows that could not be read from the files come first, then the server's verdict on the rest
+  const reportRows = [...unreadable, ...(report?.rows ?? [])];
+  const summary = report?.summary;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onOpenChange={(open) => { if (!open) reset(); onOpenChange(open); }}
+      size="3xl"
+      scrollBehavior="inside"
+      placement="center"
+    >
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              <h2 className="text-xl font-bold">Import Problems</h2>
+              <p className="text-sm font-normal text-slate-500">
+                A JSON bundle, a CSV sheet, or a Markdown folder as a .zip or its .md files.
+              </p>
+            </ModalHeader>
+            <ModalBody className="space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                <input
+                  ref={fileInput}
+                  type="file"
+                  multiple
+                  accept=".json,.csv,.zip,.md,application/json,text/csv,application/zip,text/markdown"
+                  className="hidden"
+                  onChange={(e) => handleFiles(e.target.files)}
+                />
+                <Button variant="flat" startContent={<FileUp size={16} />} onPress={() => fileInput.current?.click()} isDisabled={isWorking}>
+                  Choose files
+                </Button>
+                <Select
+                  label="If a problem already exists"
+                  size="sm"
+                  className="sm:max-w-xs"
+                  selectedKeys={[resolution]}
+                  onSelectionChange={(keys) => {
+                    const key = Array.from(keys)[0] as ConflictResolution | undefined;
+                    if (key) setResolution(key);
+                    // A dry run was for the old choice; a finished import stays on screen
+                    setReport(current => (current?.dryRun ? null : current));
+                  }}
+                >
+                  {RESOLUTIONS.map(option => (
+                    <SelectItem key={option.key} value={option.key} description={option.description}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </Select>
+              </div>
+
+              {fileNames.length > 0 && (
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {fileNames.join(', ')}
+                  {parsed && ` · ${parsed.rows.length} question${parsed.rows.length === 1 ? '' : 's'} ready`}
+                  {unreadable.length > 0 && `, ${unreadable.length} unreadable`}
+                </p>
+              )}
+
+              {importError && (
+                <div className="flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950/40 dark:text-red-300">
+                  <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+                  <span>{importError}</span>
+                </div>
+              )}
+
+              {summary && (
+                <p className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                  {report.dryRun ? 'Dry run: nothing was saved. ' : ''}
+                  {summary.created} {report.dryRun ? 'to create' : 'created'}, {summary.updated} {report.dryRun ? 'to replace' : 'replaced'}, {summary.skipped} skipped, {summary.failed + unreadable.length} failed.
+                </p>
+              )}
+
+              {reportRows.length > 0 && (
+                <Table aria-label="Import report" removeWrapper isCompact isHeaderSticky classNames={{ base: 'max-h-[360px] overflow-auto' }}>
+                  <TableHeader>
+                    <TableColumn>ROW</TableColumn>
+                    <TableColumn>TITLE</TableColumn>
+                    <TableColumn>STATUS</TableColumn>
+                    <TableColumn>DETAILS</TableColumn>
+                  </TableHeader>
+                  <TableBody>
+                    {reportRows.map((item, index) => {
+                      const chip = STATUS_CHIPS[item.status];
+                      return (
+                        <TableRow key={`${item.row}-${index}`}>
+                          <TableCell className="whitespace-nowrap text-xs text-slate-500">{item.row}</TableCell>
+                          <TableCell className="text-sm">{item.title || '—'}</TableCell>
+                          <TableCell>
+                            <Chip size="sm" variant="flat" color={chip.color}>{report?.dryRun ? chip.dryRunLabel : chip.label}</Chip>
+                          </TableCell>
+                          <TableCell className="text-xs text-slate-600 dark:text-slate-400">{item.message ?? ''}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+
+              {isWorking && (
+                <div className="flex justify-center py-2">
+                  <Spinner size="sm" />
+                </div>
+              )}
+            </ModalBody>
+            <ModalFooter>
+              <Button variant="light" onPress={onClose}>
+                {report && !report.dryRun ? 'Done' : 'Cancel'}
+              </Button>
+              <Button variant="flat" onPress={() => runImport(true)} isDisabled={isWorking || !parsed || parsed.rows.length === 0}>
+                Dry run
+              </Button>
+              <Button color="primary" onPress={() => runImport(false)} isDisabled={isWorking || !parsed || parsed.rows.length === 0}>
+                Import {parsed && parsed.rows.length > 0 ? parsed.rows.length : ''}
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -1,9 +1,12 @@
 import { useState, useRef, useEffect, ReactNode } from 'react';
 import { Textarea, Button, Card, CardBody, Avatar, Tooltip } from "@nextui-org/react";
-import { SendHorizonal, RefreshCw, Sparkles, X, Loader2, AlertTriangle } from "lucide-react";
+import { SendHorizonal, RefreshCw, Sparkles, X, Loader2, AlertTriangle, Square } from "lucide-react";
 import { Question } from '@/components/question-bank/question-bank';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useMistralChat, ChatMessage } from '@/lib/mistral-api';
+import { ChatSummary } from '@/components/question-bank/chat-summary';
+import { ChatModeSelect } from '@/components/question-bank/chat-mode-select';
+import type { TutorMode } from '@/lib/chat-session';
 import ReactMarkdown from 'react-markdown';
 import SyntaxHighlighter from 'react-syntax-highlighter';
 import { atomOneDark } from 'react-syntax-highlighter/dist/esm/styles/hljs';
@@ -19,36 +22,42 @@ export function QuestionChat({ question }: QuestionChatProps) {
   const chatContainerRef = useRef<HTMLDivElement>(null);
   
   // Get chat functionality from the custom hook
+  const [mode, setMode] = useState<TutorMode>('socratic');
+
   const { 
     messages, 
+    summary,
+    modes,
     isLoading, 
     error, 
     busyKeyCount,
+    streamingContent,
+    isStreaming,
     sendMessage, 
+    cancel,
     clearChat 
-  } = useMistralChat(question.title);
-
-  // Prepare the context for the chat using the full question object
-  // This way we send the complete question data to the API
-  const context = {
-    ...question,
-    title: question.title,
-    question: question.question,
-    hint: question.hint || [],
-    solution: question.solution || ''
-  };
+  } = useMistralChat(question.id);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages or streamed tokens arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingContent]);
 
   // Handle sending a message
   const handleSendMessage = async () => {
     if (input.trim() && !isLoading) {
       const userMessage = input.trim();
       setInput('');
-      await sendMessage(userMessage, context);
+      await sendMessage(userMessage, mode);
+    }
+  };
+
+  // Clear the stored conversation for this question
+  const handleClearChat = async () => {
+    try {
+      await clearChat();
+    } catch (err) {
+      console.error('Error clearing chat:', err);
     }
   };
 
@@ -70,6 +79,7 @@ export function QuestionChat({ question }: QuestionChatProps) {
         </div>
         
         <div className="flex items-center gap-2">
+          <ChatModeSelect mode={mode} allowedModes={modes} onChange={setMode} isDisabled={isLoading} />
           {busyKeyCount > 0 && (
             <Tooltip content={`${busyKeyCount + 1} models are currently busy. Higher numbers indicate increased wait times.`}>
               <div className={`flex items-center gap-1 text-xs px-2 py-1 rounded-full ${
@@ -97,7 +107,7 @@ export function QuestionChat({ question }: QuestionChatProps) {
             size="sm"
             variant="light"
             isIconOnly
-            onPress={clearChat}
+            onPress={handleClearChat}
             aria-label="Clear chat"
           >
             <X size={18} />
@@ -189,6 +199,9 @@ export function QuestionChat({ question }: QuestionChatProps) {
           </div>
         )}
         
+        {/* Summary of turns the tutor only remembers in condensed form */}
+        <ChatSummary summary={summary} />
+
         {/* Messages */}
         <AnimatePresence>
           {messages.map((message, index) => (
@@ -231,7 +244,7 @@ export function QuestionChat({ question }: QuestionChatProps) {
                     size="sm"
                     color="danger"
                     variant="light"
-                    onPress={() => clearChat()}
+                    onPress={handleClearChat}
                   >
                     Dismiss
                   </Button>
@@ -264,8 +277,20 @@ export function QuestionChat({ question }: QuestionChatProps) {
             )
           )}
           
+          {/* Streaming Reply */}
+          {isStreaming && (
+            <motion.div
+              key="streaming"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2 }}
+            >
+              <ChatMessageItem message={{ role: 'assistant', content: streamingContent }} />
+            </motion.div>
+          )}
+          
           {/* Loading Indicator */}
-          {isLoading && (
+          {isLoading && !isStreaming && (
             <motion.div
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
@@ -308,16 +333,31 @@ export function QuestionChat({ question }: QuestionChatProps) {
                 }}
                 disabled={isLoading || busyKeyCount >= 10}
               />
-              <Button
-                isIconOnly
-                color="primary"
-                variant="flat"
-                onPress={handleSendMessage}
-                disabled={!input.trim() || isLoading || busyKeyCount >= 10}
-                className="h-full"
-              >
-                {isLoading ? <Loader2 className="animate-spin" size={20} /> : <SendHorizonal size={20} />}
-              </Button>
+              {isLoading ? (
+                <Tooltip content="Stop generating">
+                  <Button
+                    isIconOnly
+                    color="danger"
+                    variant="flat"
+                    onPress={cancel}
+                    className="h-full"
+                    aria-label="Stop generating"
+                  >
+                    <Square size={18} />
+                  </Button>
+                </Tooltip>
+              ) : (
+                <Button
+                  isIconOnly
+                  color="primary"
+                  variant="flat"
+                  onPress={handleSendMessage}
+                  disabled={!input.trim() || busyKeyCount >= 10}
+                  className="h-full"
+                >
+                  <SendHorizonal size={20} />
+                </Button>
+              )}
             </div>
             
             {busyKeyCount >= 10 && (
@@ -1,6 +1,6 @@
 // question-upload.tsx
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
     Card,
     CardBody,
@@ -19,10 +19,16 @@ import {
     BrainCircuit,
     FileText,
     PlusCircle,
+    Clock,
+    RotateCcw,
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { TypedSupabaseClient } from '@/lib/supabase/client';
 import { useToast } from '@/components/ui/toast';
+import ProblemImport from './problem-import';
+import { UNIQUE_VIOLATION, type DuplicateQuestion } from '@/lib/problem-import/duplicates';
+import { importedQuestionText } from '@/lib/problem-import/exports';
+import type { ImportedProblem } from '@/lib/problem-import/types';
 import React from 'react';
 
 interface QuestionUploadProps {
@@ -33,6 +39,25 @@ interface QuestionUploadProps {
     onBuyCredits?: () => void;
 }
 
+// Outcome of a processing run, stored as the process_question job result
+interface ProcessingResult {
+    outcome: 'success' | 'degraded' | 'failed';
+    creditStatus: 'charged' | 'held' | 'refunded';
+    retryable: boolean;
+}
+
+// Background job row as returned by /api/jobs/[id] and realtime updates
+interface ProcessingJob {
+    id: string;
+    status: 'queued' | 'running' | 'succeeded' | 'failed';
+    attempts: number;
+    max_attempts: number;
+    last_error: string | null;
+    result: (ProcessingResult & { message: string }) | null;
+}
+
+const JOB_POLL_INTERVAL_MS = 5000;
+
 // A small helper component for a consistent processing step UI
 const ProcessingStep = ({ icon, text, status }: { icon: React.ReactNode, text: string, status: 'pending' | 'active' | 'done' }) => {
     const statusClasses = {
@@ -66,39 +91,121 @@ export default function QuestionUpload({
     const [title, setTitle] = useState('');
     const [questionContent, setQuestionContent] = useState('');
     const [isProcessing, setIsProcessing] = useState(false);
-    const [processingStatus, setProcessingStatus] = useState<'idle' | 'uploading' | 'processing' | 'success' | 'error'>('idle');
+    const [processingStatus, setProcessingStatus] = useState<'idle' | 'uploading' | 'processing' | 'success' | 'degraded' | 'error'>('idle');
     const [statusMessage, setStatusMessage] = useState('');
     const [questionId, setQuestionId] = useState<string | null>(null);
     const [temporaryTitle, setTemporaryTitle] = useState(''); // Store title for redirect after form reset
     const [shouldRedirect, setShouldRedirect] = useState(false);
+    const [processingResult, setProcessingResult] = useState<ProcessingResult | null>(null);
+    // Kept so a degraded or failed run can be retried without re-uploading
+    const [retryQuestion, setRetryQuestion] = useState<{ id: string; title: string } | null>(null);
+    const [activeJobId, setActiveJobId] = useState<string | null>(null);
+    // Set while the form holds a problem imported from an export file
+    const [importedProblem, setImportedProblem] = useState<ImportedProblem | null>(null);
+    const [alreadyImported, setAlreadyImported] = useState(false);
+    // Bumped to reset the import panel when the form stops matching its problem
+    const [importKey, setImportKey] = useState(0);
 
     const { success, error, ToastContainer } = useToast();
 
-    const processWithAI = async (qId: string, qTitle: string, qContent: string) => {
-        try {
-            setProcessingStatus('processing');
-            setStatusMessage('AI is analyzing your question...');
-            const response = await fetch('/api/question/process', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ questionId: qId, title: qTitle, question: qContent }),
-            });
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || 'Failed to process question');
-            }
+    // Called once the background job has finished, successfully or not
+    const handleJobFinished = (job: ProcessingJob) => {
+        setActiveJobId(null);
+        const result = job.result;
+        if (result) {
+            setProcessingResult({ outcome: result.outcome, creditStatus: result.creditStatus, retryable: result.retryable });
+        }
+        // Credits may have been charged, held or refunded
+        if (onQuestionCreated) onQuestionCreated();
+
+        if (job.status === 'succeeded') {
             setProcessingStatus('success');
             setStatusMessage('Success! Your problem is ready.');
             success("Question Processed", "1 credit has been deducted.");
 
             // Store title for redirect, then reset form
-            setTemporaryTitle(qTitle);
+            setTemporaryTitle(retryQuestion?.title || '');
             setTitle('');
             setQuestionContent('');
+            setImportedProblem(null);
             // We keep the questionId to use in the redirect effect
-
-            if (onQuestionCreated) onQuestionCreated();
             setShouldRedirect(true);
+        } else if (result?.outcome === 'degraded') {
+            // Automatic retries ran out; the credit is still held for this question
+            setProcessingStatus('degraded');
+            setStatusMessage(result.message);
+        } else {
+            const errorMessage = result?.message || job.last_error || 'An error occurred while processing.';
+            setProcessingStatus('error');
+            setStatusMessage(errorMessage);
+            error("Error", errorMessage);
+        }
+    };
+
+    const applyJobUpdate = (job: ProcessingJob) => {
+        if (job.status === 'succeeded' || job.status === 'failed') {
+            handleJobFinished(job);
+        } else if (job.status === 'queued' && job.attempts > 0) {
+            setStatusMessage(`${job.result?.message || 'The AI is busy.'} Retrying automatically (attempt ${job.attempts + 1} of ${job.max_attempts})...`);
+        } else if (job.status === 'running') {
+            setStatusMessage('AI is analyzing your question...');
+        }
+    };
+    // The subscription below outlives renders, so it calls the latest handler through a ref
+    const applyJobUpdateRef = useRef(applyJobUpdate);
+    useEffect(() => { applyJobUpdateRef.current = applyJobUpdate; });
+
+    // Follow the queued job through realtime updates, with polling as a fallback
+    useEffect(() => {
+        if (!activeJobId) return;
+        let finished = false;
+        const onUpdate = (job: ProcessingJob) => {
+            if (finished) return;
+            if (job.status === 'succeeded' || job.status === 'failed') finished = true;
+            applyJobUpdateRef.current(job);
+        };
+
+        const channel = supabase
+            .channel(`job_${activeJobId}`)
+            .on(
+                'postgres_changes',
+                { event: 'UPDATE', schema: 'public', table: 'jobs', filter: `id=eq.${activeJobId}` },
+                (payload) => onUpdate(payload.new as ProcessingJob)
+            )
+            .subscribe();
+
+        const poll = setInterval(async () => {
+            try {
+                const res = await fetch(`/api/jobs/${activeJobId}`);
+                if (res.ok) onUpdate((await res.json()).job);
+            } catch (err) {
+                console.error('Error polling job status:', err);
+            }
+        }, JOB_POLL_INTERVAL_MS);
+
+        return () => {
+            clearInterval(poll);
+            supabase.removeChannel(channel);
+        };
+    }, [activeJobId, supabase]);
+
+    const processWithAI = async (qId: string, qTitle: string) => {
+        try {
+            setProcessingStatus('processing');
+            setStatusMessage('Queued for AI analysis...');
+            setProcessingResult(null);
+            setRetryQuestion({ id: qId, title: qTitle });
+            const response = await fetch('/api/question/process', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ questionId: qId }),
+            });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to process question');
+            }
+            // The question keeps processing in the background even if this tab is closed
+            setActiveJobId(data.jobId);
             return true;
         } catch (err: unknown) {
             console.error('Error processing question with AI:', err);
@@ -110,12 +217,45 @@ export default function QuestionUpload({
         }
     };
 
+    const handleImport = (problem: ImportedProblem | null, duplicates: DuplicateQuestion[]) => {
+        setImportedProblem(problem);
+        setAlreadyImported(duplicates.some(duplicate => duplicate.match === 'source'));
+        if (!problem) return;
+        setTitle(problem.title);
+        // Metadata-only exports leave whatever statement was already pasted
+        const text = importedQuestionText(problem);
+        if (text) setQuestionContent(text);
+    };
+
+    // Hand edits make the form a different problem than the imported one, so its
+    // platform, tags and duplicate check no longer apply. A metadata-only import
+    // asks for the statement to be pasted, so that alone keeps the link.
+    const dropImport = () => {
+        setImportedProblem(null);
+        setAlreadyImported(false);
+        setImportKey(key => key + 1);
+    };
+
+    const handleTitleChange = (value: string) => {
+        setTitle(value);
+        if (importedProblem) dropImport();
+    };
+
+    const handleQuestionContentChange = (value: string) => {
+        setQuestionContent(value);
+        if (importedProblem && importedQuestionText(importedProblem)) dropImport();
+    };
+
     const handleUpload = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!title.trim() || !questionContent.trim()) {
             error("Missing Information", "Please provide both a title and question content.");
             return;
         }
+        if (alreadyImported) {
+            error("Already Imported", "You have already imported this problem.");
+            return;
+        }
         if (currentCredits < 1) {
             error("Insufficient Credits", "You need at least 1 credit to upload a question.");
             if (onBuyCredits) onBuyCredits();
@@ -129,12 +269,23 @@ export default function QuestionUpload({
         try {
             const { data: questionData, error: uploadError } = await supabase
                 .from('questions_user')
-                .insert({ user_id: userId, title: title.trim(), question: questionContent.trim() })
+                .insert({
+                    user_id: userId,
+                    title: title.trim(),
+                    question: questionContent.trim(),
+                    ...(importedProblem && {
+                        difficulty: importedProblem.difficulty,
+                        tags: importedProblem.tags,
+                        source_platform: importedProblem.platform,
+                        source_id: importedProblem.externalId,
+                    }),
+                })
                 .select().single();
+            if (uploadError?.code === UNIQUE_VIOLATION) throw new Error('You have already imported this problem.');
             if (uploadError) throw new Error(uploadError.message);
 
             setQuestionId(questionData.id); // Set the ID so the redirect effect can use it
-            await processWithAI(questionData.id, title.trim(), questionContent.trim());
+            await processWithAI(questionData.id, title.trim());
 
         } catch (err: unknown) {
             console.error('Error uploading question:', err);
@@ -163,13 +314,30 @@ export default function QuestionUpload({
                 setProcessingStatus('idle');
                 setQuestionId(null);
                 setTemporaryTitle('');
+                setProcessingResult(null);
+                setRetryQuestion(null);
             }, 1500); // Wait for user to see success message
         }
     }, [shouldRedirect, onQuestionCreated, questionId, temporaryTitle]);
 
+    const handleRetry = () => {
+        if (!retryQuestion) return;
+        processWithAI(retryQuestion.id, retryQuestion.title);
+    };
+
+    const handleReturnToForm = () => {
+        setIsProcessing(false);
+        setProcessingStatus('idle');
+        setProcessingResult(null);
+        setRetryQuestion(null);
+        setActiveJobId(null);
+    };
+
     const renderContent = () => {
         const hasError = processingStatus === 'error';
+        const isDegraded = processingStatus === 'degraded';
         const isSuccess = processingStatus === 'success';
+        const canRetry = !!retryQuestion && !!processingResult?.retryable;
 
         // Dedicated Processing / Status Screen
         if (isProcessing) {
@@ -181,7 +349,27 @@ export default function QuestionUpload({
                     exit={{ opacity: 0, y: -20 }}
                     className="flex flex-col items-center justify-center p-8 text-center"
                 >
-                    {hasError ? (
+                    {isDegraded ? (
+                        <>
+                            <motion.div initial={{ scale: 0.5 }} animate={{ scale: 1 }}>
+                                <Clock className="size-20 text-amber-500" />
+                            </motion.div>
+                            <h2 className="text-2xl font-bold mt-6 text-amber-600">
+                                {statusMessage}
+                            </h2>
+                            <p className="text-slate-500 mt-2">
+                                Your question was saved and 1 credit is held for it. Retrying will not cost another credit.
+                            </p>
+                            <div className="flex gap-3 mt-8">
+                                <Button color="primary" variant="solid" className="font-semibold" startContent={<RotateCcw size={18} />} onPress={handleRetry}>
+                                    Retry Now
+                                </Button>
+                                <Button variant="flat" className="font-semibold" onPress={handleReturnToForm}>
+                                    Return to Form
+                                </Button>
+                            </div>
+                        </>
+                    ) : hasError ? (
                         <>
                             <motion.div initial={{ scale: 0.5 }} animate={{ scale: 1 }}>
                                 <AlertTriangle className="size-20 text-red-500" />
@@ -190,11 +378,20 @@ export default function QuestionUpload({
                                 {statusMessage}
                             </h2>
                             <p className="text-slate-500 mt-2">
-                                Something went wrong. Please check the error and try again.
+                                {processingResult?.creditStatus === 'refunded'
+                                    ? "No credit was used for this attempt."
+                                    : "Something went wrong. Please check the error and try again."}
                             </p>
-                            <Button color="primary" variant="solid" className="mt-8 font-semibold" onPress={() => { setIsProcessing(false); setProcessingStatus('idle'); }}>
-                                Return to Form
-                            </Button>
+                            <div className="flex gap-3 mt-8">
+                                {canRetry && (
+                                    <Button color="primary" variant="solid" className="font-semibold" startContent={<RotateCcw size={18} />} onPress={handleRetry}>
+                                        Retry
+                                    </Button>
+                                )}
+                                <Button color="primary" variant={canRetry ? "flat" : "solid"} className="font-semibold" onPress={handleReturnToForm}>
+                                    Return to Form
+                                </Button>
+                            </div>
                         </>
                     ) : (
                         <>
@@ -275,12 +472,13 @@ export default function QuestionUpload({
                 </div>
 
                 <form onSubmit={handleUpload} className="space-y-8">
+                    <ProblemImport key={importKey} supabase={supabase} userId={userId} onSelect={handleImport} />
                     <Input
                         label="Problem Title"
                         labelPlacement="inside"
                         placeholder="e.g., Two Sum, Validate Binary Search Tree"
                         value={title}
-                        onChange={(e) => setTitle(e.target.value)}
+                        onChange={(e) => handleTitleChange(e.target.value)}
                         variant="bordered"
                         size="lg"
                         classNames={{
@@ -294,7 +492,7 @@ export default function QuestionUpload({
                         labelPlacement="inside"
                         placeholder="Paste the full problem statement, including examples, constraints, etc."
                         value={questionContent}
-                        onChange={(e) => setQuestionContent(e.target.value)}
+                        onChange={(e) => handleQuestionContentChange(e.target.value)}
                         variant="bordered"
                         minRows={12}
                         size="lg"
@@ -319,7 +517,7 @@ export default function QuestionUpload({
                         <Button
                             type="submit"
                             size="lg"
-                            isDisabled={!title.trim() || !questionContent.trim() || currentCredits < 1}
+                            isDisabled={!title.trim() || !questionContent.trim() || currentCredits < 1 || alreadyImported}
                             className="font-bold text-base w-full sm:w-auto bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg shadow-blue-500/20 data-[hover=true]:scale-105 transition-transform"
                             startContent={<Sparkles size={20}/>}
                         >
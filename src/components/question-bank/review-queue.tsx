@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button, Card, Chip, Spinner } from "@nextui-org/react";
+import { CalendarClock, CheckCircle2, ArrowRight } from "lucide-react";
+import { describeDue } from '@/lib/review-scheduler';
+
+interface DueReview {
+  question_id: string;
+  title: string;
+  due_at: string;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  // Weak topics (from the weakness model) this problem covers
+  weakTags: string[];
+}
+
+/**
+ * "Due for review" queue on the dashboard home tab
+ */
+export default function ReviewQueue() {
+  const router = useRouter();
+  const [due, setDue] = useState<DueReview[]>([]);
+  const [upcomingCount, setUpcomingCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchQueue = async () => {
+      try {
+        const res = await fetch('/api/review');
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load reviews');
+        setDue(data.due);
+        setUpcomingCount(data.upcomingCount);
+      } catch (err) {
+        console.error('Error loading review queue:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load reviews');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchQueue();
+  }, []);
+
+  return (
+    <Card className="p-6 shadow-sm border border-slate-200/80">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock size={20} className="text-blue-500" />
+          <h3 className="font-semibold text-slate-800">Due for Review</h3>
+          {due.length > 0 && <Chip size="sm" color="primary" variant="flat">{due.length}</Chip>}
+        </div>
+        {upcomingCount > 0 && (
+          <span className="text-sm text-slate-500">{upcomingCount} more scheduled</span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><Spinner size="sm" /></div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : due.length === 0 ? (
+        <div className="flex items-center gap-3 py-4 text-slate-500">
+          <CheckCircle2 size={20} className="text-green-500" />
+          <p className="text-sm">
+            {upcomingCount > 0
+              ? "You're all caught up. Reviews will appear here when they are due."
+              : "Rate your recall on a solved problem to start scheduling reviews."}
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {due.map(review => (
+            <li key={review.question_id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 min-w-0">
+                  <p className="font-medium text-slate-800 truncate">{review.title}</p>
+                  {review.weakTags.map(tag => (
+                    <Chip key={tag} size="sm" variant="flat" color="warning" className="flex-shrink-0">{tag}</Chip>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500">
+                  {describeDue(review.due_at)} · Reviewed {review.repetitions} time{review.repetitions === 1 ? '' : 's'} in a row
+                  {review.lapses > 0 && ` · Forgotten ${review.lapses}×`}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="flat"
+                color="primary"
+                endContent={<ArrowRight size={14} />}
+                onPress={() => router.push(`/dashboard/problems/${encodeURIComponent(review.title)}?id=${review.question_id}`)}
+              >
+                Review
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from "@nextui-org/react";
+import { Brain } from "lucide-react";
+import { useToast } from '@/components/ui/toast';
+import { describeAssistance, describeDue, RecallRating, ReviewAssistance, ReviewState } from '@/lib/review-scheduler';
+
+interface ReviewRatingProps {
+  questionId: string;
+  // Called after a review is recorded, which starts a new attempt
+  onReviewed?: () => void;
+}
+
+const ratingButtons: { rating: RecallRating; label: string; description: string; color: "danger" | "warning" | "primary" | "success" }[] = [
+  { rating: 'again', label: 'Again', description: "Couldn't solve it", color: 'danger' },
+  { rating: 'hard', label: 'Hard', description: 'Solved with effort', color: 'warning' },
+  { rating: 'good', label: 'Good', description: 'Solved it', color: 'primary' },
+  { rating: 'easy', label: 'Easy', description: 'Solved it quickly', color: 'success' },
+];
+
+/**
+ * Self-rated recall after attempting a problem; feeds the spaced-repetition schedule
+ */
+export function ReviewRating({ questionId, onReviewed }: ReviewRatingProps) {
+  const [review, setReview] = useState<ReviewState | null>(null);
+  const [submitting, setSubmitting] = useState<RecallRating | null>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    const fetchReview = async () => {
+      try {
+        const res = await fetch(`/api/review?questionId=${questionId}`);
+        const data = await res.json();
+        if (res.ok) setReview(data.review);
+      } catch (err) {
+        console.error('Error loading review state:', err);
+      }
+    };
+    fetchReview();
+  }, [questionId]);
+
+  const handleRate = async (rating: RecallRating) => {
+    setSubmitting(rating);
+    try {
+      const res = await fetch('/api/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questionId, rating }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to record review');
+      setReview(data.review);
+      const assistance = data.assistance as ReviewAssistance;
+      const capped = data.rating !== rating ? ` Counted as "${data.rating}".` : '';
+      toast.success(
+        "Review Recorded",
+        `${describeAssistance(assistance)}.${capped} Next review in ${data.review.interval_days} day${data.review.interval_days === 1 ? '' : 's'}.`
+      );
+      onReviewed?.();
+    } catch (err) {
+      toast.error("Review Failed", err instanceof Error ? err.message : 'Failed to record review');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 p-5 rounded-lg border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <div className="flex items-center gap-2 font-semibold text-slate-800 dark:text-slate-200">
+          <Brain size={18} className="text-blue-500" />
+          How well did you recall this problem?
+        </div>
+        {review && (
+          <span className="text-xs text-slate-500 dark:text-slate-400">{describeDue(review.due_at)}</span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {ratingButtons.map(button => (
+          <Button
+            key={button.rating}
+            variant="flat"
+            color={button.color}
+            isLoading={submitting === button.rating}
+            isDisabled={submitting !== null}
+            onPress={() => handleRate(button.rating)}
+            className="h-auto py-2 flex flex-col gap-0"
+          >
+            <span className="font-semibold">{button.label}</span>
+            <span className="text-[11px] opacity-80">{button.description}</span>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { FlaskConical, Loader2, Plus, X } from 'lucide-react';
+import type { StressTestResult, StressVerdict } from '@/lib/stress-test';
+
+interface StressTestPanelProps {
+  result: StressTestResult | null;
+  error: string | null;
+  isRunning: boolean;
+  // Save the counterexample as a custom test case with the reference output
+  onAddTestCase: (input: string, expected: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const verdictStyles: Record<StressVerdict, string> = {
+  passed: 'text-green-800 bg-green-50 border-green-200',
+  counterexample: 'text-red-800 bg-red-50 border-red-200',
+  compile_error: 'text-red-800 bg-red-50 border-red-200',
+};
+
+const OutputBlock = ({ label, value }: { label: string; value: string }) => (
+  <div>
+    <div className="text-[11px] font-semibold uppercase tracking-wide text-gray-500 mb-1">{label}</div>
+    <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-2 whitespace-pre-wrap break-words max-h-40 overflow-auto">
+      {value || <span className="text-gray-400">(empty)</span>}
+    </pre>
+  </div>
+);
+
+export function StressTestPanel({ result, error, isRunning, onAddTestCase, onClose }: StressTestPanelProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [isAdded, setIsAdded] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+  const counterexample = result?.counterexample ?? null;
+
+  // Every new counterexample can be added once
+  useEffect(() => {
+    setIsAdded(false);
+    setAddError(null);
+  }, [counterexample]);
+
+  const handleAdd = async () => {
+    if (!counterexample) return;
+    setIsAdding(true);
+    setAddError(null);
+    try {
+      await onAddTestCase(counterexample.input, counterexample.expected);
+      setIsAdded(true);
+    } catch (err) {
+      setAddError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="flex-shrink-0 max-h-[45%] flex flex-col border-t border-gray-200 bg-white">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+          <FlaskConical size={16} />
+          Stress Test
+          {result && (
+            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{result.rounds} inputs</span>
+          )}
+        </div>
+        <button onClick={onClose} title="Close stress test" className="p-1 rounded text-gray-500 hover:bg-gray-100">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-3 space-y-3">
+        {isRunning && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 size={16} className="animate-spin" />
+            Comparing your code with the reference solution on random inputs...
+          </div>
+        )}
+
+        {!isRunning && error && (
+          <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">{error}</div>
+        )}
+
+        {!isRunning && result && (
+          <>
+            <div className={`text-sm border rounded p-2 ${verdictStyles[result.verdict]}`}>
+              {result.message}
+              {counterexample && counterexample.foundAtN > counterexample.n && (
+                <span className="text-xs"> Shrunk from a failing input with n = {counterexample.foundAtN}.</span>
+              )}
+            </div>
+
+            {result.stderr && <OutputBlock label="Compilation Error" value={result.stderr} />}
+
+            {counterexample && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <OutputBlock label="Input" value={counterexample.input} />
+                  <OutputBlock label="Expected (reference)" value={counterexample.expected} />
+                  <OutputBlock label="Your output" value={counterexample.actual} />
+                  {counterexample.stderr && <OutputBlock label="Stderr" value={counterexample.stderr} />}
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={handleAdd}
+                    disabled={isAdding || isAdded}
+                    className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium text-blue-600 border border-blue-200 bg-blue-50 hover:bg-blue-100 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+                  >
+                    {isAdding ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+                    {isAdded ? 'Added to test cases' : 'Add as test case'}
+                  </button>
+                  {addError && <span className="text-xs text-red-600">{addError}</span>}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
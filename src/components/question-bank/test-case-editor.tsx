@@ -0,0 +1,221 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Chip, Spinner, Switch, Textarea, Tooltip } from "@nextui-org/react";
+import { Plus, Save, Sparkles, Trash2, FlaskConical } from "lucide-react";
+import { useToast } from '@/components/ui/toast';
+import type { QuestionTestCase, TestCaseSource } from '@/lib/test-cases';
+
+interface TestCaseEditorProps {
+  questionId: string;
+}
+
+const sourceLabels: Record<TestCaseSource, { label: string; color: "primary" | "secondary" | "default" }> = {
+  example: { label: 'Example', color: 'primary' },
+  ai: { label: 'AI', color: 'secondary' },
+  custom: { label: 'Custom', color: 'default' },
+};
+
+const TestCaseRow = ({ testCase, index, onSave, onToggle, onDelete }: {
+  testCase: QuestionTestCase;
+  index: number;
+  onSave: (id: string, input: string, expected: string) => Promise<void>;
+  onToggle: (id: string, enabled: boolean) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}) => {
+  const [input, setInput] = useState(testCase.input);
+  const [expected, setExpected] = useState(testCase.expected);
+  const [isSaving, setIsSaving] = useState(false);
+  const isDirty = input !== testCase.input || expected !== testCase.expected;
+  const source = sourceLabels[testCase.source];
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    await onSave(testCase.id, input, expected);
+    setIsSaving(false);
+  };
+
+  return (
+    <div className={`rounded-lg border p-4 transition-opacity ${testCase.enabled ? 'border-slate-200 dark:border-slate-800' : 'border-dashed border-slate-300 dark:border-slate-700 opacity-60'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-slate-800 dark:text-slate-200">Case {index + 1}</span>
+          <Chip size="sm" variant="flat" color={source.color}>{source.label}</Chip>
+        </div>
+        <div className="flex items-center gap-2">
+          <Tooltip content={testCase.enabled ? 'Disable case' : 'Enable case'}>
+            <div>
+              <Switch size="sm" isSelected={testCase.enabled} onValueChange={(value) => onToggle(testCase.id, value)} aria-label="Enable test case" />
+            </div>
+          </Tooltip>
+          <Button isIconOnly size="sm" variant="light" color="danger" onPress={() => onDelete(testCase.id)} aria-label="Delete test case">
+            <Trash2 size={16} />
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Textarea label="Input" variant="bordered" minRows={2} value={input} onValueChange={setInput} classNames={{ input: "font-mono text-sm" }} />
+        <Textarea label="Expected Output" variant="bordered" minRows={2} value={expected} onValueChange={setExpected} classNames={{ input: "font-mono text-sm" }} />
+      </div>
+      {testCase.explanation && (
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">{testCase.explanation}</p>
+      )}
+      {isDirty && (
+        <div className="flex justify-end gap-2 mt-3">
+          <Button size="sm" variant="light" onPress={() => { setInput(testCase.input); setExpected(testCase.expected); }}>Discard</Button>
+          <Button size="sm" color="primary" startContent={<Save size={14} />} isLoading={isSaving} onPress={handleSave}>Save</Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lists, edits and extends the stored test cases for a question
+ */
+export function TestCaseEditor({ questionId }: TestCaseEditorProps) {
+  const [cases, setCases] = useState<QuestionTestCase[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newInput, setNewInput] = useState('');
+  const [newExpected, setNewExpected] = useState('');
+  const toast = useToast();
+
+  const fetchCases = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/question/${questionId}/test-cases`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load test cases');
+      setCases(data.cases);
+    } catch (err) {
+      toast.error("Error", err instanceof Error ? err.message : 'Failed to load test cases');
+    } finally {
+      setIsLoading(false);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [questionId]);
+
+  useEffect(() => {
+    fetchCases();
+  }, [fetchCases]);
+
+  const updateCase = async (id: string, updates: Partial<Pick<QuestionTestCase, 'input' | 'expected' | 'enabled'>>) => {
+    try {
+      const res = await fetch(`/api/question/${questionId}/test-cases/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update test case');
+      setCases(prev => prev.map(c => (c.id === id ? data.case : c)));
+    } catch (err) {
+      toast.error("Update Failed", err instanceof Error ? err.message : 'Failed to update test case');
+    }
+  };
+
+  const deleteCase = async (id: string) => {
+    try {
+      const res = await fetch(`/api/question/${questionId}/test-cases/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete test case');
+      }
+      setCases(prev => prev.filter(c => c.id !== id));
+    } catch (err) {
+      toast.error("Delete Failed", err instanceof Error ? err.message : 'Failed to delete test case');
+    }
+  };
+
+  const addCases = async (body: Record<string, unknown>) => {
+    const res = await fetch(`/api/question/${questionId}/test-cases`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to add test cases');
+    setCases(prev => [...prev, ...data.cases]);
+    return data.cases as QuestionTestCase[];
+  };
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      await addCases({ input: newInput, expected: newExpected });
+      setNewInput('');
+      setNewExpected('');
+    } catch (err) {
+      toast.error("Add Failed", err instanceof Error ? err.message : 'Failed to add test case');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const added = await addCases({ generate: true });
+      toast.success("Edge Cases Added", `${added.length} AI-generated case${added.length === 1 ? '' : 's'} added. Review them before relying on them.`);
+    } catch (err) {
+      toast.error("Generation Failed", err instanceof Error ? err.message : 'Failed to generate test cases');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16"><Spinner /></div>
+    );
+  }
+
+  const enabledCount = cases.filter(c => c.enabled).length;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          {enabledCount} of {cases.length} case{cases.length === 1 ? '' : 's'} enabled. Enabled cases are used by the code runner and AI analysis.
+        </p>
+        <Button size="sm" variant="flat" color="secondary" startContent={!isGenerating && <Sparkles size={14} />} isLoading={isGenerating} onPress={handleGenerate}>
+          Generate Edge Cases
+        </Button>
+      </div>
+
+      {cases.length === 0 && (
+        <div className="flex flex-col items-center justify-center text-slate-500 gap-3 text-center py-10">
+          <FlaskConical size={40} className="text-slate-400" />
+          <p className="font-medium">No test cases yet</p>
+          <p className="text-sm">No examples could be parsed from the statement. Add your own below.</p>
+        </div>
+      )}
+
+      {cases.map((testCase, index) => (
+        <TestCaseRow
+          key={testCase.id}
+          testCase={testCase}
+          index={index}
+          onSave={(id, input, expected) => updateCase(id, { input, expected })}
+          onToggle={(id, enabled) => updateCase(id, { enabled })}
+          onDelete={deleteCase}
+        />
+      ))}
+
+      <div className="rounded-lg border border-dashed border-slate-300 dark:border-slate-700 p-4">
+        <p className="font-semibold text-slate-800 dark:text-slate-200 mb-3">New Case</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <Textarea label="Input" variant="bordered" minRows={2} value={newInput} onValueChange={setNewInput} classNames={{ input: "font-mono text-sm" }} />
+          <Textarea label="Expected Output" variant="bordered" minRows={2} value={newExpected} onValueChange={setNewExpected} classNames={{ input: "font-mono text-sm" }} />
+        </div>
+        <div className="flex justify-end mt-3">
+          <Button size="sm" color="primary" startContent={!isAdding && <Plus size={14} />} isLoading={isAdding} isDisabled={!newInput.trim() || !newExpected.trim()} onPress={handleAdd}>
+            Add Case
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
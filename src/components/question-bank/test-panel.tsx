@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useState } from 'react';
+import { CheckCircle2, XCircle, Clock, AlertTriangle, ChevronDown, ChevronRight, X, Loader2 } from 'lucide-react';
+import type { CaseResult, CaseStatus, RunResult } from '@/lib/sandbox/types';
+
+interface TestPanelProps {
+  result: RunResult | null;
+  error: string | null;
+  isRunning: boolean;
+  onClose: () => void;
+}
+
+const statusStyles: Record<CaseStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  passed: { label: 'Passed', className: 'text-green-700 bg-green-50 border-green-200', icon: <CheckCircle2 size={14} /> },
+  failed: { label: 'Wrong Answer', className: 'text-red-700 bg-red-50 border-red-200', icon: <XCircle size={14} /> },
+  runtime_error: { label: 'Runtime Error', className: 'text-orange-700 bg-orange-50 border-orange-200', icon: <AlertTriangle size={14} /> },
+  timeout: { label: 'Time Limit', className: 'text-amber-700 bg-amber-50 border-amber-200', icon: <Clock size={14} /> },
+};
+
+const OutputBlock = ({ label, value }: { label: string; value: string }) => (
+  <div>
+    <div className="text-[11px] font-semibold uppercase tracking-wide text-gray-500 mb-1">{label}</div>
+    <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-2 whitespace-pre-wrap break-words max-h-40 overflow-auto">
+      {value || <span className="text-gray-400">(empty)</span>}
+    </pre>
+  </div>
+);
+
+const CaseRow = ({ result }: { result: CaseResult }) => {
+  // Failing cases start expanded so the diff is visible straight away
+  const [isOpen, setIsOpen] = useState(result.status !== 'passed');
+  const style = statusStyles[result.status];
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50"
+      >
+        <span className="flex items-center gap-2 font-medium text-gray-700">
+          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          Case {result.index + 1}
+        </span>
+        <span className="flex items-center gap-3">
+          <span className="text-xs text-gray-500">{result.timeMs} ms</span>
+          <span className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded border ${style.className}`}>
+            {style.icon}
+            {style.label}
+          </span>
+        </span>
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+          <OutputBlock label="Input" value={result.input} />
+          <OutputBlock label="Expected" value={result.expected} />
+          <OutputBlock label="Stdout" value={result.stdout} />
+          {result.stderr && <OutputBlock label="Stderr" value={result.stderr} />}
+          {result.truncated && (
+            <p className="text-xs text-amber-600 md:col-span-2">Output was truncated.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export function TestPanel({ result, error, isRunning, onClose }: TestPanelProps) {
+  return (
+    <div className="flex-shrink-0 max-h-[45%] flex flex-col border-t border-gray-200 bg-white">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+          Test Results
+          {result && result.compile.ok && (
+            <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+              result.passedCount === result.cases.length ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+            }`}>
+              {result.passedCount}/{result.cases.length} passed
+            </span>
+          )}
+        </div>
+        <button onClick={onClose} title="Close test results" className="p-1 rounded text-gray-500 hover:bg-gray-100">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-3 space-y-2">
+        {isRunning && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 size={16} className="animate-spin" />
+            Running your code...
+          </div>
+        )}
+
+        {!isRunning && error && (
+          <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">{error}</div>
+        )}
+
+        {!isRunning && result && !result.compile.ok && (
+          <OutputBlock label="Compilation Error" value={result.compile.stderr} />
+        )}
+
+        {!isRunning && result && result.cases.map(caseResult => (
+          <CaseRow key={caseResult.index} result={caseResult} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * AI Hints
+ *
+ * Extra hints generated on request once every stored hint is unlocked. Hints
+ * carry a specificity level from 1 (a nudge) to 5 (an outline of the
+ * algorithm); each generated hint goes one level past the last one, and is
+ * conditioned on the earlier hints, the user's current code and their recent
+ * tutor chat. Generated hints are appended to questions_user.hint, with their
+ * level kept in the aligned hint_details array, and count as unlocked in the
+ * current attempt as soon as they exist.
+ *
+ * Generated hints are sold in packs: the first hint of every AI_HINTS_PER_CREDIT
+ * a user generates debits one credit, keyed by the pack, so the rest of the
+ * pack is free. The record_ai_hint_generation RPC counts, charges and records
+ * each hint under the user's lock, once it has been generated, so concurrent
+ * requests cannot share a pack and a failed generation is not charged.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { HintOnlyGuard, solutionCodeLines } from '@/lib/chat-guardrails';
+import { formatTranscript, recentWindowStart, toChatMemory } from '@/lib/chat-memory';
+import type { CreditEntryResult, CreditEntryStatus } from '@/lib/credits';
+import { generateNextHint } from '@/lib/gemini-api';
+import { getUnlockState, UnlockError, type UnlockState } from '@/lib/hint-unlocks';
+import type { ChatMessage } from '@/lib/mistral-api';
+import { loadWeaknessPromptContext } from '@/lib/weakness-model';
+
+export const MAX_HINT_LEVEL = 5;
+
+// Generated hints per credit; 0 makes them free
+export const AI_HINTS_PER_CREDIT = (() => {
+  const parsed = Number.parseInt(process.env.AI_HINTS_PER_CREDIT ?? '', 10);
+  return Number.isNaN(parsed) ? 4 : Math.max(0, parsed);
+})();
+
+// Editor contents beyond this are cut before they reach the prompt
+const MAX_CODE_LENGTH = 6000;
+
+export type HintSource = 'processing' | 'ai';
+
+export interface HintDetail {
+  level: number;
+  source: HintSource;
+  promptVersion?: string;
+  createdAt?: string;
+}
+
+export interface HintQuestion {
+  id: string;
+  user_id: string;
+  title: string;
+  question: string;
+  hint: unknown;
+  hint_details: unknown;
+  solution: unknown;
+  chat: unknown;
+  chat_memory: unknown;
+}
+
+export interface AiHintPricing {
+  hintsPerCredit: number;
+  // Hints left in the pack already paid for; 0 means the next hint costs a credit
+  prepaidRemaining: number;
+}
+
+export interface GeneratedHint {
+  hint: string;
+  detail: HintDetail;
+  hints: string[];
+  hintDetails: HintDetail[];
+  unlocks: UnlockState;
+  pricing: AiHintPricing;
+  charge: CreditEntryResult | null;
+}
+
+export class AiHintChargeError extends Error {
+  balance: number;
+
+  constructor(balance: number) {
+    super('Insufficient credits for another hint');
+    this.name = 'AiHintChargeError';
+    this.balance = balance;
+  }
+}
+
+// Columns requestNextHint reads from questions_user
+export const HINT_QUESTION_COLUMNS = 'id, user_id, title, question, hint, hint_details, solution, chat, chat_memory';
+
+function toHints(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((h): h is string => typeof h === 'string') : [];
+}
+
+/**
+ * Details for every hint. Hints without stored details came from processing,
+ * which writes them from least to most specific, so their level is their position.
+ */
+export function toHintDetails(hints: string[], value: unknown): HintDetail[] {
+  const stored = Array.isArray(value) ? value : [];
+  return hints.map((_, index) => {
+    const detail = stored[index] as Partial<HintDetail> | undefined;
+    const level = typeof detail?.level === 'number' ? detail.level : index + 1;
+    return {
+      level: Math.min(Math.max(level, 1), MAX_HINT_LEVEL),
+      source: detail?.source === 'ai' ? 'ai' : 'processing',
+      promptVersion: typeof detail?.promptVersion === 'string' ? detail.promptVersion : undefined,
+      createdAt: typeof detail?.createdAt === 'string' ? detail.createdAt : undefined,
+    };
+  });
+}
+
+export function nextHintLevel(details: HintDetail[]): number {
+  const highest = details.reduce((max, detail) => Math.max(max, detail.level), 0);
+  return Math.min(highest + 1, MAX_HINT_LEVEL);
+}
+
+function pricingFor(generatedCount: number): AiHintPricing {
+  if (AI_HINTS_PER_CREDIT === 0) return { hintsPerCredit: 0, prepaidRemaining: 0 };
+  const used = generatedCount % AI_HINTS_PER_CREDIT;
+  return { hintsPerCredit: AI_HINTS_PER_CREDIT, prepaidRemaining: used === 0 ? 0 : AI_HINTS_PER_CREDIT - used };
+}
+
+async function countGeneratedHints(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('ai_hint_generations')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) throw new Error(`Failed to count generated hints: ${error.message}`);
+  return count || 0;
+}
+
+export async function getAiHintPricing(supabase: SupabaseClient, userId: string): Promise<AiHintPricing> {
+  return pricingFor(await countGeneratedHints(supabase, userId));
+}
+
+// users.credits, the ledger sum as last written by apply_credit_entry
+async function getCachedBalance(admin: SupabaseClient, userId: string): Promise<number> {
+  const { data, error } = await admin
+    .from('users')
+    .select('credits')
+    .eq('id', userId)
+    .single<{ credits: number | null }>();
+
+  if (error) throw new Error(`Failed to load credits: ${error.message}`);
+  return data.credits ?? 0;
+}
+
+/**
+ * Count, charge for and record a generated hint in one transaction. Throws
+ * AiHintChargeError when the hint starts a pack the user cannot pay for.
+ */
+async function recordGeneration(
+  admin: SupabaseClient,
+  question: HintQuestion,
+  position: number,
+  detail: HintDetail
+): Promise<{ charge: CreditEntryResult | null; generatedCount: number }> {
+  const { data, error } = await admin.rpc('record_ai_hint_generation', {
+    p_user_id: question.user_id,
+    p_question_id: question.id,
+    p_position: position,
+    p_level: detail.level,
+    p_prompt_version: detail.promptVersion,
+    p_hints_per_credit: AI_HINTS_PER_CREDIT,
+  });
+
+  if (error) throw new Error(`Failed to record hint generation: ${error.message}`);
+
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { charge_status: CreditEntryStatus | null; entry_id: string | null; balance: number | null; generated_count: number }
+    | undefined;
+  if (!row) throw new Error('No result for hint generation');
+
+  if (row.charge_status === 'insufficient') throw new AiHintChargeError(row.balance ?? 0);
+
+  return {
+    charge: row.charge_status ? { entryId: row.entry_id, status: row.charge_status, balance: row.balance ?? 0 } : null,
+    generatedCount: row.generated_count,
+  };
+}
+
+// Summary plus the recent turns, as the tutor would see them
+function recentChat(question: HintQuestion): string {
+  const history = Array.isArray(question.chat)
+    ? (question.chat as ChatMessage[]).filter(m => (m?.role === 'user' || m?.role === 'assistant') && typeof m.content === 'string')
+    : [];
+  const memory = toChatMemory(question.chat_memory);
+  const start = recentWindowStart(history, Math.min(memory.summarizedCount, history.length));
+  const recent = formatTranscript(history.slice(start));
+  return memory.summary ? `Earlier: ${memory.summary}\n\n${recent}` : recent;
+}
+
+/**
+ * Generate, store and unlock the next hint. Throws UnlockError while stored
+ * hints are still locked, and AiHintChargeError when the user cannot pay for
+ * a new pack. `admin` must be a service role client for the credit ledger.
+ */
+export async function requestNextHint(
+  supabase: SupabaseClient,
+  admin: SupabaseClient,
+  question: HintQuestion,
+  code: string
+): Promise<GeneratedHint> {
+  const hints = toHints(question.hint);
+  const details = toHintDetails(hints, question.hint_details);
+
+  const state = await getUnlockState(supabase, { ...question, hint: hints });
+  if (state.hintsUnlocked < state.totalHints) {
+    throw new UnlockError('hints_locked', 'Unlock every hint before asking for another');
+  }
+
+  // Checked again when the hint is recorded; this only saves generating one the user cannot pay for
+  const pricing = await getAiHintPricing(supabase, question.user_id);
+  if (AI_HINTS_PER_CREDIT > 0 && pricing.prepaidRemaining === 0) {
+    const balance = await getCachedBalance(admin, question.user_id);
+    if (balance < 1) throw new AiHintChargeError(balance);
+  }
+
+  const level = nextHintLevel(details);
+  const generated = await generateNextHint(
+    question.title,
+    question.question,
+    hints.map((text, index) => ({ text, level: details[index].level })),
+    level,
+    code.slice(0, MAX_CODE_LENGTH),
+    recentChat(question),
+    await loadWeaknessPromptContext(supabase, question.user_id)
+  );
+
+  // The prompt never sees the solution; the guard also keeps code out of the hint
+  const solution = typeof question.solution === 'string' ? question.solution : JSON.stringify(question.solution ?? '');
+  const hint = new HintOnlyGuard(solutionCodeLines(solution)).filter(generated.hint).trim();
+
+  const detail: HintDetail = { level, source: 'ai', promptVersion: generated.promptVersion, createdAt: new Date().toISOString() };
+  const position = hints.length;
+  const nextHints = [...hints, hint];
+  const nextDetails = [...details, detail];
+
+  const recorded = await recordGeneration(admin, question, position, detail);
+
+  const { error: updateError } = await supabase
+    .from('questions_user')
+    .update({ hint: nextHints, hint_details: nextDetails })
+    .eq('id', question.id);
+  if (updateError) throw new Error(`Failed to store hint: ${updateError.message}`);
+
+  const { error: unlockError } = await supabase
+    .from('question_unlocks')
+    .insert({ user_id: question.user_id, question_id: question.id, kind: 'hint', position });
+  if (unlockError) throw new Error(`Failed to record unlock: ${unlockError.message}`);
+
+  return {
+    hint,
+    detail,
+    hints: nextHints,
+    hintDetails: nextDetails,
+    unlocks: await getUnlockState(supabase, { ...question, hint: nextHints }),
+    pricing: pricingFor(recorded.generatedCount),
+    charge: recorded.charge,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Attempt History
+ *
+ * Collaborator attempts as stored in questions_user.tdiff, keyed by attempt
+ * index: the submitted code, the raw review reply and, since reviews became
+ * structured, the parsed review. Older entries only have the raw reply, which
+ * is parsed on read.
+ */
+import { parseCodeReview, type CodeReview } from '@/lib/code-review';
+
+export interface StoredAttempt {
+  usercodediff?: string;
+  llmreason?: string | null;
+  promptVersion?: string;
+  review?: CodeReview;
+  createdAt?: string;
+}
+
+export type StoredAttempts = Record<string, StoredAttempt>;
+
+export interface Attempt {
+  // 0-based, in submission order
+  index: number;
+  code: string;
+  review: CodeReview;
+  promptVersion?: string;
+  // Missing on attempts saved before timestamps were recorded
+  createdAt: string | null;
+}
+
+export function toAttempts(tdiff: unknown): Attempt[] {
+  if (!tdiff || typeof tdiff !== 'object') return [];
+  const stored = tdiff as StoredAttempts;
+
+  return Object.keys(stored)
+    .filter(key => Number.isInteger(Number(key)))
+    .sort((a, b) => Number(a) - Number(b))
+    .map(key => {
+      const entry = stored[key] || {};
+      const code = typeof entry.usercodediff === 'string' ? entry.usercodediff : '';
+      return {
+        index: Number(key),
+        code,
+        review: entry.review ?? parseCodeReview(entry.llmreason ?? null, code.split('\n').length),
+        promptVersion: entry.promptVersion,
+        createdAt: entry.createdAt ?? null,
+      };
+    });
+}
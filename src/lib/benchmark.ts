@@ -0,0 +1,240 @@
+/**
+ * Benchmark
+ *
+ * Empirical complexity check for the user's code. A generator program (written
+ * by the model from the statement's constraints and cached on the question)
+ * prints inputs of growing size, the user's code is timed on each in the
+ * sandbox, and the timings are fitted to complexity classes (lib/complexity-fit)
+ * and compared with the complexities the solution claims. The same generator
+ * supplies the random inputs of stress tests (lib/stress-test).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateBenchmarkGenerator } from '@/lib/gemini-api';
+import { parseQuestionText } from '@/lib/question-formatter';
+import { promptVersion } from '@/lib/prompts/registry';
+import { normalizeSolution } from '@/lib/solution-schema';
+import { runCode, type SandboxLanguage } from '@/lib/sandbox/runner';
+import {
+  complexityRank,
+  fitComplexity,
+  formatComplexity,
+  parseComplexity,
+  type ComplexityClass,
+  type ComplexityFit,
+} from '@/lib/complexity-fit';
+
+export interface BenchmarkGenerator {
+  // Python program: reads n on stdin, prints an input of that size
+  code: string;
+  // What n measures, e.g. "length of nums"
+  sizeParameter: string;
+  maxSize: number;
+  model?: string;
+  promptVersion?: string;
+  generatedAt: string;
+}
+
+export interface BenchmarkQuestion {
+  id: string;
+  title: string;
+  question: string;
+  solution: unknown;
+  benchmark_generator: BenchmarkGenerator | null;
+}
+
+export interface BenchmarkSample {
+  n: number;
+  // Fastest of the repeated runs
+  timeMs: number;
+}
+
+export type BenchmarkVerdict = 'matches_optimal' | 'slower_than_optimal' | 'timed_out' | 'inconclusive' | 'compile_error' | 'runtime_error';
+
+export interface ClaimedComplexity {
+  // As written in the solution
+  text: string;
+  complexity: ComplexityClass | null;
+}
+
+export interface BenchmarkResult {
+  language: SandboxLanguage;
+  sizeParameter: string;
+  samples: BenchmarkSample[];
+  // Smallest size that hit the time limit
+  timedOutAt: number | null;
+  fit: ComplexityFit | null;
+  measured: ComplexityClass | null;
+  claimed: { bruteForce: ClaimedComplexity | null; optimal: ClaimedComplexity | null };
+  verdict: BenchmarkVerdict;
+  message: string;
+  // Compiler or runtime output for the compile_error and runtime_error verdicts
+  stderr?: string;
+}
+
+export class BenchmarkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BenchmarkError';
+  }
+}
+
+// Sizes above this take too long to generate and run in the sandbox
+export const MAX_BENCHMARK_SIZE = 200_000;
+const SIZE_STEPS = 7;
+// Each size runs this many times and keeps the fastest, to damp scheduling noise
+const REPEATS = 2;
+
+// Generated inputs can be far larger than normal program output
+const GENERATOR_LIMITS = { timeoutMs: 10000, cpuSeconds: 8, maxOutputBytes: 4 * 1024 * 1024 };
+const BENCHMARK_LIMITS = { timeoutMs: 4000, cpuSeconds: 4 };
+
+/**
+ * Load the question's input generator, generating and caching it on first use
+ * or when it was written by an older version of the prompt.
+ */
+export async function getBenchmarkGenerator(supabase: SupabaseClient, question: BenchmarkQuestion): Promise<BenchmarkGenerator> {
+  const cached = question.benchmark_generator;
+  if (cached?.code && cached.promptVersion === promptVersion('benchmarkGenerator')) return cached;
+
+  const output = await generateBenchmarkGenerator(question.title, question.question, parseQuestionText(question.question).examples);
+  const generator: BenchmarkGenerator = { ...output, generatedAt: new Date().toISOString() };
+
+  const { error } = await supabase.from('questions_user').update({ benchmark_generator: generator }).eq('id', question.id);
+  if (error) console.error(`Failed to cache the benchmark generator for question ${question.id}:`, error);
+  return generator;
+}
+
+// Geometric ladder of sizes ending at the largest allowed one
+export function benchmarkSizes(maxSize: number): number[] {
+  const top = Math.min(maxSize, MAX_BENCHMARK_SIZE);
+  const sizes = Array.from({ length: SIZE_STEPS }, (_, i) => Math.max(1, Math.round(top / 2 ** (SIZE_STEPS - 1 - i))));
+  return Array.from(new Set(sizes));
+}
+
+/**
+ * Run the generator once per request (a size, and a seed for varied inputs of
+ * the same size). Returns the generated input for each request, or null where
+ * the generator failed or its output was cut off.
+ */
+export async function runGenerator(
+  generator: BenchmarkGenerator,
+  requests: { n: number; seed?: number }[]
+): Promise<(string | null)[]> {
+  const cases = requests.map(({ n, seed }) => ({ input: seed === undefined ? String(n) : `${n} ${seed}`, expected: '' }));
+  const run = await runCode(generator.code, 'python', cases, { limits: GENERATOR_LIMITS });
+  if (!run.compile.ok) throw new BenchmarkError('The input generator for this question does not run');
+
+  return requests.map((_, index) => {
+    const result = run.cases[index];
+    const usable = result && (result.status === 'passed' || result.status === 'failed') && !result.truncated && result.stdout.trim();
+    return usable ? result.stdout : null;
+  });
+}
+
+async function generateInputs(generator: BenchmarkGenerator): Promise<{ n: number; input: string }[]> {
+  const sizes = benchmarkSizes(generator.maxSize);
+  const generated = await runGenerator(generator, sizes.map(n => ({ n })));
+
+  const inputs: { n: number; input: string }[] = [];
+  for (let i = 0; i < sizes.length; i++) {
+    // Sizes that fail or overflow the output cap are dropped along with the larger ones
+    const input = generated[i];
+    if (input === null) break;
+    inputs.push({ n: sizes[i], input });
+  }
+  if (inputs.length < 3) throw new BenchmarkError('Could not generate enough inputs to benchmark this question');
+  return inputs;
+}
+
+function toClaimed(text: string | undefined): ClaimedComplexity | null {
+  if (!text?.trim()) return null;
+  return { text: text.trim(), complexity: parseComplexity(text) };
+}
+
+function describe(
+  measured: ComplexityClass | null,
+  optimal: ClaimedComplexity | null,
+  timedOutAt: number | null,
+  sizeParameter: string
+): { verdict: BenchmarkVerdict; message: string } {
+  const optimalText = optimal?.complexity ? formatComplexity(optimal.complexity) : optimal?.text;
+  const optimalNote = optimalText ? ` The optimal is ${optimalText}.` : '';
+
+  if (timedOutAt !== null) {
+    const shape = measured ? ` Up to that size it looks ${formatComplexity(measured)}.` : '';
+    return {
+      verdict: 'timed_out',
+      message: `Your solution hit the ${BENCHMARK_LIMITS.timeoutMs / 1000}s limit at n = ${timedOutAt} (${sizeParameter}).${shape}${optimalNote}`,
+    };
+  }
+  if (!measured) {
+    return {
+      verdict: 'inconclusive',
+      message: `Your solution ran too fast at these sizes for its complexity to show.${optimalNote}`,
+    };
+  }
+  if (optimal?.complexity && complexityRank(measured) > complexityRank(optimal.complexity)) {
+    return {
+      verdict: 'slower_than_optimal',
+      message: `Your solution looks ${formatComplexity(measured)}, the optimal is ${formatComplexity(optimal.complexity)}.`,
+    };
+  }
+  return {
+    verdict: 'matches_optimal',
+    message: optimal?.complexity
+      ? `Your solution looks ${formatComplexity(measured)}, in line with the optimal ${formatComplexity(optimal.complexity)}.`
+      : `Your solution looks ${formatComplexity(measured)}.${optimalNote}`,
+  };
+}
+
+/**
+ * Time `code` on generated inputs of growing size and fit the timings.
+ * Throws BenchmarkError when no usable inputs could be generated.
+ */
+export async function runBenchmark(
+  code: string,
+  language: SandboxLanguage,
+  generator: BenchmarkGenerator,
+  storedSolution: unknown
+): Promise<BenchmarkResult> {
+  const solution = normalizeSolution(storedSolution);
+  const claimed = {
+    bruteForce: toClaimed(solution?.bruteForce.complexity.time),
+    optimal: toClaimed(solution?.optimal.complexity.time),
+  };
+  const inputs = await generateInputs(generator);
+
+  const cases = inputs.flatMap(({ input }) => Array.from({ length: REPEATS }, () => ({ input, expected: '' })));
+  const run = await runCode(code, language, cases, { limits: BENCHMARK_LIMITS, stopOnTimeout: true });
+
+  const base = { language, sizeParameter: generator.sizeParameter, claimed };
+  if (!run.compile.ok) {
+    return {
+      ...base, samples: [], timedOutAt: null, fit: null, measured: null,
+      verdict: 'compile_error', message: 'Your code does not compile.', stderr: run.compile.stderr,
+    };
+  }
+
+  const samples: BenchmarkSample[] = [];
+  let timedOutAt: number | null = null;
+  for (const result of run.cases) {
+    const n = inputs[Math.floor(result.index / REPEATS)].n;
+    if (result.status === 'runtime_error') {
+      return {
+        ...base, samples, timedOutAt: null, fit: null, measured: null,
+        verdict: 'runtime_error', message: `Your code crashed on an input with n = ${n}.`, stderr: result.stderr,
+      };
+    }
+    if (result.status === 'timeout') {
+      timedOutAt = n;
+      break;
+    }
+    const sample = samples.find(s => s.n === n);
+    if (sample) sample.timeMs = Math.min(sample.timeMs, result.timeMs);
+    else samples.push({ n, timeMs: result.timeMs });
+  }
+
+  const fit = fitComplexity(samples);
+  const measured = fit?.best ?? null;
+  return { ...base, samples, timedOutAt, fit, measured, ...describe(measured, claimed.optimal, timedOutAt, generator.sizeParameter) };
+}
@@ -0,0 +1,103 @@
+/**
+ * Chat Guardrails
+ *
+ * Output filter for tutor modes that must not show solution code. The
+ * hint-only prompt is never given the solution; on top of that, replies pass
+ * through a line-level guard that withholds fenced code blocks and redacts any
+ * line matching a line of the stored solution code, so a reply cannot
+ * reproduce the solution even when earlier turns in another mode contained it.
+ */
+import type { LLMStream } from '@/lib/llm/provider';
+import { normalizeSolution } from '@/lib/solution-schema';
+
+export const CODE_WITHHELD_NOTE = '_[Code withheld in hint-only mode]_';
+const REDACTED_LINE = '[…]';
+
+// Shorter lines (braces, "return 0;") are too generic to count as solution code
+const MIN_MATCH_LENGTH = 12;
+
+const FENCE = /^\s*(```|~~~)/;
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Normalized lines of the solution code in every language. A plain-text
+ * solution without structured code contributes all of its lines.
+ */
+export function solutionCodeLines(storedSolution: string): Set<string> {
+  const solution = normalizeSolution(storedSolution);
+  const code = solution
+    ? [solution.bruteForce.code, solution.optimal.code].flatMap(byLanguage => Object.values(byLanguage))
+    : [];
+  const sources = code.some(text => text.trim()) ? code : [storedSolution];
+
+  const lines = new Set<string>();
+  for (const source of sources) {
+    for (const line of source.split('\n')) {
+      const normalized = normalizeLine(line);
+      if (normalized.length >= MIN_MATCH_LENGTH) lines.add(normalized);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Streaming filter. Text is released a line at a time, once the line is known
+ * not to be inside a code fence or a copy of a solution line.
+ */
+export class HintOnlyGuard {
+  private buffer = '';
+  private inFence = false;
+
+  constructor(private readonly solutionLines: Set<string>) {}
+
+  private filterLine(line: string): string | null {
+    if (FENCE.test(line)) {
+      this.inFence = !this.inFence;
+      // Replace the whole block with a single note at its opening fence
+      return this.inFence ? CODE_WITHHELD_NOTE : null;
+    }
+    if (this.inFence) return null;
+    return this.solutionLines.has(normalizeLine(line)) ? REDACTED_LINE : line;
+  }
+
+  // Feed streamed text; returns the complete lines that are safe to show
+  push(text: string): string {
+    this.buffer += text;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return lines
+      .map(line => this.filterLine(line))
+      .filter((line): line is string => line !== null)
+      .map(line => `${line}\n`)
+      .join('');
+  }
+
+  // Release the last, unterminated line
+  flush(): string {
+    const rest = this.buffer;
+    this.buffer = '';
+    return rest ? this.filterLine(rest) ?? '' : '';
+  }
+
+  filter(text: string): string {
+    return this.push(text) + this.flush();
+  }
+}
+
+export function guardStream(stream: LLMStream, guard: HintOnlyGuard): LLMStream {
+  return {
+    model: stream.model,
+    vendor: stream.vendor,
+    async *[Symbol.asyncIterator]() {
+      for await (const delta of stream) {
+        const safe = guard.push(delta);
+        if (safe) yield safe;
+      }
+      const rest = guard.flush();
+      if (rest) yield rest;
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Chat Memory
+ *
+ * Token-aware context for the tutor chat. Recent turns go to the model
+ * verbatim within a token budget; once the unsummarized tail grows past the
+ * budget, its older turns are folded into a rolling per-question summary
+ * (stored next to the conversation, see lib/chat-session) that the prompt
+ * carries instead.
+ */
+import type { LLMProvider } from '@/lib/llm/provider';
+import type { ChatMessage } from '@/lib/mistral-api';
+import { renderPrompt } from '@/lib/prompts/registry';
+
+// Tokens of stored conversation sent verbatim with each request
+export const RECENT_TOKEN_BUDGET = 1200;
+
+// The latest exchange is always sent, whatever its size
+const MIN_RECENT_MESSAGES = 2;
+
+// Per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const SUMMARY_MAX_TOKENS = 400;
+
+export interface ChatMemory {
+  summary: string | null;
+  // Number of leading messages already folded into the summary
+  summarizedCount: number;
+  // Version of the chatSummary prompt that wrote the summary
+  promptVersion?: string;
+}
+
+export const EMPTY_CHAT_MEMORY: ChatMemory = { summary: null, summarizedCount: 0 };
+
+export function toChatMemory(value: unknown): ChatMemory {
+  if (!value || typeof value !== 'object') return EMPTY_CHAT_MEMORY;
+  const memory = value as Partial<ChatMemory>;
+  return {
+    summary: typeof memory.summary === 'string' && memory.summary ? memory.summary : null,
+    summarizedCount: typeof memory.summarizedCount === 'number' ? memory.summarizedCount : 0,
+    promptVersion: typeof memory.promptVersion === 'string' ? memory.promptVersion : undefined,
+  };
+}
+
+// Rough estimate (~4 characters per token); close enough for budgeting across vendors
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(message: Pick<ChatMessage, 'content'>): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Index of the first message to send verbatim: walk back from the end until
+ * the budget is spent, never before `from`. The window starts on a user turn
+ * so the model never sees a reply without its question.
+ */
+export function recentWindowStart(history: ChatMessage[], from: number, budget = RECENT_TOKEN_BUDGET): number {
+  let start = history.length;
+  let used = 0;
+
+  while (start > from) {
+    const cost = estimateMessageTokens(history[start - 1]);
+    if (history.length - start >= MIN_RECENT_MESSAGES && used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+
+  while (start < history.length - 1 && history[start].role !== 'user') start++;
+  return start;
+}
+
+export function formatTranscript(turns: ChatMessage[]): string {
+  return turns
+    .map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Fold older turns into the summary when the unsummarized tail no longer fits
+ * the budget. Compacts down to half the budget so the summary is not
+ * regenerated on every message. Returns null when nothing needs folding.
+ */
+export async function compactChatMemory(
+  provider: LLMProvider,
+  models: string[],
+  title: string,
+  history: ChatMessage[],
+  memory: ChatMemory
+): Promise<ChatMemory | null> {
+  const from = Math.min(memory.summarizedCount, history.length);
+  const pendingTokens = history.slice(from).reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+  if (pendingTokens <= RECENT_TOKEN_BUDGET) return null;
+
+  const keepFrom = recentWindowStart(history, from, RECENT_TOKEN_BUDGET / 2);
+  const turns = history.slice(from, keepFrom);
+  if (turns.length === 0) return null;
+
+  const prompt = renderPrompt('chatSummary', {
+    title: title || 'Untitled problem',
+    summary: memory.summary || 'Nothing yet',
+    transcript: formatTranscript(turns),
+  });
+  const result = await provider.generate(prompt.text, { models, temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS });
+
+  const summary = result.content.trim();
+  if (!summary) return null;
+  return { summary, summarizedCount: keepFrom, promptVersion: prompt.version };
+}
@@ -0,0 +1,331 @@
+/**
+ * Chat Session
+ *
+ * Server-side state behind /api/chat/mistral. The browser only sends a question
+ * id, its message and a chat mode; the question, the stored conversation and the
+ * user's plan are loaded here, so the tutor prompt (which includes the reference
+ * solution) is assembled on the server and never passes through the client.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { HintOnlyGuard, solutionCodeLines } from '@/lib/chat-guardrails';
+import { compactChatMemory, EMPTY_CHAT_MEMORY, recentWindowStart, toChatMemory, type ChatMemory } from '@/lib/chat-memory';
+import type { LLMMessage, LLMProvider } from '@/lib/llm/provider';
+import type { ChatMessage } from '@/lib/mistral-api';
+import { buildChatSystemPrompt, buildCodeAnalysisPrompt, type ChatPromptName } from '@/lib/prompts/chat';
+import type { RenderedPrompt } from '@/lib/prompts/registry';
+import { getRunnableCases } from '@/lib/test-cases';
+import { loadWeaknessPromptContext } from '@/lib/weakness-model';
+import { AI_LEVELS } from '@/types/subscription';
+
+// Tutor modes for the chat panels; codeAnalysis is the collaborator's structured review
+export const TUTOR_MODES = ['socratic', 'hintOnly', 'codeReview', 'fullExplanation'] as const;
+export type TutorMode = typeof TUTOR_MODES[number];
+
+export const CHAT_MODES = [...TUTOR_MODES, 'codeAnalysis'] as const;
+export type ChatMode = typeof CHAT_MODES[number];
+
+export const DEFAULT_CHAT_MODE: TutorMode = 'socratic';
+
+// Socratic mode picks questionChat or questionChatWithHistory depending on the history
+const TUTOR_TEMPLATES: Record<Exclude<TutorMode, 'socratic'>, ChatPromptName> = {
+  hintOnly: 'tutorHintOnly',
+  codeReview: 'tutorCodeReview',
+  fullExplanation: 'tutorFullExplanation',
+};
+
+export type AiLevel = typeof AI_LEVELS[keyof typeof AI_LEVELS];
+
+export interface ChatAccess {
+  plan: string;
+  aiLevel: AiLevel;
+  modes: ChatMode[];
+  // Models the plan may use, in fallback order
+  models: string[];
+}
+
+// Plans not listed here, including users without a plan, get the basic tier
+const PLAN_AI_LEVELS: Record<string, AiLevel> = {
+  payg: AI_LEVELS.ADVANCED,
+  premium: AI_LEVELS.ADVANCED,
+};
+
+const MODES_BY_AI_LEVEL: Record<AiLevel, ChatMode[]> = {
+  basic: ['socratic', 'hintOnly'],
+  advanced: [...CHAT_MODES],
+};
+
+export type ChatQuestionSource = 'user' | 'bank';
+
+export interface ChatQuestion {
+  id: string;
+  // 'user' questions live in questions_user, 'bank' questions in questions_global
+  source: ChatQuestionSource;
+  userId: string;
+  title: string;
+  question: string;
+  hint: string[];
+  solution: string;
+  history: ChatMessage[];
+  // Rolling summary of the turns before the verbatim window
+  memory: ChatMemory;
+  // Previous collaborator submissions, used as history by codeAnalysis
+  attempts: string[];
+  testCasesSeededAt: string | null;
+}
+
+export interface ChatRequest {
+  prompt: RenderedPrompt;
+  messages: LLMMessage[];
+}
+
+export function isChatMode(mode: unknown): mode is ChatMode {
+  return CHAT_MODES.includes(mode as ChatMode);
+}
+
+export function isTutorMode(mode: unknown): mode is TutorMode {
+  return TUTOR_MODES.includes(mode as TutorMode);
+}
+
+/**
+ * Output guard for modes that must not reveal solution code, or null when the
+ * mode may show it.
+ */
+export function createReplyGuard(question: ChatQuestion, mode: ChatMode): HintOnlyGuard | null {
+  return mode === 'hintOnly' ? new HintOnlyGuard(solutionCodeLines(question.solution)) : null;
+}
+
+export async function getChatAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  vendorModels: string[]
+): Promise<ChatAccess> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('plan')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load plan: ${error.message}`);
+
+  const plan: string = data?.plan || 'free';
+  const aiLevel = PLAN_AI_LEVELS[plan] ?? AI_LEVELS.BASIC;
+  return {
+    plan,
+    aiLevel,
+    modes: MODES_BY_AI_LEVEL[aiLevel],
+    // Basic plans only get the lightest model, the last one in the fallback order
+    models: aiLevel === AI_LEVELS.ADVANCED ? vendorModels : vendorModels.slice(-1),
+  };
+}
+
+function toStoredMessages(value: unknown): ChatMessage[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((m): m is ChatMessage =>
+    !!m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string'
+  );
+}
+
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  return value == null ? '' : JSON.stringify(value);
+}
+
+/**
+ * Load a question the user may chat about: one of their own questions, or
+ * otherwise a question bank problem. Returns null when neither exists.
+ */
+export async function loadChatQuestion(
+  supabase: SupabaseClient,
+  userId: string,
+  questionId: string
+): Promise<ChatQuestion | null> {
+  const { data: own, error: ownError } = await supabase
+    .from('questions_user')
+    .select('id, title, question, hint, solution, chat, chat_memory, collaborator_chat, test_cases_seeded_at')
+    .eq('id', questionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (ownError) throw new Error(`Failed to load question: ${ownError.message}`);
+
+  if (own) {
+    return {
+      id: own.id,
+      source: 'user',
+      userId,
+      title: own.title,
+      question: own.question,
+      hint: Array.isArray(own.hint) ? own.hint : [],
+      solution: toText(own.solution),
+      history: toStoredMessages(own.chat),
+      memory: toChatMemory(own.chat_memory),
+      attempts: Array.isArray(own.collaborator_chat) ? own.collaborator_chat : [],
+      testCasesSeededAt: own.test_cases_seeded_at ?? null,
+    };
+  }
+
+  const { data: bank, error: bankError } = await supabase
+    .from('questions_global')
+    .select('id, title, question, hint, solution')
+    .eq('id', questionId)
+    .maybeSingle();
+
+  if (bankError) throw new Error(`Failed to load question: ${bankError.message}`);
+  if (!bank) return null;
+
+  const { data: chat, error: chatError } = await supabase
+    .from('question_bank_chats')
+    .select('messages, memory')
+    .eq('user_id', userId)
+    .eq('question_id', questionId)
+    .maybeSingle();
+
+  if (chatError) throw new Error(`Failed to load chat history: ${chatError.message}`);
+
+  return {
+    id: bank.id,
+    source: 'bank',
+    userId,
+    title: bank.title,
+    question: bank.question,
+    hint: Array.isArray(bank.hint) ? bank.hint : [],
+    solution: toText(bank.solution),
+    history: toStoredMessages(chat?.messages),
+    memory: toChatMemory(chat?.memory),
+    attempts: [],
+    testCasesSeededAt: null,
+  };
+}
+
+async function updateChatRow(
+  supabase: SupabaseClient,
+  question: ChatQuestion,
+  changes: { messages?: ChatMessage[]; memory?: ChatMemory }
+): Promise<void> {
+  const { error } = question.source === 'user'
+    ? await supabase
+        .from('questions_user')
+        .update({
+          ...(changes.messages && { chat: changes.messages }),
+          ...(changes.memory && { chat_memory: changes.memory }),
+        })
+        .eq('id', question.id)
+        .eq('user_id', question.userId)
+    : await supabase
+        .from('question_bank_chats')
+        .upsert({
+          user_id: question.userId,
+          question_id: question.id,
+          ...(changes.messages && { messages: changes.messages }),
+          ...(changes.memory && { memory: changes.memory }),
+          updated_at: new Date().toISOString(),
+        });
+
+  if (error) throw new Error(`Failed to save chat history: ${error.message}`);
+}
+
+export async function clearChatHistory(supabase: SupabaseClient, question: ChatQuestion): Promise<void> {
+  await updateChatRow(supabase, question, { messages: [], memory: EMPTY_CHAT_MEMORY });
+}
+
+/**
+ * Store one completed turn after the stored history; resolves with the new history.
+ * The append happens in the database (append_chat_messages), so turns stored by
+ * concurrent requests or a clear since `question` was loaded are kept.
+ */
+export async function appendChatExchange(
+  supabase: SupabaseClient,
+  question: ChatQuestion,
+  userMessage: string,
+  reply: ChatMessage
+): Promise<ChatMessage[]> {
+  const exchange: ChatMessage[] = [{ role: 'user', content: userMessage }, reply];
+  const { data, error } = await supabase.rpc('append_chat_messages', {
+    p_question_id: question.id,
+    p_source: question.source,
+    p_messages: exchange,
+  });
+
+  if (error) throw new Error(`Failed to save chat history: ${error.message}`);
+  if (data == null) throw new Error(`Failed to save chat history: question ${question.id} not found`);
+  return toStoredMessages(data);
+}
+
+/**
+ * Fold older turns of `history` into the stored summary once they no longer
+ * fit the verbatim window. Resolves with the memory in effect afterwards.
+ */
+export async function refreshChatMemory(
+  supabase: SupabaseClient,
+  provider: LLMProvider,
+  models: string[],
+  question: ChatQuestion,
+  history: ChatMessage[]
+): Promise<ChatMemory> {
+  const memory = await compactChatMemory(provider, models, question.title, history, question.memory);
+  if (!memory) return question.memory;
+
+  await updateChatRow(supabase, question, { memory });
+  return memory;
+}
+
+async function formatTestCases(supabase: SupabaseClient, question: ChatQuestion): Promise<string> {
+  try {
+    const cases = await getRunnableCases(supabase, {
+      id: question.id,
+      user_id: question.userId,
+      question: question.question,
+      test_cases_seeded_at: question.testCasesSeededAt,
+    });
+    return cases
+      .map((c, idx) => `Test ${idx + 1}:\nInput: ${c.input}\nExpected Output: ${c.expected}`)
+      .join('\n\n');
+  } catch (error) {
+    console.warn(`Could not load test cases for question ${question.id}, proceeding without them.`, error);
+    return '';
+  }
+}
+
+/**
+ * Render the tutor prompt for a mode and assemble the messages sent to the
+ * model. Throws PromptError if the template cannot be filled.
+ */
+export async function buildChatRequest(
+  supabase: SupabaseClient,
+  question: ChatQuestion,
+  mode: ChatMode,
+  userMessage: string
+): Promise<ChatRequest> {
+  const context = {
+    title: question.title,
+    question: question.question,
+    hint: question.hint,
+    // Hint-only prompts never receive the solution
+    solution: mode === 'hintOnly' ? undefined : question.solution,
+    summary: question.memory.summary ?? undefined,
+    // Tutor modes bias their guidance toward the student's weak spots
+    weaknesses: mode === 'codeAnalysis' ? undefined : await loadWeaknessPromptContext(supabase, question.userId),
+  };
+  const userTurn: LLMMessage = { role: 'user', content: userMessage };
+
+  if (mode === 'codeAnalysis') {
+    const attempts = question.attempts.map((code, idx) => `Attempt ${idx + 1}:\n${code}`).join('\n\n');
+    const tests = await formatTestCases(supabase, question);
+    const prompt = buildCodeAnalysisPrompt(context, [userTurn], {
+      history: attempts || 'No previous attempts',
+      tests: tests || 'No test cases',
+    });
+    return { prompt, messages: [{ role: 'system', content: prompt.text }, userTurn] };
+  }
+
+  // Turns before the window are represented by the summary. In hint-only mode,
+  // code from replies given in other modes is filtered out of the history too.
+  const recent: LLMMessage[] = question.history
+    .slice(recentWindowStart(question.history, question.memory.summarizedCount))
+    .map(({ role, content }) => ({ role, content: createReplyGuard(question, mode)?.filter(content) ?? content }));
+  const name: ChatPromptName = mode === 'socratic'
+    ? (question.history.length > 0 ? 'questionChatWithHistory' : 'questionChat')
+    : TUTOR_TEMPLATES[mode];
+  const prompt = buildChatSystemPrompt(name, context, [...recent, userTurn]);
+  return { prompt, messages: [{ role: 'system', content: prompt.text }, ...recent, userTurn] };
+}
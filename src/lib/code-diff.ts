@@ -0,0 +1,119 @@
+/**
+ * Code Diff
+ *
+ * Line diff between two versions of the editor code, for comparing collaborator
+ * attempts. Common leading and trailing lines are matched directly and the
+ * middle is diffed with a longest-common-subsequence table, which is plenty for
+ * solution-sized files.
+ */
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers in the old and new code; absent on the side the line is missing from
+  oldLine?: number;
+  newLine?: number;
+}
+
+// One row of a side-by-side view; a missing side is rendered as an empty cell
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+function splitLines(code: string): string[] {
+  return code === '' ? [] : code.replace(/\r\n/g, '\n').split('\n');
+}
+
+export function diffLines(oldCode: string, newCode: string): DiffLine[] {
+  const a = splitLines(oldCode);
+  const b = splitLines(newCode);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..], stored row-major
+  const width = midB.length + 1;
+  const lcs = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  for (let k = 0; k < prefix; k++) lines.push({ type: 'same', text: a[k], oldLine: k + 1, newLine: k + 1 });
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      lines.push({ type: 'same', text: midA[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+      i++;
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      // On ties removals go first, so a changed line reads as old then new
+      lines.push({ type: 'removed', text: midA[i], oldLine: prefix + i + 1 });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: midB[j], newLine: prefix + j + 1 });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    const oldIndex = a.length - suffix + k;
+    const newIndex = b.length - suffix + k;
+    lines.push({ type: 'same', text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+  }
+
+  return lines;
+}
+
+/**
+ * Pair a unified diff into side-by-side rows: each run of removed lines is
+ * shown next to the run of added lines that replaces it.
+ */
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let k = 0;
+  while (k < lines.length) {
+    if (lines[k].type === 'same') {
+      rows.push({ left: lines[k], right: lines[k] });
+      k++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (k < lines.length && lines[k].type !== 'same') {
+      (lines[k].type === 'removed' ? removed : added).push(lines[k]);
+      k++;
+    }
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      rows.push({ left: removed[r], right: added[r] });
+    }
+  }
+  return rows;
+}
+
+export function diffStats(lines: DiffLine[]): DiffStats {
+  return {
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Code Drafts
+ *
+ * Collaborator editor drafts, stored per question and editor language in
+ * code_drafts. Saves are optimistic: each names the revision it was based on,
+ * and a save whose base is no longer current (another tab or device saved in
+ * between) fails with DraftConflictError carrying the stored draft, so the
+ * editor can let the user pick a version instead of silently overwriting.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface CodeDraft {
+  language: string;
+  code: string;
+  revision: number;
+  updatedAt: string;
+}
+
+// Drafts are code for one problem; anything much larger is not a draft
+export const MAX_DRAFT_LENGTH = 100_000;
+
+const DRAFT_COLUMNS = 'language, code, revision, updated_at';
+
+// Postgres unique_violation: a draft for this language was created concurrently
+const UNIQUE_VIOLATION = '23505';
+
+export class DraftConflictError extends Error {
+  current: CodeDraft;
+
+  constructor(current: CodeDraft) {
+    super(`The ${current.language} draft was changed elsewhere (revision ${current.revision})`);
+    this.name = 'DraftConflictError';
+    this.current = current;
+  }
+}
+
+export function isDraftLanguage(value: unknown): value is string {
+  return typeof value === 'string' && /^[a-z0-9+#-]{1,20}$/.test(value);
+}
+
+function toDraft(row: { language: string; code: string; revision: number; updated_at: string }): CodeDraft {
+  return { language: row.language, code: row.code, revision: row.revision, updatedAt: row.updated_at };
+}
+
+// Every draft for the question, most recently saved first
+export async function listDrafts(supabase: SupabaseClient, userId: string, questionId: string): Promise<CodeDraft[]> {
+  const { data, error } = await supabase
+    .from('code_drafts')
+    .select(DRAFT_COLUMNS)
+    .eq('user_id', userId)
+    .eq('question_id', questionId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to load drafts: ${error.message}`);
+  return (data || []).map(toDraft);
+}
+
+async function getDraft(supabase: SupabaseClient, userId: string, questionId: string, language: string): Promise<CodeDraft | null> {
+  const { data, error } = await supabase
+    .from('code_drafts')
+    .select(DRAFT_COLUMNS)
+    .eq('user_id', userId)
+    .eq('question_id', questionId)
+    .eq('language', language)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load draft: ${error.message}`);
+  return data ? toDraft(data) : null;
+}
+
+/**
+ * Save a draft on top of `baseRevision` (0 for a language with no draft yet).
+ * Returns the stored draft; throws DraftConflictError when the base is stale.
+ */
+export async function saveDraft(
+  supabase: SupabaseClient,
+  userId: string,
+  questionId: string,
+  language: string,
+  code: string,
+  baseRevision: number
+): Promise<CodeDraft> {
+  if (baseRevision === 0) {
+    const { data, error } = await supabase
+      .from('code_drafts')
+      .insert({ user_id: userId, question_id: questionId, language, code, revision: 1 })
+      .select(DRAFT_COLUMNS)
+      .single();
+
+    if (!error) return toDraft(data);
+    if (error.code !== UNIQUE_VIOLATION) throw new Error(`Failed to save draft: ${error.message}`);
+  } else {
+    // Only matches while the stored revision is still the one the editor started from
+    const { data, error } = await supabase
+      .from('code_drafts')
+      .update({ code, revision: baseRevision + 1, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('question_id', questionId)
+      .eq('language', language)
+      .eq('revision', baseRevision)
+      .select(DRAFT_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to save draft: ${error.message}`);
+    if (data) return toDraft(data);
+  }
+
+  const current = await getDraft(supabase, userId, questionId, language);
+  // Deleted since the editor loaded it: nothing to conflict with, start over
+  if (!current) return saveDraft(supabase, userId, questionId, language, code, 0);
+  throw new DraftConflictError(current);
+}
+
+// --- Browser cache ---
+// The editor keeps a local copy of each draft so edits survive a reload before
+// the debounced save, and so other parts of the page can read the current code.
+
+export interface LocalDraft {
+  code: string;
+  // Server revision the local code was based on
+  revision: number;
+  // Edited since the last successful save
+  dirty: boolean;
+}
+
+const localDraftKey = (questionId: string, language: string) => `collab_draft:${questionId}:${language}`;
+const localLanguageKey = (questionId: string) => `collab_language:${questionId}`;
+
+export function readLocalDraft(questionId: string, language: string): LocalDraft | null {
+  try {
+    const stored = localStorage.getItem(localDraftKey(questionId, language));
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as Partial<LocalDraft>;
+    if (typeof parsed.code !== 'string') return null;
+    return { code: parsed.code, revision: Number(parsed.revision) || 0, dirty: !!parsed.dirty };
+  } catch {
+    return null;
+  }
+}
+
+export function writeLocalDraft(questionId: string, language: string, draft: LocalDraft): void {
+  localStorage.setItem(localDraftKey(questionId, language), JSON.stringify(draft));
+}
+
+export function removeLocalDraft(questionId: string, language: string): void {
+  localStorage.removeItem(localDraftKey(questionId, language));
+}
+
+export function readLocalLanguage(questionId: string): string | null {
+  return localStorage.getItem(localLanguageKey(questionId));
+}
+
+export function writeLocalLanguage(questionId: string, language: string): void {
+  localStorage.setItem(localLanguageKey(questionId), language);
+}
+
+// Code currently in the editor for the question, in the last language used
+export function readCurrentCode(questionId: string): string {
+  const language = readLocalLanguage(questionId);
+  return language ? readLocalDraft(questionId, language)?.code ?? '' : '';
+}
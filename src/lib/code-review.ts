@@ -0,0 +1,134 @@
+/**
+ * Code Review
+ *
+ * Structured output of the collaborator's codeAnalysis review: a summary plus
+ * findings anchored to line ranges of the submitted code, each optionally
+ * carrying replacement lines. The editor sends its code with line numbers so
+ * the model can cite them, renders findings as gutter markers, and applies a
+ * fix by swapping the finding's lines for the replacement.
+ */
+
+export const REVIEW_SEVERITIES = ['error', 'warning', 'info'] as const;
+export type ReviewSeverity = typeof REVIEW_SEVERITIES[number];
+
+export interface ReviewFinding {
+  // 1-based and inclusive, in the code that was reviewed
+  startLine: number;
+  endLine: number;
+  severity: ReviewSeverity;
+  message: string;
+  // Replacement for lines startLine..endLine, when the model suggested one
+  fix?: string;
+}
+
+export interface CodeReview {
+  summary: string;
+  // One sentence on why the code is or is not correct
+  reason: string;
+  findings: ReviewFinding[];
+}
+
+// Shown in place of findings when the reply could not be parsed
+const UNPARSED_REASON = 'Response was not in the expected JSON format.';
+
+// Prefix every line with its number, as the codeAnalysis prompt expects
+export function numberLines(code: string): string {
+  const lines = code.split('\n');
+  const width = String(lines.length).length;
+  return lines.map((line, i) => `${String(i + 1).padStart(width)} | ${line}`).join('\n');
+}
+
+function toFinding(value: unknown, lineCount: number): ReviewFinding | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const message = typeof raw.message === 'string' ? raw.message.trim() : '';
+  const start = Number(raw.startLine);
+  if (!message || !Number.isInteger(start)) return null;
+
+  const end = Number.isInteger(Number(raw.endLine)) ? Number(raw.endLine) : start;
+  const startLine = Math.min(Math.max(start, 1), lineCount);
+  const endLine = Math.min(Math.max(end, startLine), lineCount);
+  const severity = REVIEW_SEVERITIES.includes(raw.severity as ReviewSeverity) ? raw.severity as ReviewSeverity : 'info';
+  const fix = typeof raw.fix === 'string' ? raw.fix.replace(/\n$/, '') : undefined;
+
+  return { startLine, endLine, severity, message, ...(fix !== undefined ? { fix } : {}) };
+}
+
+/**
+ * Parse a codeAnalysis reply for code with `lineCount` lines. Line ranges are
+ * clamped to the code; a reply without usable JSON becomes a summary-only review.
+ */
+export function parseCodeReview(reply: string | null, lineCount: number): CodeReview {
+  if (!reply) return { summary: '', reason: 'No response received.', findings: [] };
+
+  const jsonMatch = reply.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return { summary: reply, reason: UNPARSED_REASON, findings: [] };
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return { summary: reply, reason: UNPARSED_REASON, findings: [] };
+  }
+
+  const findings = Array.isArray(parsed.findings)
+    ? parsed.findings
+        .map(finding => toFinding(finding, Math.max(lineCount, 1)))
+        .filter((finding): finding is ReviewFinding => finding !== null)
+        .sort((a, b) => a.startLine - b.startLine)
+    : [];
+
+  // Replies from the first codeAnalysis prompt put the analysis under "0" and the reason under "1"
+  const summary = parsed.summary ?? parsed['0'];
+  const reason = parsed.reason ?? parsed['1'];
+  return {
+    summary: typeof summary === 'string' ? summary : '',
+    reason: typeof reason === 'string' && reason ? reason : 'No reason provided.',
+    findings,
+  };
+}
+
+/**
+ * Keep findings on the lines they refer to after an edit that changed the
+ * line count by `delta` starting at `editLine`: later findings move, findings
+ * spanning the edit grow or shrink, and findings deleted entirely are dropped.
+ */
+export function shiftFindings(findings: ReviewFinding[], editLine: number, delta: number): ReviewFinding[] {
+  if (delta === 0) return findings;
+  return findings
+    .map(finding => {
+      if (finding.startLine > editLine) {
+        return { ...finding, startLine: finding.startLine + delta, endLine: finding.endLine + delta };
+      }
+      if (finding.endLine >= editLine) return { ...finding, endLine: finding.endLine + delta };
+      return finding;
+    })
+    .filter(finding => finding.startLine >= 1 && finding.endLine >= finding.startLine);
+}
+
+/**
+ * Replace the finding's lines with its fix. Returns the new code and the
+ * remaining findings moved to match it.
+ */
+export function applyFindingFix(
+  code: string,
+  findings: ReviewFinding[],
+  finding: ReviewFinding
+): { code: string; findings: ReviewFinding[] } {
+  if (finding.fix === undefined) return { code, findings };
+
+  const lines = code.split('\n');
+  const replacement = finding.fix === '' ? [] : finding.fix.split('\n');
+  lines.splice(finding.startLine - 1, finding.endLine - finding.startLine + 1, ...replacement);
+
+  const delta = replacement.length - (finding.endLine - finding.startLine + 1);
+  const rest = findings
+    .filter(other => other !== finding)
+    // Findings overlapping the replaced lines no longer point at the code they described
+    .filter(other => other.endLine < finding.startLine || other.startLine > finding.endLine)
+    .map(other => other.startLine > finding.endLine
+      ? { ...other, startLine: other.startLine + delta, endLine: other.endLine + delta }
+      : other);
+
+  return { code: lines.join('\n'), findings: rest };
+}
@@ -0,0 +1,117 @@
+/**
+ * Complexity Fit
+ *
+ * Matches measured running times against common time-complexity classes. Each
+ * class is fitted as t = a * f(n) + b by least squares, where b absorbs process
+ * start-up, and the class with the smallest relative error wins. Claimed
+ * complexities from the solution JSON ("O(n log n)", "O(N^2)") are parsed onto
+ * the same classes so the two can be compared.
+ */
+
+export const COMPLEXITY_CLASSES = ['1', 'log n', 'n', 'n log n', 'n^2', 'n^3', '2^n'] as const;
+export type ComplexityClass = typeof COMPLEXITY_CLASSES[number];
+
+export interface TimingSample {
+  n: number;
+  timeMs: number;
+}
+
+export interface ComplexityFit {
+  best: ComplexityClass;
+  // Relative RMS error of every class that could be fitted, best first
+  errors: { complexity: ComplexityClass; error: number }[];
+}
+
+const GROWTH: Record<ComplexityClass, (n: number) => number> = {
+  '1': () => 1,
+  'log n': n => Math.log2(Math.max(n, 2)),
+  n: n => n,
+  'n log n': n => n * Math.log2(Math.max(n, 2)),
+  'n^2': n => n * n,
+  'n^3': n => n * n * n,
+  '2^n': n => Math.pow(2, n),
+};
+
+// Below this spread the timings are start-up noise and say nothing about growth
+export const MIN_MEASURABLE_SPREAD_MS = 15;
+
+export const formatComplexity = (complexity: ComplexityClass): string => `O(${complexity})`;
+
+// Slower-growing classes rank lower
+export const complexityRank = (complexity: ComplexityClass): number => COMPLEXITY_CLASSES.indexOf(complexity);
+
+function fitClass(samples: TimingSample[], growth: (n: number) => number): number | null {
+  const xs = samples.map(s => growth(s.n));
+  if (xs.some(x => !Number.isFinite(x))) return null;
+  const ts = samples.map(s => s.timeMs);
+  const count = samples.length;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / count;
+  const meanT = ts.reduce((sum, t) => sum + t, 0) / count;
+  const varX = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+
+  // A constant growth function only fits the mean
+  let slope = varX > 0 ? xs.reduce((sum, x, i) => sum + (x - meanX) * (ts[i] - meanT), 0) / varX : 0;
+  // Time cannot shrink as the input grows
+  if (slope < 0) slope = 0;
+  const intercept = meanT - slope * meanX;
+
+  const squared = xs.reduce((sum, x, i) => sum + (ts[i] - (slope * x + intercept)) ** 2, 0);
+  return Math.sqrt(squared / count) / Math.max(meanT, 1);
+}
+
+/**
+ * Fit timings to the complexity classes, or null when there are too few sizes
+ * or the times barely change (the code is too fast to tell at these sizes).
+ */
+export function fitComplexity(samples: TimingSample[]): ComplexityFit | null {
+  const distinct = new Set(samples.map(s => s.n));
+  if (distinct.size < 3) return null;
+
+  const times = samples.map(s => s.timeMs);
+  if (Math.max(...times) - Math.min(...times) < MIN_MEASURABLE_SPREAD_MS) return null;
+
+  const errors = COMPLEXITY_CLASSES
+    .map(complexity => ({ complexity, error: fitClass(samples, GROWTH[complexity]) }))
+    .filter((fit): fit is { complexity: ComplexityClass; error: number } => fit.error !== null)
+    .sort((a, b) => a.error - b.error || complexityRank(a.complexity) - complexityRank(b.complexity));
+
+  return errors.length > 0 ? { best: errors[0].complexity, errors } : null;
+}
+
+/**
+ * Map a claimed complexity such as "O(n log n)", "O(N^2)" or "O(n * m)" onto a
+ * class. Every size variable counts as n, so O(n + m) is linear and O(n * m)
+ * quadratic. Returns null when the claim cannot be read.
+ */
+export function parseComplexity(claim: string): ComplexityClass | null {
+  const match = claim.match(/O\s*\(([^()]*(?:\([^()]*\)[^()]*)*)\)/i);
+  if (!match) return null;
+
+  const expression = match[1]
+    .toLowerCase()
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    // Any single-letter size variable (n, m, k, v, e, ...) becomes n
+    .replace(/\b[a-z]\b/g, 'n')
+    .replace(/\s+/g, '')
+    .replace(/log\(?n\)?/g, 'L')
+    .replace(/\*/g, '');
+
+  // Highest-order term of a sum
+  const terms = expression.split('+').map(term => {
+    if (/2\^n/.test(term)) return '2^n';
+    const powers: string[] = term.match(/n\^\d/g) || [];
+    const power = powers.reduce((sum, p) => sum + Number(p.slice(2)), 0)
+      + (term.replace(/n\^\d/g, '').match(/n/g) || []).length;
+    const logs = (term.match(/L/g) || []).length;
+    if (power === 0) return logs > 0 ? 'log n' : /^\d+$/.test(term) ? '1' : null;
+    if (power === 1) return logs > 0 ? 'n log n' : 'n';
+    if (power === 2) return 'n^2';
+    if (power === 3) return 'n^3';
+    return null;
+  });
+  if (terms.some(term => term === null)) return null;
+
+  return (terms as ComplexityClass[]).reduce((max, term) => (complexityRank(term) > complexityRank(max) ? term : max));
+}
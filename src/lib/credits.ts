@@ -0,0 +1,143 @@
+/**
+ * Credit Ledger
+ *
+ * Every credit change is an append-only row in credit_ledger, written through
+ * the apply_credit_entry RPC which locks the user, enforces the idempotency key
+ * and keeps users.credits equal to the ledger sum. The RPC is only executable
+ * with the service role, so callers pass an admin client.
+ *
+ * The ledger is the source of truth: the RPC checks debits against the ledger
+ * sum, not users.credits. users.credits is a cache of that sum, updated in the
+ * same transaction as each entry, so the UI and pre-checks read it instead of
+ * summing the ledger.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type CreditReason = 'opening_balance' | 'purchase' | 'question_processing' | 'refund' | 'adjustment' | 'ai_hint';
+
+export type CreditEntryStatus = 'applied' | 'duplicate' | 'insufficient';
+
+export interface CreditEntry {
+  userId: string;
+  amount: number;
+  reason: CreditReason;
+  idempotencyKey: string;
+  referenceId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CreditEntryResult {
+  // The written entry, or the existing one for a duplicate key; null when insufficient
+  entryId: string | null;
+  status: CreditEntryStatus;
+  balance: number;
+}
+
+// A debit taken for one processing attempt, needed to refund it
+export interface QuestionDebit extends CreditEntryResult {
+  questionId: string;
+  attempt: number;
+}
+
+export class CreditLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CreditLedgerError';
+  }
+}
+
+export const QUESTION_PROCESSING_COST = 1;
+
+export async function applyCreditEntry(admin: SupabaseClient, entry: CreditEntry): Promise<CreditEntryResult> {
+  if (!Number.isInteger(entry.amount) || entry.amount === 0) {
+    throw new CreditLedgerError(`Credit amount must be a non-zero integer, got ${entry.amount}`);
+  }
+
+  const { data, error } = await admin.rpc('apply_credit_entry', {
+    p_user_id: entry.userId,
+    p_amount: entry.amount,
+    p_reason: entry.reason,
+    p_idempotency_key: entry.idempotencyKey,
+    p_reference_id: entry.referenceId ?? null,
+    p_metadata: entry.metadata ?? {},
+  });
+
+  if (error) throw new CreditLedgerError(`Failed to apply credit entry ${entry.idempotencyKey}: ${error.message}`);
+
+  const row = (Array.isArray(data) ? data[0] : data) as { entry_id: string | null; status: CreditEntryStatus; balance: number } | undefined;
+  if (!row) throw new CreditLedgerError(`No result for credit entry ${entry.idempotencyKey}`);
+
+  return { entryId: row.entry_id, status: row.status, balance: row.balance };
+}
+
+/**
+ * Charge for processing a question. Each refund starts a new attempt, so a
+ * question that failed and was refunded is charged again on retry, while
+ * concurrent requests for the same attempt share a key and are charged once.
+ */
+export async function debitQuestionProcessing(
+  admin: SupabaseClient,
+  userId: string,
+  questionId: string
+): Promise<QuestionDebit> {
+  const { count, error } = await admin
+    .from('credit_ledger')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('reference_id', questionId)
+    .eq('reason', 'refund');
+
+  if (error) throw new CreditLedgerError(`Failed to read refunds for question ${questionId}: ${error.message}`);
+
+  const attempt = (count || 0) + 1;
+  const result = await applyCreditEntry(admin, {
+    userId,
+    amount: -QUESTION_PROCESSING_COST,
+    reason: 'question_processing',
+    idempotencyKey: `question:${questionId}#${attempt}`,
+    referenceId: questionId,
+  });
+
+  return { ...result, questionId, attempt };
+}
+
+/**
+ * Give back a processing debit, e.g. when the AI call fails after charging.
+ * Safe to call more than once for the same debit.
+ */
+export async function refundQuestionProcessing(
+  admin: SupabaseClient,
+  userId: string,
+  debit: Pick<QuestionDebit, 'questionId' | 'attempt' | 'entryId'>,
+  cause?: string
+): Promise<CreditEntryResult> {
+  return applyCreditEntry(admin, {
+    userId,
+    amount: QUESTION_PROCESSING_COST,
+    reason: 'refund',
+    idempotencyKey: `refund:question:${debit.questionId}#${debit.attempt}`,
+    referenceId: debit.questionId,
+    metadata: { debitEntryId: debit.entryId, ...(cause ? { cause } : {}) },
+  });
+}
+
+/**
+ * Add purchased credits. Keyed by the payment id, so a verification that is
+ * retried or replayed never credits the same payment twice.
+ */
+export async function grantPurchasedCredits(
+  admin: SupabaseClient,
+  userId: string,
+  paymentId: string,
+  credits: number,
+  metadata: Record<string, unknown> = {}
+): Promise<CreditEntryResult> {
+  return applyCreditEntry(admin, {
+    userId,
+    amount: credits,
+    reason: 'purchase',
+    idempotencyKey: `payment:${paymentId}`,
+    referenceId: paymentId,
+    metadata,
+  });
+}
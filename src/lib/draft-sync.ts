@@ -0,0 +1,239 @@
+// Browser side of the editor drafts in lib/code-drafts: keeps one draft per
+// editor language for a question, mirrors it to localStorage on every edit and
+// saves it to /api/question/[id]/drafts after a pause in typing. A language
+// without a draft shows the question's starter program (lib/starter-code).
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  readLocalDraft,
+  readLocalLanguage,
+  removeLocalDraft,
+  writeLocalDraft,
+  writeLocalLanguage,
+  type CodeDraft,
+  type LocalDraft,
+} from '@/lib/code-drafts';
+import { starterFor, type StarterCode } from '@/lib/starter-code';
+
+export type DraftStatus = 'loading' | 'saved' | 'unsaved' | 'saving' | 'conflict' | 'error';
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+const SAVE_DEBOUNCE_MS = 1500;
+
+interface DraftOptions {
+  // Editor languages a local draft may exist for
+  languages: string[];
+  defaultLanguage: string;
+  // Code a language starts with before anything is typed, when the question has no starter for it
+  initialCode: (language: string) => string;
+}
+
+export function useCodeDrafts(questionId: string, { languages, defaultLanguage, initialCode }: DraftOptions) {
+  const [language, setLanguage] = useState(defaultLanguage);
+  const [drafts, setDrafts] = useState<Record<string, LocalDraft>>({});
+  // Drafts saved elsewhere that differ from the local edits, by language
+  const [conflicts, setConflicts] = useState<Record<string, CodeDraft>>({});
+  const [status, setStatus] = useState<DraftStatus>('loading');
+  const [starter, setStarter] = useState<StarterCode | null>(null);
+
+  // Saves run after renders, so they read the latest state through refs
+  const draftsRef = useRef(drafts);
+  const conflictsRef = useRef(conflicts);
+  const timersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const inFlightRef = useRef<Set<string>>(new Set());
+
+  const updateDraft = useCallback((lang: string, draft: LocalDraft) => {
+    draftsRef.current = { ...draftsRef.current, [lang]: draft };
+    setDrafts(draftsRef.current);
+    writeLocalDraft(questionId, lang, draft);
+  }, [questionId]);
+
+  const updateConflicts = useCallback((next: Record<string, CodeDraft>) => {
+    conflictsRef.current = next;
+    setConflicts(next);
+  }, []);
+
+  const save = useCallback(async (lang: string) => {
+    clearTimeout(timersRef.current[lang]);
+    const draft = draftsRef.current[lang];
+    // One request per language at a time; a save in flight re-checks when it finishes
+    if (!draft?.dirty || conflictsRef.current[lang] || inFlightRef.current.has(lang)) return;
+
+    inFlightRef.current.add(lang);
+    setStatus('saving');
+    try {
+      const response = await fetch(`/api/question/${questionId}/drafts`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language: lang, code: draft.code, baseRevision: draft.revision }),
+        keepalive: true,
+      });
+      const data = await response.json();
+
+      if (response.status === 409) {
+        updateConflicts({ ...conflictsRef.current, [lang]: data.draft as CodeDraft });
+        setStatus('conflict');
+        return;
+      }
+      if (!response.ok) throw new Error(data.error || `Save failed with status ${response.status}`);
+
+      // Edits made while the request was in flight stay dirty on top of the new revision
+      const latest = draftsRef.current[lang] ?? draft;
+      const stillDirty = latest.code !== draft.code;
+      updateDraft(lang, { code: latest.code, revision: data.draft.revision, dirty: stillDirty });
+      setStatus(stillDirty ? 'unsaved' : 'saved');
+      if (stillDirty) timersRef.current[lang] = setTimeout(() => save(lang), SAVE_DEBOUNCE_MS);
+    } catch (error) {
+      console.error(`Failed to save the ${lang} draft:`, error);
+      setStatus('error');
+    } finally {
+      inFlightRef.current.delete(lang);
+    }
+  }, [questionId, updateDraft, updateConflicts]);
+
+  const scheduleSave = useCallback((lang: string) => {
+    clearTimeout(timersRef.current[lang]);
+    timersRef.current[lang] = setTimeout(() => save(lang), SAVE_DEBOUNCE_MS);
+  }, [save]);
+
+  // Load the stored drafts and reconcile them with the local copies
+  useEffect(() => {
+    let cancelled = false;
+    const timers = timersRef.current;
+    setStatus('loading');
+
+    (async () => {
+      let remote: CodeDraft[] = [];
+      let remoteStarter: StarterCode | null = null;
+      let loadFailed = false;
+      try {
+        const response = await fetch(`/api/question/${questionId}/drafts`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `Failed with status ${response.status}`);
+        remote = data.drafts;
+        remoteStarter = data.starter ?? null;
+      } catch (error) {
+        console.error('Failed to load drafts:', error);
+        loadFailed = true;
+      }
+      if (cancelled) return;
+
+      const next: Record<string, LocalDraft> = {};
+      const found: Record<string, CodeDraft> = {};
+      for (const lang of Array.from(new Set([...languages, ...remote.map(d => d.language)]))) {
+        const local = readLocalDraft(questionId, lang);
+        const stored = remote.find(d => d.language === lang);
+
+        if (stored) {
+          if (local?.dirty && local.code !== stored.code) {
+            next[lang] = local;
+            // Local edits on top of an older revision: let the user choose
+            if (local.revision !== stored.revision) found[lang] = stored;
+          } else {
+            next[lang] = { code: stored.code, revision: stored.revision, dirty: false };
+          }
+        } else if (local && (local.dirty || loadFailed)) {
+          // Never saved, or the server could not be reached
+          next[lang] = loadFailed ? local : { ...local, revision: 0, dirty: true };
+        }
+      }
+
+      draftsRef.current = next;
+      setDrafts(next);
+      setStarter(remoteStarter);
+      updateConflicts(found);
+      const initialLanguage = readLocalLanguage(questionId) ?? remote[0]?.language ?? defaultLanguage;
+      setLanguage(initialLanguage);
+      writeLocalLanguage(questionId, initialLanguage);
+
+      const dirty = Object.keys(next).filter(lang => next[lang].dirty && !found[lang]);
+      dirty.forEach(lang => scheduleSave(lang));
+      setStatus(Object.keys(found).length > 0 ? 'conflict' : loadFailed ? 'error' : dirty.length > 0 ? 'unsaved' : 'saved');
+    })();
+
+    return () => {
+      cancelled = true;
+      // Save pending edits right away instead of dropping them
+      Object.keys(timers).forEach(lang => {
+        clearTimeout(timers[lang]);
+        save(lang);
+      });
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reload only when the question changes
+  }, [questionId]);
+
+  const code = drafts[language]?.code ?? starterFor(starter, language)?.code ?? initialCode(language);
+
+  const setCode = useCallback((newCode: string) => {
+    const current = draftsRef.current[language] ?? { code: '', revision: 0, dirty: false };
+    updateDraft(language, { ...current, code: newCode, dirty: true });
+    if (!conflictsRef.current[language]) {
+      setStatus('unsaved');
+      scheduleSave(language);
+    }
+  }, [language, updateDraft, scheduleSave]);
+
+  // Switch to another language's draft, saving the current one first
+  const switchLanguage = useCallback((lang: string) => {
+    save(language);
+    setLanguage(lang);
+    writeLocalLanguage(questionId, lang);
+    setStatus(conflictsRef.current[lang] ? 'conflict' : draftsRef.current[lang]?.dirty ? 'unsaved' : 'saved');
+  }, [language, questionId, save]);
+
+  /**
+   * Move a draft that was never saved to another language, e.g. once the
+   * language is detected from what was typed. Returns false when the draft
+   * is already stored or the target language has a draft of its own.
+   */
+  const relabelLanguage = useCallback((lang: string): boolean => {
+    const current = draftsRef.current[language];
+    if (lang === language || (current && current.revision > 0) || draftsRef.current[lang]) return false;
+
+    if (current) {
+      clearTimeout(timersRef.current[language]);
+      const rest = { ...draftsRef.current };
+      delete rest[language];
+      draftsRef.current = rest;
+      removeLocalDraft(questionId, language);
+      updateDraft(lang, current);
+      scheduleSave(lang);
+    }
+    setLanguage(lang);
+    writeLocalLanguage(questionId, lang);
+    return true;
+  }, [language, questionId, updateDraft, scheduleSave]);
+
+  // Keep the local edits (saved over the other version) or take the stored draft
+  const resolveConflict = useCallback((choice: ConflictChoice) => {
+    const stored = conflictsRef.current[language];
+    if (!stored) return;
+
+    const rest = { ...conflictsRef.current };
+    delete rest[language];
+    updateConflicts(rest);
+
+    if (choice === 'theirs') {
+      updateDraft(language, { code: stored.code, revision: stored.revision, dirty: false });
+      setStatus('saved');
+    } else {
+      const current = draftsRef.current[language];
+      updateDraft(language, { code: current?.code ?? '', revision: stored.revision, dirty: true });
+      save(language);
+    }
+  }, [language, updateConflicts, updateDraft, save]);
+
+  return {
+    language,
+    code,
+    setCode,
+    switchLanguage,
+    relabelLanguage,
+    status,
+    // Starter program for the current language, when the question has one
+    starter: starterFor(starter, language),
+    hasStarter: starter !== null,
+    conflict: conflicts[language] ?? null,
+    resolveConflict,
+  };
+}
@@ -1,328 +1,235 @@
 // Gemini API service with fallback and retry logic
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMProvider, type LLMMessage, type LLMVendor } from '@/lib/llm/provider';
+import { SolutionOutput, validateSolutionOutput, ValidationResult } from '@/lib/solution-schema';
+import { renderPrompt } from '@/lib/prompts/registry';
+import { STARTER_LANGUAGES, validateStarterOutput, type StarterOutput } from '@/lib/starter-code';
 
-// Track busy/rate-limited keys
-interface KeyState {
-  busy: boolean;
-  backoffCount: number;
-}
+// Vendor used for question processing; any provider adapter can serve it
+const PROCESSING_VENDOR = (process.env.QUESTION_LLM_VENDOR as LLMVendor) || 'gemini';
 
-const busyKeys: Record<string, KeyState> = {};
-let currentKeyIndex = 0;
-let MAX_KEYS = 0;
+// Thrown when the model's output still fails schema validation after the repair attempts
+export class SolutionValidationError extends Error {
+  errors: string[];
 
-// Initialize on module load
-setTimeout(() => {
-  if (MAX_KEYS === 0) {
-    countAvailableKeys();
+  constructor(errors: string[]) {
+    super(`AI solution failed validation: ${errors.slice(0, 5).join('; ')}`);
+    this.name = 'SolutionValidationError';
+    this.errors = errors;
   }
-}, 0);
-
-// Dynamically count available API keys
-function countAvailableKeys(): number {
-  if (MAX_KEYS > 0) return MAX_KEYS; // Use cached value if already calculated
-  
-  // Count all environment variables that match the pattern GOOGLE{n}_API_KEY
-  let count = 0;
-  for (const key in process.env) {
-    if (key.match(/^GOOGLE\d+_API_KEY$/) && process.env[key]) {
-      count++;
-    }
+}
+
+// How many times the model is asked to fix its own output before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Pull the JSON object out of a model response, preferring a fenced ```json block
+export function extractJson(response: string): unknown {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : response;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in the response');
   }
-  
-  MAX_KEYS = Math.max(1, count); // Ensure at least 1
-  console.log(`Detected ${MAX_KEYS} Google API keys`);
-  return MAX_KEYS;
+  return JSON.parse(candidate.slice(start, end + 1));
 }
 
-// Initialize the count
-countAvailableKeys();
-
-// Get the next available API key
-function getNextApiKey(): string {
-  const keyCount = countAvailableKeys();
-  if (keyCount === 0) return '';
-  
-  // Try to get a key that isn't busy
-  const startIndex = currentKeyIndex;
-  
-  do {
-    const keyName = `GOOGLE${currentKeyIndex}_API_KEY`;
-    const apiKey = process.env[keyName];
-    
-    // Initialize key state if it doesn't exist
-    if (!busyKeys[keyName] && apiKey) {
-      busyKeys[keyName] = {
-        busy: false,
-        backoffCount: 0
-      };
-    }
-    
-    // Check if this key exists and isn't marked as busy
-    if (apiKey && busyKeys[keyName] && !busyKeys[keyName].busy) {
-      // Return this key and move to the next one for next time
-      currentKeyIndex = (currentKeyIndex + 1) % keyCount;
-      return apiKey;
-    }
-    
-    // Move to the next key
-    currentKeyIndex = (currentKeyIndex + 1) % keyCount;
-    
-    // If we've tried all keys, break the loop
-    if (currentKeyIndex === startIndex) {
-      break;
-    }
-  } while (true);
-  
-  // If all keys are busy, find the one with the lowest backoff count
-  let lowestBackoffIndex = 0;
-  let lowestBackoffCount = Infinity;
-  
-  // Use MAX_KEYS which was already set by countAvailableKeys() earlier
-  for (let i = 0; i < MAX_KEYS; i++) {
-    const keyName = `GOOGLE${i}_API_KEY`;
-    if (busyKeys[keyName] && busyKeys[keyName].backoffCount < lowestBackoffCount) {
-      lowestBackoffCount = busyKeys[keyName].backoffCount;
-      lowestBackoffIndex = i;
-    }
+// Statement examples as listed in prompts; `format` names what to follow when there are none
+function formatExamples(examples: { input: string; output: string }[], format: string): string {
+  if (examples.length === 0) return `(none; follow the ${format} described in the problem)`;
+  return examples.map((e, i) => `Example ${i + 1}\nInput:\n${e.input}\nOutput:\n${e.output}`).join('\n\n');
+}
+
+function validateResponse(response: string): ValidationResult<SolutionOutput> {
+  try {
+    return validateSolutionOutput(extractJson(response));
+  } catch (error) {
+    return { ok: false, errors: [`response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
   }
-  
-  // Use the key with the lowest backoff
-  const keyName = `GOOGLE${lowestBackoffIndex}_API_KEY`;
-  const apiKey = process.env[keyName];
-  
-  // Move to the next key for the next request
-  currentKeyIndex = (lowestBackoffIndex + 1) % MAX_KEYS;
-  
-  return apiKey || '';
 }
 
-// Mark a key as busy with exponential backoff
-function markKeyAsBusy(apiKey: string): void {
-  for (let i = 0; i < MAX_KEYS; i++) {
-    const keyName = `GOOGLE${i}_API_KEY`;
-    if (process.env[keyName] === apiKey) {
-      // Initialize key state if it doesn't exist
-      if (!busyKeys[keyName]) {
-        busyKeys[keyName] = {
-          busy: false,
-          backoffCount: 0
-        };
+// Generate a solution for a coding problem, validated against the solution schema
+export async function generateProblemSolution(
+  title: string,
+  question: string
+): Promise<SolutionOutput & { model: string; promptVersion: string }> {
+  const provider = getLLMProvider(PROCESSING_VENDOR);
+  const prompt = renderPrompt('questionSolution', { title, question });
+
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt.text }];
+  let result = await provider.chat(messages, { temperature: 0.4 });
+  let validation = validateResponse(result.content);
+
+  // Repair pass: show the model its own output and the exact validation errors
+  for (let attempt = 1; !validation.ok && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`Solution failed validation (repair ${attempt}/${MAX_REPAIR_ATTEMPTS}):`, validation.errors);
+    messages.push(
+      { role: 'assistant', content: result.content },
+      {
+        role: 'user',
+        content: `Your response does not match the required JSON format. Fix these problems:\n${validation.errors.map(e => `- ${e}`).join('\n')}\n\nRespond with the complete corrected JSON object only, keeping all the content that was already correct.`,
       }
-      
-      // Mark key as busy
-      busyKeys[keyName].busy = true;
-      
-      // Use exponential backoff for rate limits (1 minute base, double each time)
-      // Start with 1 minute, increase if the key is used repeatedly while busy
-      const backoffTime = busyKeys[keyName].backoffCount > 0 ? 
-        Math.min(60000 * Math.pow(2, busyKeys[keyName].backoffCount), 3600000) : // Max 1 hour
-        60000; // Default 1 minute
-      
-      // Increment the usage count
-      busyKeys[keyName].backoffCount += 1;
-      
-      console.log(`Key ${keyName} marked as busy for ${backoffTime/1000} seconds (count: ${busyKeys[keyName].backoffCount})`);
-      
-      // Release the key after the backoff period
-      setTimeout(() => {
-        if (busyKeys[keyName]) {
-          busyKeys[keyName].busy = false;
-          console.log(`Key ${keyName} released after backoff`);
-        }
-      }, backoffTime);
-      
-      break;
-    }
+    );
+    result = await provider.chat(messages, { temperature: 0.2 });
+    validation = validateResponse(result.content);
   }
-}
 
-// Model order and strategy
-const GEMINI_MODELS = ["gemini-2.5-pro", "gemini-2.5-flash", "gemini-1.5-pro", "gemini-1.5-flash"];
-
-// Generate content with retry and fallback logic
-export async function generateGeminiContent(
-  prompt: string,
-  maxRetries: number = 0, // Will be set dynamically based on API key count
-  currentRetry: number = 0,
-  modelIndex: number = 0
-): Promise<string> {
-  // Dynamically set max retries based on number of API keys
-  if (maxRetries === 0) {
-    maxRetries = countAvailableKeys(); // Use as many retries as we have keys
-    console.log(`Dynamically set max retries to ${maxRetries} based on API key count`);
+  if (!validation.ok) {
+    throw new SolutionValidationError(validation.errors);
   }
-  // If we've tried all models, give up
-  if (modelIndex >= GEMINI_MODELS.length) {
-    return JSON.stringify({
-      hints: [
-        "Try breaking the problem down into smaller steps.",
-        "Consider using appropriate data structures for efficiency."
-      ],
-      solution: {
-        explanation: "Our AI models are currently busy. Please retry again later.",
-        bruteForce: "Models are experiencing high demand. Your request will be processed when capacity becomes available.",
-        optimal: "We apologize for the inconvenience. Please try again in a few minutes.",
-        code: {
-          cpp: "// Our models are busy\n// Please try again later",
-          python: "# Our models are busy\n# Please try again later",
-          java: "// Our models are busy\n// Please try again later"
-        },
-        theory: "Thank you for your patience."
-      }
-    });
+
+  console.log(`Generated a valid solution with ${result.model}`);
+  return { ...validation.value, model: result.model, promptVersion: prompt.version };
+}
+
+// Generate extra edge-case tests for a problem, avoiding inputs that are already covered
+export async function generateEdgeCaseTests(
+  title: string,
+  question: string,
+  existingInputs: string[],
+  count = 3
+): Promise<{ tests: { input: string; expected: string; explanation: string }[]; promptVersion: string }> {
+  const prompt = renderPrompt('edgeCaseTests', {
+    count: String(count),
+    existingInputs: existingInputs.length > 0 ? existingInputs.map((input, i) => `${i + 1}. ${input}`).join('\n') : '(none)',
+    title,
+    question,
+  });
+
+  const response = await getLLMProvider(PROCESSING_VENDOR).generate(prompt.text, { temperature: 0.2 });
+
+  const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('No valid JSON found in the response');
   }
 
-  // If we've exhausted retries for current model, move to next model
-  if (currentRetry >= maxRetries) {
-    console.log(`Maximum retry attempts reached for ${GEMINI_MODELS[modelIndex]}, trying next model`);
-    return generateGeminiContent(prompt, maxRetries, 0, modelIndex + 1);
+  const parsed = JSON.parse(jsonMatch[0]);
+  if (!Array.isArray(parsed.tests)) {
+    throw new Error('Response is missing the tests array');
   }
-  
-  try {
-    const apiKey = getNextApiKey();
-    
-    if (!apiKey) {
-      throw new Error('No valid API key found');
-    }
-    
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const currentModel = GEMINI_MODELS[modelIndex];
-    
-    console.log(`Attempting with model: ${currentModel} (attempt ${currentRetry + 1}/${maxRetries})`);
-    
-    const model = genAI.getGenerativeModel({ model: currentModel });
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
-    
-    console.log(`Successfully generated content with ${currentModel}`);
-    return response;
-  } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`Gemini API error with ${GEMINI_MODELS[modelIndex]} (attempt ${currentRetry + 1}/${maxRetries}):`, errorMessage);
-    
-    // If rate limited or other error, mark the current key as busy
-    interface ErrorWithMessage {
-      message: string;
-    }
-    if (
-      typeof error === 'object' &&
-      error !== null &&
-      'message' in error &&
-      typeof (error as ErrorWithMessage).message === 'string' &&
-      (
-        (error as ErrorWithMessage).message.includes('rate') ||
-        (error as ErrorWithMessage).message.includes('quota')
-      )
-    ) {
-      markKeyAsBusy(getNextApiKey());
-    }
-    
-    // Retry with the next key for the same model
-    return generateGeminiContent(prompt, maxRetries, currentRetry + 1, modelIndex);
+
+  const tests = parsed.tests
+    .filter((t: unknown): t is { input: unknown; expected: unknown; explanation?: unknown } =>
+      typeof t === 'object' && t !== null && 'input' in t && 'expected' in t)
+    .map((t: { input: unknown; expected: unknown; explanation?: unknown }) => ({
+      input: String(t.input),
+      expected: String(t.expected),
+      explanation: typeof t.explanation === 'string' ? t.explanation : '',
+    }))
+    .slice(0, count);
+
+  return { tests, promptVersion: prompt.version };
+}
+
+// Generate one more hint at the given specificity level, building on the hints the user has read
+export async function generateNextHint(
+  title: string,
+  question: string,
+  previousHints: { text: string; level: number }[],
+  level: number,
+  code: string,
+  chat: string,
+  weaknesses: string
+): Promise<{ hint: string; model: string; promptVersion: string }> {
+  const prompt = renderPrompt('nextHint', {
+    level: String(level),
+    title,
+    question,
+    hints: previousHints.length > 0 ? previousHints.map((h, i) => `${i + 1}. (level ${h.level}) ${h.text}`).join('\n') : '(none)',
+    code: code.trim() || '(no code yet)',
+    chat: chat.trim() || '(no chat yet)',
+    weaknesses: weaknesses.trim() || '(none recorded yet)',
+  });
+
+  const response = await getLLMProvider(PROCESSING_VENDOR).generate(prompt.text, { temperature: 0.5 });
+
+  const parsed = extractJson(response.content) as { hint?: unknown };
+  if (typeof parsed?.hint !== 'string' || !parsed.hint.trim()) {
+    throw new Error('Response is missing the hint');
   }
+
+  return { hint: parsed.hint.trim(), model: response.model, promptVersion: prompt.version };
 }
 
-// This is deliberately left empty as we've refactored the code to handle
-// model fallbacks directly in the generateGeminiContent function using the GEMINI_MODELS array
+// Generate a starter program (function stub plus I/O harness) per editor language for a problem
+export async function generateStarterCode(
+  title: string,
+  question: string,
+  examples: { input: string; output: string }[]
+): Promise<StarterOutput & { model: string; promptVersion: string }> {
+  const prompt = renderPrompt('starterCode', {
+    title,
+    question,
+    examples: formatExamples(examples, 'input and output format'),
+    languages: STARTER_LANGUAGES.join(', '),
+  });
 
-// Generate a solution for a coding problem
-export async function generateProblemSolution(
+  const response = await getLLMProvider(PROCESSING_VENDOR).generate(prompt.text, { temperature: 0.2 });
+
+  const validation = validateStarterOutput(extractJson(response.content));
+  if (!validation.ok) {
+    throw new Error(`Starter code failed validation: ${validation.errors.slice(0, 5).join('; ')}`);
+  }
+  if (validation.dropped && validation.dropped.length > 0) {
+    console.warn('Dropped starter programs that failed validation:', validation.dropped);
+  }
+
+  return { ...validation.value, model: response.model, promptVersion: prompt.version };
+}
+
+// Generate a Python program that prints an input of a given size, for benchmarking solutions
+export async function generateBenchmarkGenerator(
   title: string,
-  question: string
-): Promise<{
-  hints: string[];
-  solution: {
-    explanation: string;
-    bruteForce: string;
-    optimal: string;
-    code: {
-      cpp: string;
-      python: string;
-      java: string;
-    };
-    theory: string;
+  question: string,
+  examples: { input: string; output: string }[]
+): Promise<{ code: string; sizeParameter: string; maxSize: number; model: string; promptVersion: string }> {
+  const prompt = renderPrompt('benchmarkGenerator', {
+    title,
+    question,
+    examples: formatExamples(examples, 'input format'),
+  });
+
+  const response = await getLLMProvider(PROCESSING_VENDOR).generate(prompt.text, { temperature: 0.2 });
+
+  const parsed = extractJson(response.content) as { sizeParameter?: unknown; maxSize?: unknown; generator?: unknown };
+  const maxSize = Number(parsed?.maxSize);
+  if (typeof parsed?.generator !== 'string' || !parsed.generator.trim()) {
+    throw new Error('Response is missing the generator program');
+  }
+  if (!Number.isInteger(maxSize) || maxSize < 1) {
+    throw new Error('Response is missing a positive integer maxSize');
+  }
+
+  return {
+    code: parsed.generator,
+    sizeParameter: typeof parsed.sizeParameter === 'string' && parsed.sizeParameter.trim() ? parsed.sizeParameter.trim() : 'n',
+    maxSize,
+    model: response.model,
+    promptVersion: prompt.version,
   };
-}> {
-  try {
-    // Load the prompt template
-    const promptTemplate = await fetch('/data/prompts/gemini.json')
-      .then(res => res.json())
-      .catch(() => ({
-        // Default template if file doesn't exist yet
-        template: `You are an expert algorithm teacher and coding mentor. Analyze this programming question and provide:
-        
-        1. Two concise, progressive hints that guide the user towards the solution without giving it away entirely
-        2. A detailed solution that includes:
-           - An explanation of the problem
-           - A brute force approach with time and space complexity analysis
-           - An optimal approach with time and space complexity analysis
-           - Implementation code in C++, Python, and Java (provide all three languages)
-           - Any relevant theoretical concepts needed to understand the solution
-        
-        Format your response in JSON as follows:
-        {
-          "hints": ["Hint 1 that gives a small push", "Hint 2 that gives more substantial guidance but doesn't reveal the whole solution"],
-          "solution": {
-            "explanation": "Clear problem explanation",
-            "bruteForce": "Brute force approach with complexity analysis",
-            "optimal": "Optimal approach with complexity analysis",
-            "code": {
-              "cpp": "// C++ implementation\n#include <iostream>...",
-              "python": "# Python implementation\ndef solution()...",
-              "java": "// Java implementation\npublic class Solution..."
-            },
-            "theory": "Any relevant theoretical concepts"
-          }
-        }
-        
-        Here is the question:
-        Title: {{TITLE}}
-        
-        {{QUESTION}}`
-      }));
-
-    // Prepare the prompt by replacing placeholders
-    const prompt = promptTemplate.template
-      .replace('{{TITLE}}', title)
-      .replace('{{QUESTION}}', question);
-    
-    // Generate the solution
-    const response = await generateGeminiContent(prompt);
-    
-    // Extract the JSON from the response
-    try {
-      // Look for JSON pattern in the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsedResponse = JSON.parse(jsonMatch[0]);
-        return parsedResponse;
-      }
-      throw new Error('No valid JSON found in the response');
-    } catch (jsonError) {
-      console.error('Failed to parse Gemini response as JSON:', jsonError);
-      
-      // Return a formatted error response
-      return {
-        hints: [
-          "Try breaking down the problem into smaller steps.",
-          "Consider edge cases and efficient data structures for your solution."
-        ],
-        solution: {
-          explanation: "We encountered an error parsing the AI response. Please try again later.",
-          bruteForce: "Error generating brute force solution.",
-          optimal: "Error generating optimal solution.",
-          code: {
-            cpp: "// Error generating C++ code",
-            python: "# Error generating Python code",
-            java: "// Error generating Java code"
-          },
-          theory: "Error generating theoretical explanation."
-        }
-      };
-    }
-  } catch (error) {
-    console.error('Error generating problem solution:', error);
-    throw error;
+}
+
+// Wrap a stored reference solution in a stdin/stdout harness so it can be run on test inputs
+export async function generateReferenceProgram(
+  title: string,
+  question: string,
+  examples: { input: string; output: string }[],
+  language: string,
+  code: string
+): Promise<{ code: string; model: string; promptVersion: string }> {
+  const prompt = renderPrompt('referenceProgram', {
+    title,
+    question,
+    examples: formatExamples(examples, 'input and output format'),
+    language,
+    code,
+  });
+
+  const response = await getLLMProvider(PROCESSING_VENDOR).generate(prompt.text, { temperature: 0.1 });
+
+  const parsed = extractJson(response.content) as { program?: unknown };
+  if (typeof parsed?.program !== 'string' || !parsed.program.trim()) {
+    throw new Error('Response is missing the program');
   }
+
+  return { code: parsed.program, model: response.model, promptVersion: prompt.version };
 }
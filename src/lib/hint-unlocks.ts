@@ -0,0 +1,212 @@
+/**
+ * Hint Unlocks
+ *
+ * Progressive reveal of a question's hints, then its solution sections, one at
+ * a time and in order. Every unlock is stored with its timestamp; the unlocks
+ * since the question was last reviewed make up the current attempt, whose
+ * usage caps the next review rating (see capRatingForAssistance).
+ *
+ * Locked hints and sections never leave the server: the problem page does not
+ * read hint or solution, and gets only the unlocked ones from unlockedContent.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { formatSolution } from '@/lib/question-formatter';
+import type { ReviewAssistance } from '@/lib/review-scheduler';
+
+export type UnlockKind = 'hint' | 'solution';
+
+export const UNLOCK_KINDS: UnlockKind[] = ['hint', 'solution'];
+
+export interface QuestionUnlock {
+  kind: UnlockKind;
+  position: number;
+  unlocked_at: string;
+}
+
+export interface UnlockQuestion {
+  id: string;
+  user_id: string;
+  hint: unknown;
+  solution: unknown;
+}
+
+export interface UnlockState {
+  // Start of the current attempt: the last review, or null if never reviewed
+  attemptStartedAt: string | null;
+  hintsUnlocked: number;
+  totalHints: number;
+  solutionSectionsUnlocked: number;
+  totalSolutionSections: number;
+  // Unlocks in the current attempt, oldest first
+  unlocks: QuestionUnlock[];
+}
+
+export interface UnlockedContent {
+  // The unlocked hints, in order
+  hints: string[];
+  // The unlocked solution sections, keyed as formatSolution keys them
+  solution: Record<string, unknown>;
+  // Title of the next locked section, for its reveal button
+  nextSectionTitle: string | null;
+}
+
+export type UnlockErrorKind = 'nothing_left' | 'hints_locked';
+
+export class UnlockError extends Error {
+  kind: UnlockErrorKind;
+
+  constructor(kind: UnlockErrorKind, message: string) {
+    super(message);
+    this.name = 'UnlockError';
+    this.kind = kind;
+  }
+}
+
+export function isUnlockKind(value: unknown): value is UnlockKind {
+  return typeof value === 'string' && (UNLOCK_KINDS as string[]).includes(value);
+}
+
+// Matches the sections the problem page renders from the stored solution
+export function countSolutionSections(solution: unknown): number {
+  return solution ? Object.keys(formatSolution(solution)).length : 0;
+}
+
+function solutionSections(solution: unknown): [string, unknown][] {
+  if (!solution) return [];
+  return Object.entries(formatSolution(solution)).sort(([a], [b]) => a.localeCompare(b));
+}
+
+export async function getUnlockState(supabase: SupabaseClient, question: UnlockQuestion): Promise<UnlockState> {
+  const { data: review, error: reviewError } = await supabase
+    .from('question_reviews')
+    .select('last_reviewed_at')
+    .eq('user_id', question.user_id)
+    .eq('question_id', question.id)
+    .maybeSingle();
+
+  if (reviewError) throw new Error(`Failed to load review: ${reviewError.message}`);
+  const attemptStartedAt: string | null = review?.last_reviewed_at ?? null;
+
+  let query = supabase
+    .from('question_unlocks')
+    .select('kind, position, unlocked_at')
+    .eq('user_id', question.user_id)
+    .eq('question_id', question.id)
+    .order('unlocked_at', { ascending: true });
+  if (attemptStartedAt) query = query.gt('unlocked_at', attemptStartedAt);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load unlocks: ${error.message}`);
+
+  const unlocks = (data || []) as QuestionUnlock[];
+  const totalHints = Array.isArray(question.hint) ? question.hint.length : 0;
+  const totalSolutionSections = countSolutionSections(question.solution);
+
+  // A double click can store the same position twice, so count distinct positions
+  const unlockedCount = (kind: UnlockKind, total: number) =>
+    new Set(unlocks.filter(u => u.kind === kind && u.position < total).map(u => u.position)).size;
+
+  return {
+    attemptStartedAt,
+    hintsUnlocked: unlockedCount('hint', totalHints),
+    totalHints,
+    solutionSectionsUnlocked: unlockedCount('solution', totalSolutionSections),
+    totalSolutionSections,
+    unlocks,
+  };
+}
+
+/**
+ * Reveal the next hint, or the next solution section once every hint is out.
+ * Throws UnlockError when the order does not allow it.
+ */
+export async function unlockNext(
+  supabase: SupabaseClient,
+  question: UnlockQuestion,
+  kind: UnlockKind
+): Promise<UnlockState> {
+  const state = await getUnlockState(supabase, question);
+
+  let position: number;
+  if (kind === 'hint') {
+    if (state.hintsUnlocked >= state.totalHints) {
+      throw new UnlockError('nothing_left', 'All hints are already unlocked');
+    }
+    position = state.hintsUnlocked;
+  } else {
+    if (state.hintsUnlocked < state.totalHints) {
+      throw new UnlockError('hints_locked', 'Unlock every hint before revealing the solution');
+    }
+    if (state.solutionSectionsUnlocked >= state.totalSolutionSections) {
+      throw new UnlockError('nothing_left', 'The whole solution is already unlocked');
+    }
+    position = state.solutionSectionsUnlocked;
+  }
+
+  const { data, error } = await supabase
+    .from('question_unlocks')
+    .insert({ user_id: question.user_id, question_id: question.id, kind, position })
+    .select('kind, position, unlocked_at')
+    .single();
+
+  if (error) throw new Error(`Failed to record unlock: ${error.message}`);
+
+  const unlock = data as QuestionUnlock;
+  return {
+    ...state,
+    hintsUnlocked: kind === 'hint' ? state.hintsUnlocked + 1 : state.hintsUnlocked,
+    solutionSectionsUnlocked: kind === 'solution' ? state.solutionSectionsUnlocked + 1 : state.solutionSectionsUnlocked,
+    unlocks: [...state.unlocks, unlock],
+  };
+}
+
+/**
+ * Unlock every remaining hint and solution section at once, for when the whole
+ * solution is handed over some other way (the tutor's full explanation mode).
+ */
+export async function unlockAll(supabase: SupabaseClient, question: UnlockQuestion): Promise<UnlockState> {
+  const state = await getUnlockState(supabase, question);
+
+  const missing = (kind: UnlockKind, total: number) => {
+    const unlocked = new Set(state.unlocks.filter(u => u.kind === kind).map(u => u.position));
+    return Array.from({ length: total }, (_, position) => position)
+      .filter(position => !unlocked.has(position))
+      .map(position => ({ user_id: question.user_id, question_id: question.id, kind, position }));
+  };
+  const rows = [...missing('hint', state.totalHints), ...missing('solution', state.totalSolutionSections)];
+  if (rows.length === 0) return state;
+
+  const { data, error } = await supabase
+    .from('question_unlocks')
+    .insert(rows)
+    .select('kind, position, unlocked_at');
+
+  if (error) throw new Error(`Failed to record unlocks: ${error.message}`);
+
+  return {
+    ...state,
+    hintsUnlocked: state.totalHints,
+    solutionSectionsUnlocked: state.totalSolutionSections,
+    unlocks: [...state.unlocks, ...((data || []) as QuestionUnlock[])],
+  };
+}
+
+// The hints and solution sections the state has unlocked, and nothing else
+export function unlockedContent(question: UnlockQuestion, state: UnlockState): UnlockedContent {
+  const hints = Array.isArray(question.hint) ? question.hint.filter((h): h is string => typeof h === 'string') : [];
+  const sections = solutionSections(question.solution);
+  const next = sections[state.solutionSectionsUnlocked]?.[1] as { subsection?: unknown } | undefined;
+  return {
+    hints: hints.slice(0, state.hintsUnlocked),
+    solution: Object.fromEntries(sections.slice(0, state.solutionSectionsUnlocked)),
+    nextSectionTitle: next ? (typeof next.subsection === 'string' && next.subsection) || 'next section' : null,
+  };
+}
+
+export function toReviewAssistance(state: UnlockState): ReviewAssistance {
+  return {
+    hintsUsed: state.hintsUnlocked,
+    totalHints: state.totalHints,
+    solutionViewed: state.solutionSectionsUnlocked > 0,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Job Queue
+ *
+ * Persistent background jobs stored in the jobs table. Routes enqueue work and
+ * return immediately; /api/jobs/worker claims due jobs, runs their handler and
+ * either completes them or re-queues them with exponential backoff. Clients
+ * follow progress through GET /api/jobs/[id] or realtime changes on the table.
+ *
+ * The worker runs when a route kicks it (authenticated with SERVICE_KEY) and on
+ * the cron schedule in vercel.json (authenticated with CRON_SECRET), which picks
+ * up retries and any kick that was lost.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type JobType = 'process_question' | 'verify_reference' | 'refresh_weaknesses';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface Job<P = Record<string, unknown>> {
+  id: string;
+  user_id: string;
+  type: JobType;
+  question_id: string | null;
+  payload: P;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// What a handler reports back to the worker
+export type JobHandlerResult =
+  | { status: 'succeeded'; result?: Record<string, unknown> }
+  // retryable failures are re-queued with backoff until max_attempts is reached
+  | { status: 'failed'; error: string; retryable: boolean; result?: Record<string, unknown> };
+
+export type JobHandler = (admin: SupabaseClient, job: Job) => Promise<JobHandlerResult>;
+
+// Releases what a job holds (credits, question status) when it fails for good
+// without its handler settling it: the worker died on the last attempt, or the
+// handler threw on it. Returns the result to store on the job.
+export type JobFailureHandler = (admin: SupabaseClient, job: Job, error: string) => Promise<Record<string, unknown> | undefined>;
+
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running'];
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+// 30s, 1m, 2m, 4m ... capped at 15m, with up to 20% jitter so retries don't line up
+export function backoffDelayMs(attempt: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempt - 1, 0), BACKOFF_MAX_MS);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+export function isActiveJob(job: Pick<Job, 'status'>): boolean {
+  return ACTIVE_JOB_STATUSES.includes(job.status);
+}
+
+export async function getActiveJob(
+  supabase: SupabaseClient,
+  questionId: string,
+  type: JobType
+): Promise<Job | null> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('question_id', questionId)
+    .eq('type', type)
+    .in('status', ACTIVE_JOB_STATUSES)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load active job: ${error.message}`);
+  return data as Job | null;
+}
+
+// The queued job of a type for a user, for jobs not tied to a question
+async function getQueuedUserJob(admin: SupabaseClient, userId: string, type: JobType): Promise<Job | null> {
+  const { data, error } = await admin
+    .from('jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .is('question_id', null)
+    .eq('type', type)
+    .eq('status', 'queued')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load queued job: ${error.message}`);
+  return data as Job | null;
+}
+
+/**
+ * Queue a job. Only one job of a type can be active per question (or queued
+ * per user for jobs without a question), so a concurrent enqueue returns the
+ * job that is already there.
+ */
+export async function enqueueJob(
+  admin: SupabaseClient,
+  job: { userId: string; type: JobType; questionId?: string; payload?: Record<string, unknown>; maxAttempts?: number }
+): Promise<{ job: Job; created: boolean }> {
+  // Without either secret nothing can ever run the job, so refuse rather than leave it queued forever
+  if (!process.env.SERVICE_KEY && !process.env.CRON_SECRET) {
+    console.error('Job worker is not configured: set SERVICE_KEY and CRON_SECRET');
+    throw new Error('Failed to enqueue job: no job worker is configured');
+  }
+
+  const { data, error } = await admin
+    .from('jobs')
+    .insert({
+      user_id: job.userId,
+      type: job.type,
+      question_id: job.questionId ?? null,
+      payload: job.payload ?? {},
+      ...(job.maxAttempts ? { max_attempts: job.maxAttempts } : {}),
+    })
+    .select('*')
+    .single();
+
+  if (!error) return { job: data as Job, created: true };
+
+  // 23505: unique violation on jobs_active_question_idx or jobs_queued_user_idx
+  if (error.code === '23505') {
+    const existing = job.questionId
+      ? await getActiveJob(admin, job.questionId, job.type)
+      : await getQueuedUserJob(admin, job.userId, job.type);
+    if (existing) return { job: existing, created: false };
+  }
+  throw new Error(`Failed to enqueue ${job.type} job: ${error.message}`);
+}
+
+export async function claimJobs(admin: SupabaseClient, limit: number): Promise<Job[]> {
+  const { data, error } = await admin.rpc('claim_jobs', { p_limit: limit });
+  if (error) throw new Error(`Failed to claim jobs: ${error.message}`);
+  return (data || []) as Job[];
+}
+
+// Apply a handler result: complete the job, re-queue it with backoff, or fail it for good
+export async function settleJob(admin: SupabaseClient, job: Job, outcome: JobHandlerResult): Promise<JobStatus> {
+  const now = new Date();
+  let update: Record<string, unknown>;
+
+  if (outcome.status === 'succeeded') {
+    update = { status: 'succeeded', result: outcome.result ?? null, last_error: null, finished_at: now.toISOString() };
+  } else if (outcome.retryable && job.attempts < job.max_attempts) {
+    update = {
+      status: 'queued',
+      result: outcome.result ?? null,
+      last_error: outcome.error,
+      run_after: new Date(now.getTime() + backoffDelayMs(job.attempts)).toISOString(),
+    };
+  } else {
+    update = { status: 'failed', result: outcome.result ?? null, last_error: outcome.error, finished_at: now.toISOString() };
+  }
+
+  const { error } = await admin
+    .from('jobs')
+    .update({ ...update, locked_at: null, updated_at: now.toISOString() })
+    .eq('id', job.id);
+
+  if (error) throw new Error(`Failed to update job ${job.id}: ${error.message}`);
+  return update.status as JobStatus;
+}
+
+/**
+ * Ask the worker to run now instead of waiting for the next scheduled tick.
+ * Fire-and-forget: a missed kick only delays the job until the next one.
+ */
+export function kickJobWorker(origin: string): void {
+  if (!process.env.SERVICE_KEY) {
+    console.error('SERVICE_KEY is not set; queued jobs wait for the next scheduled worker run');
+    return;
+  }
+  fetch(new URL('/api/jobs/worker', origin), {
+    method: 'POST',
+    headers: { 'x-service-key': process.env.SERVICE_KEY },
+  }).catch(error => console.error('Failed to kick job worker:', error));
+}
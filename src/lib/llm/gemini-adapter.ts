@@ -0,0 +1,94 @@
+// Gemini adapter for the LLM provider layer
+import { GoogleGenerativeAI, GoogleGenerativeAIFetchError, type Content } from '@google/generative-ai';
+import { LLMAdapter, LLMCallOptions, LLMError, LLMMessage } from './types';
+
+export const GEMINI_MODELS = ["gemini-2.5-pro", "gemini-2.5-flash", "gemini-1.5-pro", "gemini-1.5-flash"];
+
+function toLLMError(error: unknown): LLMError {
+  if (error instanceof LLMError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = error instanceof GoogleGenerativeAIFetchError ? error.status : undefined;
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new LLMError('aborted', message);
+  }
+  if (status === 429 || /rate|quota|exhausted/i.test(message)) {
+    return new LLMError('rate_limit', message, status ?? 429);
+  }
+  if (status === 401 || status === 403 || /api key/i.test(message)) {
+    return new LLMError('auth', message, status ?? 401);
+  }
+  if (status !== undefined) {
+    return new LLMError('upstream', message, status);
+  }
+  return new LLMError('network', message);
+}
+
+// Gemini takes the system prompt separately and calls the assistant role "model"
+function toGeminiRequest(messages: LLMMessage[]): { systemInstruction?: string; contents: Content[] } {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const contents = messages
+    .filter(m => m.role !== 'system')
+    .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+  return { systemInstruction: system || undefined, contents };
+}
+
+function getModel(apiKey: string, options: LLMCallOptions, systemInstruction?: string) {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  return genAI.getGenerativeModel({
+    model: options.model,
+    systemInstruction,
+    generationConfig: {
+      temperature: options.temperature,
+      topP: options.topP,
+      maxOutputTokens: options.maxTokens,
+    },
+  });
+}
+
+export const geminiAdapter: LLMAdapter = {
+  capabilities: {
+    vendor: 'gemini',
+    models: GEMINI_MODELS,
+    streaming: true,
+    systemPrompt: true,
+    maxOutputTokens: 8192,
+  },
+
+  async generate(apiKey, prompt, options) {
+    try {
+      const model = getModel(apiKey, options);
+      const result = await model.generateContent(prompt, { signal: options.signal });
+      return result.response.text();
+    } catch (error) {
+      throw toLLMError(error);
+    }
+  },
+
+  async chat(apiKey, messages, options) {
+    try {
+      const { systemInstruction, contents } = toGeminiRequest(messages);
+      const model = getModel(apiKey, options, systemInstruction);
+      const result = await model.generateContent({ contents }, { signal: options.signal });
+      return result.response.text();
+    } catch (error) {
+      throw toLLMError(error);
+    }
+  },
+
+  async *stream(apiKey, messages, options) {
+    try {
+      const { systemInstruction, contents } = toGeminiRequest(messages);
+      const model = getModel(apiKey, options, systemInstruction);
+      const result = await model.generateContentStream({ contents }, { signal: options.signal });
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    } catch (error) {
+      throw toLLMError(error);
+    }
+  },
+};
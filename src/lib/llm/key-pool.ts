@@ -0,0 +1,104 @@
+// Shared API key pool with per-key exponential backoff
+
+interface PooledKey {
+  name: string;
+  key: string;
+  busyUntil: number;
+  errorCount: number;
+  lastUsed: number;
+}
+
+export type KeyFailureReason = 'rate_limit' | 'auth' | 'error';
+
+// Base cooldown: 10s in dev, 30s in production
+const BASE_COOLDOWN_MS = process.env.NODE_ENV === 'development' ? 10000 : 30000;
+const MAX_COOLDOWN_MS = 3600000; // 1 hour
+
+export class KeyPool {
+  private keys: PooledKey[];
+  private label: string;
+
+  /**
+   * @param envPrefix Keys are read from `${envPrefix}{n}_API_KEY`, e.g. GOOGLE0_API_KEY
+   */
+  constructor(envPrefix: string) {
+    this.label = envPrefix;
+    this.keys = [];
+
+    const pattern = new RegExp(`^${envPrefix}(\\d+)_API_KEY$`);
+    const names = Object.keys(process.env)
+      .filter(name => pattern.test(name) && process.env[name]?.trim())
+      .sort((a, b) => Number(a.match(pattern)?.[1]) - Number(b.match(pattern)?.[1]));
+
+    const now = Date.now();
+    names.forEach((name, index) => {
+      this.keys.push({
+        name,
+        key: (process.env[name] as string).trim(),
+        busyUntil: 0,
+        errorCount: 0,
+        // Stagger lastUsed so the first requests spread across keys
+        lastUsed: now - index * 5000,
+      });
+    });
+
+    if (this.keys.length === 0) {
+      console.error(`⚠️ No ${envPrefix} API keys found. Set ${envPrefix}0_API_KEY, ${envPrefix}1_API_KEY, ...`);
+    } else {
+      console.log(`Detected ${this.keys.length} ${envPrefix} API key(s)`);
+    }
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Pick the best available key that isn't in `exclude`.
+   * Prefers keys without recent errors, then the least recently used one.
+   */
+  acquire(exclude: Set<string> = new Set()): { name: string; key: string } | null {
+    const now = Date.now();
+    const candidates = this.keys.filter(k => !exclude.has(k.name) && k.busyUntil <= now);
+    if (candidates.length === 0) return null;
+
+    candidates.sort((a, b) => a.errorCount - b.errorCount || a.lastUsed - b.lastUsed);
+    const chosen = candidates[0];
+    chosen.lastUsed = now;
+    return { name: chosen.name, key: chosen.key };
+  }
+
+  markSuccess(name: string): void {
+    const entry = this.keys.find(k => k.name === name);
+    if (entry && entry.errorCount > 0) {
+      entry.errorCount -= 1;
+    }
+  }
+
+  /**
+   * Put a key on cooldown. Rate limits double the cooldown on each consecutive
+   * failure; auth errors park the key for the maximum period.
+   */
+  markFailed(name: string, reason: KeyFailureReason): void {
+    const entry = this.keys.find(k => k.name === name);
+    if (!entry) return;
+
+    const cooldown = reason === 'auth'
+      ? MAX_COOLDOWN_MS
+      : Math.min(BASE_COOLDOWN_MS * Math.pow(2, entry.errorCount), MAX_COOLDOWN_MS);
+
+    entry.errorCount += 1;
+    entry.busyUntil = Date.now() + cooldown;
+
+    console.log(`Key ${entry.name} marked busy for ${cooldown / 1000}s (${reason}, count: ${entry.errorCount})`);
+  }
+
+  busyCount(): number {
+    const now = Date.now();
+    return this.keys.filter(k => k.busyUntil > now).length;
+  }
+
+  toString(): string {
+    return `${this.label} pool (${this.size - this.busyCount()}/${this.size} available)`;
+  }
+}
@@ -0,0 +1,149 @@
+// Mistral adapter for the LLM provider layer
+import { LLMAdapter, LLMCallOptions, LLMError, LLMMessage } from './types';
+
+const MISTRAL_API_URL = 'https://api.mistral.ai/v1/chat/completions';
+
+export const MISTRAL_MODELS = ['mistral-large-latest', 'mistral-small'];
+
+interface MistralCompletion {
+  choices: Array<{
+    index: number;
+    message: { role: string; content: string };
+    finish_reason: string;
+  }>;
+}
+
+interface MistralStreamChunk {
+  choices: Array<{
+    index: number;
+    delta: { role?: string; content?: string };
+    finish_reason: string | null;
+  }>;
+}
+
+async function postCompletion(
+  apiKey: string,
+  messages: LLMMessage[],
+  options: LLMCallOptions,
+  stream: boolean
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(MISTRAL_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        temperature: options.temperature ?? 0.7,
+        top_p: options.topP ?? 0.9,
+        max_tokens: options.maxTokens ?? 1000,
+        stream,
+      }),
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new LLMError('aborted', error.message);
+    }
+    throw new LLMError('network', error instanceof Error ? error.message : String(error));
+  }
+
+  if (!response.ok) {
+    let message = response.statusText;
+    try {
+      const errorData = await response.json();
+      message = errorData?.error?.message || errorData?.message || message;
+    } catch {
+      // Ignore JSON parsing error for error response
+    }
+
+    if (response.status === 401) throw new LLMError('auth', message, 401);
+    // Mistral reports exhausted quota as 403
+    if (response.status === 429 || response.status === 403) throw new LLMError('rate_limit', message, response.status);
+    throw new LLMError('upstream', `Mistral API error: ${message}`, response.status);
+  }
+
+  return response;
+}
+
+export const mistralAdapter: LLMAdapter = {
+  capabilities: {
+    vendor: 'mistral',
+    models: MISTRAL_MODELS,
+    streaming: true,
+    systemPrompt: true,
+    maxOutputTokens: 4096,
+  },
+
+  async generate(apiKey, prompt, options) {
+    return this.chat(apiKey, [{ role: 'user', content: prompt }], options);
+  },
+
+  async chat(apiKey, messages, options) {
+    const response = await postCompletion(apiKey, messages, options, false);
+
+    let data: MistralCompletion;
+    try {
+      data = await response.json();
+    } catch {
+      throw new LLMError('upstream', 'Invalid response from Mistral API', 502);
+    }
+
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMError('upstream', 'Unexpected response format from Mistral API', 502);
+    }
+    return content;
+  },
+
+  // Parses the upstream server-sent events and yields content deltas
+  async *stream(apiKey, messages, options) {
+    const response = await postCompletion(apiKey, messages, options, true);
+    if (!response.body) {
+      throw new LLMError('upstream', 'Mistral API returned an empty stream', 502);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') return;
+
+          try {
+            const chunk = JSON.parse(payload) as MistralStreamChunk;
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+          } catch {
+            console.warn('Skipping malformed Mistral stream chunk');
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof LLMError) throw error;
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new LLMError('aborted', error.message);
+      }
+      throw new LLMError('network', error instanceof Error ? error.message : String(error));
+    } finally {
+      reader.releaseLock();
+    }
+  },
+};
@@ -0,0 +1,143 @@
+// Unified LLM provider: one key-pool/fallback engine shared by every vendor adapter
+import { KeyPool } from './key-pool';
+import { geminiAdapter } from './gemini-adapter';
+import { mistralAdapter } from './mistral-adapter';
+import {
+  LLMAdapter,
+  LLMCallOptions,
+  LLMError,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMVendor,
+} from './types';
+
+export * from './types';
+
+const ADAPTERS: Record<LLMVendor, { adapter: LLMAdapter; envPrefix: string }> = {
+  gemini: { adapter: geminiAdapter, envPrefix: 'GOOGLE' },
+  mistral: { adapter: mistralAdapter, envPrefix: 'MISTRAL' },
+};
+
+/**
+ * Try every model in order, and for each model every key that isn't cooling down.
+ * Rate-limit and auth failures put the key on backoff; any other failure just moves
+ * on to the next key. Aborts are never retried.
+ */
+async function runWithFallback<T>(
+  vendor: LLMVendor,
+  pool: KeyPool,
+  models: string[],
+  attempt: (apiKey: string, model: string) => Promise<T>
+): Promise<{ value: T; model: string }> {
+  let lastError: LLMError | null = null;
+
+  for (const model of models) {
+    const triedKeys = new Set<string>();
+
+    while (true) {
+      const key = pool.acquire(triedKeys);
+      if (!key) break;
+      triedKeys.add(key.name);
+
+      try {
+        console.log(`[${vendor}] Attempting ${model} with ${key.name}`);
+        const value = await attempt(key.key, model);
+        pool.markSuccess(key.name);
+        return { value, model };
+      } catch (error) {
+        const llmError = error instanceof LLMError
+          ? error
+          : new LLMError('upstream', error instanceof Error ? error.message : String(error));
+
+        if (llmError.kind === 'aborted') throw llmError;
+
+        console.error(`[${vendor}] ${model} failed with ${key.name} (${llmError.kind}):`, llmError.message);
+        if (llmError.kind === 'rate_limit' || llmError.kind === 'auth') {
+          pool.markFailed(key.name, llmError.kind);
+        }
+        lastError = llmError;
+      }
+    }
+
+    console.log(`[${vendor}] No keys left for ${model}, trying next model`);
+  }
+
+  // Surface auth problems distinctly, they need operator attention rather than a retry
+  if (lastError?.kind === 'auth') throw lastError;
+  throw new LLMError(
+    'exhausted',
+    `All ${vendor} models are currently busy${lastError ? `: ${lastError.message}` : ''}`,
+    lastError?.status
+  );
+}
+
+function createProvider(vendor: LLMVendor): LLMProvider {
+  const { adapter, envPrefix } = ADAPTERS[vendor];
+  const pool = new KeyPool(envPrefix);
+
+  const callOptions = (model: string, options: LLMRequestOptions): LLMCallOptions => ({
+    model,
+    temperature: options.temperature,
+    topP: options.topP,
+    maxTokens: options.maxTokens,
+    signal: options.signal,
+  });
+
+  const modelsFor = (options: LLMRequestOptions) =>
+    options.models && options.models.length > 0 ? options.models : adapter.capabilities.models;
+
+  return {
+    vendor,
+    capabilities: adapter.capabilities,
+
+    async generate(prompt, options = {}) {
+      const { value, model } = await runWithFallback(vendor, pool, modelsFor(options),
+        (apiKey, model) => adapter.generate(apiKey, prompt, callOptions(model, options)));
+      return { content: value, model, vendor };
+    },
+
+    async chat(messages, options = {}) {
+      const { value, model } = await runWithFallback(vendor, pool, modelsFor(options),
+        (apiKey, model) => adapter.chat(apiKey, messages, callOptions(model, options)));
+      return { content: value, model, vendor };
+    },
+
+    // Fallback only applies until the first chunk arrives; later failures surface to the caller
+    async stream(messages, options = {}) {
+      const { value, model } = await runWithFallback(vendor, pool, modelsFor(options), async (apiKey, model) => {
+        const iterator = adapter.stream(apiKey, messages, callOptions(model, options))[Symbol.asyncIterator]();
+        const first = await iterator.next();
+        return { iterator, first };
+      });
+
+      const { iterator, first } = value;
+      return {
+        model,
+        vendor,
+        async *[Symbol.asyncIterator]() {
+          if (first.done) return;
+          yield first.value;
+          while (true) {
+            const next = await iterator.next();
+            if (next.done) return;
+            yield next.value;
+          }
+        },
+      };
+    },
+
+    keyStatus() {
+      return { busyKeyCount: pool.busyCount(), totalKeyCount: pool.size };
+    },
+  };
+}
+
+// Providers are module-level singletons so key backoff state survives across requests
+const providers: Partial<Record<LLMVendor, LLMProvider>> = {};
+
+export function getLLMProvider(vendor: LLMVendor): LLMProvider {
+  if (!providers[vendor]) {
+    providers[vendor] = createProvider(vendor);
+  }
+  return providers[vendor] as LLMProvider;
+}
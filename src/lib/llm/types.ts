@@ -0,0 +1,85 @@
+// Shared types for the server-side LLM provider layer
+
+export type LLMVendor = 'gemini' | 'mistral';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCapabilities {
+  vendor: LLMVendor;
+  // Models in fallback order, most capable first
+  models: string[];
+  streaming: boolean;
+  systemPrompt: boolean;
+  maxOutputTokens: number;
+}
+
+export interface LLMCallOptions {
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A vendor adapter only knows how to talk to its API with a given key and model.
+ * Key rotation, backoff and model fallback live in the provider engine.
+ */
+export interface LLMAdapter {
+  capabilities: LLMCapabilities;
+  generate(apiKey: string, prompt: string, options: LLMCallOptions): Promise<string>;
+  chat(apiKey: string, messages: LLMMessage[], options: LLMCallOptions): Promise<string>;
+  stream(apiKey: string, messages: LLMMessage[], options: LLMCallOptions): AsyncIterable<string>;
+}
+
+export type LLMErrorKind = 'auth' | 'rate_limit' | 'upstream' | 'network' | 'exhausted' | 'aborted';
+
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  status?: number;
+
+  constructor(kind: LLMErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+// Options accepted by the high-level provider calls
+export interface LLMRequestOptions {
+  // Restrict or reorder the models to try; defaults to capabilities.models
+  models?: string[];
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMResult {
+  content: string;
+  model: string;
+  vendor: LLMVendor;
+}
+
+export interface LLMKeyStatus {
+  busyKeyCount: number;
+  totalKeyCount: number;
+}
+
+export interface LLMStream extends AsyncIterable<string> {
+  model: string;
+  vendor: LLMVendor;
+}
+
+export interface LLMProvider {
+  vendor: LLMVendor;
+  capabilities: LLMCapabilities;
+  generate(prompt: string, options?: LLMRequestOptions): Promise<LLMResult>;
+  chat(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMResult>;
+  stream(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMStream>;
+  keyStatus(): LLMKeyStatus;
+}
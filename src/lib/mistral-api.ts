@@ -1,88 +1,47 @@
 // Mistral API service with fallback and retry logic
-import { useEffect, useState } from 'react';// API response will include busy key info
+import { useEffect, useRef, useState } from 'react';// API response will include busy key info
+import type { ChatMode } from '@/lib/chat-session';
 
 // Chat message type
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  // Tutor mode and prompt template version an assistant reply was generated with
+  mode?: ChatMode;
+  promptVersion?: string;
 }
 
-// We'll manage API keys on the server side
+// The server loads the question, history and prompt from these; nothing else is sent
+export interface ChatRequest {
+  questionId: string;
+  userMessage: string;
+  mode?: ChatMode;
+}
 
 // Chat completion API call through our backend endpoint
 export async function chatWithMistral(
-  messages: ChatMessage[],
-  modelName: string = 'mistral-large-latest',  // Changed to mistral-small which has lower requirements
-  questionContext?: { 
-    title: string; 
-    question: string; 
-    hint?: string[]; 
-    solution?: string;
-    [key: string]: string | string[] | undefined;
-  },
+  request: ChatRequest,
   onBusyKeysUpdate?: (count: number) => void
-): Promise<string> {
+): Promise<ChatMessage> {
   try {
-    console.log(`Sending request to Mistral API with ${messages.length} messages`);
-    
-    const requestBody = {
-      model: modelName,
-      messages: messages,
-      question: questionContext, // Include the question object in the request
-    };
+    console.log(`Sending ${request.mode || 'chat'} request to Mistral API for question ${request.questionId}`);
     
-    console.log('Request payload:', {
-      model: modelName,
-      messageCount: messages.length,
-      roles: messages.map(m => m.role),
-      hasQuestionContext: !!questionContext
-    });
-    
-    // Log the API URL and deployment environment for debugging
     const apiUrl = '/api/chat/mistral';
-    console.log(`Making API request to: ${apiUrl}`);
-    console.log(`Current environment: ${process.env.NODE_ENV || 'unknown'}`);
-    console.log(`Is Vercel: ${typeof window !== 'undefined' && window.location.hostname.includes('vercel.app') ? 'Yes' : 'No'}`);
-    
     const response = await fetch(apiUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(requestBody),
+      body: JSON.stringify(request),
     });
     
     console.log(`Mistral API response status: ${response.status}`);
     
-    // Additional logging for authentication errors
-    if (response.status === 401) {
-      console.error('Authentication error detected. This likely means your Mistral API keys are not properly configured in the Vercel environment variables.');
-    }
-    
     if (!response.ok) {
       let errorData;
       try {
         errorData = await response.json();
         console.error(`Mistral API error: ${response.status}`, errorData);
-        
-        // Special handling for authentication errors
-        if (response.status === 401) {
-          console.error('Authentication error details:', errorData);
-          
-          // If this has a code that suggests session expiry, we should redirect to login
-          if (errorData?.code === 'auth/session-expired') {
-            console.error('Session expired or invalid - user needs to re-authenticate');
-            
-            // If we're in a browser environment, we can handle the redirection
-            if (typeof window !== 'undefined') {
-              // Store current page for redirect back after login
-              localStorage.setItem('auth_redirect', window.location.pathname);
-              
-              // Show authentication error message
-              throw new Error('Authentication Error\nThere\'s an issue with your session. You may need to sign in again to continue using the chat feature.');
-            }
-          }
-        }
       } catch (jsonError) {
         console.error(`Failed to parse error response from API: ${response.statusText}`, jsonError);
         errorData = { error: `API error: ${response.status} ${response.statusText}` };
@@ -120,7 +79,7 @@ export async function chatWithMistral(
       throw new Error('Unexpected response format from API');
     }
     
-    return data.choices[0].message.content;
+    return { role: 'assistant', content: data.choices[0].message.content, promptVersion: data.promptVersion };
     
   } catch (error) {
     console.error('Error calling Mistral API:', error);
@@ -128,6 +87,96 @@ export async function chatWithMistral(
   }
 }
 
+interface StreamCallbacks {
+  onToken: (delta: string, fullText: string) => void;
+  onBusyKeysUpdate?: (count: number) => void;
+  // Called with the final model and prompt version once the stream completes
+  onDone?: (meta: { model?: string; promptVersion?: string }) => void;
+  signal?: AbortSignal;
+}
+
+// Streaming chat completion through our backend endpoint (server-sent events).
+// Resolves with the full text once the stream completes.
+export async function streamChatWithMistral(
+  request: ChatRequest,
+  { onToken, onBusyKeysUpdate, onDone, signal }: StreamCallbacks
+): Promise<string> {
+  const response = await fetch('/api/chat/mistral', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  });
+
+  console.log(`Mistral API stream response status: ${response.status}`);
+
+  // Errors before the stream starts come back as regular JSON responses
+  if (!response.ok) {
+    let errorData;
+    try {
+      errorData = await response.json();
+    } catch {
+      errorData = { error: `API error: ${response.status} ${response.statusText}` };
+    }
+    if (errorData.busyKeyCount !== undefined && onBusyKeysUpdate) {
+      onBusyKeysUpdate(errorData.busyKeyCount);
+    }
+    if (response.status === 401) {
+      throw new Error(errorData.message || 'Authentication Error\nThere\'s an issue with your session. You may need to sign in again to continue using the chat feature.');
+    }
+    throw new Error(errorData.error || `API error: ${response.status}`);
+  }
+
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let fullText = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const rawEvent of events) {
+      let eventType = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) eventType = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (payload.busyKeyCount !== undefined && onBusyKeysUpdate) {
+        onBusyKeysUpdate(payload.busyKeyCount);
+      }
+
+      if (eventType === 'error') {
+        throw new Error(payload.error || 'The response stream was interrupted');
+      }
+      if (eventType === 'done' && onDone) {
+        onDone({ model: payload.model, promptVersion: payload.promptVersion });
+      }
+      if (eventType === 'message' && typeof payload.delta === 'string') {
+        fullText += payload.delta;
+        onToken(payload.delta, fullText);
+      }
+    }
+  }
+
+  return fullText;
+}
+
 // Function to check API health and environment configuration
 export async function checkMistralApiConnection(): Promise<{
   isConnected: boolean;
@@ -139,22 +188,8 @@ export async function checkMistralApiConnection(): Promise<{
   try {
     console.log('Checking Mistral API connection...');
     
-    // Simple health check request
-    const response = await fetch('/api/chat/mistral', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        messages: [
-          {
-            role: 'user',
-            content: 'API connection test'
-          }
-        ],
-        model: 'mistral-small'
-      }),
-    });
+    // Reports the chat provider and key status without calling the model
+    const response = await fetch('/api/chat/mistral', { method: 'GET' });
     
     if (!response.ok) {
       let errorData;
@@ -169,7 +204,7 @@ export async function checkMistralApiConnection(): Promise<{
       if (response.status === 401) {
         return {
           isConnected: false,
-          message: 'Authentication error: Mistral API keys are not configured correctly',
+          message: 'Authentication error: your session has expired, please sign in again',
           environment: process.env.NODE_ENV || 'unknown',
           isVercel: typeof window !== 'undefined' && window.location.hostname.includes('vercel.app')
         };
@@ -228,7 +263,7 @@ If you are the administrator:
       return `Resource not found (404 error).
         
 This could be due to:
-1. Missing prompt files in your deployment
+1. Missing API routes in your deployment
 2. Incorrect API endpoint configuration
 3. Issues with your Vercel deployment`;
       
@@ -237,153 +272,84 @@ This could be due to:
   }
 }
 
-// Helper function to format hints in a readable way
-function formatHints(hints: string[] | undefined): string {
-  if (!hints || !Array.isArray(hints) || hints.length === 0) {
-    return "No hints available";
-  }
-  
-  return hints.map((hint, index) => `Hint ${index + 1}: ${hint}`).join('\n');
-}
-
-// Custom hook to manage the chat state
-export function useMistralChat(questionTitle: string) {
+// Custom hook to manage the chat state. The conversation is stored server-side
+// per question; this hook mirrors it and streams new replies.
+export function useMistralChat(questionId: string | undefined) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [busyKeyCount, setBusyKeyCount] = useState(0);
+  // Chat modes the user's plan allows
+  const [modes, setModes] = useState<ChatMode[]>(['socratic']);
+  // Server-side summary of turns no longer sent to the model verbatim
+  const [summary, setSummary] = useState<string | null>(null);
+  // Partial assistant reply while a response is streaming in
+  const [streamingContent, setStreamingContent] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
-  // Load chat history from localStorage on component mount
+  // Load the stored conversation whenever the question changes
   useEffect(() => {
-    const savedMessages = localStorage.getItem(`chat_history_${questionTitle}`);
-    if (savedMessages) {
-      setMessages(JSON.parse(savedMessages));
-    }
-  }, [questionTitle]);
+    setMessages([]);
+    setSummary(null);
+    if (!questionId) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/chat/mistral?questionId=${encodeURIComponent(questionId)}`);
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) {
+          throw new Error(data.error || `API error: ${response.status}`);
+        }
+        setMessages(Array.isArray(data.messages) ? data.messages : []);
+        setSummary(data.summary || null);
+        if (Array.isArray(data.modes)) setModes(data.modes);
+        if (data.busyKeyCount !== undefined) setBusyKeyCount(data.busyKeyCount);
+      } catch (loadError) {
+        if (cancelled) return;
+        console.error('Error loading chat history:', loadError);
+        setError('Could not load the previous conversation.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [questionId]);
   
-  // Save chat history to localStorage whenever messages change
-  useEffect(() => {
-    if (messages.length > 0) {
-      localStorage.setItem(`chat_history_${questionTitle}`, JSON.stringify(messages));
+  // The server may fold older turns into the summary after storing a reply
+  const refreshSummary = async () => {
+    if (!questionId) return;
+    try {
+      const response = await fetch(`/api/chat/mistral?questionId=${encodeURIComponent(questionId)}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setSummary(data.summary || null);
+    } catch (summaryError) {
+      console.warn('Could not refresh the chat summary:', summaryError);
     }
-  }, [messages, questionTitle]);
-  
-  // Get the count of busy API keys via API response
-  // We'll update this when we get a response from the API
+  };
   
-  // Send a message and get a response
-  const sendMessage = async (
-    userMessage: string, 
-    context: { title: string, question: string, hint: string[], solution: string },
-    promptType?: string
-  ) => {
+  // Send a message and get a response. Resolves with the assistant reply, or
+  // null if it failed or was cancelled before any text arrived.
+  const sendMessage = async (userMessage: string, mode: ChatMode = 'socratic'): Promise<ChatMessage | null> => {
+    if (!questionId) return null;
+
     try {
       setIsLoading(true);
       setError(null);
       
-      // Prepare conversation history for the prompt
-      const historyString = messages.map(msg => 
-        `${msg.role === 'user' ? 'Q' : 'A'}: ${msg.content}`
-      ).join('\n\n');
-      
-      // Prepare the system message with context
-      let systemPrompt: string;
-      
-      try {
-        // Use window.location.origin to ensure we're using the correct domain
-        const promptUrl = `${window.location.origin}/data/prompts/mistral.json`;
-        console.log(`Fetching prompt file from: ${promptUrl}`);
-        
-        const response = await fetch(promptUrl);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch prompt file: ${response.status}`);
-        }
-        
-        const responseText = await response.text();
-        console.log(`Received prompt file (${responseText.length} bytes)`);
-        
-        try {
-          const promptsData = JSON.parse(responseText);
-          console.log('Prompt templates loaded:', Object.keys(promptsData));
-          
-          // Handle question chat prompts
-          if (promptType === 'codeAnalysis' && promptsData.codeAnalysis) {
-            systemPrompt = promptsData.codeAnalysis
-              .replace(/{title}/g, context.title)
-              .replace(/{question}/g, context.question)
-              .replace(/{hint}/g, context.hint ? context.hint.join('\n') : 'No hints available')
-              .replace(/{solution}/g, context.solution || 'No solution available');
-          } else if (messages.length > 0) {
-            // Use the prompt with history
-            systemPrompt = promptsData.questionChatWithHistory
-              .replace(/{title}/g, context.title)
-              .replace(/{question}/g, context.question)
-              .replace(/{hint}/g, formatHints(context.hint))
-              .replace(/{solution}/g, context.solution || 'No solution available')
-              .replace(/{history}/g, historyString)
-              .replace(/{query}/g, userMessage);
-          } else {
-            // Use the prompt without history
-            systemPrompt = promptsData.questionChat
-              .replace(/{title}/g, context.title)
-              .replace(/{question}/g, context.question)
-              .replace(/{hint}/g, formatHints(context.hint))
-              .replace(/{solution}/g, context.solution || 'No solution available')
-              .replace(/{query}/g, userMessage);
-          }
-        } catch (jsonError) {
-          console.error('Error parsing prompt JSON:', jsonError, 'Raw content:', responseText);
-          throw jsonError;
-        }
-      } catch (error) {
-        console.error('Error loading prompt templates:', error);
-        // Fallback to a simple prompt if the JSON file can't be loaded
-        systemPrompt = `You are a helpful AI assistant answering questions about: ${context.title}. The question is: ${context.question}`;
-      }
-      
-      // Log that we're sending the full question context to API
-      console.log('Sending full question context to API for improved handling');
-      
-      // Add user message to the chat
+      // Add user message to the chat; the server stores it with the reply
       const newUserMessage: ChatMessage = { role: 'user', content: userMessage };
       const updatedMessages = [...messages, newUserMessage];
       setMessages(updatedMessages);
-      
-      // Save to localStorage immediately to preserve user input even if API fails
-      try {
-        localStorage.setItem(`chat_history_${questionTitle}`, JSON.stringify(updatedMessages));
-      } catch (e) {
-        console.warn('Failed to save to localStorage:', e);
-      }
-      
-      // Prepare the messages for the API
-      const apiMessages: ChatMessage[] = [
-        { role: 'system', content: systemPrompt },
-        ...updatedMessages.slice(-5)  // Send only the last 5 messages to keep context manageable
-      ];
-      
-      // Replace the {query} placeholder with the actual user message
-      apiMessages[0].content = apiMessages[0].content.replace('{query}', userMessage);
-      
-      // Check if we can fetch the prompt file first
-      try {
-        const promptCheckResponse = await fetch(`${window.location.origin}/data/prompts/mistral.json`, {
-          method: 'HEAD'
-        });
-        if (!promptCheckResponse.ok) {
-          console.error(`Prompt file not accessible: ${promptCheckResponse.status}`);
-          setError(`Cannot access prompt file (${promptCheckResponse.status}). This may indicate a deployment issue.`);
-        }
-      } catch (promptCheckError) {
-        console.error('Error checking prompt file:', promptCheckError);
-      }
         
-      // Implement retry logic with model fallback
+      // Retry rate-limited requests; the server handles model fallback within the plan's models
       let retries = 0;
-      const maxRetries = 3; // Increased to allow for model fallbacks
+      const maxRetries = 3;
       let lastError;
-      let currentModel = 'mistral-large-latest';
-      let modelFallbackAttempted = false;
       let connectionCheckPerformed = false;
       
       while (retries <= maxRetries) {
@@ -391,17 +357,10 @@ export function useMistralChat(questionTitle: string) {
           // Add delay for retries with exponential backoff
           if (retries > 0) {
             const delayMs = Math.min(1000 * Math.pow(2, retries - 1), 5000); // 1s, 2s, 4s...
-            console.log(`Retrying request (attempt ${retries}/${maxRetries}) after ${delayMs}ms delay using model: ${currentModel}`);
+            console.log(`Retrying request (attempt ${retries}/${maxRetries}) after ${delayMs}ms delay`);
             await new Promise(resolve => setTimeout(resolve, delayMs));
           }
           
-          // First try large model, fall back to small after first error
-          if (retries === 1 && !modelFallbackAttempted) {
-            currentModel = 'mistral-small';
-            modelFallbackAttempted = true;
-            console.log('Falling back to smaller model: mistral-small');
-          }
-          
           // On the second retry, check API connection to get more detailed error info
           if (retries === 2 && !connectionCheckPerformed) {
             console.log('Performing API connection check to diagnose issues...');
@@ -412,7 +371,7 @@ export function useMistralChat(questionTitle: string) {
               if (!connectionStatus.isConnected) {
                 console.error('API connection check failed:', connectionStatus.message);
                 if (connectionStatus.message.includes('Authentication')) {
-                  setError('Authentication error: API keys not configured correctly in the deployment environment.');
+                  setError('Authentication error: your session has expired, please sign in again.');
                 }
               }
             } catch (connectionError) {
@@ -420,38 +379,65 @@ export function useMistralChat(questionTitle: string) {
             }
           }
           
-          // Send the request to the API
-          const response = await chatWithMistral(
-            apiMessages, 
-            currentModel,
-            context, // Pass the question context
-            (busyCount: number) => setBusyKeyCount(busyCount)
-          );
-          
-          // Add the assistant's response to the chat
-          const newAssistantMessage: ChatMessage = { role: 'assistant', content: response };
-          const finalMessages = [...updatedMessages, newAssistantMessage];
-          setMessages(finalMessages);
-          
-          // Save complete conversation to localStorage
+          // Stream the response from the API, rendering tokens as they arrive
+          const abortController = new AbortController();
+          abortControllerRef.current = abortController;
+          let partialReply = '';
+          let response: string;
+          let replyPromptVersion: string | undefined;
           try {
-            localStorage.setItem(`chat_history_${questionTitle}`, JSON.stringify(finalMessages));
-          } catch (e) {
-            console.warn('Failed to save to localStorage:', e);
+            response = await streamChatWithMistral(
+              { questionId, userMessage, mode },
+              {
+                onToken: (_delta, fullText) => {
+                  partialReply = fullText;
+                  setIsStreaming(true);
+                  setStreamingContent(fullText);
+                },
+                onBusyKeysUpdate: (busyCount: number) => setBusyKeyCount(busyCount),
+                onDone: ({ promptVersion }) => { replyPromptVersion = promptVersion; },
+                signal: abortController.signal,
+              }
+            );
+          } catch (streamError) {
+            // Cancelled by the user: keep whatever already arrived (the server stores it too)
+            if (abortController.signal.aborted) {
+              if (partialReply) {
+                const partialMessage: ChatMessage = { role: 'assistant', content: partialReply, mode };
+                setMessages([...updatedMessages, partialMessage]);
+                return partialMessage;
+              }
+              return null;
+            }
+            // Never retry once tokens have been shown, the retry would duplicate them
+            if (partialReply) {
+              throw new Error(`The response was interrupted: ${streamError instanceof Error ? streamError.message : String(streamError)}`);
+            }
+            throw streamError;
+          } finally {
+            abortControllerRef.current = null;
+            setIsStreaming(false);
+            setStreamingContent('');
           }
           
+          // Add the assistant's response to the chat
+          const newAssistantMessage: ChatMessage = { role: 'assistant', content: response, mode, promptVersion: replyPromptVersion };
+          setMessages([...updatedMessages, newAssistantMessage]);
+          if (mode !== 'codeAnalysis') refreshSummary();
+          
           // Success - break out of retry loop
-          return;
+          return newAssistantMessage;
         } catch (err) {
           lastError = err;
           
           // Only auto-retry for rate limit errors
           const errorMessage = err instanceof Error ? err.message : String(err);
           const isRateLimitError = 
-            errorMessage.includes('rate limit') || 
+            !errorMessage.includes('interrupted') &&
+            (errorMessage.includes('rate limit') || 
             errorMessage.includes('busy') || 
             errorMessage.includes('try again') ||
-            errorMessage.includes('503');
+            errorMessage.includes('503'));
             
           if (!isRateLimitError || retries >= maxRetries) {
             throw err; // Not a rate limit error or we've exhausted retries
@@ -478,24 +464,41 @@ export function useMistralChat(questionTitle: string) {
       } else {
         setError(errorMessage);
       }
+      return null;
     } finally {
       setIsLoading(false);
     }
   };
   
-  // Clear chat history
-  const clearChat = () => {
+  // Stop the in-flight response; the partial reply is kept
+  const cancel = () => {
+    abortControllerRef.current?.abort();
+  };
+  
+  // Clear the stored conversation for this question
+  const clearChat = async () => {
+    if (questionId) {
+      const response = await fetch(`/api/chat/mistral?questionId=${encodeURIComponent(questionId)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `API error: ${response.status}`);
+      }
+    }
     setMessages([]);
-    localStorage.removeItem(`chat_history_${questionTitle}`);
+    setSummary(null);
   };
   
   return {
     messages,
+    summary,
+    modes,
     isLoading,
     error,
     busyKeyCount,
+    streamingContent,
+    isStreaming,
     sendMessage,
+    cancel,
     clearChat,
-    setMessages,
   };
 }
@@ -0,0 +1,42 @@
+/**
+ * AtCoder Exports
+ *
+ * Task pages saved from the browser. The statement is read from the English
+ * half of #task-statement (see lib/statement/html), the title from the page
+ * title ("A - N-choice question") and the difficulty from the task's score.
+ * AtCoder has no tags.
+ */
+import { parseStatement } from '@/lib/statement/formats';
+import { pageText, pageTitle, withoutTitle } from './page';
+import type { ImportedProblem, ProblemDifficulty } from './types';
+
+// ABC A-B are worth 100-200 points, C-D 300-400, and harder tasks 500 and up
+export function scoreDifficulty(score: number | null): ProblemDifficulty | null {
+  if (score === null) return null;
+  if (score <= 200) return 'Easy';
+  if (score <= 400) return 'Medium';
+  return 'Hard';
+}
+
+export function parseAtCoderPage(html: string, externalId: string, url: string): ImportedProblem {
+  const statement = parseStatement(html, 'html');
+  const title = (pageTitle(html) ?? statement.title ?? externalId)
+    .replace(/\s+-\s+AtCoder$/i, '')
+    .replace(/^[A-Za-z]+\d*\s+-\s+/, '')
+    .trim();
+
+  // "Score : 100 points" or "配点 : 100 点", just above the statement
+  const scoreLine = html.match(/(?:Score|配点)\s*[:：]\s*(?:<var>)?([\s\S]{0,40}?)(?:<\/var>)?\s*(?:points?|点)/i);
+  const score = scoreLine ? Number(pageText(scoreLine[1])) || null : null;
+
+  return {
+    platform: 'atcoder',
+    externalId,
+    aliases: [],
+    title,
+    url,
+    difficulty: scoreDifficulty(score),
+    tags: [],
+    statement: withoutTitle(statement),
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Codeforces Exports
+ *
+ * The problemset listing from the API (problemset.problems saved as JSON) and
+ * problem pages saved from the browser. The listing has names, ratings and
+ * tags but no statements; a saved page has the statement, with the rating and
+ * tags in its sidebar tag boxes.
+ */
+import { parseStatement } from '@/lib/statement/formats';
+import { pageText, pageTitle, withoutTitle } from './page';
+import { problemUrl } from './reference';
+import type { ImportedProblem, ProblemDifficulty } from './types';
+
+interface ListedProblem {
+  contestId?: number;
+  index?: string;
+  name?: string;
+  rating?: number;
+  tags?: string[];
+}
+
+type IdentifiedProblem = ListedProblem & { contestId: number; index: string; name: string };
+
+// Ratings run from 800 to 3500; Div. 2 A-B sit at the bottom, Div. 1 problems from 1900 up
+export function ratingDifficulty(rating: number | null | undefined): ProblemDifficulty | null {
+  if (typeof rating !== 'number' || !Number.isFinite(rating)) return null;
+  if (rating <= 1200) return 'Easy';
+  if (rating <= 1900) return 'Medium';
+  return 'Hard';
+}
+
+function listedProblems(data: unknown): unknown[] | null {
+  if (Array.isArray(data)) return data;
+  if (!data || typeof data !== 'object') return null;
+  const record = data as { result?: { problems?: unknown }; problems?: unknown };
+  const problems = record.result?.problems ?? record.problems;
+  return Array.isArray(problems) ? problems : null;
+}
+
+function isListedProblem(value: unknown): value is IdentifiedProblem {
+  if (!value || typeof value !== 'object') return false;
+  const problem = value as ListedProblem;
+  return typeof problem.contestId === 'number' && typeof problem.index === 'string' && typeof problem.name === 'string';
+}
+
+// The API response ({ status, result: { problems } }), its problems array, or { problems }
+export function isCodeforcesProblemset(data: unknown): boolean {
+  const problems = listedProblems(data);
+  return !!problems && problems.length > 0 && problems.some(isListedProblem);
+}
+
+export function parseCodeforcesProblemset(data: unknown): ImportedProblem[] {
+  return (listedProblems(data) ?? []).filter(isListedProblem).map(problem => {
+    const externalId = `${problem.contestId}${problem.index.toUpperCase()}`;
+    return {
+      platform: 'codeforces',
+      externalId,
+      aliases: [],
+      title: problem.name.trim(),
+      url: problemUrl('codeforces', externalId),
+      difficulty: ratingDifficulty(problem.rating),
+      tags: Array.isArray(problem.tags) ? problem.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      statement: null,
+    };
+  });
+}
+
+export function parseCodeforcesPage(html: string, externalId: string, url: string): ImportedProblem {
+  const statement = parseStatement(html, 'html');
+  // "A. Theatre Square"
+  const title = (statement.title ?? pageTitle(html) ?? externalId).replace(/^(Problem\s+)?[A-Z]\d*\s*[.-]\s+/, '').trim();
+
+  let rating: number | null = null;
+  const tags: string[] = [];
+  for (const box of Array.from(html.matchAll(/<span\b[^>]*class="[^"]*\btag-box\b[^"]*"[^>]*>([\s\S]*?)<\/span>/gi))) {
+    const text = pageText(box[1]);
+    const stars = text.match(/^\*(\d+)$/);
+    if (stars) rating = Number(stars[1]);
+    else if (text) tags.push(text);
+  }
+
+  return {
+    platform: 'codeforces',
+    externalId,
+    aliases: [],
+    title,
+    url,
+    difficulty: ratingDifficulty(rating),
+    tags,
+    statement: withoutTitle(statement),
+  };
+}
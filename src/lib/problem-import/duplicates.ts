@@ -0,0 +1,59 @@
+/**
+ * Import Duplicates
+ *
+ * Questions an imported problem would duplicate: the user's own questions
+ * imported from the same platform problem or sharing its title, and question
+ * bank entries with the same title. The bank has no source columns, so titles
+ * are all it can be matched on.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ImportedProblem } from './types';
+
+export interface DuplicateQuestion {
+  table: 'questions_user' | 'questions_global';
+  id: string;
+  title: string;
+  // 'source' duplicates cannot be imported again; 'title' ones are a warning
+  match: 'source' | 'title';
+}
+
+// Postgres unique_violation from questions_user_source_idx: the problem was imported in the meantime
+export const UNIQUE_VIOLATION = '23505';
+
+// ilike pattern matching the whole text literally, ignoring case
+function literalPattern(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+export async function findDuplicateQuestions(
+  supabase: SupabaseClient,
+  userId: string,
+  problem: ImportedProblem
+): Promise<DuplicateQuestion[]> {
+  const title = literalPattern(problem.title.trim());
+  const [bySource, byUserTitle, byBankTitle] = await Promise.all([
+    supabase
+      .from('questions_user')
+      .select('id, title')
+      .eq('user_id', userId)
+      .eq('source_platform', problem.platform)
+      .eq('source_id', problem.externalId),
+    supabase.from('questions_user').select('id, title').eq('user_id', userId).ilike('title', title).limit(5),
+    supabase.from('questions_global').select('id, title').ilike('title', title).limit(5),
+  ]);
+
+  const failed = bySource.error ?? byUserTitle.error ?? byBankTitle.error;
+  if (failed) throw new Error(`Failed to check for duplicates: ${failed.message}`);
+
+  const duplicates: DuplicateQuestion[] = [];
+  const add = (table: DuplicateQuestion['table'], rows: { id: string; title: string }[] | null, match: DuplicateQuestion['match']) => {
+    for (const row of rows ?? []) {
+      if (duplicates.some(item => item.table === table && item.id === row.id)) continue;
+      duplicates.push({ table, id: row.id, title: row.title, match });
+    }
+  };
+  add('questions_user', bySource.data, 'source');
+  add('questions_user', byUserTitle.data, 'title');
+  add('questions_global', byBankTitle.data, 'title');
+  return duplicates;
+}
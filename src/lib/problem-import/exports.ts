@@ -0,0 +1,72 @@
+/**
+ * Problem Exports
+ *
+ * Reads an offline export file into ImportedProblems: the Codeforces
+ * problemset JSON, a LeetCode GraphQL dump, or a Codeforces or AtCoder
+ * problem page saved from the browser. Nothing is fetched; which problem of a
+ * multi-problem export is meant comes from a reference (see ./reference).
+ */
+import { serializeStatement } from '@/lib/statement/formats';
+import { parseAtCoderPage } from './atcoder';
+import { isCodeforcesProblemset, parseCodeforcesPage, parseCodeforcesProblemset } from './codeforces';
+import { parseLeetCodeDump } from './leetcode';
+import { pageUrl } from './page';
+import { parseProblemReference, problemUrl } from './reference';
+import { ImportError, type ImportedProblem } from './types';
+
+// The full Codeforces problemset is a few megabytes
+export const MAX_EXPORT_SIZE = 20 * 1024 * 1024;
+
+function parseJsonExport(content: string): ImportedProblem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new ImportError('The file is not valid JSON.');
+  }
+  if (data && typeof data === 'object' && (data as { status?: unknown }).status === 'FAILED') {
+    throw new ImportError('This is a failed Codeforces API response; export the problemset again.');
+  }
+  if (isCodeforcesProblemset(data)) return parseCodeforcesProblemset(data);
+
+  const problems = parseLeetCodeDump(data);
+  if (problems.length === 0) {
+    throw new ImportError('No problems found. Use the Codeforces problemset JSON or a LeetCode GraphQL dump.');
+  }
+  return problems;
+}
+
+function parsePageExport(html: string): ImportedProblem {
+  const url = pageUrl(html);
+  const reference = url ? parseProblemReference(url) : null;
+  const isAtCoder = /id\s*=\s*["']task-statement["']/i.test(html);
+  const isCodeforces = /class\s*=\s*["'][^"']*\bproblem-statement\b/i.test(html);
+
+  if (!isAtCoder && !isCodeforces) {
+    throw new ImportError('This page has no AtCoder or Codeforces problem statement. Save the problem page itself.');
+  }
+  const platform = isAtCoder ? 'atcoder' : 'codeforces';
+  if (!reference || reference.platform !== platform) {
+    throw new ImportError('Could not tell which problem this page is. Save it again from the problem URL, as a complete web page.');
+  }
+  const pageLink = url && /^https?:\/\//i.test(url) ? url : problemUrl(platform, reference.id);
+  return platform === 'atcoder'
+    ? parseAtCoderPage(html, reference.id, pageLink)
+    : parseCodeforcesPage(html, reference.id, pageLink);
+}
+
+// Every problem in an export file, whichever of the supported formats it is in
+export function parseExportFile(content: string): ImportedProblem[] {
+  if (content.length > MAX_EXPORT_SIZE) throw new ImportError('The export file is too large.');
+  const text = content.replace(/^\uFEFF/, '').trim();
+  if (!text) throw new ImportError('The export file is empty.');
+
+  if (text.startsWith('{') || text.startsWith('[')) return parseJsonExport(text);
+  if (/<(html|body|div|section)\b/i.test(text)) return [parsePageExport(text)];
+  throw new ImportError('Unsupported file. Use a Codeforces problemset JSON, a LeetCode GraphQL dump or a saved AtCoder or Codeforces problem page.');
+}
+
+// Statement text stored as the question, in the Markdown the statement pages read back
+export function importedQuestionText(problem: ImportedProblem): string {
+  return problem.statement ? serializeStatement(problem.statement, 'markdown').trim() : '';
+}
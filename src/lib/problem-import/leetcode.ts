@@ -0,0 +1,75 @@
+/**
+ * LeetCode Exports
+ *
+ * Responses of LeetCode's GraphQL API saved as JSON: a single question
+ * ({ data: { question } }), a problem list (problemsetQuestionList), or an
+ * array of either. Questions are found wherever they sit in the dump by their
+ * titleSlug; the statement comes from the HTML content, which list queries and
+ * paid-only questions leave out.
+ */
+import { parseStatement } from '@/lib/statement/formats';
+import { problemUrl } from './reference';
+import type { ImportedProblem, ProblemDifficulty } from './types';
+
+interface DumpedQuestion {
+  title: string;
+  titleSlug: string;
+  questionFrontendId?: string | number;
+  content?: string | null;
+  difficulty?: string;
+  topicTags?: { name?: string }[];
+}
+
+// Deep enough for every known query shape, shallow enough to stop on odd input
+const MAX_DEPTH = 8;
+
+function isDumpedQuestion(value: object): value is DumpedQuestion {
+  const question = value as Partial<DumpedQuestion>;
+  return typeof question.title === 'string' && typeof question.titleSlug === 'string' && /^[a-z0-9-]+$/.test(question.titleSlug);
+}
+
+function collectQuestions(value: unknown, found: DumpedQuestion[], depth: number): void {
+  if (!value || typeof value !== 'object' || depth > MAX_DEPTH) return;
+  if (Array.isArray(value)) {
+    value.forEach(item => collectQuestions(item, found, depth + 1));
+  } else if (isDumpedQuestion(value)) {
+    found.push(value);
+  } else {
+    Object.values(value).forEach(item => collectQuestions(item, found, depth + 1));
+  }
+}
+
+function toDifficulty(value: string | undefined): ProblemDifficulty | null {
+  const difficulty = value?.trim().toLowerCase();
+  if (difficulty === 'easy') return 'Easy';
+  if (difficulty === 'medium') return 'Medium';
+  if (difficulty === 'hard') return 'Hard';
+  return null;
+}
+
+export function parseLeetCodeDump(data: unknown): ImportedProblem[] {
+  const questions: DumpedQuestion[] = [];
+  collectQuestions(data, questions, 0);
+
+  // A question fetched with content wins over the same question from a list
+  const bySlug = new Map<string, DumpedQuestion>();
+  for (const question of questions) {
+    if (!bySlug.get(question.titleSlug)?.content) bySlug.set(question.titleSlug, question);
+  }
+
+  return Array.from(bySlug.values()).map(question => {
+    const number = question.questionFrontendId == null ? '' : String(question.questionFrontendId).trim();
+    return {
+      platform: 'leetcode',
+      externalId: question.titleSlug,
+      aliases: number ? [number] : [],
+      title: question.title.trim(),
+      url: problemUrl('leetcode', question.titleSlug),
+      difficulty: toDifficulty(question.difficulty),
+      tags: (question.topicTags ?? [])
+        .map(tag => (typeof tag?.name === 'string' ? tag.name.trim() : ''))
+        .filter(Boolean),
+      statement: question.content ? parseStatement(question.content, 'html') : null,
+    };
+  });
+}
@@ -0,0 +1,37 @@
+// Metadata of problem pages saved from the browser, read around the statement itself
+import { decodeEntities } from '@/lib/statement/html';
+import type { Statement } from '@/lib/statement/types';
+
+// Plain text of an HTML fragment
+export function pageText(fragment: string): string {
+  return decodeEntities(fragment.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeEntities(match[2] ?? match[3]) : null;
+}
+
+/**
+ * The URL the page was saved from: its canonical link, og:url, or the
+ * "saved from url" comment browsers add when saving a page.
+ */
+export function pageUrl(html: string): string | null {
+  for (const tag of html.match(/<(link|meta)\b[^>]*>/gi) ?? []) {
+    const rel = attribute(tag, 'rel');
+    const property = attribute(tag, 'property');
+    if (rel?.toLowerCase() === 'canonical') return attribute(tag, 'href');
+    if (property?.toLowerCase() === 'og:url') return attribute(tag, 'content');
+  }
+  return html.match(/<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i)?.[1] ?? null;
+}
+
+export function pageTitle(html: string): string | null {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  return title ? pageText(title[1]) || null : null;
+}
+
+// Stored questions carry their title separately, so it is left out of the statement text
+export function withoutTitle(statement: Statement): Statement {
+  return { sections: statement.sections, examples: statement.examples, constraints: statement.constraints };
+}
@@ -0,0 +1,91 @@
+// Problem identifiers and URLs for LeetCode, Codeforces and AtCoder
+import type { ImportedProblem, ProblemPlatform, ProblemReference } from './types';
+
+const PLATFORM_PREFIXES: Record<string, ProblemPlatform> = {
+  lc: 'leetcode', leetcode: 'leetcode',
+  cf: 'codeforces', codeforces: 'codeforces',
+  ac: 'atcoder', atcoder: 'atcoder',
+};
+
+const URL_PATTERNS: { platform: ProblemPlatform; host: RegExp; path: RegExp; id: (match: RegExpMatchArray) => string }[] = [
+  { platform: 'leetcode', host: /(^|\.)leetcode\.(com|cn)$/, path: /^\/problems\/([a-z0-9-]+)/i, id: match => match[1].toLowerCase() },
+  {
+    platform: 'codeforces',
+    host: /(^|\.)codeforces\.(com|ru)$/,
+    path: /^\/(?:problemset\/problem|contest|gym)\/(\d+)\/(?:problem\/)?([a-z]\d?)\b/i,
+    id: match => `${match[1]}${match[2].toUpperCase()}`,
+  },
+  { platform: 'atcoder', host: /(^|\.)atcoder\.jp$/, path: /^\/contests\/[\w-]+\/tasks\/([\w-]+)/i, id: match => match[1].toLowerCase() },
+];
+
+function parseUrl(text: string): ProblemReference | null {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+  for (const pattern of URL_PATTERNS) {
+    if (!pattern.host.test(url.hostname.toLowerCase())) continue;
+    const match = url.pathname.match(pattern.path);
+    return match ? { platform: pattern.platform, id: pattern.id(match) } : null;
+  }
+  return null;
+}
+
+/**
+ * Read a problem identifier: a problem URL, an optionally prefixed id
+ * ("CF 1520B", "lc two-sum"), a bare Codeforces id, AtCoder task id, LeetCode
+ * slug or number, or failing those a title. Null for blank input.
+ */
+export function parseProblemReference(input: string): ProblemReference | null {
+  let text = input.trim();
+  if (!text) return null;
+  if (/^(https?:\/\/)?([\w-]+\.)*(leetcode\.(com|cn)|codeforces\.(com|ru)|atcoder\.jp)\//i.test(text)) return parseUrl(text);
+
+  let platform: ProblemPlatform | null = null;
+  const prefix = text.match(/^([a-z]+)\s*[:/\s]\s*(\S.*)$/i);
+  if (prefix && PLATFORM_PREFIXES[prefix[1].toLowerCase()]) {
+    platform = PLATFORM_PREFIXES[prefix[1].toLowerCase()];
+    text = prefix[2].trim();
+  }
+
+  const codeforces = text.match(/^(\d+)\s*([a-z]\d?)$/i);
+  if (codeforces && platform !== 'leetcode') return { platform: 'codeforces', id: `${codeforces[1]}${codeforces[2].toUpperCase()}` };
+  if (/^[a-z]+\d+_[a-z0-9]+$/i.test(text) && platform !== 'leetcode') return { platform: 'atcoder', id: text.toLowerCase() };
+  // LeetCode question numbers and slugs ("two-sum"); one-word slugs are told apart from titles by matching both
+  if (/^\d+$/.test(text) || /^[a-z0-9]+(-[a-z0-9]+)+$/.test(text)) return { platform: platform ?? 'leetcode', id: text };
+  return { platform, id: text };
+}
+
+export function problemUrl(platform: ProblemPlatform, id: string): string {
+  switch (platform) {
+    case 'leetcode':
+      return `https://leetcode.com/problems/${id}/`;
+    case 'codeforces': {
+      const match = id.match(/^(\d+)(.+)$/);
+      return match ? `https://codeforces.com/problemset/problem/${match[1]}/${match[2]}` : 'https://codeforces.com/problemset';
+    }
+    case 'atcoder':
+      return `https://atcoder.jp/contests/${id.replace(/_[^_]*$/, '')}/tasks/${id}`;
+  }
+}
+
+// Case, spacing and punctuation differ between platforms and pasted copies of a title
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[\s\-_.,:;'"`!?()[\]{}]+/g, ' ').trim();
+}
+
+// The problem the reference points at, by id first and title second
+export function findProblem(problems: ImportedProblem[], reference: ProblemReference): ImportedProblem | null {
+  const candidates = reference.platform ? problems.filter(problem => problem.platform === reference.platform) : problems;
+  const id = reference.id.toLowerCase();
+  const byId = candidates.find(problem => [problem.externalId, ...problem.aliases].some(value => value.toLowerCase() === id));
+  if (byId) return byId;
+
+  const title = normalizeTitle(reference.id);
+  return candidates.find(problem => normalizeTitle(problem.title) === title)
+    // A title can look like a slug ("two-sum") or id, so try every platform before giving up
+    ?? problems.find(problem => normalizeTitle(problem.title) === title)
+    ?? null;
+}
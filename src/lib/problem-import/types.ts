@@ -0,0 +1,33 @@
+import type { Statement } from '@/lib/statement/types';
+
+export type ProblemPlatform = 'leetcode' | 'codeforces' | 'atcoder';
+
+export type ProblemDifficulty = 'Easy' | 'Medium' | 'Hard';
+
+export interface ImportedProblem {
+  platform: ProblemPlatform;
+  // LeetCode slug, Codeforces contest and index (1520B) or AtCoder task id (abc300_a)
+  externalId: string;
+  // Other identifiers the problem goes by, such as LeetCode's question number
+  aliases: string[];
+  title: string;
+  url: string;
+  difficulty: ProblemDifficulty | null;
+  tags: string[];
+  // Null when the export only has metadata, as in the Codeforces problemset listing
+  statement: Statement | null;
+}
+
+// A problem as the user typed it: a URL, "CF 1520B", "abc300_a", "two-sum", "1"...
+export interface ProblemReference {
+  // Null when the identifier could belong to any platform
+  platform: ProblemPlatform | null;
+  id: string;
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Process Question Job
+ *
+ * Background handler that generates hints and a solution for a question. The
+ * credit is debited when the job is queued (see /api/question/process); this
+ * handler settles it from the processing outcome: kept on success, held while
+ * the AI is degraded (the job retries with backoff), refunded on failure,
+ * including when the worker dies or throws on the last attempt.
+ * Starter code for the editor is generated last and is best effort: a question
+ * without it still succeeds and the editor falls back to its generic template.
+ * Checking the new solution against the statement's examples is queued as a
+ * separate verify_reference job.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateProblemSolution, generateStarterCode } from '@/lib/gemini-api';
+import { refundQuestionProcessing, type QuestionDebit } from '@/lib/credits';
+import { enqueueJob, type Job, type JobFailureHandler, type JobHandler, type JobHandlerResult } from '@/lib/jobs';
+import {
+  classifyProcessingError,
+  classifySolutionOutput,
+  CREDIT_DISPOSITION,
+  type OutcomeClassification,
+  type ProcessingOutcome
+} from '@/lib/processing-outcome';
+import { serializeSolution } from '@/lib/solution-schema';
+import { parseQuestionText } from '@/lib/question-formatter';
+import type { StarterCode } from '@/lib/starter-code';
+
+export interface ProcessQuestionPayload {
+  // Ledger attempt and entry of the debit taken for this job
+  debitAttempt: number;
+  debitEntryId: string | null;
+}
+
+// Stored as jobs.result and shown by the upload screen
+export interface ProcessQuestionResult extends Record<string, unknown> {
+  outcome: ProcessingOutcome;
+  creditStatus: typeof CREDIT_DISPOSITION[ProcessingOutcome];
+  reason: string;
+  message: string;
+  retryable: boolean;
+  credits?: number;
+}
+
+async function setProcessingStatus(admin: SupabaseClient, questionId: string, outcome: ProcessingOutcome, reason: string) {
+  const { error } = await admin
+    .from('questions_user')
+    .update({ processing_status: outcome, processing_reason: reason, processing_updated_at: new Date().toISOString() })
+    .eq('id', questionId);
+  if (error) console.error(`Failed to record processing status for question ${questionId}:`, error);
+}
+
+// Generate and store the editor's starter programs; failures are logged, never raised
+async function storeStarterCode(admin: SupabaseClient, questionId: string, title: string, question: string) {
+  try {
+    const output = await generateStarterCode(title, question, parseQuestionText(question).examples);
+    const starter: StarterCode = {
+      functionName: output.functionName,
+      languages: output.languages,
+      model: output.model,
+      promptVersion: output.promptVersion,
+      generatedAt: new Date().toISOString(),
+    };
+    const { error } = await admin.from('questions_user').update({ starter_code: starter }).eq('id', questionId);
+    if (error) throw new Error(error.message);
+  } catch (error) {
+    console.error(`Failed to generate starter code for question ${questionId}:`, error);
+  }
+}
+
+// Settle the credit and question status for a non-success outcome
+async function settleOutcome(
+  admin: SupabaseClient,
+  job: Job,
+  questionId: string,
+  classification: OutcomeClassification
+): Promise<JobHandlerResult> {
+  const payload = job.payload as unknown as ProcessQuestionPayload;
+  const debit: Pick<QuestionDebit, 'questionId' | 'attempt' | 'entryId'> = {
+    questionId,
+    attempt: payload.debitAttempt,
+    entryId: payload.debitEntryId,
+  };
+  const result: ProcessQuestionResult = {
+    outcome: classification.outcome,
+    creditStatus: CREDIT_DISPOSITION[classification.outcome],
+    reason: classification.reason,
+    message: classification.message,
+    retryable: classification.retryable,
+  };
+
+  if (classification.outcome === 'failed') {
+    try {
+      const refund = await refundQuestionProcessing(admin, job.user_id, debit, classification.reason);
+      result.credits = refund.balance;
+      console.log(`Credit refunded for user ${job.user_id} (${classification.reason}), balance now ${refund.balance}`);
+    } catch (refundError) {
+      console.error(`Failed to refund credit for question ${questionId}:`, refundError);
+    }
+  }
+  await setProcessingStatus(admin, questionId, classification.outcome, classification.reason);
+
+  // Degraded runs are retried by the queue while the credit stays held
+  return {
+    status: 'failed',
+    error: `${classification.outcome}: ${classification.reason}`,
+    retryable: classification.outcome === 'degraded',
+    result,
+  };
+}
+
+export const processQuestionJob: JobHandler = async (admin, job) => {
+  const questionId = job.question_id;
+  if (!questionId) {
+    return { status: 'failed', error: 'Job has no question', retryable: false };
+  }
+
+  const { data: question, error: questionError } = await admin
+    .from('questions_user')
+    .select('title, question')
+    .eq('id', questionId)
+    .single();
+
+  if (questionError || !question) {
+    return { status: 'failed', error: `Question not found: ${questionError?.message ?? questionId}`, retryable: false };
+  }
+
+  const settle = (classification: OutcomeClassification) => settleOutcome(admin, job, questionId, classification);
+
+  let output;
+  try {
+    output = await generateProblemSolution(question.title, question.question);
+  } catch (aiError: unknown) {
+    const classification = classifyProcessingError(aiError);
+    console.error(`AI processing ${classification.outcome} (${classification.reason}):`, aiError);
+    return settle(classification);
+  }
+
+  const classification = classifySolutionOutput(output);
+  if (classification.outcome !== 'success') {
+    console.warn(`AI output for question ${questionId} classified as ${classification.outcome} (${classification.reason})`);
+    return settle(classification);
+  }
+
+  // Do NOT store the Gemini output in the chat column; start it empty
+  const { error: updateError } = await admin
+    .from('questions_user')
+    .update({
+      hint: output.hints,
+      hint_details: null,
+      solution: serializeSolution(output.solution, { model: output.model, promptVersion: output.promptVersion }),
+      // Derived from the previous solution
+      reference_program: null,
+      reference_verification: null,
+      chat: [],
+      processing_status: 'success',
+      processing_reason: classification.reason,
+      processing_updated_at: new Date().toISOString(),
+    })
+    .eq('id', questionId);
+
+  if (updateError) {
+    console.error('Failed to update question with AI response:', updateError);
+    return settle({
+      outcome: 'failed',
+      reason: 'store_failed',
+      message: 'Failed to store AI-generated content. Your credit has been refunded.',
+      retryable: true,
+    });
+  }
+
+  await storeStarterCode(admin, questionId, question.title, question.question);
+
+  try {
+    await enqueueJob(admin, { userId: job.user_id, type: 'verify_reference', questionId });
+  } catch (enqueueError) {
+    console.error(`Failed to queue reference verification for question ${questionId}:`, enqueueError);
+  }
+
+  const result: ProcessQuestionResult = {
+    outcome: 'success',
+    creditStatus: CREDIT_DISPOSITION.success,
+    reason: classification.reason,
+    message: classification.message,
+    retryable: false,
+  };
+  return { status: 'succeeded', result };
+};
+
+// The worker died or the handler threw on the last attempt: refund the debit
+// and mark the question failed so it is not left processing
+export const failQuestionProcessingJob: JobFailureHandler = async (admin, job, error) => {
+  if (!job.question_id) return undefined;
+  console.error(`Question ${job.question_id} processing stopped: ${error}`);
+  const settled = await settleOutcome(admin, job, job.question_id, {
+    outcome: 'failed',
+    reason: 'worker_failed',
+    message: 'Processing stopped unexpectedly. Your credit has been refunded.',
+    retryable: false,
+  });
+  return settled.result;
+};
@@ -0,0 +1,114 @@
+/**
+ * Processing Outcome
+ *
+ * Classifies the result of AI question processing so the process route can
+ * decide what happens to the credit it debited:
+ *   success  - a usable solution was generated; the debit stands
+ *   degraded - the AI was temporarily unavailable or returned placeholder
+ *              content; the credit is held and the next retry is free
+ *   failed   - processing cannot succeed as-is; the credit is refunded
+ */
+import { LLMError } from '@/lib/llm/provider';
+import { SolutionValidationError } from '@/lib/gemini-api';
+import type { SolutionOutput } from '@/lib/solution-schema';
+
+export type ProcessingOutcome = 'success' | 'degraded' | 'failed';
+
+export type CreditDisposition = 'charged' | 'held' | 'refunded';
+
+export interface OutcomeClassification {
+  outcome: ProcessingOutcome;
+  // Short machine-readable cause, stored on the question and in the ledger
+  reason: string;
+  // User-facing explanation
+  message: string;
+  retryable: boolean;
+}
+
+export const CREDIT_DISPOSITION: Record<ProcessingOutcome, CreditDisposition> = {
+  success: 'charged',
+  degraded: 'held',
+  failed: 'refunded',
+};
+
+// Phrases from "busy" placeholder payloads that models or older fallbacks emit instead of a solution
+const PLACEHOLDER_PATTERNS = [
+  /models? (are|is) (currently )?busy/i,
+  /experiencing high demand/i,
+  /please (re)?try again (later|in a few minutes)/i,
+];
+
+const isPlaceholder = (text: string) => PLACEHOLDER_PATTERNS.some(pattern => pattern.test(text));
+
+/**
+ * Classify schema-valid model output. Valid JSON can still be a placeholder
+ * ("our models are busy") rather than an actual solution.
+ */
+export function classifySolutionOutput(output: SolutionOutput): OutcomeClassification {
+  const { solution } = output;
+  const texts = [
+    solution.explanation,
+    solution.bruteForce.approach,
+    solution.optimal.approach,
+    ...Object.values(solution.optimal.code),
+  ];
+
+  if (texts.some(isPlaceholder)) {
+    return {
+      outcome: 'degraded',
+      reason: 'placeholder_output',
+      message: 'The AI returned a placeholder instead of a solution. Your credit is held, retry when ready.',
+      retryable: true,
+    };
+  }
+
+  return { outcome: 'success', reason: 'ok', message: 'Question processed successfully', retryable: false };
+}
+
+// Classify an error thrown while generating a solution
+export function classifyProcessingError(error: unknown): OutcomeClassification {
+  if (error instanceof LLMError) {
+    switch (error.kind) {
+      case 'exhausted':
+      case 'rate_limit':
+        return {
+          outcome: 'degraded',
+          reason: error.kind,
+          message: 'AI models are currently busy. Your credit is held, retry in a few minutes.',
+          retryable: true,
+        };
+      case 'network':
+      case 'upstream':
+      case 'aborted':
+        return {
+          outcome: 'degraded',
+          reason: error.kind,
+          message: 'The AI service could not be reached. Your credit is held, please retry.',
+          retryable: true,
+        };
+      case 'auth':
+        return {
+          outcome: 'failed',
+          reason: error.kind,
+          message: 'The AI service is misconfigured. Your credit has been refunded.',
+          retryable: false,
+        };
+    }
+  }
+
+  if (error instanceof SolutionValidationError) {
+    return {
+      outcome: 'failed',
+      reason: 'invalid_output',
+      message: 'The AI returned an incomplete solution. Your credit has been refunded, please try again.',
+      retryable: true,
+    };
+  }
+
+  return {
+    outcome: 'failed',
+    reason: 'ai_error',
+    message: `Failed to process with AI: ${error instanceof Error ? error.message : 'Unknown error'}. Your credit has been refunded.`,
+    retryable: true,
+  };
+}
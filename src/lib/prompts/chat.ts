@@ -0,0 +1,99 @@
+// Builds the tutor system prompt for /api/chat/mistral from the question context and conversation
+import { renderPrompt, type PromptVariables, type RenderedPrompt } from './registry';
+
+// The tutor templates the chat route renders; which one is picked from the chat mode (see lib/chat-session)
+export type ChatPromptName =
+  | 'questionChat'
+  | 'questionChatWithHistory'
+  | 'tutorHintOnly'
+  | 'tutorCodeReview'
+  | 'tutorFullExplanation';
+
+export interface ChatPromptContext {
+  title?: string;
+  question?: string;
+  hint?: string[];
+  solution?: string;
+  // Rolling summary of turns no longer sent verbatim (see lib/chat-memory)
+  summary?: string;
+  // The student's weak spots across questions (see lib/weakness-model)
+  weaknesses?: string;
+}
+
+// Variables every chat template draws from; each template declares its own subset
+interface ChatVariables {
+  title: string;
+  question: string;
+  hint: string;
+  solution: string;
+  history: string;
+  summary: string;
+  weaknesses: string;
+  query: string;
+}
+
+function formatHints(hints: string[] | undefined): string {
+  if (!Array.isArray(hints) || hints.length === 0) return 'No hints available';
+  return hints.map((hint, index) => `Hint ${index + 1}: ${hint}`).join('\n');
+}
+
+// Question fields, the conversation history and the latest user message
+function chatVariables(
+  context: ChatPromptContext | undefined,
+  messages: { role: string; content: string }[]
+): ChatVariables {
+  const conversation = messages.filter(m => m.role === 'user' || m.role === 'assistant');
+  const lastUserIndex = conversation.map(m => m.role).lastIndexOf('user');
+  const history = conversation
+    .slice(0, lastUserIndex === -1 ? conversation.length : lastUserIndex)
+    .map(m => `${m.role === 'user' ? 'Q' : 'A'}: ${m.content}`)
+    .join('\n\n');
+
+  return {
+    title: context?.title || 'Untitled problem',
+    question: context?.question || 'No problem statement provided',
+    hint: formatHints(context?.hint),
+    solution: context?.solution || 'No solution available',
+    history: history || 'No previous messages',
+    summary: context?.summary || 'Nothing earlier than the recent messages',
+    weaknesses: context?.weaknesses || 'None recorded yet',
+    query: lastUserIndex === -1 ? '' : conversation[lastUserIndex].content,
+  };
+}
+
+/**
+ * Render a tutor template. Each case passes ChatVariables to a concrete
+ * template, so a template declaring a variable ChatVariables lacks fails to compile.
+ */
+export function buildChatSystemPrompt(
+  name: ChatPromptName,
+  context: ChatPromptContext | undefined,
+  messages: { role: string; content: string }[]
+): RenderedPrompt {
+  const variables = chatVariables(context, messages);
+  switch (name) {
+    case 'questionChat':
+      return renderPrompt('questionChat', variables);
+    case 'questionChatWithHistory':
+      return renderPrompt('questionChatWithHistory', variables);
+    case 'tutorHintOnly':
+      return renderPrompt('tutorHintOnly', variables);
+    case 'tutorCodeReview':
+      return renderPrompt('tutorCodeReview', variables);
+    case 'tutorFullExplanation':
+      return renderPrompt('tutorFullExplanation', variables);
+  }
+}
+
+/**
+ * Render the collaborator code review prompt. `history` lists the earlier
+ * attempts instead of chat turns, and `tests` the question's test cases.
+ */
+export function buildCodeAnalysisPrompt(
+  context: ChatPromptContext | undefined,
+  messages: { role: string; content: string }[],
+  extra: { history: string; tests: string }
+): RenderedPrompt {
+  const variables: PromptVariables<'codeAnalysis'> = { ...chatVariables(context, messages), ...extra };
+  return renderPrompt('codeAnalysis', variables);
+}
@@ -0,0 +1,78 @@
+/**
+ * Prompt Registry
+ *
+ * Server-side lookup and rendering for the named prompt templates in
+ * ./templates. Each template declares its variables, so rendering is
+ * type-checked at compile time and a missing or empty variable throws instead
+ * of leaving a "{{placeholder}}" in the prompt. Store `rendered.version`
+ * (e.g. "questionChat@v2") with any AI output produced from the prompt.
+ */
+import { PROMPT_TEMPLATES } from './templates';
+import { PromptError, type PromptTemplate } from './types';
+
+export { PromptError, type PromptErrorKind, type PromptTemplate } from './types';
+
+export type PromptName = keyof typeof PROMPT_TEMPLATES;
+
+export type PromptVariableName<N extends PromptName> = (typeof PROMPT_TEMPLATES)[N]['variables'][number];
+
+export type PromptVariables<N extends PromptName> = Record<PromptVariableName<N>, string>;
+
+export interface RenderedPrompt {
+  name: PromptName;
+  // "<name>@v<version>", recorded alongside stored AI output
+  version: string;
+  text: string;
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+// Placeholders and declared variables must match exactly; checked once at startup
+function checkTemplate(name: string, prompt: PromptTemplate) {
+  const used = new Set(Array.from(prompt.template.matchAll(PLACEHOLDER), match => match[1]));
+  const declared = new Set(prompt.variables);
+
+  for (const variable of Array.from(used)) {
+    if (!declared.has(variable)) {
+      throw new PromptError('undeclared_variable', `Prompt "${name}" uses {{${variable}}} but does not declare it`);
+    }
+  }
+  for (const variable of Array.from(declared)) {
+    if (!used.has(variable)) {
+      throw new PromptError('undeclared_variable', `Prompt "${name}" declares "${variable}" but never uses it`);
+    }
+  }
+}
+
+for (const [name, prompt] of Object.entries(PROMPT_TEMPLATES)) {
+  checkTemplate(name, prompt);
+}
+
+export function isPromptName(name: unknown): name is PromptName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(PROMPT_TEMPLATES, name);
+}
+
+export function promptVersion(name: PromptName): string {
+  return `${name}@v${PROMPT_TEMPLATES[name].version}`;
+}
+
+/**
+ * Render a template. Every declared variable must be a non-empty string;
+ * callers pass an explicit placeholder such as "No hints available" instead.
+ */
+export function renderPrompt<N extends PromptName>(name: N, variables: PromptVariables<N>): RenderedPrompt {
+  if (!isPromptName(name)) {
+    throw new PromptError('unknown_template', `Unknown prompt template "${String(name)}"`);
+  }
+
+  const prompt: PromptTemplate = PROMPT_TEMPLATES[name];
+  const values = variables as Record<string, unknown>;
+  const missing = prompt.variables.filter(variable => typeof values[variable] !== 'string' || !(values[variable] as string).trim());
+  if (missing.length > 0) {
+    throw new PromptError('missing_variable', `Prompt "${name}" is missing variables: ${missing.join(', ')}`);
+  }
+
+  // Single pass, so placeholder-like text inside a value is never substituted again
+  const text = prompt.template.replace(PLACEHOLDER, (_match, variable: string) => values[variable] as string);
+  return { name, version: promptVersion(name), text };
+}
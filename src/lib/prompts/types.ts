@@ -0,0 +1,24 @@
+export interface PromptTemplate<V extends readonly string[] = readonly string[]> {
+  // Bump whenever the wording changes in a way that affects output
+  version: number;
+  description: string;
+  variables: V;
+  template: string;
+}
+
+export type PromptErrorKind = 'unknown_template' | 'missing_variable' | 'undeclared_variable';
+
+export class PromptError extends Error {
+  kind: PromptErrorKind;
+
+  constructor(kind: PromptErrorKind, message: string) {
+    super(message);
+    this.name = 'PromptError';
+    this.kind = kind;
+  }
+}
+
+// Keeps the variable names as a literal tuple so renderPrompt can type-check them
+export function definePrompt<const V extends readonly string[]>(prompt: PromptTemplate<V>): PromptTemplate<V> {
+  return prompt;
+}
@@ -0,0 +1,207 @@
+/**
+ * Question Bundles
+ *
+ * The format-independent model behind bulk export and import: questions_user
+ * rows become BundleQuestions (statement, hints, solution, chat and
+ * collaborator attempts, without ids or derived columns) and back. Everything
+ * read from a file goes through toBundleQuestion, which rejects what cannot be
+ * stored and normalizes the rest.
+ */
+import { toAttempts, type StoredAttempts } from '@/lib/attempt-history';
+import { parseCodeReview } from '@/lib/code-review';
+import { normalizeSolution, serializeSolution } from '@/lib/solution-schema';
+import type { ProblemDifficulty, ProblemPlatform } from '@/lib/problem-import/types';
+import { BundleError, type BundleAttempt, type BundleMessage, type BundleQuestion } from './types';
+
+export const MAX_BUNDLE_QUESTIONS = 500;
+const MAX_TITLE_LENGTH = 200;
+const MAX_QUESTION_LENGTH = 100_000;
+const MAX_TAGS = 20;
+
+const DIFFICULTIES: ProblemDifficulty[] = ['Easy', 'Medium', 'Hard'];
+const PLATFORMS: ProblemPlatform[] = ['leetcode', 'codeforces', 'atcoder'];
+
+// Columns read for export
+export const BUNDLE_COLUMNS = 'id, title, question, hint, solution, chat, tdiff, difficulty, tags, source_platform, source_id, created_at';
+
+export interface BundleSourceRow {
+  id: string;
+  title: string;
+  question: string;
+  hint: string[] | null;
+  solution: unknown;
+  chat: unknown;
+  tdiff: StoredAttempts | null;
+  difficulty: string | null;
+  tags: string[] | null;
+  source_platform: string | null;
+  source_id: string | null;
+  created_at: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBlank = (value: unknown) => value === null || value === undefined || (typeof value === 'string' && !value.trim());
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function toDate(value: unknown, field: string): string | null {
+  if (isBlank(value)) return null;
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) throw new BundleError(`${field} is not a valid date`);
+  return date.toISOString();
+}
+
+function toDifficulty(value: unknown): ProblemDifficulty | null {
+  if (isBlank(value)) return null;
+  const difficulty = DIFFICULTIES.find(item => typeof value === 'string' && item.toLowerCase() === value.trim().toLowerCase());
+  if (!difficulty) throw new BundleError('difficulty must be Easy, Medium or Hard');
+  return difficulty;
+}
+
+function toStringList(value: unknown, field: string): string[] {
+  if (isBlank(value)) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) throw new BundleError(`${field} must be a list of strings`);
+  return (value as string[]).map(item => item.trim()).filter(Boolean);
+}
+
+function toSource(value: unknown): BundleQuestion['source'] {
+  if (isBlank(value)) return null;
+  if (!isObject(value) || !PLATFORMS.includes(value.platform as ProblemPlatform) || typeof value.id !== 'string' || !value.id.trim()) {
+    throw new BundleError('source must have a platform (leetcode, codeforces or atcoder) and an id');
+  }
+  return { platform: value.platform as ProblemPlatform, id: value.id.trim() };
+}
+
+function toMessage(value: unknown): BundleMessage {
+  if (!isObject(value) || (value.role !== 'user' && value.role !== 'assistant') || typeof value.content !== 'string') {
+    throw new BundleError('chat messages need a role (user or assistant) and content');
+  }
+  const message: BundleMessage = { role: value.role, content: value.content };
+  const mode = optionalString(value.mode);
+  const promptVersion = optionalString(value.promptVersion);
+  if (mode) message.mode = mode;
+  if (promptVersion) message.promptVersion = promptVersion;
+  return message;
+}
+
+function toAttempt(value: unknown): BundleAttempt {
+  if (!isObject(value) || typeof value.code !== 'string') throw new BundleError('attempts need their code');
+  const attempt: BundleAttempt = {
+    code: value.code,
+    // Goes through the review parser so line ranges stay within the code
+    review: isObject(value.review) ? parseCodeReview(JSON.stringify(value.review), value.code.split('\n').length) : null,
+    createdAt: toDate(value.createdAt, 'attempt createdAt'),
+  };
+  const promptVersion = optionalString(value.promptVersion);
+  if (promptVersion) attempt.promptVersion = promptVersion;
+  return attempt;
+}
+
+function toList<T>(value: unknown, field: string, item: (value: unknown) => T): T[] {
+  if (isBlank(value)) return [];
+  if (!Array.isArray(value)) throw new BundleError(`${field} must be a list`);
+  return value.map(item);
+}
+
+/**
+ * Validate one question read from an import file. Throws BundleError naming
+ * the offending field.
+ */
+export function toBundleQuestion(value: unknown): BundleQuestion {
+  if (!isObject(value)) throw new BundleError('expected a question object');
+
+  const title = typeof value.title === 'string' ? value.title.trim() : '';
+  if (!title) throw new BundleError('title is required');
+  if (title.length > MAX_TITLE_LENGTH) throw new BundleError(`title is longer than ${MAX_TITLE_LENGTH} characters`);
+  const question = typeof value.question === 'string' ? value.question.trim() : '';
+  if (!question) throw new BundleError('question is required');
+  if (question.length > MAX_QUESTION_LENGTH) throw new BundleError(`question is longer than ${MAX_QUESTION_LENGTH} characters`);
+
+  const tags = Array.from(new Set(toStringList(value.tags, 'tags')));
+  if (tags.length > MAX_TAGS) throw new BundleError(`at most ${MAX_TAGS} tags are allowed`);
+
+  const solution = isBlank(value.solution) ? null : normalizeSolution(value.solution);
+  if (!isBlank(value.solution) && !solution) throw new BundleError('solution is not in a recognized format');
+
+  return {
+    title,
+    question,
+    difficulty: toDifficulty(value.difficulty),
+    tags,
+    source: toSource(value.source),
+    hints: toStringList(value.hints, 'hints'),
+    solution,
+    chat: toList(value.chat, 'chat', toMessage),
+    attempts: toList(value.attempts, 'attempts', toAttempt),
+    createdAt: toDate(value.createdAt, 'createdAt'),
+  };
+}
+
+// A stored question as it is exported
+export function bundleQuestionFromRow(row: BundleSourceRow): BundleQuestion {
+  const platform = PLATFORMS.find(item => item === row.source_platform);
+  return {
+    title: row.title,
+    question: row.question,
+    difficulty: DIFFICULTIES.find(item => item === row.difficulty) ?? null,
+    tags: row.tags ?? [],
+    source: platform && row.source_id ? { platform, id: row.source_id } : null,
+    hints: Array.isArray(row.hint) ? row.hint : [],
+    solution: normalizeSolution(row.solution),
+    chat: (Array.isArray(row.chat) ? row.chat : [])
+      .filter(message => isObject(message) && (message.role === 'user' || message.role === 'assistant') && typeof message.content === 'string')
+      .map(toMessage),
+    attempts: toAttempts(row.tdiff).map(attempt => {
+      const exported: BundleAttempt = { code: attempt.code, review: attempt.review, createdAt: attempt.createdAt };
+      if (attempt.promptVersion) exported.promptVersion = attempt.promptVersion;
+      return exported;
+    }),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * questions_user columns for an imported question. Columns derived from the
+ * statement or solution (starter code, reference program, hint details, chat
+ * memory, test case seeding) are reset so they are rebuilt from the imported
+ * content.
+ */
+export function questionRowFields(question: BundleQuestion) {
+  const tdiff: StoredAttempts = {};
+  question.attempts.forEach((attempt, index) => {
+    tdiff[index] = {
+      usercodediff: attempt.code,
+      ...(attempt.review && { review: attempt.review }),
+      ...(attempt.promptVersion && { promptVersion: attempt.promptVersion }),
+      ...(attempt.createdAt && { createdAt: attempt.createdAt }),
+    };
+  });
+
+  return {
+    title: question.title,
+    question: question.question,
+    difficulty: question.difficulty,
+    tags: question.tags,
+    source_platform: question.source?.platform ?? null,
+    source_id: question.source?.id ?? null,
+    hint: question.hints,
+    solution: question.solution ? serializeSolution(question.solution) : '',
+    chat: question.chat,
+    chat_memory: null,
+    collaborator_chat: question.attempts.map(attempt => attempt.code),
+    tdiff,
+    hint_details: null,
+    starter_code: null,
+    benchmark_generator: null,
+    reference_program: null,
+    reference_verification: null,
+    // Examples are seeded again from the imported statement
+    test_cases_seeded_at: null,
+    // Imported solutions are ready to use; questions without one can be processed later
+    processing_status: question.solution ? 'success' : null,
+  };
+}
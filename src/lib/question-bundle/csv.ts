@@ -0,0 +1,146 @@
+/**
+ * CSV Bundles
+ *
+ * One question per row, for spreadsheets. Plain columns hold text; hints,
+ * solution, chat and attempts are JSON so they survive the round trip, though
+ * hand-written sheets may also list hints one per line and give a plain-text
+ * solution. Only title and question are required columns.
+ */
+import { toBundleQuestion } from './bundle';
+import { BundleError, type BundleQuestion, type ParsedBundle } from './types';
+
+const COLUMNS = [
+  'title', 'question', 'difficulty', 'tags', 'source_platform', 'source_id',
+  'hints', 'solution', 'chat', 'attempts', 'created_at',
+] as const;
+
+function escapeCell(value: string): string {
+  // Leading =, +, - or @ would be run as a formula by spreadsheet apps
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) || safe !== value ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function bundleToCsv(questions: BundleQuestion[]): string {
+  const rows = questions.map(question => {
+    const cells: Record<typeof COLUMNS[number], string> = {
+      title: question.title,
+      question: question.question,
+      difficulty: question.difficulty ?? '',
+      tags: question.tags.join('; '),
+      source_platform: question.source?.platform ?? '',
+      source_id: question.source?.id ?? '',
+      hints: question.hints.length > 0 ? JSON.stringify(question.hints) : '',
+      solution: question.solution ? JSON.stringify(question.solution) : '',
+      chat: question.chat.length > 0 ? JSON.stringify(question.chat) : '',
+      attempts: question.attempts.length > 0 ? JSON.stringify(question.attempts) : '',
+      created_at: question.createdAt ?? '',
+    };
+    return COLUMNS.map(column => escapeCell(cells[column])).join(',');
+  });
+  return [COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// RFC 4180 records; quoted cells may span lines
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+  return records;
+}
+
+// Undo the formula guard added on export
+function unescapeCell(value: string): string {
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+}
+
+function jsonCell(value: string, column: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new BundleError(`${column} is not valid JSON`);
+  }
+}
+
+function hintsCell(value: string): unknown {
+  if (value.trim().startsWith('[')) return jsonCell(value, 'hints');
+  return value.split(/\r?\n/);
+}
+
+function solutionCell(value: string): unknown {
+  // JSON objects are structured solutions; anything else is a plain-text explanation
+  return value.trim().startsWith('{') ? jsonCell(value, 'solution') : value;
+}
+
+export function parseCsvBundle(text: string): ParsedBundle {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new BundleError('The CSV file is empty.');
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  for (const required of ['title', 'question']) {
+    if (!columns.includes(required)) throw new BundleError(`The CSV file has no "${required}" column.`);
+  }
+
+  const result: ParsedBundle = { rows: [], errors: [] };
+  records.forEach((record, index) => {
+    if (record.every(value => !value.trim())) return;
+    // Row numbers as a spreadsheet shows them, counting the header
+    const row = `row ${index + 2}`;
+    const cell = (name: typeof COLUMNS[number]) => {
+      const position = columns.indexOf(name);
+      return position === -1 ? '' : unescapeCell(record[position] ?? '');
+    };
+    try {
+      const platform = cell('source_platform').trim();
+      result.rows.push({
+        row,
+        question: toBundleQuestion({
+          title: cell('title'),
+          question: cell('question'),
+          difficulty: cell('difficulty'),
+          tags: cell('tags').split(/[;,]/),
+          source: platform ? { platform: platform.toLowerCase(), id: cell('source_id') } : null,
+          hints: hintsCell(cell('hints')),
+          solution: solutionCell(cell('solution')),
+          chat: cell('chat').trim() ? jsonCell(cell('chat'), 'chat') : null,
+          attempts: cell('attempts').trim() ? jsonCell(cell('attempts'), 'attempts') : null,
+          createdAt: cell('created_at'),
+        }),
+      });
+    } catch (err) {
+      result.errors.push({ row, message: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  return result;
+}
@@ -0,0 +1,100 @@
+/**
+ * Bundle Files
+ *
+ * Writing a bundle in one of the export formats, and reading import files
+ * back by their extension: .json bundles, .csv sheets, and Markdown folders as
+ * a .zip or loose .md files. Rows that cannot be read are reported, not fatal.
+ */
+import { MAX_BUNDLE_QUESTIONS, toBundleQuestion } from './bundle';
+import { bundleToCsv, parseCsvBundle } from './csv';
+import { bundleToMarkdownZip, parseMarkdownFiles } from './markdown';
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  BundleError,
+  type BundleFileFormat,
+  type BundleQuestion,
+  type ParsedBundle,
+  type QuestionBundle,
+} from './types';
+
+export interface BundleFile {
+  fileName: string;
+  contentType: string;
+  body: string | Uint8Array;
+}
+
+export function serializeBundle(questions: BundleQuestion[], format: BundleFileFormat, exportedAt = new Date()): BundleFile {
+  const stamp = exportedAt.toISOString();
+  const base = `coderduo-questions-${stamp.slice(0, 10)}`;
+  switch (format) {
+    case 'json': {
+      const bundle: QuestionBundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: stamp, questions };
+      return { fileName: `${base}.json`, contentType: 'application/json', body: JSON.stringify(bundle, null, 2) };
+    }
+    case 'csv':
+      // The byte order mark makes Excel read the file as UTF-8
+      return { fileName: `${base}.csv`, contentType: 'text/csv; charset=utf-8', body: `\uFEFF${bundleToCsv(questions)}` };
+    case 'markdown':
+      return { fileName: `${base}.zip`, contentType: 'application/zip', body: bundleToMarkdownZip(questions, base, stamp) };
+  }
+}
+
+export function parseJsonBundle(text: string): ParsedBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new BundleError('The file is not valid JSON.');
+  }
+
+  let questions: unknown;
+  if (Array.isArray(data)) {
+    questions = data;
+  } else if (data && typeof data === 'object' && (data as QuestionBundle).format === BUNDLE_FORMAT) {
+    const bundle = data as QuestionBundle;
+    if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+      throw new BundleError('This bundle was exported by a newer version of the app.');
+    }
+    questions = bundle.questions;
+  }
+  if (!Array.isArray(questions)) throw new BundleError('The file is not a question bundle.');
+
+  const result: ParsedBundle = { rows: [], errors: [] };
+  questions.forEach((value, index) => {
+    const row = `question ${index + 1}`;
+    try {
+      result.rows.push({ row, question: toBundleQuestion(value) });
+    } catch (err) {
+      result.errors.push({ row, message: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  return result;
+}
+
+// Read every chosen file; rows are labelled with their file once there is more than one
+export async function readBundleFiles(files: { name: string; data: Uint8Array }[]): Promise<ParsedBundle> {
+  const decoder = new TextDecoder();
+  const markdown = files.filter(file => /\.(md|zip)$/i.test(file.name));
+  const result: ParsedBundle = { rows: [], errors: [] };
+  const add = (parsed: ParsedBundle, label: string | null) => {
+    const prefix = (row: string) => (label ? `${label}, ${row}` : row);
+    result.rows.push(...parsed.rows.map(item => ({ ...item, row: prefix(item.row) })));
+    result.errors.push(...parsed.errors.map(item => ({ ...item, row: prefix(item.row) })));
+  };
+
+  const others = files.filter(file => !markdown.includes(file));
+  for (const file of others) {
+    const label = files.length > 1 ? file.name : null;
+    if (/\.json$/i.test(file.name)) add(parseJsonBundle(decoder.decode(file.data)), label);
+    else if (/\.csv$/i.test(file.name)) add(parseCsvBundle(decoder.decode(file.data)), label);
+    else throw new BundleError(`${file.name} is not a JSON, CSV, Markdown or zip file.`);
+  }
+  // Markdown rows are already labelled with their file names
+  if (markdown.length > 0) add(await parseMarkdownFiles(markdown), null);
+
+  if (result.rows.length > MAX_BUNDLE_QUESTIONS) {
+    throw new BundleError(`At most ${MAX_BUNDLE_QUESTIONS} questions can be imported at once; this has ${result.rows.length}.`);
+  }
+  return result;
+}
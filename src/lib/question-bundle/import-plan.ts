@@ -0,0 +1,110 @@
+/**
+ * Import Plan
+ *
+ * What a bulk import does with each row, decided before anything is written
+ * so a dry run reports exactly what the import would do. A row conflicts with
+ * an existing question imported from the same platform problem or, failing
+ * that, one with the same title (ignoring case). Rows repeating an earlier row
+ * of the same import are always skipped.
+ */
+import type { BundleQuestion, BundleRow } from './types';
+
+export const CONFLICT_RESOLUTIONS = ['skip', 'replace', 'keep_both'] as const;
+export type ConflictResolution = typeof CONFLICT_RESOLUTIONS[number];
+
+export interface ExistingQuestion {
+  id: string;
+  title: string;
+  source_platform: string | null;
+  source_id: string | null;
+}
+
+export interface ImportConflict {
+  id: string;
+  title: string;
+  match: 'source' | 'title';
+}
+
+export type PlannedImport =
+  | { row: string; action: 'create'; question: BundleQuestion; conflict: ImportConflict | null; message?: string }
+  | { row: string; action: 'update'; question: BundleQuestion; conflict: ImportConflict }
+  | { row: string; action: 'skip'; question: BundleQuestion; conflict: ImportConflict | null; message: string };
+
+// One row of the import report, as returned by /api/question/import
+export interface ImportRowReport {
+  row: string;
+  title: string;
+  status: 'created' | 'updated' | 'skipped' | 'failed';
+  questionId?: string;
+  message?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  summary: Record<'created' | 'updated' | 'skipped' | 'failed', number>;
+  rows: ImportRowReport[];
+}
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+const sourceKey = (platform: string, id: string) => `${platform}:${id}`;
+
+export function planImport(rows: BundleRow[], existing: ExistingQuestion[], resolution: ConflictResolution): PlannedImport[] {
+  const bySource = new Map<string, ExistingQuestion>();
+  const byTitle = new Map<string, ExistingQuestion>();
+  for (const question of existing) {
+    if (question.source_platform && question.source_id) bySource.set(sourceKey(question.source_platform, question.source_id), question);
+    if (!byTitle.has(titleKey(question.title))) byTitle.set(titleKey(question.title), question);
+  }
+
+  // Titles and sources the import will leave behind, and the rows that claimed them
+  const takenTitles = new Set(existing.map(question => titleKey(question.title)));
+  const takenSources = new Set(bySource.keys());
+  const seenSources = new Map<string, string>();
+  const seenTitles = new Map<string, string>();
+  const replaced = new Map<string, string>();
+
+  return rows.map(({ row, question }): PlannedImport => {
+    const source = question.source ? sourceKey(question.source.platform, question.source.id) : null;
+    const earlier = (source && seenSources.get(source)) ?? seenTitles.get(titleKey(question.title));
+    if (earlier) return { row, action: 'skip', question, conflict: null, message: `Same question as ${earlier}` };
+    if (source) seenSources.set(source, row);
+    seenTitles.set(titleKey(question.title), row);
+
+    const sourceMatch = source ? bySource.get(source) : undefined;
+    const titleMatch = byTitle.get(titleKey(question.title));
+    const conflict: ImportConflict | null = sourceMatch
+      ? { id: sourceMatch.id, title: sourceMatch.title, match: 'source' }
+      : titleMatch ? { id: titleMatch.id, title: titleMatch.title, match: 'title' } : null;
+
+    if (!conflict) {
+      takenTitles.add(titleKey(question.title));
+      if (source) takenSources.add(source);
+      return { row, action: 'create', question, conflict };
+    }
+
+    switch (resolution) {
+      case 'skip':
+        return { row, action: 'skip', question, conflict, message: `Already in your questions as "${conflict.title}"` };
+      case 'replace': {
+        const replacedBy = replaced.get(conflict.id);
+        if (replacedBy) return { row, action: 'skip', question, conflict, message: `"${conflict.title}" is already replaced by ${replacedBy}` };
+        replaced.set(conflict.id, row);
+        return { row, action: 'update', question, conflict };
+      }
+      case 'keep_both': {
+        let title = question.title;
+        for (let n = 2; takenTitles.has(titleKey(title)); n++) title = `${question.title} (${n})`;
+        takenTitles.add(titleKey(title));
+        // A platform problem can only be linked to one question, which keeps it
+        const keepSource = source !== null && !takenSources.has(source);
+        if (keepSource) takenSources.add(source);
+        const copy = { ...question, title, source: keepSource ? question.source : null };
+        const notes = [
+          ...(title !== question.title ? [`renamed to "${title}"`] : []),
+          ...(question.source && !keepSource ? ['imported without its source link'] : []),
+        ];
+        return { row, action: 'create', question: copy, conflict, message: notes.length > 0 ? `Kept both; ${notes.join(', ')}` : undefined };
+      }
+    }
+  });
+}
@@ -0,0 +1,267 @@
+/**
+ * Markdown Bundles
+ *
+ * A folder with one readable Markdown file per question plus an index, zipped
+ * for download. Each file starts with JSON front matter (valid YAML too) for
+ * the metadata, and every part of the question follows an HTML comment marker
+ * such as <!-- coderduo:hint -->, which renders as nothing but tells the
+ * importer where the part starts. After a marker come the heading lines
+ * written for readers, a blank line, then the content itself. Content lines
+ * that look like markers get a backslash, so any text survives the round trip.
+ */
+import { toBundleQuestion } from './bundle';
+import { createZip, readZip } from './zip';
+import { SOLUTION_LANGUAGES, type ProblemSolution, type SolutionApproach } from '@/lib/solution-schema';
+import { BUNDLE_VERSION, BundleError, type BundleQuestion, type ParsedBundle } from './types';
+
+const MARKER = /^<!-- coderduo:([a-z]+)(?: (\{.*\}))? -->$/;
+const ESCAPED_MARKER = /^(\\*)<!-- coderduo:/;
+const INDEX_FILE = 'README.md';
+
+const APPROACHES = [
+  { key: 'bruteForce', heading: 'Brute Force' },
+  { key: 'optimal', heading: 'Optimal' },
+] as const;
+
+const LANGUAGE_NAMES = { cpp: 'C++', java: 'Java', python: 'Python' } as const;
+
+type Attributes = Record<string, unknown>;
+
+interface Part {
+  kind: string;
+  attributes: Attributes;
+  content: string;
+}
+
+// JSON for inside an HTML comment: "-->" cannot appear once ">" is escaped
+function attributeJson(attributes: Attributes): string {
+  return JSON.stringify(attributes).replace(/>/g, '\\u003e');
+}
+
+function escapeContent(text: string): string {
+  return text.split('\n').map(line => line.replace(ESCAPED_MARKER, '\\$1<!-- coderduo:')).join('\n');
+}
+
+function unescapeContent(text: string): string {
+  return text.split('\n').map(line => line.replace(/^\\(\\*<!-- coderduo:)/, '$1')).join('\n');
+}
+
+function codeFence(code: string, language = ''): string {
+  const longest = Math.max(2, ...Array.from(code.matchAll(/`+/g), match => match[0].length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+// The code of the fenced block a part starts with; text after it is for readers only
+function unfence(content: string): string {
+  const lines = content.split('\n');
+  const open = lines[0]?.match(/^(`{3,})[\w+#-]*$/);
+  if (!open) return content;
+  const close = lines.findIndex((line, i) => i > 0 && line === open[1]);
+  return lines.slice(1, close === -1 ? undefined : close).join('\n');
+}
+
+function part(kind: string, headings: string[], content: string, attributes?: Attributes): string {
+  const marker = attributes ? `<!-- coderduo:${kind} ${attributeJson(attributes)} -->` : `<!-- coderduo:${kind} -->`;
+  return [marker, ...headings, '', escapeContent(content), ''].join('\n');
+}
+
+function solutionParts(solution: ProblemSolution): string[] {
+  const parts = [
+    part('explanation', ['## Solution'], solution.explanation),
+    part('concepts', ['### Concepts'], solution.theory.concepts),
+  ];
+  for (const { key, heading } of APPROACHES) {
+    const approach: SolutionApproach = solution[key];
+    const { time, space } = approach.complexity;
+    parts.push(part('approach', [`### ${heading} (time ${time || '?'}, space ${space || '?'})`], approach.approach, { name: key, time, space }));
+    for (const language of SOLUTION_LANGUAGES) {
+      if (approach.code[language]) {
+        parts.push(part('code', [`#### ${LANGUAGE_NAMES[language]}`], codeFence(approach.code[language], language), { approach: key, language }));
+      }
+    }
+  }
+  return parts;
+}
+
+export function questionToMarkdown(question: BundleQuestion): string {
+  const meta = {
+    bundleVersion: BUNDLE_VERSION,
+    title: question.title,
+    difficulty: question.difficulty,
+    tags: question.tags,
+    source: question.source,
+    createdAt: question.createdAt,
+  };
+  const parts = [part('statement', [`# ${question.title}`], question.question)];
+  question.hints.forEach((hint, i) => parts.push(part('hint', [...(i === 0 ? ['## Hints'] : []), `### Hint ${i + 1}`], hint)));
+  if (question.solution) parts.push(...solutionParts(question.solution));
+  question.chat.forEach((message, i) => {
+    const heading = `### ${message.role === 'user' ? 'You' : 'Tutor'}`;
+    const { content, ...attributes } = message;
+    parts.push(part('message', [...(i === 0 ? ['## Chat'] : []), heading], content, attributes));
+  });
+  question.attempts.forEach((attempt, i) => {
+    const { code, review, ...attributes } = attempt;
+    // The review is kept in the marker; the summary after the code is for readers
+    const summary = review ? `\n\n${review.summary || review.reason}` : '';
+    parts.push(part(
+      'attempt',
+      [...(i === 0 ? ['## Collaborator Attempts'] : []), `### Attempt ${i + 1}`],
+      codeFence(code) + summary,
+      { ...attributes, review }
+    ));
+  });
+  return `---\n${JSON.stringify(meta)}\n---\n\n${parts.join('\n')}`;
+}
+
+function parseParts(body: string): Part[] {
+  const lines = body.split(/\r?\n/);
+  const parts: Part[] = [];
+  let current: { kind: string; attributes: Attributes; lines: string[] } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    // Headings for readers run up to the first blank line
+    const blank = current.lines.indexOf('');
+    const content = blank === -1 ? '' : current.lines.slice(blank + 1).join('\n');
+    parts.push({ kind: current.kind, attributes: current.attributes, content: unescapeContent(content.replace(/^\n+|\s+$/g, '')) });
+  };
+
+  for (const line of lines) {
+    const marker = line.match(MARKER);
+    if (!marker) {
+      current?.lines.push(line);
+      continue;
+    }
+    finish();
+    let attributes: Attributes = {};
+    if (marker[2]) {
+      try {
+        attributes = JSON.parse(marker[2]);
+      } catch {
+        throw new BundleError(`The ${marker[1]} marker has malformed attributes`);
+      }
+    }
+    current = { kind: marker[1], attributes, lines: [] };
+  }
+  finish();
+  return parts;
+}
+
+function emptyApproach(): SolutionApproach {
+  return { approach: '', complexity: { time: '', space: '' }, code: { cpp: '', java: '', python: '' } };
+}
+
+export function parseMarkdownQuestion(file: string): BundleQuestion {
+  const text = file.replace(/^\uFEFF/, '');
+  const frontMatter = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  if (!frontMatter) throw new BundleError('missing front matter');
+  let meta: Attributes;
+  try {
+    meta = JSON.parse(frontMatter[1]);
+  } catch {
+    throw new BundleError('the front matter is not JSON');
+  }
+  if (typeof meta.bundleVersion !== 'number' || meta.bundleVersion > BUNDLE_VERSION) {
+    throw new BundleError('exported by a newer version of the app');
+  }
+
+  const parts = parseParts(text.slice(frontMatter[0].length));
+  const hints: string[] = [];
+  const chat: Attributes[] = [];
+  const attempts: Attributes[] = [];
+  let statement = '';
+  let solution: ProblemSolution | null = null;
+  const solutionOf = () => solution ?? (solution = {
+    explanation: '',
+    theory: { concepts: '' },
+    bruteForce: emptyApproach(),
+    optimal: emptyApproach(),
+  });
+
+  for (const { kind, attributes, content } of parts) {
+    const approach = APPROACHES.find(item => item.key === (attributes.name ?? attributes.approach))?.key;
+    switch (kind) {
+      case 'statement':
+        statement = content;
+        break;
+      case 'hint':
+        hints.push(content);
+        break;
+      case 'explanation':
+        solutionOf().explanation = content;
+        break;
+      case 'concepts':
+        solutionOf().theory.concepts = content;
+        break;
+      case 'approach':
+        if (approach) {
+          solutionOf()[approach].approach = content;
+          solutionOf()[approach].complexity = { time: String(attributes.time ?? ''), space: String(attributes.space ?? '') };
+        }
+        break;
+      case 'code': {
+        const language = SOLUTION_LANGUAGES.find(item => item === attributes.language);
+        if (approach && language) solutionOf()[approach].code[language] = unfence(content);
+        break;
+      }
+      case 'message':
+        chat.push({ ...attributes, content });
+        break;
+      case 'attempt':
+        attempts.push({ ...attributes, code: unfence(content) });
+        break;
+    }
+  }
+
+  return toBundleQuestion({ ...meta, question: statement, hints, solution, chat, attempts });
+}
+
+// File names that sort in export order and still say which problem they hold
+function fileName(question: BundleQuestion, index: number, width: number): string {
+  const slug = question.title.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'question';
+  return `${String(index + 1).padStart(width, '0')}-${slug}.md`;
+}
+
+export function bundleToMarkdownZip(questions: BundleQuestion[], folder: string, exportedAt: string): Uint8Array {
+  const encoder = new TextEncoder();
+  const width = Math.max(3, String(questions.length).length);
+  const names = questions.map((question, i) => fileName(question, i, width));
+  const index = [
+    '# CoderDuo Questions',
+    '',
+    `Exported ${exportedAt} (bundle version ${BUNDLE_VERSION}). Import this folder, zipped, from My Problems.`,
+    '',
+    ...questions.map((question, i) => `- [${question.title.replace(/([\\[\]])/g, '\\$1')}](questions/${names[i]})`),
+    '',
+  ].join('\n');
+
+  return createZip([
+    { name: `${folder}/${INDEX_FILE}`, data: encoder.encode(index) },
+    ...questions.map((question, i) => ({ name: `${folder}/questions/${names[i]}`, data: encoder.encode(questionToMarkdown(question)) })),
+  ]);
+}
+
+// Markdown files, loose or in a zip; the index and other non-question files are skipped
+export async function parseMarkdownFiles(files: { name: string; data: Uint8Array }[]): Promise<ParsedBundle> {
+  const decoder = new TextDecoder();
+  const markdown: { name: string; data: Uint8Array }[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) markdown.push(...(await readZip(file.data)));
+    else markdown.push(file);
+  }
+
+  const result: ParsedBundle = { rows: [], errors: [] };
+  for (const file of markdown) {
+    const base = file.name.split('/').pop() ?? file.name;
+    if (!/\.md$/i.test(base) || base === INDEX_FILE || base.startsWith('.')) continue;
+    try {
+      result.rows.push({ row: base, question: parseMarkdownQuestion(decoder.decode(file.data)) });
+    } catch (err) {
+      result.errors.push({ row: base, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  if (result.rows.length === 0 && result.errors.length === 0) throw new BundleError('No question files found.');
+  return result;
+}
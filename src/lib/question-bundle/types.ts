@@ -0,0 +1,68 @@
+import type { CodeReview } from '@/lib/code-review';
+import type { ProblemDifficulty, ProblemPlatform } from '@/lib/problem-import/types';
+import type { ProblemSolution } from '@/lib/solution-schema';
+
+// Identifies a JSON bundle; the version goes up whenever a field changes meaning
+export const BUNDLE_FORMAT = 'coderduo-questions';
+export const BUNDLE_VERSION = 1;
+
+export const BUNDLE_FILE_FORMATS = ['json', 'markdown', 'csv'] as const;
+export type BundleFileFormat = typeof BUNDLE_FILE_FORMATS[number];
+
+export interface BundleMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  mode?: string;
+  promptVersion?: string;
+}
+
+export interface BundleAttempt {
+  code: string;
+  review: CodeReview | null;
+  promptVersion?: string;
+  createdAt: string | null;
+}
+
+// One exported question, independent of ids and columns of the account it came from
+export interface BundleQuestion {
+  title: string;
+  question: string;
+  difficulty: ProblemDifficulty | null;
+  tags: string[];
+  source: { platform: ProblemPlatform; id: string } | null;
+  hints: string[];
+  solution: ProblemSolution | null;
+  chat: BundleMessage[];
+  attempts: BundleAttempt[];
+  createdAt: string | null;
+}
+
+export interface QuestionBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: string;
+  questions: BundleQuestion[];
+}
+
+// A question read from an import file, labelled with where it came from ("row 3", "004-two-sum.md")
+export interface BundleRow {
+  row: string;
+  question: BundleQuestion;
+}
+
+export interface BundleRowError {
+  row: string;
+  message: string;
+}
+
+export interface ParsedBundle {
+  rows: BundleRow[];
+  errors: BundleRowError[];
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Reference Program
+ *
+ * The stored optimal solution as something the sandbox can run: its code in
+ * one of the solution languages, wrapped by the model in a harness that reads a
+ * test case from stdin. Stress tests use it as the oracle for the user's code,
+ * so it is first checked against the statement's own examples; a solution that
+ * disagrees with them is flagged on the question and never used as an oracle.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateReferenceProgram } from '@/lib/gemini-api';
+import { promptVersion } from '@/lib/prompts/registry';
+import { parseQuestionText } from '@/lib/question-formatter';
+import { normalizeSolution, type SolutionLanguage } from '@/lib/solution-schema';
+import { runCode, type SandboxLanguage } from '@/lib/sandbox/runner';
+
+export interface ReferenceProgram {
+  language: SandboxLanguage;
+  // Solution language the wrapped code came from
+  sourceLanguage: SolutionLanguage;
+  code: string;
+  model?: string;
+  promptVersion?: string;
+  generatedAt: string;
+}
+
+export interface ReferenceFailure {
+  input: string;
+  expected: string;
+  actual: string;
+}
+
+export interface ReferenceVerification {
+  status: 'passed' | 'failed';
+  passed: number;
+  total: number;
+  failures: ReferenceFailure[];
+  // Compiler output when the reference program does not build
+  compileError?: string;
+  checkedAt: string;
+}
+
+export interface ReferenceQuestion {
+  id: string;
+  title: string;
+  question: string;
+  solution: unknown;
+  reference_program: ReferenceProgram | null;
+  reference_verification: ReferenceVerification | null;
+}
+
+export const REFERENCE_QUESTION_COLUMNS = 'id, title, question, solution, reference_program, reference_verification';
+
+export class ReferenceError extends Error {
+  kind: 'no_solution' | 'no_examples';
+
+  constructor(kind: ReferenceError['kind'], message: string) {
+    super(message);
+    this.name = 'ReferenceError';
+    this.kind = kind;
+  }
+}
+
+// Order in which the stored implementations are tried; Python needs no compile step
+const REFERENCE_LANGUAGES: SolutionLanguage[] = ['python', 'cpp', 'java'];
+
+const MAX_REPORTED_FAILURES = 3;
+
+/**
+ * Load the question's reference program, wrapping the stored optimal solution
+ * on first use or when the solution or prompt changed since it was generated.
+ */
+export async function getReferenceProgram(supabase: SupabaseClient, question: ReferenceQuestion): Promise<ReferenceProgram> {
+  const cached = question.reference_program;
+  if (cached?.code && cached.promptVersion === promptVersion('referenceProgram')) return cached;
+
+  const solution = normalizeSolution(question.solution);
+  const sourceLanguage = REFERENCE_LANGUAGES.find(language => solution?.optimal.code[language]?.trim());
+  if (!solution || !sourceLanguage) {
+    throw new ReferenceError('no_solution', 'This question has no stored solution code to test against');
+  }
+
+  const output = await generateReferenceProgram(
+    question.title,
+    question.question,
+    parseQuestionText(question.question).examples,
+    sourceLanguage,
+    solution.optimal.code[sourceLanguage]
+  );
+  const program: ReferenceProgram = {
+    language: sourceLanguage,
+    sourceLanguage,
+    code: output.code,
+    model: output.model,
+    promptVersion: output.promptVersion,
+    generatedAt: new Date().toISOString(),
+  };
+
+  // A new program invalidates the previous verification
+  const { error } = await supabase
+    .from('questions_user')
+    .update({ reference_program: program, reference_verification: null })
+    .eq('id', question.id);
+  if (error) console.error(`Failed to cache the reference program for question ${question.id}:`, error);
+  return program;
+}
+
+// A stored verification still describes `program`
+export function isVerificationCurrent(program: ReferenceProgram, verification: ReferenceVerification | null): boolean {
+  return !!verification && verification.checkedAt >= program.generatedAt;
+}
+
+/**
+ * Run the reference program on the statement's examples and store the result
+ * on the question, flagging solutions that disagree with their own examples.
+ */
+export async function verifyReference(
+  supabase: SupabaseClient,
+  question: Pick<ReferenceQuestion, 'id' | 'question'>,
+  program: ReferenceProgram
+): Promise<ReferenceVerification> {
+  const examples = parseQuestionText(question.question).examples;
+  if (examples.length === 0) {
+    throw new ReferenceError('no_examples', 'The statement has no examples to verify the solution against');
+  }
+
+  const run = await runCode(program.code, program.language, examples.map(e => ({ input: e.input, expected: e.output })));
+  const checkedAt = new Date().toISOString();
+  const verification: ReferenceVerification = run.compile.ok
+    ? {
+        status: run.passedCount === examples.length ? 'passed' : 'failed',
+        passed: run.passedCount,
+        total: examples.length,
+        failures: run.cases
+          .filter(result => result.status !== 'passed')
+          .slice(0, MAX_REPORTED_FAILURES)
+          .map(result => ({ input: result.input, expected: result.expected, actual: result.stdout || result.stderr })),
+        checkedAt,
+      }
+    : { status: 'failed', passed: 0, total: examples.length, failures: [], compileError: run.compile.stderr, checkedAt };
+
+  const { error } = await supabase.from('questions_user').update({ reference_verification: verification }).eq('id', question.id);
+  if (error) console.error(`Failed to store the reference verification for question ${question.id}:`, error);
+  return verification;
+}
@@ -0,0 +1,28 @@
+/**
+ * Refresh Weaknesses Job
+ *
+ * Background rebuild of a user's weakness model, queued after each analyzed
+ * collaborator attempt. Classifies up to a batch of questions with new
+ * attempts (see lib/weakness-model) and queues another run for the rest. A run
+ * that classified nothing does not queue one, so questions that keep failing
+ * wait for the next attempt or manual refresh instead of looping.
+ */
+import { enqueueJob, type JobHandler } from '@/lib/jobs';
+import { refreshUserWeaknesses } from '@/lib/weakness-model';
+
+export const refreshWeaknessesJob: JobHandler = async (admin, job) => {
+  const result = await refreshUserWeaknesses(admin, job.user_id);
+  console.log(`Weakness model refreshed for user ${job.user_id}: ${result.analyzed} analyzed, ${result.pending} pending`);
+
+  if (result.pending > 0 && result.analyzed > 0) {
+    try {
+      await enqueueJob(admin, { userId: job.user_id, type: 'refresh_weaknesses' });
+    } catch (enqueueError) {
+      console.error(`Failed to queue the next weakness refresh for user ${job.user_id}:`, enqueueError);
+    }
+  }
+  return {
+    status: 'succeeded',
+    result: { analyzed: result.analyzed, pending: result.pending, weakSpots: result.weakSpots.length },
+  };
+};
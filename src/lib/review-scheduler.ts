@@ -0,0 +1,122 @@
+/**
+ * Review Scheduler
+ *
+ * SM-2 style spaced repetition for solved problems. Each review records a
+ * self-rated recall, which updates the ease factor and pushes the next due date out.
+ */
+
+export type RecallRating = 'again' | 'hard' | 'good' | 'easy';
+
+export const RECALL_RATINGS: RecallRating[] = ['again', 'hard', 'good', 'easy'];
+
+// SM-2 quality score (0-5) for each rating; anything below 3 counts as a lapse
+const RATING_QUALITY: Record<RecallRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewState {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+}
+
+// Help used on the attempt being rated (see lib/hint-unlocks)
+export interface ReviewAssistance {
+  hintsUsed: number;
+  totalHints: number;
+  solutionViewed: boolean;
+}
+
+export function ratingQuality(rating: RecallRating): number {
+  return RATING_QUALITY[rating];
+}
+
+export function isRecallRating(value: unknown): value is RecallRating {
+  return typeof value === 'string' && (RECALL_RATINGS as string[]).includes(value);
+}
+
+/**
+ * Cap a self-rating by the help the attempt needed: after viewing the solution
+ * it counts as "hard" at best, after any hint as "good" at best.
+ */
+export function capRatingForAssistance(rating: RecallRating, assistance: ReviewAssistance): RecallRating {
+  const cap: RecallRating | null = assistance.solutionViewed ? 'hard' : assistance.hintsUsed > 0 ? 'good' : null;
+  if (!cap) return rating;
+  return RATING_QUALITY[rating] > RATING_QUALITY[cap] ? cap : rating;
+}
+
+/**
+ * e.g. "Solved with 0 hints", "Solved with 2 of 3 hints", "Solved after viewing the solution"
+ */
+export function describeAssistance(assistance: ReviewAssistance): string {
+  if (assistance.solutionViewed) return 'Solved after viewing the solution';
+  if (assistance.hintsUsed === 0) return 'Solved with 0 hints';
+  return `Solved with ${assistance.hintsUsed} of ${assistance.totalHints} hint${assistance.totalHints === 1 ? '' : 's'}`;
+}
+
+/**
+ * Compute the state after a review.
+ * @param previous The current state, or null for a problem that has never been reviewed
+ * @param rating The user's self-rated recall
+ * @param now Review time, injectable for predictable scheduling
+ */
+export function scheduleReview(previous: ReviewState | null, rating: RecallRating, now: Date = new Date()): ReviewState {
+  const quality = RATING_QUALITY[rating];
+  const easeFactor = previous?.ease_factor ?? DEFAULT_EASE_FACTOR;
+  const repetitions = previous?.repetitions ?? 0;
+  const intervalDays = previous?.interval_days ?? 0;
+  const lapses = previous?.lapses ?? 0;
+
+  // Standard SM-2 ease update, clamped so hard problems still come back eventually
+  const nextEase = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let nextRepetitions: number;
+  let nextInterval: number;
+
+  if (quality < 3) {
+    // Forgotten: start the sequence again and review tomorrow
+    nextRepetitions = 0;
+    nextInterval = 1;
+  } else {
+    nextRepetitions = repetitions + 1;
+    if (nextRepetitions === 1) nextInterval = 1;
+    else if (nextRepetitions === 2) nextInterval = 6;
+    else nextInterval = Math.round(intervalDays * nextEase);
+
+    // "Hard" grows the interval more slowly, "easy" a little faster
+    if (rating === 'hard') nextInterval = Math.max(1, Math.round(nextInterval * 0.8));
+    if (rating === 'easy') nextInterval = Math.round(nextInterval * 1.3);
+  }
+
+  return {
+    ease_factor: Number(nextEase.toFixed(2)),
+    interval_days: nextInterval,
+    repetitions: nextRepetitions,
+    lapses: quality < 3 ? lapses + 1 : lapses,
+    due_at: new Date(now.getTime() + nextInterval * DAY_MS).toISOString(),
+    last_reviewed_at: now.toISOString(),
+  };
+}
+
+/**
+ * Human-friendly description of when a review is due, e.g. "Overdue by 2 days" or "Due in 3 days"
+ */
+export function describeDue(dueAt: string, now: Date = new Date()): string {
+  const diffDays = Math.round((new Date(dueAt).getTime() - now.getTime()) / DAY_MS);
+  if (diffDays < 0) return `Overdue by ${-diffDays} day${diffDays === -1 ? '' : 's'}`;
+  if (diffDays === 0) return 'Due today';
+  return `Due in ${diffDays} day${diffDays === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,84 @@
+// Confines sandboxed processes with bubblewrap (bwrap). Each run gets its own user,
+// pid, network, ipc and mount namespaces: it sees only the read-only system paths the
+// toolchains need plus its working directory, runs as an unprivileged uid, has no
+// network, and cannot see the server's processes (or their /proc/<pid>/environ).
+//
+// SANDBOX_READONLY_PATHS adds colon-separated paths for toolchains installed outside
+// /usr, e.g. a Node or JDK under /opt. SANDBOX_ISOLATION=none runs code directly on
+// the host; it is meant for local development only and must not be used in production.
+import { execFile } from 'child_process';
+import { readdirSync } from 'fs';
+
+// Where the working directory appears inside the sandbox
+export const SANDBOX_DIR = '/sandbox';
+// nobody/nogroup inside the sandbox's user namespace
+const SANDBOX_UID = 65534;
+
+const SYSTEM_PATHS = [
+  '/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64',
+  '/etc/alternatives', '/etc/ld.so.cache', '/etc/ld.so.conf', '/etc/ld.so.conf.d',
+];
+
+export function isIsolated(): boolean {
+  return process.env.SANDBOX_ISOLATION !== 'none';
+}
+
+// JDK packages keep their configuration under /etc/java-<version>-openjdk
+function javaConfigPaths(): string[] {
+  try {
+    return readdirSync('/etc').filter(name => name.startsWith('java-')).map(name => `/etc/${name}`);
+  } catch {
+    return [];
+  }
+}
+
+function readonlyPaths(): string[] {
+  const extra = (process.env.SANDBOX_READONLY_PATHS || '').split(':').filter(item => item.startsWith('/'));
+  return Array.from(new Set([...SYSTEM_PATHS, ...javaConfigPaths(), ...extra]));
+}
+
+/**
+ * bwrap arguments that run `script` under sh inside a fresh sandbox with `workDir`
+ * mounted read-write at SANDBOX_DIR. The sandbox dies with its bwrap parent, so
+ * killing the spawned process group also ends anything that called setsid.
+ */
+export function isolatedCommand(workDir: string, script: string): { command: string; args: string[] } {
+  const args = [
+    '--unshare-all',
+    '--unshare-user',
+    '--die-with-parent',
+    '--new-session',
+    '--uid', String(SANDBOX_UID),
+    '--gid', String(SANDBOX_UID),
+    '--hostname', 'sandbox',
+    ...readonlyPaths().flatMap(item => ['--ro-bind-try', item, item]),
+    '--bind', workDir, SANDBOX_DIR,
+    '--chdir', SANDBOX_DIR,
+    '--dev', '/dev',
+    '--proc', '/proc',
+    '--tmpfs', '/tmp',
+    '--',
+    'sh', '-c', script,
+  ];
+  return { command: 'bwrap', args };
+}
+
+let available: Promise<boolean> | null = null;
+
+// Whether bwrap is installed and can create namespaces here; checked once per server instance
+export function isolationAvailable(): Promise<boolean> {
+  if (!isIsolated()) return Promise.resolve(true);
+  if (!available) {
+    available = new Promise(resolve => {
+      execFile('bwrap', ['--unshare-all', '--unshare-user', '--die-with-parent', '--ro-bind', '/', '/', 'true'], { timeout: 5000 }, error => {
+        if (error) {
+          console.error('Code sandbox isolation is unavailable:', error.message);
+          // Check again next time, in case it was a transient failure
+          available = null;
+        }
+        resolve(!error);
+      });
+    });
+  }
+  return available;
+}
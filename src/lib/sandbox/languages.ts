@@ -0,0 +1,75 @@
+// Per-language build and run recipes for the sandbox
+import { SandboxLanguage } from './types';
+
+interface Command {
+  command: string;
+  args: string[];
+}
+
+export interface LanguageRecipe {
+  // File the user's code is written to inside the working directory
+  sourceFile: string;
+  // Native compile step, run once before the test cases
+  compile?: Command;
+  // In-process source transform (TypeScript -> JavaScript), run instead of a native compile
+  transpile?: (source: string) => Promise<{ file: string; code: string }>;
+  run: Command;
+  // ulimit -v in KB; JVM and V8 reserve large address spaces so they use their own heap flags instead
+  memoryKb?: number;
+}
+
+const HEAP_MB = 256;
+
+async function transpileTypeScript(source: string) {
+  let ts: typeof import('typescript');
+  try {
+    ts = await import('typescript');
+  } catch {
+    throw new Error('TypeScript compiler is not available on this server');
+  }
+
+  const output = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+    reportDiagnostics: true,
+  });
+
+  const errors = (output.diagnostics || []).filter(d => d.category === ts.DiagnosticCategory.Error);
+  if (errors.length > 0) {
+    throw new Error(errors.map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n')).join('\n'));
+  }
+
+  return { file: 'main.js', code: output.outputText };
+}
+
+export const LANGUAGE_RECIPES: Record<SandboxLanguage, LanguageRecipe> = {
+  python: {
+    sourceFile: 'main.py',
+    run: { command: 'python3', args: ['-u', 'main.py'] },
+    memoryKb: HEAP_MB * 1024,
+  },
+  javascript: {
+    sourceFile: 'main.js',
+    run: { command: 'node', args: [`--max-old-space-size=${HEAP_MB}`, 'main.js'] },
+  },
+  typescript: {
+    sourceFile: 'main.ts',
+    transpile: transpileTypeScript,
+    run: { command: 'node', args: [`--max-old-space-size=${HEAP_MB}`, 'main.js'] },
+  },
+  cpp: {
+    sourceFile: 'main.cpp',
+    compile: { command: 'g++', args: ['-std=c++17', '-O2', '-o', 'main', 'main.cpp'] },
+    run: { command: './main', args: [] },
+    memoryKb: HEAP_MB * 1024,
+  },
+  java: {
+    // The public class must be named Main
+    sourceFile: 'Main.java',
+    compile: { command: 'javac', args: ['-J-Xmx512m', 'Main.java'] },
+    run: { command: 'java', args: [`-Xmx${HEAP_MB}m`, '-Xss64m', '-cp', '.', 'Main'] },
+  },
+};
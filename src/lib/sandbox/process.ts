@@ -0,0 +1,137 @@
+// Spawns a single resource-limited child process and collects its output
+import { spawn } from 'child_process';
+import { constants } from 'os';
+import { isIsolated, isolatedCommand, SANDBOX_DIR } from './isolation';
+import { ProcessLimits } from './types';
+
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  truncated: boolean;
+  // Set when the executable itself could not be started (e.g. toolchain missing)
+  spawnError?: string;
+  timeMs: number;
+}
+
+// Processes and threads the sandbox may have at once; the JVM alone starts a few dozen
+// threads. Inside the sandbox's user namespace only its own processes count toward this.
+const MAX_PROCESSES = 128;
+
+const SIGNAL_EXIT_CODES: Record<number, NodeJS.Signals> = { [constants.signals.SIGKILL]: 'SIGKILL', [constants.signals.SIGXCPU]: 'SIGXCPU' };
+
+// Quote an argument for sh -c
+const shellQuote = (arg: string) => `'${arg.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Run `command args...` under `sh -c` with ulimits applied, feeding `input` on stdin.
+ * The shell runs inside the bubblewrap sandbox (see isolation.ts) with `cwd` as its
+ * working directory. The child gets its own process group and the sandbox dies with
+ * it, so a timeout kills anything it forked too.
+ */
+export function runProcess(
+  command: string,
+  args: string[],
+  options: { cwd: string; input?: string; limits: ProcessLimits }
+): Promise<ProcessResult> {
+  const { cwd, input = '', limits } = options;
+  const isolated = isIsolated();
+
+  const ulimits = [
+    `ulimit -t ${limits.cpuSeconds}`,
+    // Cap files the program may write at 1 MB
+    'ulimit -f 2048',
+    limits.memoryKb ? `ulimit -v ${limits.memoryKb}` : '',
+    // Outside the sandbox this would count every process of the server's user
+    isolated ? `ulimit -u ${MAX_PROCESSES}` : '',
+  ].filter(Boolean).join('; ');
+  // exit 127 from sh means the command was not found
+  const script = `${ulimits}; exec ${[command, ...args].map(shellQuote).join(' ')}`;
+  const sandboxed = isolated ? isolatedCommand(cwd, script) : { command: 'sh', args: ['-c', script] };
+
+  return new Promise(resolve => {
+    const startedAt = Date.now();
+    let stdout = '';
+    let stderr = '';
+    let truncated = false;
+    let timedOut = false;
+    let settled = false;
+
+    // Keep the environment minimal so server secrets never reach user code
+    const env: NodeJS.ProcessEnv = {
+      NODE_ENV: process.env.NODE_ENV,
+      PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+      HOME: isolated ? SANDBOX_DIR : cwd,
+      LANG: 'C.UTF-8',
+    };
+
+    const child = spawn(sandboxed.command, sandboxed.args, {
+      cwd,
+      detached: true,
+      env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    const killGroup = () => {
+      if (child.pid === undefined) return;
+      try {
+        process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // Process group already exited
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, limits.timeoutMs);
+
+    const append = (current: string, chunk: Buffer) => {
+      if (current.length >= limits.maxOutputBytes) {
+        truncated = true;
+        return current;
+      }
+      const next = current + chunk.toString('utf8');
+      if (next.length > limits.maxOutputBytes) {
+        truncated = true;
+        // Stop a program that floods its output instead of buffering it all
+        killGroup();
+        return next.slice(0, limits.maxOutputBytes);
+      }
+      return next;
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => { stdout = append(stdout, chunk); });
+    child.stderr.on('data', (chunk: Buffer) => { stderr = append(stderr, chunk); });
+
+    const finish = (exitCode: number | null, spawnError?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve({
+        stdout,
+        stderr,
+        exitCode,
+        timedOut,
+        truncated,
+        spawnError: spawnError ?? (exitCode === 127 && /not found/.test(stderr) ? `${command}: command not found` : undefined),
+        timeMs: Date.now() - startedAt,
+      });
+    };
+
+    child.on('error', error => finish(null, error.message));
+    child.on('close', (code, signal) => {
+      // bwrap exits with 128 + the signal number when the sandboxed program is killed
+      const killedBy = signal ?? (isolated && code !== null && code > 128 ? SIGNAL_EXIT_CODES[code - 128] : undefined);
+      // Exceeding the CPU ulimit ends in SIGXCPU or SIGKILL; unless we killed the group
+      // for flooding its output, report it the same way as the wall-clock timeout
+      if (killedBy === 'SIGXCPU' || (killedBy === 'SIGKILL' && !truncated)) timedOut = true;
+      finish(code);
+    });
+
+    // Programs that never read stdin close it early; ignore the resulting EPIPE
+    child.stdin.on('error', () => {});
+    child.stdin.end(input.endsWith('\n') || input === '' ? input : `${input}\n`);
+  });
+}
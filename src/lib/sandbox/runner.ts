@@ -0,0 +1,157 @@
+// Local code sandbox: compiles the user's code once and runs it against each test case.
+// Every compile and run happens inside a bubblewrap sandbox (see isolation.ts) with
+// ulimits, a stripped environment and a throwaway working directory; without bwrap
+// the runner refuses to start unless SANDBOX_ISOLATION=none is set for local development.
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { isolationAvailable } from './isolation';
+import { LANGUAGE_RECIPES } from './languages';
+import { runProcess } from './process';
+import {
+  CaseResult,
+  CaseStatus,
+  ProcessLimits,
+  RunResult,
+  SANDBOX_LANGUAGES,
+  SandboxError,
+  SandboxLanguage,
+  TestCase,
+} from './types';
+
+export * from './types';
+
+export const MAX_CODE_LENGTH = 64 * 1024;
+export const MAX_CASES = 20;
+
+const COMPILE_LIMITS: ProcessLimits = { timeoutMs: 20000, cpuSeconds: 20, maxOutputBytes: 16 * 1024 };
+const CASE_LIMITS: ProcessLimits = { timeoutMs: 5000, cpuSeconds: 3, maxOutputBytes: 64 * 1024 };
+
+// Runs are CPU heavy, so only a couple may be in flight per server instance
+const MAX_CONCURRENT_RUNS = 2;
+let activeRuns = 0;
+
+export function isSandboxLanguage(value: unknown): value is SandboxLanguage {
+  return typeof value === 'string' && (SANDBOX_LANGUAGES as string[]).includes(value);
+}
+
+// Trim trailing whitespace per line and ignore trailing blank lines
+function normalizeOutput(text: string): string {
+  return text.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim();
+}
+
+/**
+ * Outputs match if they are equal after normalization, or equal once all whitespace is
+ * removed, so `[0, 1]` from an example is accepted for a program printing `[0,1]`.
+ */
+export function outputsMatch(actual: string, expected: string): boolean {
+  const a = normalizeOutput(actual);
+  const b = normalizeOutput(expected);
+  return a === b || a.replace(/\s+/g, '') === b.replace(/\s+/g, '');
+}
+
+export interface RunOptions {
+  // Overrides for the per-case limits, e.g. a larger output cap for input generators
+  limits?: Partial<ProcessLimits>;
+  // Skip the remaining cases once one times out (they are left out of the result)
+  stopOnTimeout?: boolean;
+}
+
+export async function runCode(
+  code: string,
+  language: SandboxLanguage,
+  cases: TestCase[],
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const recipe = LANGUAGE_RECIPES[language];
+  if (!recipe) {
+    throw new SandboxError('unsupported', `Language ${language} is not supported`);
+  }
+  if (activeRuns >= MAX_CONCURRENT_RUNS) {
+    throw new SandboxError('busy', 'The code runner is busy, please try again in a few seconds');
+  }
+  // Taken before any await so concurrent calls cannot all pass the check above
+  activeRuns++;
+  let workDir: string | null = null;
+
+  try {
+    if (!(await isolationAvailable())) {
+      throw new SandboxError('toolchain', 'Code isolation (bubblewrap) is not available on this server');
+    }
+    workDir = await mkdtemp(path.join(tmpdir(), 'coderduo-run-'));
+    await writeFile(path.join(workDir, recipe.sourceFile), code, 'utf8');
+    const compile = { ok: true, stderr: '', timeMs: 0 };
+
+    if (recipe.transpile) {
+      const startedAt = Date.now();
+      try {
+        const output = await recipe.transpile(code);
+        await writeFile(path.join(workDir, output.file), output.code, 'utf8');
+      } catch (error) {
+        compile.ok = false;
+        compile.stderr = error instanceof Error ? error.message : String(error);
+      }
+      compile.timeMs = Date.now() - startedAt;
+    } else if (recipe.compile) {
+      const result = await runProcess(recipe.compile.command, recipe.compile.args, {
+        cwd: workDir,
+        limits: COMPILE_LIMITS,
+      });
+      if (result.spawnError) {
+        throw new SandboxError('toolchain', `The ${language} toolchain is not installed on this server`);
+      }
+      compile.ok = result.exitCode === 0 && !result.timedOut;
+      compile.stderr = result.timedOut ? 'Compilation timed out' : result.stderr;
+      compile.timeMs = result.timeMs;
+    }
+
+    if (!compile.ok) {
+      return { language, compile, cases: [], passedCount: 0 };
+    }
+
+    // Run cases one at a time so timings are not skewed by each other
+    const results: CaseResult[] = [];
+    for (let index = 0; index < cases.length; index++) {
+      const testCase = cases[index];
+      const result = await runProcess(recipe.run.command, recipe.run.args, {
+        cwd: workDir,
+        input: testCase.input,
+        limits: { ...CASE_LIMITS, memoryKb: recipe.memoryKb, ...options.limits },
+      });
+      if (result.spawnError) {
+        throw new SandboxError('toolchain', `The ${language} runtime is not installed on this server`);
+      }
+
+      let status: CaseStatus;
+      if (result.timedOut) status = 'timeout';
+      else if (result.exitCode !== 0) status = 'runtime_error';
+      else status = outputsMatch(result.stdout, testCase.expected) ? 'passed' : 'failed';
+
+      results.push({
+        index,
+        input: testCase.input,
+        expected: testCase.expected,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        status,
+        timeMs: result.timeMs,
+        truncated: result.truncated,
+      });
+      if (status === 'timeout' && options.stopOnTimeout) break;
+    }
+
+    return {
+      language,
+      compile,
+      cases: results,
+      passedCount: results.filter(r => r.status === 'passed').length,
+    };
+  } finally {
+    activeRuns--;
+    if (workDir) {
+      await rm(workDir, { recursive: true, force: true }).catch(error => {
+        console.error('Failed to clean up sandbox directory:', error);
+      });
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// Shared types for the local code sandbox
+
+export type SandboxLanguage = 'python' | 'javascript' | 'typescript' | 'cpp' | 'java';
+
+export const SANDBOX_LANGUAGES: SandboxLanguage[] = ['python', 'javascript', 'typescript', 'cpp', 'java'];
+
+export interface TestCase {
+  input: string;
+  expected: string;
+}
+
+export type CaseStatus = 'passed' | 'failed' | 'runtime_error' | 'timeout';
+
+export interface CaseResult {
+  index: number;
+  input: string;
+  expected: string;
+  stdout: string;
+  stderr: string;
+  status: CaseStatus;
+  timeMs: number;
+  // True when stdout or stderr hit the output cap and was cut off
+  truncated: boolean;
+}
+
+export interface RunResult {
+  language: SandboxLanguage;
+  // Compile step output for compiled languages; ok is always true for interpreted ones
+  compile: { ok: boolean; stderr: string; timeMs: number };
+  cases: CaseResult[];
+  passedCount: number;
+}
+
+export interface ProcessLimits {
+  // Wall-clock limit, the process group is killed when it is exceeded
+  timeoutMs: number;
+  // CPU seconds, enforced with ulimit -t
+  cpuSeconds: number;
+  // Virtual memory in KB, enforced with ulimit -v; omitted for runtimes that reserve large address spaces
+  memoryKb?: number;
+  // Bytes kept from each of stdout and stderr
+  maxOutputBytes: number;
+}
+
+export class SandboxError extends Error {
+  kind: 'unsupported' | 'toolchain' | 'busy';
+
+  constructor(kind: SandboxError['kind'], message: string) {
+    super(message);
+    this.name = 'SandboxError';
+    this.kind = kind;
+  }
+}
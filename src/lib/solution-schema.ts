@@ -0,0 +1,232 @@
+/**
+ * Solution Schema
+ *
+ * Typed shape of AI-generated solutions (the structure requested by the
+ * question-processing prompt), a strict validator for model output, and the
+ * versioned format solutions are stored in. Legacy rows written before the
+ * versioned format are normalized on read so they still render.
+ */
+
+export const SOLUTION_LANGUAGES = ['cpp', 'java', 'python'] as const;
+export type SolutionLanguage = typeof SOLUTION_LANGUAGES[number];
+
+export type SolutionCode = Record<SolutionLanguage, string>;
+
+export interface SolutionComplexity {
+  time: string;
+  space: string;
+}
+
+export interface SolutionApproach {
+  approach: string;
+  complexity: SolutionComplexity;
+  code: SolutionCode;
+}
+
+export interface ProblemSolution {
+  explanation: string;
+  theory: { concepts: string };
+  bruteForce: SolutionApproach;
+  optimal: SolutionApproach;
+}
+
+// What the model must return for a question
+export interface SolutionOutput {
+  hints: string[];
+  solution: ProblemSolution;
+}
+
+export const SOLUTION_FORMAT_VERSION = 2;
+
+// What gets written to questions_user.solution
+export interface StoredSolution {
+  version: typeof SOLUTION_FORMAT_VERSION;
+  generatedAt: string;
+  model?: string;
+  // Prompt template version the solution was generated with
+  promptVersion?: string;
+  solution: ProblemSolution;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+function checkString(value: unknown, path: string, errors: string[]) {
+  if (!isNonEmptyString(value)) errors.push(`${path} must be a non-empty string`);
+}
+
+function checkApproach(value: unknown, path: string, errors: string[]) {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object with approach, complexity and code`);
+    return;
+  }
+  checkString(value.approach, `${path}.approach`, errors);
+
+  if (!isObject(value.complexity)) {
+    errors.push(`${path}.complexity must be an object with time and space`);
+  } else {
+    checkString(value.complexity.time, `${path}.complexity.time`, errors);
+    checkString(value.complexity.space, `${path}.complexity.space`, errors);
+  }
+
+  if (!isObject(value.code)) {
+    errors.push(`${path}.code must be an object with ${SOLUTION_LANGUAGES.join(', ')}`);
+  } else {
+    for (const language of SOLUTION_LANGUAGES) {
+      checkString(value.code[language], `${path}.code.${language}`, errors);
+    }
+  }
+}
+
+/**
+ * Strictly validate parsed model output against the solution schema.
+ * Errors are phrased so they can be sent back to the model in a repair prompt.
+ */
+export function validateSolutionOutput(value: unknown): ValidationResult<SolutionOutput> {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { ok: false, errors: ['response must be a JSON object with hints and solution'] };
+  }
+
+  if (!Array.isArray(value.hints) || value.hints.length === 0) {
+    errors.push('hints must be a non-empty array of strings');
+  } else {
+    value.hints.forEach((hint, i) => checkString(hint, `hints[${i}]`, errors));
+  }
+
+  const solution = value.solution;
+  if (!isObject(solution)) {
+    errors.push('solution must be an object');
+  } else {
+    checkString(solution.explanation, 'solution.explanation', errors);
+    if (!isObject(solution.theory)) {
+      errors.push('solution.theory must be an object with concepts');
+    } else {
+      checkString(solution.theory.concepts, 'solution.theory.concepts', errors);
+    }
+    checkApproach(solution.bruteForce, 'solution.bruteForce', errors);
+    checkApproach(solution.optimal, 'solution.optimal', errors);
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  // Re-build the object so unexpected extra keys are not persisted
+  const s = solution as unknown as ProblemSolution;
+  const pickApproach = (a: SolutionApproach): SolutionApproach => ({
+    approach: a.approach,
+    complexity: { time: a.complexity.time, space: a.complexity.space },
+    code: { cpp: a.code.cpp, java: a.code.java, python: a.code.python },
+  });
+
+  return {
+    ok: true,
+    value: {
+      hints: (value.hints as string[]).map(hint => hint.trim()),
+      solution: {
+        explanation: s.explanation,
+        theory: { concepts: s.theory.concepts },
+        bruteForce: pickApproach(s.bruteForce),
+        optimal: pickApproach(s.optimal),
+      },
+    },
+  };
+}
+
+export function serializeSolution(
+  solution: ProblemSolution,
+  meta: { model?: string; promptVersion?: string } = {}
+): string {
+  const stored: StoredSolution = {
+    version: SOLUTION_FORMAT_VERSION,
+    generatedAt: new Date().toISOString(),
+    ...meta,
+    solution,
+  };
+  return JSON.stringify(stored);
+}
+
+// --- Lenient normalization for legacy rows ---
+
+const toText = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value === null || value === undefined) return '';
+  if (isObject(value)) {
+    // Common legacy nesting: { concepts: "..." } or { approach: "..." }
+    if (typeof value.concepts === 'string') return value.concepts;
+    if (typeof value.approach === 'string') return value.approach;
+  }
+  return JSON.stringify(value, null, 2);
+};
+
+const toComplexity = (value: unknown): SolutionComplexity => {
+  if (isObject(value)) {
+    return { time: toText(value.time), space: toText(value.space) };
+  }
+  // Legacy free-text complexity goes in the time slot so nothing is lost
+  return { time: toText(value), space: '' };
+};
+
+const toCode = (value: unknown): SolutionCode => {
+  const code = isObject(value) ? value : {};
+  return { cpp: toText(code.cpp), java: toText(code.java), python: toText(code.python) };
+};
+
+const toApproach = (value: unknown, fallbackCode?: unknown, fallbackComplexity?: unknown): SolutionApproach => {
+  if (isObject(value)) {
+    return {
+      approach: toText(value.approach ?? (value.code || value.complexity ? '' : value)),
+      complexity: toComplexity(value.complexity ?? fallbackComplexity),
+      code: toCode(value.code ?? fallbackCode),
+    };
+  }
+  return {
+    approach: toText(value),
+    complexity: toComplexity(fallbackComplexity),
+    code: toCode(fallbackCode),
+  };
+};
+
+/**
+ * Coerce any solution shape this app has ever stored into a ProblemSolution.
+ * Returns null only when there is nothing solution-like in the value.
+ */
+export function normalizeSolution(value: unknown): ProblemSolution | null {
+  if (isObject(value) && value.version === SOLUTION_FORMAT_VERSION && isObject(value.solution)) {
+    return normalizeSolution(value.solution);
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    try {
+      return normalizeSolution(JSON.parse(trimmed));
+    } catch {
+      // Plain-text solution: show it as the explanation
+      return {
+        explanation: trimmed,
+        theory: { concepts: '' },
+        bruteForce: toApproach(''),
+        optimal: toApproach(''),
+      };
+    }
+  }
+
+  if (!isObject(value)) return null;
+
+  const hasSolutionKeys = ['explanation', 'theory', 'bruteForce', 'optimal', 'code'].some(key => key in value);
+  if (!hasSolutionKeys) return null;
+
+  // The oldest format kept a single top-level code/complexity block, which belongs to the optimal approach
+  return {
+    explanation: toText(value.explanation),
+    theory: { concepts: toText(value.theory) },
+    bruteForce: toApproach(value.bruteForce),
+    optimal: toApproach(value.optimal, value.code, value.complexity),
+  };
+}
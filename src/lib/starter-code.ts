@@ -0,0 +1,129 @@
+/**
+ * Starter Code
+ *
+ * Programs a new editor draft starts from, generated while a question is
+ * processed. Each one has the function the user fills in, with the signature
+ * for that language, followed by a harness that reads a test case from stdin in
+ * the problem's own input format, calls the function and prints the result the
+ * way the expected outputs are written. The code runner feeds test cases on
+ * stdin, so a draft built on a starter runs against them unchanged.
+ */
+import type { ValidationResult } from '@/lib/solution-schema';
+
+export const STARTER_LANGUAGES = ['python', 'javascript', 'typescript', 'java', 'cpp', 'go', 'rust'] as const;
+export type StarterLanguage = typeof STARTER_LANGUAGES[number];
+
+// Editor languages that share another language's starter
+const STARTER_ALIASES: Record<string, StarterLanguage> = {
+  jsx: 'javascript',
+  tsx: 'typescript',
+};
+
+export interface StarterProgram {
+  // Declaration line of the function the user implements, as written in the code
+  signature: string;
+  code: string;
+}
+
+export interface StarterOutput {
+  functionName: string;
+  languages: Partial<Record<StarterLanguage, StarterProgram>>;
+}
+
+// What gets written to questions_user.starter_code
+export interface StarterCode extends StarterOutput {
+  model?: string;
+  promptVersion?: string;
+  generatedAt: string;
+}
+
+// What the sandbox needs to find in each program to build and run it
+const ENTRY_POINTS: Partial<Record<StarterLanguage, RegExp>> = {
+  java: /public\s+class\s+Main\b/,
+  cpp: /\bint\s+main\s*\(/,
+  go: /package\s+main\b[\s\S]*func\s+main\s*\(/,
+  rust: /\bfn\s+main\s*\(/,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function checkProgram(value: unknown, language: StarterLanguage, errors: string[]): StarterProgram | null {
+  const path = `languages.${language}`;
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object with signature and code`);
+    return null;
+  }
+  const { signature, code } = value;
+  if (typeof signature !== 'string' || !signature.trim() || typeof code !== 'string' || !code.trim()) {
+    errors.push(`${path} must have a non-empty signature and code`);
+    return null;
+  }
+  if (!code.includes(signature.trim())) {
+    errors.push(`${path}.code must contain the signature exactly as given`);
+    return null;
+  }
+  const entryPoint = ENTRY_POINTS[language];
+  if (entryPoint && !entryPoint.test(code)) {
+    errors.push(`${path}.code is missing its entry point (${entryPoint.source})`);
+    return null;
+  }
+  return { signature: signature.trim(), code: code.replace(/\s+$/, '') + '\n' };
+}
+
+/**
+ * Validate starterCode model output. Languages with an unusable program are
+ * dropped and reported; the output only fails when none are left.
+ */
+export function validateStarterOutput(value: unknown): ValidationResult<StarterOutput> & { dropped?: string[] } {
+  if (!isObject(value)) {
+    return { ok: false, errors: ['response must be a JSON object with functionName and languages'] };
+  }
+  if (typeof value.functionName !== 'string' || !value.functionName.trim()) {
+    return { ok: false, errors: ['functionName must be a non-empty string'] };
+  }
+  if (!isObject(value.languages)) {
+    return { ok: false, errors: ['languages must be an object keyed by language'] };
+  }
+
+  const errors: string[] = [];
+  const languages: StarterOutput['languages'] = {};
+  for (const language of STARTER_LANGUAGES) {
+    if (!(language in value.languages)) continue;
+    const program = checkProgram(value.languages[language], language, errors);
+    if (program) languages[language] = program;
+  }
+
+  if (Object.keys(languages).length === 0) {
+    return { ok: false, errors: errors.length > 0 ? errors : ['languages has no supported language'] };
+  }
+  return { ok: true, value: { functionName: value.functionName.trim(), languages }, dropped: errors };
+}
+
+// Read questions_user.starter_code, or null when it is missing or malformed
+export function parseStarterCode(value: unknown): StarterCode | null {
+  if (!isObject(value) || !isObject(value.languages) || typeof value.functionName !== 'string') return null;
+
+  const languages: StarterCode['languages'] = {};
+  for (const language of STARTER_LANGUAGES) {
+    const program = value.languages[language];
+    if (isObject(program) && typeof program.signature === 'string' && typeof program.code === 'string') {
+      languages[language] = { signature: program.signature, code: program.code };
+    }
+  }
+
+  return {
+    functionName: value.functionName,
+    languages,
+    model: typeof value.model === 'string' ? value.model : undefined,
+    promptVersion: typeof value.promptVersion === 'string' ? value.promptVersion : undefined,
+    generatedAt: typeof value.generatedAt === 'string' ? value.generatedAt : '',
+  };
+}
+
+// Starter program for an editor language, if one was generated
+export function starterFor(starter: StarterCode | null, editorLanguage: string): StarterProgram | null {
+  if (!starter) return null;
+  const language = STARTER_ALIASES[editorLanguage] ?? editorLanguage;
+  return starter.languages[language as StarterLanguage] ?? null;
+}
@@ -0,0 +1,289 @@
+/**
+ * Statement Assembler
+ *
+ * Groups the flat block stream of an importer into a Statement. Headings and
+ * label lines ("Example 1:", "Constraints:", "Sample Input", Codeforces'
+ * "inputCopy", ...) switch between sections, examples and constraints, so
+ * LeetCode and Codeforces layouts come out the same whichever format they were
+ * pasted in.
+ */
+import { dropLeadingText, inlineText, joinLines, splitLines, trimInlines } from './inline';
+import type { Block, Inline, SectionKind, SourceBlock, Statement, StatementExample, StatementSection } from './types';
+
+type ExampleField = 'input' | 'output' | 'explanation';
+
+type Label =
+  | { type: 'examples' }
+  | { type: 'example' }
+  | { type: 'field'; field: ExampleField; sample: boolean }
+  | { type: 'constraints' }
+  | { type: 'description' }
+  | { type: 'section'; kind: Exclude<SectionKind, 'description' | 'other'> };
+
+interface DraftExample {
+  input: string[];
+  output: string[];
+  explanation: Inline[][];
+}
+
+// Whole-line labels; the trailing colon is optional
+function classifyLabel(text: string): Label | null {
+  const label = text.replace(/\s*:$/, '').trim();
+  if (/^(examples|samples|sample tests?)$/i.test(label)) return { type: 'examples' };
+  if (/^example\s*\d*$/i.test(label)) return { type: 'example' };
+  if (/^(input|output)\s+(format|specification)$/i.test(label)) {
+    return { type: 'section', kind: /^input/i.test(label) ? 'input' : 'output' };
+  }
+  const field = label.match(/^(sample\s+)?(input|output)\s*\d*\s*(copy)?$/i);
+  if (field) return { type: 'field', field: field[2].toLowerCase() as ExampleField, sample: !!field[1] };
+  if (/^explanation$/i.test(label)) return { type: 'field', field: 'explanation', sample: false };
+  if (/^constraints?$/i.test(label)) return { type: 'constraints' };
+  if (/^(problem\s+statement|description)$/i.test(label)) return { type: 'description' };
+  if (/^notes?$/i.test(label)) return { type: 'section', kind: 'notes' };
+  if (/^follow[\s-]?up$/i.test(label)) return { type: 'section', kind: 'follow_up' };
+  return null;
+}
+
+// "Note: ..." and "Follow-up: ..." open their section with text on the same line
+const SECTION_PREFIX = /^(constraints?|notes?|follow[\s-]?up)\s*:\s*/i;
+// "Input: nums = [1,2]" and friends inside an example
+const FIELD_PREFIX = /^(sample\s+)?(input|output|explanation)\s*\d*\s*:\s*/i;
+
+const BULLET = /^[-*•·]\s+/;
+
+export function assembleStatement(source: SourceBlock[]): Statement {
+  const statement: Statement = { sections: [], examples: [], constraints: [] };
+  const drafts: DraftExample[] = [];
+  // Set from the closures below, so declared with `as` to keep it from narrowing to the initial value
+  let mode = 'section' as 'section' | 'examples' | 'constraints';
+  let section: StatementSection | null = null;
+  let example: DraftExample | null = null;
+  let field: ExampleField | null = null;
+  let pending: Inline[][] = [];
+  let seenContent = false;
+
+  const currentSection = () => {
+    if (!section) {
+      section = { kind: 'description', blocks: [] };
+      statement.sections.push(section);
+    }
+    return section;
+  };
+
+  // Lines of a paragraph are held back so they stay one paragraph unless a label splits them
+  const flushPending = () => {
+    if (pending.length === 0) return;
+    const children = joinLines(pending);
+    pending = [];
+    if (children.length > 0) currentSection().blocks.push({ type: 'paragraph', children });
+  };
+
+  const pushBlock = (block: Block) => {
+    flushPending();
+    currentSection().blocks.push(block);
+  };
+
+  const openSection = (kind: SectionKind, title?: string) => {
+    flushPending();
+    section = title ? { kind, title, blocks: [] } : { kind, blocks: [] };
+    statement.sections.push(section);
+    mode = 'section';
+  };
+
+  const startExample = () => {
+    flushPending();
+    example = { input: [], output: [], explanation: [] };
+    drafts.push(example);
+    mode = 'examples';
+  };
+
+  const openField = (name: ExampleField): boolean => {
+    if (name === 'input' && (!example || example.input.length > 0 || example.output.length > 0)) startExample();
+    if (name === 'output' && (!example || example.output.length > 0)) startExample();
+    if (name === 'explanation' && !example) return false;
+    field = name;
+    mode = 'examples';
+    return true;
+  };
+
+  // Returns false when the label means nothing in the current context
+  const applyLabel = (label: Label): boolean => {
+    switch (label.type) {
+      case 'examples':
+        flushPending();
+        mode = 'examples';
+        example = null;
+        field = null;
+        return true;
+      case 'example':
+        startExample();
+        field = null;
+        return true;
+      case 'field':
+        if (mode === 'examples' || label.sample) return openField(label.field);
+        if (label.field === 'explanation') return false;
+        openSection(label.field);
+        return true;
+      case 'constraints':
+        flushPending();
+        mode = 'constraints';
+        return true;
+      case 'description':
+        // AtCoder's "Problem Statement" heading; later on it is just a section title
+        if (mode !== 'section' || (section && section.kind !== 'description')) return false;
+        flushPending();
+        return true;
+      case 'section':
+        openSection(label.kind);
+        return true;
+    }
+  };
+
+  const addToExample = (line: Inline[], raw?: string) => {
+    if (!example) {
+      pending.push(line);
+      return;
+    }
+    if (field === 'input' || field === 'output') {
+      example[field].push(raw ?? inlineText(line));
+    } else {
+      example.explanation.push(line);
+    }
+  };
+
+  const addConstraint = (line: Inline[]) => {
+    const first = line[0];
+    const constraint = first?.type === 'text' && BULLET.test(first.text)
+      ? trimInlines([{ type: 'text', text: first.text.replace(BULLET, '') }, ...line.slice(1)])
+      : line;
+    if (constraint.length > 0) statement.constraints.push(constraint);
+  };
+
+  // `raw` keeps the exact text of code lines for example data
+  const processLine = (line: Inline[], raw?: string) => {
+    const text = inlineText(line).trim();
+    if (line.length === 0) {
+      if (mode === 'examples' && raw !== undefined && (field === 'input' || field === 'output')) addToExample(line, '');
+      return;
+    }
+
+    const label = classifyLabel(text);
+    if (label && applyLabel(label)) return;
+
+    const sectionPrefix = text.match(SECTION_PREFIX);
+    if (sectionPrefix) {
+      const prefixLabel = classifyLabel(sectionPrefix[1]);
+      if (prefixLabel && applyLabel(prefixLabel)) {
+        processLine(dropLeadingText(line, sectionPrefix[0].length));
+        return;
+      }
+    }
+
+    // An "Input:" line outside any example still starts one, as in statements without "Example" headings
+    const fieldPrefix = text.match(FIELD_PREFIX);
+    const fieldName = fieldPrefix?.[2].toLowerCase() as ExampleField | undefined;
+    if (fieldPrefix && fieldName && (mode === 'examples' || fieldName === 'input') && openField(fieldName)) {
+      const rest = dropLeadingText(line, fieldPrefix[0].length);
+      if (rest.length > 0) addToExample(rest, raw === undefined ? undefined : raw.trim().slice(fieldPrefix[0].length));
+      return;
+    }
+
+    if (mode === 'examples') addToExample(line, raw);
+    else if (mode === 'constraints') addConstraint(line);
+    else pending.push(line);
+  };
+
+  for (const block of source) {
+    switch (block.type) {
+      case 'heading': {
+        const text = inlineText(block.children).trim();
+        if (!text) break;
+        if (block.level === 1 && !seenContent && !statement.title) {
+          statement.title = text;
+          break;
+        }
+        seenContent = true;
+        const label = classifyLabel(text);
+        if (!label || !applyLabel(label)) openSection('other', text);
+        break;
+      }
+      case 'paragraph':
+        seenContent = true;
+        splitLines(block.children).forEach(line => processLine(line));
+        flushPending();
+        break;
+      case 'code':
+        seenContent = true;
+        if (mode === 'section') {
+          pushBlock(block);
+        } else {
+          block.text.split('\n').forEach(line => processLine(trimInlines([{ type: 'text', text: line }]), line.replace(/\s+$/, '')));
+          // Text after a sample block explains it (AtCoder), unless a label says otherwise
+          if (mode === 'examples' && (field === 'input' || field === 'output')) field = null;
+        }
+        break;
+      case 'math':
+        seenContent = true;
+        if (mode === 'examples') addToExample([{ type: 'math', tex: block.tex }]);
+        else if (mode === 'constraints') addConstraint([{ type: 'math', tex: block.tex }]);
+        else pushBlock(block);
+        break;
+      case 'list':
+        seenContent = true;
+        if (mode === 'section') {
+          pushBlock(block);
+        } else {
+          block.items.forEach(item => (mode === 'constraints' ? addConstraint(item) : processLine(item)));
+          flushPending();
+        }
+        break;
+    }
+  }
+  flushPending();
+
+  statement.examples = drafts
+    .map(toExample)
+    .filter((item): item is StatementExample => item !== null);
+  statement.sections = statement.sections.filter(item => item.blocks.length > 0);
+  return statement;
+}
+
+function exampleData(lines: string[]): string {
+  return lines.map(line => line.replace(/\s+$/, '')).join('\n').trim();
+}
+
+function toExample(draft: DraftExample): StatementExample | null {
+  const input = exampleData(draft.input);
+  const output = exampleData(draft.output);
+  if (!input || !output) return null;
+
+  const explanation = joinLines(draft.explanation);
+  return explanation.length > 0 ? { input, output, explanation } : { input, output };
+}
+
+export type OutlineItem =
+  | { type: 'section'; section: StatementSection }
+  | { type: 'examples' }
+  | { type: 'constraints' };
+
+/**
+ * Order in which the serializers write a statement: sections as stored, with
+ * examples and constraints before the closing notes. Importing the output
+ * again yields the same statement.
+ */
+export function statementOutline(statement: Statement): OutlineItem[] {
+  const outline: OutlineItem[] = [];
+  const closing = statement.sections.findIndex(item => item.kind === 'notes' || item.kind === 'follow_up');
+  const splitAt = closing === -1 ? statement.sections.length : closing;
+
+  statement.sections.slice(0, splitAt).forEach(section => outline.push({ type: 'section', section }));
+  if (statement.examples.length > 0) outline.push({ type: 'examples' });
+  if (statement.constraints.length > 0) outline.push({ type: 'constraints' });
+  statement.sections.slice(splitAt).forEach(section => outline.push({ type: 'section', section }));
+  return outline;
+}
+
+// Whether a line would be read back as a heading-like label
+export function isLabelText(text: string): boolean {
+  return classifyLabel(text) !== null || FIELD_PREFIX.test(text) || SECTION_PREFIX.test(text);
+}
@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest';
+import { parseStatement, serializeStatement } from './formats';
+import { inlineText } from './inline';
+import type { Block, Inline, Statement, StatementFormat } from './types';
+
+// Problem HTML as the LeetCode GraphQL API returns it
+const LEETCODE_TWO_SUM = `<p>Given an array of integers <code>nums</code>&nbsp;and an integer <code>target</code>, return <em>indices of the two numbers such that they add up to <code>target</code></em>.</p>
+
+<p>You may assume that each input would have <strong><em>exactly</em> one solution</strong>, and you may not use the <em>same</em> element twice.</p>
+
+<p>You can return the answer in any order.</p>
+
+<p>&nbsp;</p>
+<p><strong class="example">Example 1:</strong></p>
+
+<pre>
+<strong>Input:</strong> nums = [2,7,11,15], target = 9
+<strong>Output:</strong> [0,1]
+<strong>Explanation:</strong> Because nums[0] + nums[1] == 9, we return [0, 1].
+</pre>
+
+<p><strong class="example">Example 2:</strong></p>
+
+<pre>
+<strong>Input:</strong> nums = [3,2,4], target = 6
+<strong>Output:</strong> [1,2]
+</pre>
+
+<p>&nbsp;</p>
+<p><strong>Constraints:</strong></p>
+
+<ul>
+	<li><code>2 &lt;= nums.length &lt;= 10<sup>4</sup></code></li>
+	<li><code>-10<sup>9</sup> &lt;= nums[i] &lt;= 10<sup>9</sup></code></li>
+	<li><code>-10<sup>9</sup> &lt;= target &lt;= 10<sup>9</sup></code></li>
+	<li><strong>Only one valid answer exists.</strong></li>
+</ul>
+
+<p>&nbsp;</p>
+<strong>Follow-up:&nbsp;</strong>Can you come up with an algorithm that is less than <code>O(n<sup>2</sup>)</code><font face="monospace">&nbsp;</font>time complexity?`;
+
+// Codeforces problem page markup, with the header and sample blocks
+const CODEFORCES_WATERMELON = `<div class="problem-statement"><div class="header"><div class="title">A. Watermelon</div><div class="time-limit"><div class="property-title">time limit per test</div>1 second</div><div class="memory-limit"><div class="property-title">memory limit per test</div>64 megabytes</div><div class="input-file"><div class="property-title">input</div>standard input</div><div class="output-file"><div class="property-title">output</div>standard output</div></div><div><p>One hot summer day Pete and his friend Billy decided to buy a watermelon. They chose the biggest and the ripest one, in their opinion. After that the watermelon was weighed, and the scales showed <span class="tex-span"><i>w</i></span> kilos. They rushed home, dying of thirst, and decided to divide the berry, however they faced a hard problem.</p></div><div class="input-specification"><div class="section-title">Input</div><p>The first (and the only) input line contains integer number <span class="tex-span"><i>w</i></span> (1 ≤ <span class="tex-span"><i>w</i></span> ≤ 100) — the weight of the watermelon bought by the boys.</p></div><div class="output-specification"><div class="section-title">Output</div><p>Print <span class="tex-font-style-tt">YES</span>, if the boys can divide the watermelon into two parts, each of them weighing even number of kilos; and <span class="tex-font-style-tt">NO</span> in the opposite case.</p></div><div class="sample-tests"><div class="section-title">Examples</div><div class="sample-test"><div class="input"><div class="title">Input</div><pre>8
+</pre></div><div class="output"><div class="title">Output</div><pre>YES
+</pre></div></div></div><div class="note"><div class="section-title">Note</div><p>For example, the boys can divide the watermelon into two parts of <span class="tex-span">2</span> and <span class="tex-span">6</span> kilos respectively (another variant — two parts of <span class="tex-span">4</span> and <span class="tex-span">4</span> kilos).</p></div></div>`;
+
+// Newer Codeforces markup: $$$ math and one div per sample line
+const CODEFORCES_MATH = `<div class="problem-statement"><div class="header"><div class="title">B. Sum of Pairs</div></div><div><p>You are given an array $$$a$$$ of $$$n$$$ integers. Count the pairs $$$(i, j)$$$ with $$$i &lt; j$$$ and $$$a_i + a_j \\le k$$$.</p></div><div class="input-specification"><div class="section-title">Input</div><p>The first line contains $$$n$$$ and $$$k$$$ ($$$1 \\le n \\le 2 \\cdot 10^5$$$, $$$1 \\le k \\le 10^9$$$).</p><p>The second line contains $$$a_1, a_2, \\ldots, a_n$$$.</p></div><div class="output-specification"><div class="section-title">Output</div><p>Print one integer.</p></div><div class="sample-tests"><div class="section-title">Example</div><div class="sample-test"><div class="input"><div class="title">Input</div><pre><div class="test-example-line test-example-line-even test-example-line-0">3 4</div><div class="test-example-line test-example-line-even test-example-line-0">1 2 3</div></pre></div><div class="output"><div class="title">Output</div><pre>2
+</pre></div></div></div></div>`;
+
+const MARKDOWN_STATEMENT = `# Climbing Stairs
+
+You are climbing a staircase. It takes \`n\` steps to reach the top.
+
+Each time you can either climb **1** or **2** steps. In how many *distinct* ways can you climb to the top? See [the editorial](https://example.com/editorial).
+
+## Example 1
+
+**Input:** n = 2
+**Output:** 2
+**Explanation:** There are two ways to climb to the top.
+
+## Constraints
+
+- \`1 <= n <= 45\`
+`;
+
+const TEXT_STATEMENT = `Valid Parentheses
+
+Given a string s containing just the characters '(', ')', '{', '}', '[' and ']', determine if the input string is valid.
+
+Example 1:
+Input: s = "()"
+Output: true
+
+Example 2:
+Input: s = "(]"
+Output: false
+
+Constraints:
+1 <= s.length <= 10^4
+s consists of parentheses only '()[]{}'.
+`;
+
+const FORMATS: StatementFormat[] = ['html', 'markdown', 'text'];
+
+const roundTrip = (statement: Statement, format: StatementFormat) =>
+  parseStatement(serializeStatement(statement, format), format);
+
+const blockText = (block: Block): string => {
+  switch (block.type) {
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return block.items.map(inlineText).join('\n');
+    case 'code':
+      return block.text;
+    case 'math':
+      return block.tex;
+  }
+};
+
+// What plain text can carry: the structure and the words, without inline formatting
+const plainContent = (statement: Statement) => ({
+  title: statement.title,
+  sections: statement.sections.map(section => ({ kind: section.kind, text: section.blocks.map(blockText) })),
+  examples: statement.examples.map(({ input, output, explanation }) => ({ input, output, explanation: explanation && inlineText(explanation) })),
+  constraints: statement.constraints.map(inlineText),
+});
+
+const allInlines = (statement: Statement): Inline[] => {
+  const walk = (inlines: Inline[]): Inline[] =>
+    inlines.flatMap(inline => ('children' in inline ? [inline, ...walk(inline.children)] : [inline]));
+  return walk([
+    ...statement.sections.flatMap(section => section.blocks.flatMap(block =>
+      block.type === 'paragraph' ? block.children : block.type === 'list' ? block.items.flat() : [])),
+    ...statement.constraints.flat(),
+    ...statement.examples.flatMap(example => example.explanation ?? []),
+  ]);
+};
+
+describe('platform statements', () => {
+  it('reads a LeetCode problem', () => {
+    const statement = parseStatement(LEETCODE_TWO_SUM);
+
+    expect(statement.sections.map(section => section.kind)).toEqual(['description', 'follow_up']);
+    expect(statement.examples).toEqual([
+      {
+        input: 'nums = [2,7,11,15], target = 9',
+        output: '[0,1]',
+        explanation: [{ type: 'text', text: 'Because nums[0] + nums[1] == 9, we return [0, 1].' }],
+      },
+      { input: 'nums = [3,2,4], target = 6', output: '[1,2]' },
+    ]);
+    expect(statement.constraints.map(inlineText)).toEqual([
+      '2 <= nums.length <= 10^4',
+      '-10^9 <= nums[i] <= 10^9',
+      '-10^9 <= target <= 10^9',
+      'Only one valid answer exists.',
+    ]);
+  });
+
+  it('reads a Codeforces problem page', () => {
+    const statement = parseStatement(CODEFORCES_WATERMELON);
+
+    expect(statement.title).toBe('A. Watermelon');
+    expect(statement.sections.map(section => section.kind)).toEqual(['description', 'input', 'output', 'notes']);
+    expect(statement.examples).toEqual([{ input: '8', output: 'YES' }]);
+    expect(blockText(statement.sections[0].blocks[0])).not.toContain('time limit');
+  });
+
+  it('reads Codeforces math and line-per-div samples', () => {
+    const statement = parseStatement(CODEFORCES_MATH);
+
+    expect(statement.examples).toEqual([{ input: '3 4\n1 2 3', output: '2' }]);
+    expect(allInlines(statement)).toContainEqual({ type: 'math', tex: 'a_i + a_j \\le k' });
+  });
+});
+
+describe.each([
+  ['LeetCode HTML', LEETCODE_TWO_SUM, 'html'],
+  ['Codeforces HTML', CODEFORCES_WATERMELON, 'html'],
+  ['Codeforces HTML with math', CODEFORCES_MATH, 'html'],
+  ['Markdown', MARKDOWN_STATEMENT, 'markdown'],
+  ['plain text', TEXT_STATEMENT, 'text'],
+] as const)('round trip of a %s statement', (_name, source, sourceFormat) => {
+  const statement = parseStatement(source, sourceFormat);
+
+  it('is detected as its own format', () => {
+    expect(parseStatement(source)).toEqual(statement);
+  });
+
+  it.each(['html', 'markdown'] as const)('survives %s unchanged', format => {
+    expect(roundTrip(statement, format)).toEqual(statement);
+  });
+
+  it('keeps its structure and text through plain text', () => {
+    expect(plainContent(roundTrip(statement, 'text'))).toEqual(plainContent(statement));
+  });
+
+  it.each(FORMATS)('serializes to %s stably', format => {
+    const once = roundTrip(statement, format);
+    expect(serializeStatement(once, format)).toBe(serializeStatement(statement, format));
+    expect(roundTrip(once, format)).toEqual(once);
+  });
+});
+
+describe('sanitizing', () => {
+  const UNSAFE_HTML = `<p>Read <a href="javascript:alert(1)">the rules</a>, <a href=" JaVaScRiPt:alert(2)">the FAQ</a>,
+<a href="java&#x09;script:alert(3)">the hints</a> and <a href="https://codeforces.com/blog">the blog</a>.</p>
+<script>alert(4)</script>
+<p onclick="alert(5)">Click <img src="x" onerror="alert(6)" alt="picture"> <b onmouseover="alert(7)">here</b>.</p>
+<img src="javascript:alert(8)" alt="bad">
+<style>p { display: none }</style>
+<iframe src="https://evil.example"></iframe>`;
+
+  const expectSafeHtml = (html: string) => {
+    expect(html).not.toMatch(/javascript:/i);
+    expect(html).not.toMatch(/<script|<style|<iframe/i);
+    expect(html).not.toMatch(/\son[a-z]+\s*=/i);
+    expect(html).not.toContain('alert(');
+  };
+
+  it('drops javascript: URLs and keeps safe links', () => {
+    const statement = parseStatement(UNSAFE_HTML, 'html');
+    const links = allInlines(statement).filter(inline => inline.type === 'link');
+
+    expect(links).toEqual([{ type: 'link', href: 'https://codeforces.com/blog', children: [{ type: 'text', text: 'the blog' }] }]);
+    expect(inlineText(allInlines(statement).filter(inline => inline.type === 'text'))).toContain('the rules');
+  });
+
+  it('drops scripts, styles, frames and event handlers', () => {
+    const statement = parseStatement(UNSAFE_HTML, 'html');
+    expectSafeHtml(serializeStatement(statement, 'html'));
+  });
+
+  it.each(FORMATS)('stays safe after a %s round trip', format => {
+    const statement = roundTrip(parseStatement(UNSAFE_HTML, 'html'), format);
+    expectSafeHtml(serializeStatement(statement, 'html'));
+  });
+
+  it('escapes markup written as text', () => {
+    const statement = parseStatement('Print <script>alert(1)</script> when a < b and <img src=x onerror=alert(2)>.', 'text');
+    const html = serializeStatement(statement, 'html');
+
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toMatch(/<script|<img/i);
+  });
+
+  it('drops javascript: URLs in Markdown links and images', () => {
+    const statement = parseStatement('See [the rules](javascript:void) and ![x](JavaScript:void).\n\nSee [docs](https://leetcode.com/problems/).', 'markdown');
+    const html = serializeStatement(statement, 'html');
+
+    expect(html).not.toMatch(/(href|src)="javascript:/i);
+    expect(allInlines(statement).filter(inline => inline.type === 'link' || inline.type === 'image')).toEqual([
+      { type: 'link', href: 'https://leetcode.com/problems/', children: [{ type: 'text', text: 'docs' }] },
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+// Entry points for reading and writing statements in any of the supported formats
+import { assembleStatement } from './assemble';
+import { importHtml } from './html';
+import { importMarkdown, statementToMarkdown } from './markdown';
+import { renderBlocks, renderInlines, renderStatement } from './render';
+import { importText, statementToText } from './text';
+import type { SourceBlock, Statement, StatementFormat } from './types';
+
+const IMPORTERS: Record<StatementFormat, (source: string) => SourceBlock[]> = {
+  html: importHtml,
+  markdown: importMarkdown,
+  text: importText,
+};
+
+// Block-level tags mean pasted HTML; inline ones like <sup> also occur in Markdown
+const HTML_BLOCK_TAG = /<\/?(p|div|pre|ul|ol|li|h[1-6]|table|tr|section|article|blockquote|br)\b[^<>]*>/i;
+const MARKDOWN_SYNTAX = [
+  /^ {0,3}(#{1,6}\s|```|~~~|\$\$)/m,
+  /\*\*[^*\s][^*]*\*\*/,
+  /`[^`\n]+`/,
+  /\$[^$\s][^$\n]*\$/,
+  /\\\(|\\\[/,
+  /!?\[[^\]\n]+\]\([^)\s]+\)/,
+];
+
+export function detectStatementFormat(source: string): StatementFormat {
+  if (HTML_BLOCK_TAG.test(source)) return 'html';
+  if (MARKDOWN_SYNTAX.some(pattern => pattern.test(source))) return 'markdown';
+  return 'text';
+}
+
+/**
+ * Parse a pasted or stored statement into the structured model, detecting the
+ * format unless one is given.
+ */
+export function parseStatement(source: string, format: StatementFormat = detectStatementFormat(source)): Statement {
+  return assembleStatement(IMPORTERS[format](source));
+}
+
+// Inverse of parseStatement: parsing the result with the same format gives back `statement`
+export function serializeStatement(statement: Statement, format: StatementFormat): string {
+  switch (format) {
+    case 'html':
+      return renderStatement(statement);
+    case 'markdown':
+      return statementToMarkdown(statement);
+    case 'text':
+      return statementToText(statement);
+  }
+}
+
+/**
+ * Sanitized HTML for free-form rich text that is not a statement, such as
+ * solution write-ups: blocks are rendered in order without grouping labels
+ * into examples or sections.
+ */
+export function renderRichText(source: string, format: StatementFormat = detectStatementFormat(source)): string {
+  return IMPORTERS[format](source)
+    .map(block => {
+      if (block.type !== 'heading') return renderBlocks([block]);
+      // Plain text has no real headings, only a guessed title line
+      return format === 'text' ? `<p>${renderInlines(block.children)}</p>` : `<h4>${renderInlines(block.children)}</h4>`;
+    })
+    .join('\n');
+}
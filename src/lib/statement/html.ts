@@ -0,0 +1,346 @@
+/**
+ * HTML Statements
+ *
+ * Import of statement HTML pasted from LeetCode, Codeforces, AtCoder or this
+ * app's own renderer. A small tolerant tokenizer builds a tree, which is then
+ * read for headings, paragraphs, lists, code and math (KaTeX annotations, MathJax
+ * script tags, data-tex and Codeforces' $$$...$$$). Nothing from the input is
+ * kept as markup; scripts, styles and event handlers simply never make it into
+ * the model.
+ */
+import { trimInlines } from './inline';
+import { sanitizeUrl } from './render';
+import type { Inline, SourceBlock } from './types';
+
+interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | { type: 'text'; text: string };
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title']);
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'title', 'iframe', 'object', 'embed', 'svg', 'canvas', 'button', 'input', 'select', 'textarea', 'form']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'center', 'dd', 'details', 'dl', 'dt', 'div', 'figcaption', 'figure',
+  'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'html', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section',
+  'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', le: '≤', ge: '≥', ne: '≠', times: '×', divide: '÷',
+  middot: '·', minus: '−', plusmn: '±', hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“',
+  rdquo: '”', laquo: '«', raquo: '»', infin: '∞', rarr: '→', larr: '←', harr: '↔', rArr: '⇒', lArr: '⇐', hArr: '⇔',
+  isin: '∈', notin: '∉', sum: '∑', prod: '∏', radic: '√', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', lambda: 'λ', mu: 'μ', pi: 'π', sigma: 'σ', omega: 'ω',
+  Delta: 'Δ', Sigma: 'Σ', copy: '©', deg: '°', sup2: '²', sup3: '³', bull: '•', prime: '′',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return Object.prototype.hasOwnProperty.call(NAMED_ENTITIES, name) ? NAMED_ENTITIES[name] : entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+// Tolerant HTML tree builder: unknown closing tags are ignored and unclosed elements end with their parent
+function parseHtml(source: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const closeTo = (tag: string, boundary: string[] = []) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (boundary.includes(stack[i].tag)) return;
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const lt = source.indexOf('<', i);
+    if (lt === -1 || lt > i) {
+      const end = lt === -1 ? source.length : lt;
+      current().children.push({ type: 'text', text: decodeEntities(source.slice(i, end)) });
+      i = end;
+      continue;
+    }
+
+    if (source.startsWith('<!--', i)) {
+      const end = source.indexOf('-->', i + 4);
+      i = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source[i + 1] === '!' || source[i + 1] === '?') {
+      const end = source.indexOf('>', i);
+      i = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const closing = source.slice(i).match(/^<\/([a-zA-Z][\w-]*)[^>]*>/);
+    if (closing) {
+      closeTo(closing[1].toLowerCase());
+      i += closing[0].length;
+      continue;
+    }
+
+    const opening = source.slice(i).match(/^<([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/);
+    if (!opening) {
+      current().children.push({ type: 'text', text: '<' });
+      i += 1;
+      continue;
+    }
+
+    const tag = opening[1].toLowerCase();
+    const element: HtmlElement = { type: 'element', tag, attrs: parseAttributes(opening[2]), children: [] };
+    i += opening[0].length;
+
+    // Implied end tags for the common unclosed cases
+    if (tag === 'li') closeTo('li', ['ul', 'ol']);
+    if (tag === 'p' || (BLOCK_TAGS.has(tag) && current().tag === 'p')) closeTo('p');
+    if (tag === 'tr') closeTo('tr', ['table']);
+    if (tag === 'td' || tag === 'th') {
+      closeTo('td', ['tr']);
+      closeTo('th', ['tr']);
+    }
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = source.toLowerCase().indexOf(`</${tag}`, i);
+      const stop = end === -1 ? source.length : end;
+      element.children.push({ type: 'text', text: source.slice(i, stop) });
+      const close = source.indexOf('>', stop);
+      i = end === -1 || close === -1 ? source.length : close + 1;
+    } else if (!VOID_TAGS.has(tag) && !opening[3]) {
+      stack.push(element);
+    }
+  }
+  return root;
+}
+
+function classes(element: HtmlElement): string[] {
+  return (element.attrs.class ?? '').split(/\s+/).filter(Boolean);
+}
+
+// Text with line breaks, including Codeforces' one-div-per-line sample blocks
+function textContent(node: HtmlNode): string {
+  if (node.type === 'text') return node.text;
+  if (node.tag === 'br') return '\n';
+  const text = node.children.map(textContent).join('');
+  return node.tag === 'div' || node.tag === 'p' ? `${text.replace(/\n$/, '')}\n` : text;
+}
+
+function findElement(node: HtmlElement, match: (element: HtmlElement) => boolean): HtmlElement | null {
+  for (const child of node.children) {
+    if (child.type !== 'element') continue;
+    if (match(child)) return child;
+    const found = findElement(child, match);
+    if (found) return found;
+  }
+  return null;
+}
+
+// TeX carried by a math element, or null when the element is not math
+function mathOf(element: HtmlElement): { tex: string; display: boolean } | null {
+  const classList = classes(element);
+  if ('data-tex' in element.attrs) {
+    return { tex: element.attrs['data-tex'], display: classList.includes('math-display') };
+  }
+  if (element.tag === 'script' && /math\/tex/i.test(element.attrs.type ?? '')) {
+    return { tex: textContent(element), display: /mode\s*=\s*display/i.test(element.attrs.type ?? '') };
+  }
+  if (classList.includes('katex') || classList.includes('katex-display') || element.tag === 'math') {
+    const annotation = findElement(element, child => child.tag === 'annotation' && /tex/i.test(child.attrs.encoding ?? ''));
+    const tex = annotation ? textContent(annotation) : element.tag === 'math' ? textContent(element) : null;
+    return tex === null ? null : { tex, display: classList.includes('katex-display') || element.attrs.display === 'block' };
+  }
+  return null;
+}
+
+// Rendered MathJax output next to its source script, dropped in favour of the script
+function isMathJaxOutput(element: HtmlElement): boolean {
+  return classes(element).some(name => /^(MathJax(_Preview|_Display|_SVG|_CHTML)?|MJX_Assistive_MathML)$/.test(name));
+}
+
+// Codeforces keeps TeX in the page text as $$$...$$$ (inline) and $$$$$$...$$$$$$ (display)
+const TEXT_MATH = /\${6}([\s\S]+?)\${6}|\${3}([\s\S]+?)\${3}|\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g;
+
+function textInlines(text: string): Inline[] {
+  const collapsed = text.replace(/\s+/g, ' ');
+  const result: Inline[] = [];
+  let last = 0;
+  for (const match of Array.from(collapsed.matchAll(TEXT_MATH))) {
+    const index = match.index ?? 0;
+    if (index > last) result.push({ type: 'text', text: collapsed.slice(last, index) });
+    result.push({ type: 'math', tex: match[1] ?? match[2] ?? match[3] ?? match[4] });
+    last = index + match[0].length;
+  }
+  if (last < collapsed.length) result.push({ type: 'text', text: collapsed.slice(last) });
+  return result;
+}
+
+// Code text keeps superscripts readable, as in LeetCode's <code>10<sup>4</sup></code>
+function codeText(node: HtmlNode): string {
+  if (node.type === 'text') return node.text;
+  const inner = node.children.map(codeText).join('');
+  if (node.tag === 'sup') return `^${inner}`;
+  if (node.tag === 'sub') return `_${inner}`;
+  return node.tag === 'br' ? '\n' : inner;
+}
+
+function inlinesOf(nodes: HtmlNode[]): Inline[] {
+  return nodes.flatMap(inlineOf);
+}
+
+function inlineOf(node: HtmlNode): Inline[] {
+  if (node.type === 'text') return textInlines(node.text);
+  const math = mathOf(node);
+  if (math) return [{ type: 'math', tex: math.tex }];
+  if (SKIPPED_TAGS.has(node.tag) || isMathJaxOutput(node)) return [];
+
+  switch (node.tag) {
+    case 'br':
+      return [{ type: 'text', text: '\n' }];
+    case 'img': {
+      const src = sanitizeUrl(node.attrs.src ?? '', 'image');
+      return src ? [{ type: 'image', src, alt: node.attrs.alt ?? '' }] : [];
+    }
+    case 'strong':
+    case 'b':
+      return [{ type: 'strong', children: inlinesOf(node.children) }];
+    case 'em':
+    case 'i':
+      return [{ type: 'emphasis', children: inlinesOf(node.children) }];
+    case 'sup':
+    case 'sub':
+      return [{ type: node.tag, children: inlinesOf(node.children) }];
+    case 'code':
+    case 'tt':
+    case 'kbd':
+    case 'samp':
+      return [{ type: 'code', text: codeText(node).replace(/\s+/g, ' ') }];
+    case 'a': {
+      const href = sanitizeUrl(node.attrs.href ?? '');
+      const children = inlinesOf(node.children);
+      return href ? [{ type: 'link', href, children }] : children;
+    }
+    default:
+      return inlinesOf(node.children);
+  }
+}
+
+// Block-level children of a list item are folded into extra lines of the item
+function listItemInlines(item: HtmlElement): Inline[] {
+  const parts: Inline[] = [];
+  for (const child of item.children) {
+    if (child.type === 'element' && BLOCK_TAGS.has(child.tag)) {
+      const lines = child.tag === 'ul' || child.tag === 'ol'
+        ? child.children.filter((li): li is HtmlElement => li.type === 'element' && li.tag === 'li').map(listItemInlines)
+        : [inlinesOf(child.children)];
+      lines.forEach(line => parts.push({ type: 'text', text: '\n' }, ...line));
+    } else {
+      parts.push(...inlineOf(child));
+    }
+  }
+  return trimInlines(parts);
+}
+
+function preBlock(element: HtmlElement): SourceBlock {
+  const text = textContent(element).replace(/^\n/, '').replace(/\s+$/, '');
+  const code = findElement(element, child => child.tag === 'code');
+  const language = [...classes(element), ...(code ? classes(code) : [])]
+    .map(name => name.match(/^(?:language|lang)-([\w+#-]+)$/)?.[1])
+    .find(Boolean);
+  return language ? { type: 'code', language: language.toLowerCase(), text } : { type: 'code', text };
+}
+
+function convertBlocks(nodes: HtmlNode[], out: SourceBlock[]): void {
+  let inline: Inline[] = [];
+  const flush = () => {
+    const children = trimInlines(inline);
+    inline = [];
+    if (children.length > 0) out.push({ type: 'paragraph', children });
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      inline.push(...inlineOf(node));
+      continue;
+    }
+
+    const math = mathOf(node);
+    if (math?.display && (node.tag === 'div' || classes(node).includes('katex-display') || node.tag === 'script')) {
+      flush();
+      out.push({ type: 'math', tex: math.tex });
+      continue;
+    }
+    const classList = classes(node);
+    const isTitle = classList.includes('title') || classList.includes('section-title');
+    if (math || (!BLOCK_TAGS.has(node.tag) && !isTitle)) {
+      inline.push(...inlineOf(node));
+      continue;
+    }
+    if (SKIPPED_TAGS.has(node.tag) || isMathJaxOutput(node)) continue;
+
+    flush();
+    const level = node.tag.match(/^h([1-6])$/)?.[1];
+    if (level) {
+      out.push({ type: 'heading', level: Number(level), children: trimInlines(inlinesOf(node.children)) });
+    } else if (classList.includes('header')) {
+      // Codeforces problem header: the title, then time and memory limits that are not part of the statement
+      const title = findElement(node, child => classes(child).includes('title'));
+      if (title) out.push({ type: 'heading', level: 1, children: trimInlines(inlinesOf(title.children)) });
+    } else if (isTitle) {
+      out.push({ type: 'heading', level: 3, children: trimInlines(inlinesOf(node.children)) });
+    } else if (node.tag === 'pre') {
+      out.push(preBlock(node));
+    } else if (node.tag === 'ul' || node.tag === 'ol') {
+      const items = node.children
+        .filter((child): child is HtmlElement => child.type === 'element' && child.tag === 'li')
+        .map(listItemInlines)
+        .filter(item => item.length > 0);
+      if (items.length > 0) out.push({ type: 'list', ordered: node.tag === 'ol', items });
+    } else if (node.tag === 'tr') {
+      const cells = node.children.filter((cell): cell is HtmlElement => cell.type === 'element');
+      const row = cells.flatMap((cell, i) => [...(i > 0 ? [{ type: 'text' as const, text: ' | ' }] : []), ...inlinesOf(cell.children)]);
+      const children = trimInlines(row);
+      if (children.length > 0) out.push({ type: 'paragraph', children });
+    } else if (node.tag !== 'hr') {
+      convertBlocks(node.children, out);
+    }
+  }
+  flush();
+}
+
+// The statement within a whole saved problem page, leaving out navigation and
+// sidebars: AtCoder's task statement (in English when both languages are
+// there) or Codeforces' problem-statement block
+function statementRoot(root: HtmlElement): HtmlElement | null {
+  const task = findElement(root, element => element.attrs.id === 'task-statement');
+  if (task) return findElement(task, element => classes(element).includes('lang-en')) ?? task;
+  return findElement(root, element => classes(element).includes('problem-statement'));
+}
+
+export function importHtml(source: string): SourceBlock[] {
+  const root = parseHtml(source);
+  const blocks: SourceBlock[] = [];
+  convertBlocks((statementRoot(root) ?? root).children, blocks);
+  return blocks;
+}
@@ -0,0 +1,130 @@
+// Helpers for inline content shared by the importers, the assembler and the renderers
+import type { Inline } from './types';
+
+type Container = Extract<Inline, { children: Inline[] }>;
+
+function hasChildren(node: Inline): node is Container {
+  return 'children' in node;
+}
+
+// Collapse whitespace, merge adjacent text and drop empty nodes, so every importer yields the same shape
+export function normalizeInlines(inlines: Inline[]): Inline[] {
+  const result: Inline[] = [];
+  // Links left without a safe target keep just their text
+  const unwrapped = inlines.flatMap(node => (node.type === 'link' && !node.href ? node.children : [node]));
+  for (const node of unwrapped) {
+    if (node.type === 'text') {
+      const text = node.text.replace(/[ \t\r\f\v\u00a0]+/g, ' ').replace(/ ?\n ?/g, '\n');
+      if (!text) continue;
+      const last = result[result.length - 1];
+      if (last?.type === 'text') {
+        last.text = (last.text + text).replace(/ ?\n ?/g, '\n').replace(/ {2,}/g, ' ');
+      } else {
+        result.push({ type: 'text', text });
+      }
+    } else if (hasChildren(node)) {
+      const children = normalizeInlines(node.children);
+      if (children.length > 0) result.push({ ...node, children });
+    } else if (node.type === 'math') {
+      const tex = node.tex.trim();
+      if (tex) result.push({ type: 'math', tex });
+    } else if (node.type !== 'code' || node.text) {
+      result.push(node);
+    }
+  }
+  return result;
+}
+
+// Normalize and strip whitespace at both ends, as for a whole paragraph
+export function trimInlines(inlines: Inline[]): Inline[] {
+  const result = normalizeInlines(inlines);
+  const first = result[0];
+  if (first?.type === 'text') {
+    first.text = first.text.replace(/^\s+/, '');
+    if (!first.text) result.shift();
+  }
+  const last = result[result.length - 1];
+  if (last?.type === 'text') {
+    last.text = last.text.replace(/\s+$/, '');
+    if (!last.text) result.pop();
+  }
+  return result;
+}
+
+// Readable plain text; math keeps its TeX source and superscripts read as "10^9"
+export function inlineText(inlines: Inline[]): string {
+  return inlines
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'math':
+          return node.tex;
+        case 'image':
+          return node.alt;
+        case 'sup':
+          return `^${inlineText(node.children)}`;
+        case 'sub':
+          return `_${inlineText(node.children)}`;
+        default:
+          return inlineText(node.children);
+      }
+    })
+    .join('');
+}
+
+// Split on the line breaks of top-level text nodes
+export function splitLines(inlines: Inline[]): Inline[][] {
+  const lines: Inline[][] = [[]];
+  for (const node of inlines) {
+    if (node.type !== 'text') {
+      lines[lines.length - 1].push(node);
+      continue;
+    }
+    node.text.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: 'text', text: part });
+    });
+  }
+  return lines.map(trimInlines);
+}
+
+export function joinLines(lines: Inline[][]): Inline[] {
+  return trimInlines(lines.flatMap((line, i) => (i > 0 ? [{ type: 'text' as const, text: '\n' }, ...line] : line)));
+}
+
+/**
+ * Remove the first `length` characters of plain text from the start of a line,
+ * e.g. a "**Input:**" label, leaving the rest of the line's formatting intact.
+ */
+export function dropLeadingText(inlines: Inline[], length: number): Inline[] {
+  let remaining = length;
+  const result: Inline[] = [];
+  for (const node of inlines) {
+    if (remaining <= 0) {
+      result.push(node);
+      continue;
+    }
+    if (node.type === 'text' || node.type === 'code') {
+      if (node.text.length <= remaining) {
+        remaining -= node.text.length;
+      } else {
+        result.push({ ...node, text: node.text.slice(remaining) });
+        remaining = 0;
+      }
+    } else if (node.type === 'strong' || node.type === 'emphasis') {
+      const size = inlineText(node.children).length;
+      if (size <= remaining) {
+        remaining -= size;
+      } else {
+        result.push({ ...node, children: dropLeadingText(node.children, remaining) });
+        remaining = 0;
+      }
+    } else {
+      result.push(node);
+      remaining = 0;
+    }
+  }
+  return trimInlines(result);
+}
@@ -0,0 +1,406 @@
+/**
+ * Markdown Statements
+ *
+ * Import and export of Markdown with TeX math: `$...$` or `\(...\)` inline and
+ * `$$...$$` or `\[...\]` as display blocks. Covers the subset problem
+ * statements use (headings, paragraphs, lists, fenced code, emphasis, links,
+ * images and <sup>/<sub>); any other raw HTML is dropped, never passed through.
+ */
+import { statementOutline } from './assemble';
+import { inlineText, trimInlines } from './inline';
+import { sanitizeUrl } from './render';
+import type { Block, Inline, SourceBlock, Statement, StatementExample } from './types';
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+interface Scan {
+  node: Inline;
+  end: number;
+}
+
+// Index of the next `delimiter` at or after `from`, skipping backslash escapes
+function findClosing(text: string, delimiter: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text.startsWith(delimiter, i)) return i;
+  }
+  return -1;
+}
+
+function scanCode(text: string, start: number): Scan | null {
+  const run = text.slice(start).match(/^`+/)![0];
+  let i = start + run.length;
+  while (i < text.length) {
+    const next = text.indexOf(run, i);
+    if (next === -1) return null;
+    // The closing run must be exactly as long as the opening one
+    const after = text.slice(next).match(/^`+/)![0].length;
+    if (after === run.length) {
+      let code = text.slice(start + run.length, next).replace(/\n/g, ' ');
+      if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+      return { node: { type: 'code', text: code }, end: next + run.length };
+    }
+    i = next + after;
+  }
+  return null;
+}
+
+function scanMath(text: string, start: number): Scan | null {
+  if (text.startsWith('\\(', start)) {
+    const close = text.indexOf('\\)', start + 2);
+    return close === -1 ? null : { node: { type: 'math', tex: text.slice(start + 2, close) }, end: close + 2 };
+  }
+  if (text.startsWith('$$', start)) {
+    const close = text.indexOf('$$', start + 2);
+    return close <= start + 2 ? null : { node: { type: 'math', tex: text.slice(start + 2, close) }, end: close + 2 };
+  }
+  // Single dollars need non-space just inside and no digit right after, so "$5 and $10" stays text
+  if (/\s/.test(text[start + 1] ?? ' ')) return null;
+  for (let close = findClosing(text, '$', start + 1); close !== -1; close = findClosing(text, '$', close + 1)) {
+    if (/\s/.test(text[close - 1]) || /\d/.test(text[close + 1] ?? '')) continue;
+    return { node: { type: 'math', tex: text.slice(start + 1, close) }, end: close + 1 };
+  }
+  return null;
+}
+
+// [text](href) or ![alt](src)
+function scanLink(text: string, start: number): Scan | null {
+  const isImage = text[start] === '!';
+  const open = start + (isImage ? 1 : 0);
+  let depth = 0;
+  let close = -1;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      close = i;
+      break;
+    }
+  }
+  if (close === -1 || text[close + 1] !== '(') return null;
+  const target = text.slice(close + 2).match(/^\s*<?([^\s<>()]*)>?(?:\s+"[^"]*")?\s*\)/);
+  if (!target) return null;
+
+  // Unsafe targets keep only their text; links without a target are unwrapped on normalization
+  const label = parseMarkdownInline(text.slice(open + 1, close));
+  const end = close + 2 + target[0].length;
+  const url = sanitizeUrl(target[1], isImage ? 'image' : 'link');
+  if (isImage) {
+    return { node: url ? { type: 'image', src: url, alt: inlineText(label) } : { type: 'text', text: '' }, end };
+  }
+  return { node: { type: 'link', href: url ?? '', children: label }, end };
+}
+
+function scanEmphasis(text: string, start: number): Scan | null {
+  const char = text[start];
+  const size = text.startsWith(char.repeat(2), start) ? 2 : 1;
+  const delimiter = char.repeat(size);
+  const after = text[start + size];
+  if (!after || /\s/.test(after)) return null;
+  // Underscores inside words (snake_case) are literal
+  if (char === '_' && /\w/.test(text[start - 1] ?? '')) return null;
+
+  for (let close = findClosing(text, delimiter, start + size + 1); close !== -1; close = findClosing(text, delimiter, close + 1)) {
+    if (/\s/.test(text[close - 1])) continue;
+    if (size === 1 && (text[close + 1] === char || text[close - 1] === char)) continue;
+    if (char === '_' && /\w/.test(text[close + size] ?? '')) continue;
+    const children = parseMarkdownInline(text.slice(start + size, close));
+    return { node: { type: size === 2 ? 'strong' : 'emphasis', children }, end: close + size };
+  }
+  return null;
+}
+
+function attribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? match[1] ?? match[2] ?? match[3] : '';
+}
+
+// The few inline HTML tags statements use; everything else is dropped
+function scanTag(text: string, start: number): Scan | null {
+  const autolink = text.slice(start).match(/^<(https?:\/\/[^\s<>]+)>/i);
+  if (autolink) {
+    const href = autolink[1];
+    return { node: { type: 'link', href, children: [{ type: 'text', text: href }] }, end: start + autolink[0].length };
+  }
+
+  const tag = text.slice(start).match(/^<\/?([a-z][a-z0-9]*)\b[^<>]*>/i);
+  if (!tag) return null;
+  const name = tag[1].toLowerCase();
+  const end = start + tag[0].length;
+
+  if (name === 'br') return { node: { type: 'text', text: '\n' }, end };
+  if (name === 'img') {
+    return { node: { type: 'image', src: attribute(tag[0], 'src'), alt: attribute(tag[0], 'alt') }, end };
+  }
+  if ((name === 'sup' || name === 'sub') && !tag[0].startsWith('</')) {
+    const close = text.toLowerCase().indexOf(`</${name}>`, end);
+    if (close !== -1) {
+      return { node: { type: name, children: parseMarkdownInline(text.slice(end, close)) }, end: close + name.length + 3 };
+    }
+  }
+  return { node: { type: 'text', text: '' }, end };
+}
+
+export function parseMarkdownInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  let buffer = '';
+  const push = (node: Inline) => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    let scan: Scan | null = null;
+
+    if (char === '\\') {
+      if (text[i + 1] === '(') {
+        scan = scanMath(text, i);
+      } else if (text[i + 1] && ESCAPABLE.test(text[i + 1])) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+    } else if (char === '`') {
+      scan = scanCode(text, i);
+      if (!scan) {
+        const run = text.slice(i).match(/^`+/)![0];
+        buffer += run;
+        i += run.length;
+        continue;
+      }
+    } else if (char === '$') {
+      scan = scanMath(text, i);
+    } else if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      scan = scanLink(text, i);
+    } else if (char === '*' || char === '_') {
+      scan = scanEmphasis(text, i);
+    } else if (char === '<') {
+      scan = scanTag(text, i);
+    }
+
+    if (scan) {
+      push(scan.node);
+      i = scan.end;
+    } else {
+      buffer += char;
+      i += 1;
+    }
+  }
+  if (buffer) nodes.push({ type: 'text', text: buffer });
+  return trimInlines(nodes);
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+export function importMarkdown(source: string): SourceBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: SourceBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    const children = parseMarkdownInline(paragraph.join('\n'));
+    paragraph = [];
+    if (children.length > 0) blocks.push({ type: 'paragraph', children });
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flush();
+      i++;
+      continue;
+    }
+
+    const fence = trimmed.match(/^(`{3,}|~{3,})\s*([\w+#.-]*)/);
+    if (fence) {
+      flush();
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      const code: Block = { type: 'code', text: body.join('\n') };
+      if (fence[2]) code.language = fence[2].toLowerCase();
+      blocks.push(code);
+      continue;
+    }
+
+    const display = trimmed.match(/^(\$\$|\\\[)/);
+    if (display) {
+      flush();
+      const closing = display[1] === '$$' ? '$$' : '\\]';
+      const rest = trimmed.slice(2);
+      const sameLine = rest.indexOf(closing);
+      if (sameLine !== -1) {
+        blocks.push({ type: 'math', tex: rest.slice(0, sameLine).trim() });
+        i++;
+        continue;
+      }
+      const body = [rest];
+      i++;
+      while (i < lines.length && !lines[i].includes(closing)) body.push(lines[i++]);
+      if (i < lines.length) body.push(lines[i].slice(0, lines[i].indexOf(closing)));
+      i++;
+      const tex = body.join('\n').trim();
+      if (tex) blocks.push({ type: 'math', tex });
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)(?:\s+#+)?$/);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseMarkdownInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flush();
+      i++;
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flush();
+      const ordered = /\d/.test(item[2]);
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM);
+        if (current && /\d/.test(current[2]) === ordered) {
+          items.push([current[3]]);
+        } else if (!current && items.length > 0 && /^\s+\S/.test(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1].push(lines[i].trim());
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items: items.map(lines => parseMarkdownInline(lines.join('\n'))) });
+      continue;
+    }
+
+    paragraph.push(trimmed.replace(/^>\s?/, ''));
+    i++;
+  }
+  flush();
+  return blocks;
+}
+
+// --- Export ---
+
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_$[\]<>]/g, '\\$&');
+}
+
+function codeSpan(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const pad = /^[` ]|[` ]$/.test(text) ? ' ' : '';
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+function encodeUrl(url: string): string {
+  return url.replace(/[\s()<>]/g, char => encodeURIComponent(char));
+}
+
+export function inlinesToMarkdown(inlines: Inline[]): string {
+  return inlines
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return escapeText(node.text);
+        case 'code':
+          return codeSpan(node.text);
+        case 'math':
+          return `$${node.tex}$`;
+        case 'strong':
+          return `**${inlinesToMarkdown(node.children)}**`;
+        case 'emphasis':
+          return `*${inlinesToMarkdown(node.children)}*`;
+        case 'sup':
+        case 'sub':
+          return `<${node.type}>${inlinesToMarkdown(node.children)}</${node.type}>`;
+        case 'link':
+          return `[${inlinesToMarkdown(node.children)}](${encodeUrl(node.href)})`;
+        case 'image':
+          return `![${escapeText(node.alt)}](${encodeUrl(node.src)})`;
+      }
+    })
+    .join('');
+}
+
+// Escape what a line would otherwise start: headings, quotes, list markers, fences
+function escapeLineStarts(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^([#+\-~])/, '\\$1').replace(/^(\d+)([.)])/, '$1\\$2'))
+    .join('\n');
+}
+
+function codeFence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/^\s*`+/gm) ?? []).map(run => run.trim().length));
+  return '`'.repeat(longest + 1);
+}
+
+function blockToMarkdown(block: Block): string {
+  switch (block.type) {
+    case 'paragraph':
+      return escapeLineStarts(inlinesToMarkdown(block.children));
+    case 'code': {
+      const fence = codeFence(block.text);
+      return `${fence}${block.language ?? ''}\n${block.text}\n${fence}`;
+    }
+    case 'math':
+      return `$$\n${block.tex}\n$$`;
+    case 'list':
+      return block.items
+        .map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${escapeLineStarts(inlinesToMarkdown(item)).replace(/\n/g, '\n   ')}`)
+        .join('\n');
+  }
+}
+
+function exampleToMarkdown(example: StatementExample, index: number): string {
+  const parts = [
+    `### Example ${index + 1}`,
+    '**Input:**',
+    blockToMarkdown({ type: 'code', text: example.input }),
+    '**Output:**',
+    blockToMarkdown({ type: 'code', text: example.output }),
+  ];
+  if (example.explanation) parts.push(`**Explanation:** ${escapeLineStarts(inlinesToMarkdown(example.explanation))}`);
+  return parts.join('\n\n');
+}
+
+const SECTION_HEADINGS = { input: 'Input', output: 'Output', notes: 'Note', follow_up: 'Follow-up' } as const;
+
+export function statementToMarkdown(statement: Statement): string {
+  const parts: string[] = [];
+  if (statement.title) parts.push(`# ${escapeText(statement.title)}`);
+
+  for (const item of statementOutline(statement)) {
+    if (item.type === 'examples') {
+      parts.push(...statement.examples.map(exampleToMarkdown));
+    } else if (item.type === 'constraints') {
+      parts.push('## Constraints', blockToMarkdown({ type: 'list', ordered: false, items: statement.constraints }));
+    } else {
+      const { section } = item;
+      if (section.kind === 'other') parts.push(`## ${escapeText(section.title ?? '')}`);
+      else if (section.kind !== 'description') parts.push(`## ${SECTION_HEADINGS[section.kind]}`);
+      parts.push(...section.blocks.map(blockToMarkdown));
+    }
+  }
+  return parts.join('\n\n') + '\n';
+}
@@ -0,0 +1,140 @@
+/**
+ * Statement Renderer
+ *
+ * HTML for a Statement, safe to pass to dangerouslySetInnerHTML: every piece of
+ * text is escaped, URLs are limited to http(s), relative paths and inline
+ * images, and only the tags below are ever produced. Math renders through
+ * renderTex and keeps its source in data-tex, so importing the output as HTML
+ * gives back the same statement.
+ */
+import { statementOutline } from './assemble';
+import { renderTex } from './tex';
+import type { Block, Inline, Statement, StatementExample, StatementSection } from './types';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const SAFE_IMAGE_DATA = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]+$/i;
+
+/**
+ * The URL when it is safe to link to or load: http(s), protocol-relative and
+ * relative URLs, plus base64 raster images for `kind: 'image'`. Null otherwise.
+ */
+export function sanitizeUrl(url: string, kind: 'link' | 'image' = 'link'): string | null {
+  const trimmed = url.trim();
+  // Browsers ignore control characters and whitespace inside a scheme ("java\tscript:")
+  const compact = trimmed.replace(/[\u0000- ]/g, '');
+  if (!compact) return null;
+  if (kind === 'image' && SAFE_IMAGE_DATA.test(trimmed)) return trimmed;
+
+  const scheme = compact.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  if (scheme === undefined) return trimmed;
+  return scheme === 'http' || scheme === 'https' || (kind === 'link' && scheme === 'mailto') ? trimmed : null;
+}
+
+export function renderInlines(inlines: Inline[]): string {
+  return inlines
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.text).replace(/\n/g, '<br>');
+        case 'code':
+          return `<code>${escapeHtml(node.text)}</code>`;
+        case 'math':
+          return `<span class="math math-inline" data-tex="${escapeHtml(node.tex)}">${renderTex(node.tex)}</span>`;
+        case 'strong':
+          return `<strong>${renderInlines(node.children)}</strong>`;
+        case 'emphasis':
+          return `<em>${renderInlines(node.children)}</em>`;
+        case 'sup':
+        case 'sub':
+          return `<${node.type}>${renderInlines(node.children)}</${node.type}>`;
+        case 'link': {
+          const href = sanitizeUrl(node.href);
+          const children = renderInlines(node.children);
+          return href ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer nofollow">${children}</a>` : children;
+        }
+        case 'image': {
+          const src = sanitizeUrl(node.src, 'image');
+          return src ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(node.alt)}" loading="lazy" class="max-w-full">` : '';
+        }
+      }
+    })
+    .join('');
+}
+
+export function renderBlocks(blocks: Block[]): string {
+  return blocks
+    .map(block => {
+      switch (block.type) {
+        case 'paragraph':
+          return `<p>${renderInlines(block.children)}</p>`;
+        case 'code': {
+          const language = block.language && /^[\w+#-]+$/.test(block.language) ? ` class="language-${block.language}"` : '';
+          return `<pre><code${language}>${escapeHtml(block.text)}</code></pre>`;
+        }
+        case 'math':
+          return `<div class="math math-display" data-tex="${escapeHtml(block.tex)}">${renderTex(block.tex)}</div>`;
+        case 'list': {
+          const tag = block.ordered ? 'ol' : 'ul';
+          const style = block.ordered ? 'list-decimal' : 'list-disc';
+          return `<${tag} class="${style} pl-6">${block.items.map(item => `<li>${renderInlines(item)}</li>`).join('')}</${tag}>`;
+        }
+      }
+    })
+    .join('\n');
+}
+
+const SECTION_HEADINGS = { input: 'Input', output: 'Output', notes: 'Note:', follow_up: 'Follow-up:' } as const;
+
+function heading(text: string): string {
+  return `<h3 class="text-lg font-semibold mb-2">${escapeHtml(text)}</h3>`;
+}
+
+function renderSection(section: StatementSection): string {
+  const title = section.kind === 'description' ? null : section.kind === 'other' ? section.title ?? '' : SECTION_HEADINGS[section.kind];
+  return `<div class="mb-6">${title === null ? '' : heading(title)}${renderBlocks(section.blocks)}</div>`;
+}
+
+// Sections on their own, for pages that lay out examples and constraints themselves
+export function renderSections(sections: StatementSection[]): string {
+  return sections.map(renderSection).join('\n');
+}
+
+function renderExample(example: StatementExample, index: number): string {
+  const field = (label: string, value: string) =>
+    `<div class="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg mb-2"><p class="font-semibold">${label}:</p><pre class="whitespace-pre-wrap">${escapeHtml(value)}</pre></div>`;
+  const explanation = example.explanation
+    ? `<div class="mt-2"><p class="font-semibold">Explanation:</p><p>${renderInlines(example.explanation)}</p></div>`
+    : '';
+  return `<div class="mb-4">${heading(`Example ${index + 1}:`)}${field('Input', example.input)}${field('Output', example.output)}${explanation}</div>`;
+}
+
+/**
+ * Render a statement as HTML. The title is left out with `title: false`, for
+ * pages that show it in their own header.
+ */
+export function renderStatement(statement: Statement, options: { title?: boolean } = {}): string {
+  const parts: string[] = [];
+  if (statement.title && options.title !== false) {
+    parts.push(`<h1 class="text-2xl font-bold mb-4">${escapeHtml(statement.title)}</h1>`);
+  }
+
+  for (const item of statementOutline(statement)) {
+    if (item.type === 'examples') {
+      parts.push(`<div class="mb-6">${statement.examples.map(renderExample).join('')}</div>`);
+    } else if (item.type === 'constraints') {
+      const list = renderBlocks([{ type: 'list', ordered: false, items: statement.constraints }]);
+      parts.push(`<div class="mb-6">${heading('Constraints:')}${list}</div>`);
+    } else {
+      parts.push(renderSection(item.section));
+    }
+  }
+  return parts.join('\n');
+}
@@ -0,0 +1,136 @@
+// Small TeX-to-HTML converter for the math found in problem statements (bounds, powers, fractions, sets)
+
+const SYMBOLS: Record<string, string> = {
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠', lt: '<', gt: '>',
+  approx: '≈', equiv: '≡', sim: '∼', mid: '∣', in: '∈', notin: '∉',
+  subset: '⊂', subseteq: '⊆', supset: '⊃', supseteq: '⊇',
+  to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐', leftrightarrow: '↔',
+  Leftrightarrow: '⇔', implies: '⇒', iff: '⇔', mapsto: '↦',
+  times: '×', cdot: '·', div: '÷', pm: '±', mp: '∓', oplus: '⊕', otimes: '⊗', ast: '∗', circ: '∘',
+  land: '∧', wedge: '∧', lor: '∨', vee: '∨', neg: '¬', lnot: '¬', cup: '∪', cap: '∩', setminus: '∖',
+  ldots: '…', dots: '…', cdots: '⋯', vdots: '⋮', ddots: '⋱',
+  infty: '∞', emptyset: '∅', varnothing: '∅', forall: '∀', exists: '∃', partial: '∂', nabla: '∇',
+  sum: '∑', prod: '∏', int: '∫',
+  lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉', langle: '⟨', rangle: '⟩', vert: '|', lvert: '|', rvert: '|',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ',
+  sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  log: 'log', ln: 'ln', lg: 'lg', exp: 'exp', min: 'min', max: 'max', gcd: 'gcd', lcm: 'lcm',
+  sin: 'sin', cos: 'cos', tan: 'tan', mod: 'mod', bmod: 'mod', deg: 'deg', det: 'det', lim: 'lim',
+  quad: ' ', qquad: ' ', ' ': ' ', ',': ' ', ';': ' ', ':': ' ', '!': '',
+  '{': '{', '}': '}', '%': '%', '$': '$', '&': '&', '#': '#', '_': '_', '|': '‖', '\\': '\n',
+};
+
+// Spaced out like TeX's relations and binary operators
+const SPACED = new Set(['≤', '≥', '≠', '<', '>', '≈', '≡', '∼', '∈', '∉', '⊂', '⊆', '⊃', '⊇', '→', '←', '⇒', '⇐', '↔', '⇔', '↦', '×', '·', '÷', '±', '∓', '⊕', '⊗', '∧', '∨', '∪', '∩', '∖', 'mod']);
+
+// Commands whose argument is shown as is
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textit', 'textbf', 'texttt', 'mathrm', 'mathit', 'mathbf', 'mathtt', 'mathsf', 'mathcal', 'mathbb', 'operatorname', 'mbox', 'overline', 'bar', 'hat', 'tilde', 'vec', 'underline', 'boldsymbol']);
+
+// Sizing and delimiter hints that carry no content
+const IGNORED_COMMANDS = new Set(['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr', 'Bigl', 'Bigr', 'displaystyle', 'textstyle', 'limits', 'nolimits']);
+
+function escape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+class TexReader {
+  private pos = 0;
+
+  constructor(private tex: string) {}
+
+  get done(): boolean {
+    return this.pos >= this.tex.length;
+  }
+
+  // Render until the end of input or the closing brace of the current group
+  group(): string {
+    let html = '';
+    while (this.pos < this.tex.length) {
+      const char = this.tex[this.pos];
+      if (char === '}') {
+        this.pos++;
+        return html;
+      }
+      html += this.atom();
+    }
+    return html;
+  }
+
+  // One token: a group, a command with its arguments, a script or a character
+  atom(): string {
+    const char = this.tex[this.pos++];
+    if (char === undefined) return '';
+    if (char === '{') return this.group();
+    if (char === '^' || char === '_') {
+      const tag = char === '^' ? 'sup' : 'sub';
+      return `<${tag}>${this.argument()}</${tag}>`;
+    }
+    if (char === '~') return ' ';
+    if (char === '\\') return this.command();
+    return escape(char);
+  }
+
+  // A braced group or the next single token
+  argument(): string {
+    while (this.tex[this.pos] === ' ') this.pos++;
+    return this.atom();
+  }
+
+  // Raw text of the next braced argument, for \text and friends
+  rawArgument(): string {
+    while (this.tex[this.pos] === ' ') this.pos++;
+    if (this.tex[this.pos] !== '{') return this.atom();
+    let depth = 0;
+    const start = this.pos + 1;
+    for (; this.pos < this.tex.length; this.pos++) {
+      if (this.tex[this.pos] === '{') depth++;
+      else if (this.tex[this.pos] === '}' && --depth === 0) break;
+    }
+    return escape(this.tex.slice(start, this.pos++));
+  }
+
+  command(): string {
+    const name = this.tex.slice(this.pos).match(/^[a-zA-Z]+/)?.[0] ?? this.tex[this.pos] ?? '';
+    this.pos += name.length;
+    // A space after a command word only ends the word
+    if (/^[a-zA-Z]/.test(name) && this.tex[this.pos] === ' ') this.pos++;
+
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+      return `${wrap(this.argument())}/${wrap(this.argument())}`;
+    }
+    if (name === 'binom') return `C(${this.argument()}, ${this.argument()})`;
+    if (name === 'sqrt') {
+      let index = '';
+      if (this.tex[this.pos] === '[') {
+        const close = this.tex.indexOf(']', this.pos);
+        index = `<sup>${escape(this.tex.slice(this.pos + 1, close === -1 ? undefined : close))}</sup>`;
+        this.pos = close === -1 ? this.tex.length : close + 1;
+      }
+      return `${index}√${wrap(this.argument())}`;
+    }
+    if (TEXT_COMMANDS.has(name)) return name.startsWith('text') || name === 'mbox' || name === 'operatorname' ? this.rawArgument() : this.argument();
+    if (IGNORED_COMMANDS.has(name)) return '';
+
+    const symbol = Object.prototype.hasOwnProperty.call(SYMBOLS, name) ? SYMBOLS[name] : undefined;
+    if (symbol === undefined) return escape(name);
+    if (symbol === '\n') return '<br>';
+    return SPACED.has(symbol) ? ` ${escape(symbol)} ` : escape(symbol);
+  }
+}
+
+// Parenthesize compound fraction and root arguments
+function wrap(html: string): string {
+  const plain = html.replace(/<[^>]+>/g, '');
+  return /^[\w.]+$|^\(.*\)$/.test(plain) ? html : `(${html})`;
+}
+
+// HTML for a TeX snippet; all source text is escaped, so the output is safe to embed
+export function renderTex(tex: string): string {
+  const reader = new TexReader(tex);
+  let html = '';
+  // Unbalanced closing braces end a group early; keep reading past them
+  while (!reader.done) html += reader.group();
+  return html.replace(/ {2,}/g, ' ').trim();
+}
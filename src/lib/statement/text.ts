@@ -0,0 +1,99 @@
+// Plain-text import and export, for statements copied out of a rendered page
+import { isLabelText, statementOutline } from './assemble';
+import { inlineText } from './inline';
+import type { Block, SourceBlock, Statement, StatementExample } from './types';
+
+const BULLET_LINE = /^\s*[-*•·]\s+(.*)$/;
+
+// A short first line without sentence punctuation reads as the title
+function isTitleLine(line: string): boolean {
+  return line.length <= 80 && !/[.:;,!?]$/.test(line) && !BULLET_LINE.test(line) && !isLabelText(line);
+}
+
+export function importText(source: string): SourceBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: SourceBlock[] = [];
+  let paragraph: string[] = [];
+  let items: string[][] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: [{ type: 'text', text: paragraph.join('\n') }] });
+      paragraph = [];
+    }
+    if (items.length > 0) {
+      blocks.push({ type: 'list', ordered: false, items: items.map(item => [{ type: 'text', text: item.join('\n') }]) });
+      items = [];
+    }
+  };
+
+  let start = lines.findIndex(line => line.trim());
+  if (start === -1) return [];
+  const first = lines[start].trim();
+  if (isTitleLine(first) && lines.slice(start + 1).some(line => line.trim())) {
+    blocks.push({ type: 'heading', level: 1, children: [{ type: 'text', text: first }] });
+    start += 1;
+  }
+
+  for (const line of lines.slice(start)) {
+    const trimmed = line.trim();
+    const bullet = line.match(BULLET_LINE);
+    if (!trimmed) {
+      flush();
+    } else if (bullet) {
+      if (paragraph.length > 0) flush();
+      items.push([bullet[1]]);
+    } else if (items.length > 0 && /^\s/.test(line)) {
+      // Indented continuation of a bullet
+      items[items.length - 1].push(trimmed);
+    } else {
+      if (items.length > 0) flush();
+      paragraph.push(trimmed);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function blockToText(block: Block): string {
+  switch (block.type) {
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'code':
+      return block.text;
+    case 'math':
+      return block.tex;
+    case 'list':
+      return block.items
+        .map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${inlineText(item).replace(/\n/g, '\n  ')}`)
+        .join('\n');
+  }
+}
+
+function exampleToText(example: StatementExample, index: number): string {
+  const field = (label: string, value: string) => (value.includes('\n') ? `${label}:\n${value}` : `${label}: ${value}`);
+  const lines = [`Example ${index + 1}:`, field('Input', example.input), field('Output', example.output)];
+  if (example.explanation) lines.push(`Explanation: ${inlineText(example.explanation)}`);
+  return lines.join('\n');
+}
+
+const SECTION_LABELS = { input: 'Input', output: 'Output', notes: 'Note:', follow_up: 'Follow-up:' } as const;
+
+export function statementToText(statement: Statement): string {
+  const parts: string[] = [];
+  if (statement.title) parts.push(statement.title);
+
+  for (const item of statementOutline(statement)) {
+    if (item.type === 'examples') {
+      parts.push(...statement.examples.map(exampleToText));
+    } else if (item.type === 'constraints') {
+      parts.push(['Constraints:', ...statement.constraints.map(inlineText)].join('\n'));
+    } else {
+      const { section } = item;
+      if (section.kind === 'other') parts.push(section.title ?? '');
+      else if (section.kind !== 'description') parts.push(SECTION_LABELS[section.kind]);
+      parts.push(...section.blocks.map(blockToText));
+    }
+  }
+  return parts.filter(part => part.trim()).join('\n\n') + '\n';
+}
@@ -0,0 +1,45 @@
+// Structured problem statement shared by the HTML, Markdown and plain-text importers
+
+export type StatementFormat = 'html' | 'markdown' | 'text';
+
+// Paragraph text keeps its line breaks as "\n"; they render as <br>
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'emphasis' | 'sup' | 'sub'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'image'; src: string; alt: string };
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'list'; ordered: boolean; items: Inline[][] };
+
+export type SectionKind = 'description' | 'input' | 'output' | 'notes' | 'follow_up' | 'other';
+
+export interface StatementSection {
+  kind: SectionKind;
+  // Heading text of 'other' sections
+  title?: string;
+  blocks: Block[];
+}
+
+export interface StatementExample {
+  // Raw stdin-style text, exactly as shown in the statement
+  input: string;
+  output: string;
+  explanation?: Inline[];
+}
+
+export interface Statement {
+  title?: string;
+  sections: StatementSection[];
+  examples: StatementExample[];
+  // One entry per constraint line
+  constraints: Inline[][];
+}
+
+// Importer output before headings and labels are grouped into a Statement
+export type SourceBlock = Block | { type: 'heading'; level: number; children: Inline[] };
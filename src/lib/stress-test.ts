@@ -0,0 +1,158 @@
+/**
+ * Stress Test
+ *
+ * Differential testing of the user's code against the question's reference
+ * program (lib/reference-program). Small random inputs from the question's
+ * input generator (lib/benchmark) are run through both, smallest sizes first;
+ * the first disagreement is then minimized by searching more seeds at every
+ * smaller size, so the reported counterexample is as small as could be found.
+ */
+import { BenchmarkError, runGenerator, type BenchmarkGenerator } from '@/lib/benchmark';
+import type { ReferenceProgram } from '@/lib/reference-program';
+import { runCode, type CaseStatus, type SandboxLanguage, type TestCase } from '@/lib/sandbox/runner';
+
+export interface StressCounterexample {
+  n: number;
+  input: string;
+  // Reference program output
+  expected: string;
+  actual: string;
+  stderr: string;
+  status: Exclude<CaseStatus, 'passed'>;
+  // Size of the first failing input, before minimization
+  foundAtN: number;
+}
+
+export type StressVerdict = 'passed' | 'counterexample' | 'compile_error';
+
+export interface StressTestResult {
+  language: SandboxLanguage;
+  verdict: StressVerdict;
+  // Inputs both programs were compared on
+  rounds: number;
+  maxN: number;
+  counterexample: StressCounterexample | null;
+  message: string;
+  stderr?: string;
+}
+
+// Small inputs keep counterexamples readable; most bugs already show at these sizes
+const STRESS_SIZES = [1, 2, 3, 4, 5, 6, 8, 10];
+const SEEDS_PER_SIZE = 4;
+const MINIMIZE_SEEDS_PER_SIZE = 8;
+
+interface Round {
+  n: number;
+  input: string;
+  expected: string;
+}
+
+// Generate inputs and the reference output for each; inputs the reference rejects are skipped
+async function prepareRounds(
+  generator: BenchmarkGenerator,
+  reference: ReferenceProgram,
+  sizes: number[],
+  seedsPerSize: number
+): Promise<Round[]> {
+  const firstSeed = Math.floor(Math.random() * 1_000_000);
+  const requests = sizes.flatMap(n => Array.from({ length: seedsPerSize }, (_, i) => ({ n, seed: firstSeed + i })));
+  const inputs = await runGenerator(generator, requests);
+
+  const generated = requests
+    .map((request, i) => ({ n: request.n, input: inputs[i] }))
+    .filter((round): round is { n: number; input: string } => round.input !== null);
+  if (generated.length === 0) return [];
+
+  const run = await runCode(reference.code, reference.language, generated.map(round => ({ input: round.input, expected: '' })));
+  if (!run.compile.ok) throw new BenchmarkError('The reference solution does not compile');
+
+  return generated.flatMap((round, i) => {
+    const result = run.cases[i];
+    return result && (result.status === 'passed' || result.status === 'failed')
+      ? [{ ...round, expected: result.stdout }]
+      : [];
+  });
+}
+
+// Smallest input the user's code gets wrong, or null when it matches on every round
+async function findCounterexample(
+  code: string,
+  language: SandboxLanguage,
+  rounds: Round[]
+): Promise<{ compileError: string } | { counterexample: Omit<StressCounterexample, 'foundAtN'> | null }> {
+  const cases: TestCase[] = rounds.map(round => ({ input: round.input, expected: round.expected }));
+  const run = await runCode(code, language, cases);
+  if (!run.compile.ok) return { compileError: run.compile.stderr };
+
+  const failing = run.cases
+    .filter(result => result.status !== 'passed')
+    .map(result => ({ result, round: rounds[result.index] }))
+    .sort((a, b) => a.round.n - b.round.n || a.round.input.length - b.round.input.length)[0];
+  if (!failing) return { counterexample: null };
+
+  return {
+    counterexample: {
+      n: failing.round.n,
+      input: failing.round.input,
+      expected: failing.round.expected,
+      actual: failing.result.stdout,
+      stderr: failing.result.stderr,
+      status: failing.result.status as StressCounterexample['status'],
+    },
+  };
+}
+
+/**
+ * Compare `code` with the reference program on random inputs.
+ * Throws BenchmarkError when no usable inputs could be generated.
+ */
+export async function runStressTest(
+  code: string,
+  language: SandboxLanguage,
+  generator: BenchmarkGenerator,
+  reference: ReferenceProgram
+): Promise<StressTestResult> {
+  const sizes = STRESS_SIZES.filter(n => n <= generator.maxSize);
+  const rounds = await prepareRounds(generator, reference, sizes.length > 0 ? sizes : [generator.maxSize], SEEDS_PER_SIZE);
+  if (rounds.length === 0) throw new BenchmarkError('Could not generate inputs the reference solution accepts');
+
+  const maxN = Math.max(...rounds.map(round => round.n));
+  const base = { language, rounds: rounds.length, maxN };
+
+  const found = await findCounterexample(code, language, rounds);
+  if ('compileError' in found) {
+    return { ...base, verdict: 'compile_error', counterexample: null, message: 'Your code does not compile.', stderr: found.compileError };
+  }
+  if (!found.counterexample) {
+    return {
+      ...base,
+      verdict: 'passed',
+      counterexample: null,
+      message: `Your code matched the reference solution on ${rounds.length} random inputs (n up to ${maxN}).`,
+    };
+  }
+
+  // Look for a failure at a smaller size with fresh seeds
+  let counterexample: StressCounterexample = { ...found.counterexample, foundAtN: found.counterexample.n };
+  const smaller = sizes.filter(n => n < counterexample.n);
+  if (smaller.length > 0) {
+    const extra = await prepareRounds(generator, reference, smaller, MINIMIZE_SEEDS_PER_SIZE);
+    const minimized = extra.length > 0 ? await findCounterexample(code, language, extra) : null;
+    if (minimized && 'counterexample' in minimized && minimized.counterexample) {
+      counterexample = { ...minimized.counterexample, foundAtN: counterexample.foundAtN };
+    }
+  }
+
+  const n = counterexample.n;
+  const messages: Record<StressCounterexample['status'], string> = {
+    failed: `Your code gives a different answer than the reference solution on an input with n = ${n}.`,
+    runtime_error: `Your code crashes on an input with n = ${n} that the reference solution answers.`,
+    timeout: `Your code times out on an input with n = ${n} that the reference solution answers.`,
+  };
+  return {
+    ...base,
+    verdict: 'counterexample',
+    counterexample,
+    message: messages[counterexample.status],
+  };
+}
@@ -0,0 +1,123 @@
+// Test-case store for user questions, shared by the test-case API, the code runner and AI analysis
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseQuestionText } from '@/lib/question-formatter';
+import type { TestCase } from '@/lib/sandbox/types';
+
+export type TestCaseSource = 'example' | 'custom' | 'ai';
+
+export interface QuestionTestCase {
+  id: string;
+  question_id: string;
+  user_id: string;
+  input: string;
+  expected: string;
+  explanation: string | null;
+  source: TestCaseSource;
+  prompt_version: string | null;
+  enabled: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TestCaseQuestion {
+  id: string;
+  user_id: string;
+  question: string;
+  test_cases_seeded_at?: string | null;
+}
+
+export const MAX_TEST_CASES_PER_QUESTION = 50;
+
+/**
+ * Load a question's test cases. The first time a question is opened its statement
+ * examples are imported, after that the stored cases are the source of truth.
+ */
+export async function listTestCases(
+  supabase: SupabaseClient,
+  question: TestCaseQuestion
+): Promise<QuestionTestCase[]> {
+  if (!question.test_cases_seeded_at) {
+    // Claim the seed first so concurrent first loads insert the examples only once
+    const { data: claimed, error: claimError } = await supabase
+      .from('questions_user')
+      .update({ test_cases_seeded_at: new Date().toISOString() })
+      .eq('id', question.id)
+      .is('test_cases_seeded_at', null)
+      .select('id');
+    if (claimError) throw new Error(`Failed to claim test case seeding: ${claimError.message}`);
+
+    const examples = claimed && claimed.length > 0 ? parseQuestionText(question.question || '').examples : [];
+    if (examples.length > 0) {
+      const { error: insertError } = await supabase.from('question_test_cases').insert(
+        examples.map((example, index) => ({
+          question_id: question.id,
+          user_id: question.user_id,
+          input: example.input,
+          expected: example.output,
+          explanation: example.explanation || null,
+          source: 'example',
+          position: index,
+        }))
+      );
+      if (insertError) {
+        // Release the claim so the next load can try again
+        await supabase.from('questions_user').update({ test_cases_seeded_at: null }).eq('id', question.id);
+        throw new Error(`Failed to seed test cases: ${insertError.message}`);
+      }
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('question_test_cases')
+    .select('*')
+    .eq('question_id', question.id)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to load test cases: ${error.message}`);
+  return (data || []) as QuestionTestCase[];
+}
+
+// Enabled cases in the shape the code runner expects
+export async function getRunnableCases(
+  supabase: SupabaseClient,
+  question: TestCaseQuestion
+): Promise<TestCase[]> {
+  const cases = await listTestCases(supabase, question);
+  return cases
+    .filter(c => c.enabled)
+    .map(c => ({ input: c.input, expected: c.expected }));
+}
+
+export async function addTestCases(
+  supabase: SupabaseClient,
+  question: TestCaseQuestion,
+  cases: { input: string; expected: string; explanation?: string | null }[],
+  source: TestCaseSource,
+  // Prompt template version, for AI-generated cases
+  promptVersion?: string
+): Promise<QuestionTestCase[]> {
+  const existing = await listTestCases(supabase, question);
+  if (existing.length + cases.length > MAX_TEST_CASES_PER_QUESTION) {
+    throw new Error(`A question can have at most ${MAX_TEST_CASES_PER_QUESTION} test cases`);
+  }
+
+  const nextPosition = existing.reduce((max, c) => Math.max(max, c.position), -1) + 1;
+  const { data, error } = await supabase
+    .from('question_test_cases')
+    .insert(cases.map((c, index) => ({
+      question_id: question.id,
+      user_id: question.user_id,
+      input: c.input,
+      expected: c.expected,
+      explanation: c.explanation || null,
+      source,
+      prompt_version: promptVersion ?? null,
+      position: nextPosition + index,
+    })))
+    .select('*');
+
+  if (error) throw new Error(`Failed to add test cases: ${error.message}`);
+  return (data || []) as QuestionTestCase[];
+}
@@ -0,0 +1,49 @@
+/**
+ * Verify Reference Job
+ *
+ * Background check queued after a question is processed: wraps the stored
+ * optimal solution into a runnable reference program and runs it on the
+ * statement's examples, flagging solutions that disagree with their own
+ * examples on the question (see lib/reference-program).
+ */
+import type { JobHandler } from '@/lib/jobs';
+import {
+  getReferenceProgram,
+  ReferenceError,
+  REFERENCE_QUESTION_COLUMNS,
+  verifyReference,
+  type ReferenceQuestion,
+} from '@/lib/reference-program';
+import { SandboxError } from '@/lib/sandbox/runner';
+
+export const verifyReferenceJob: JobHandler = async (admin, job) => {
+  const questionId = job.question_id;
+  if (!questionId) {
+    return { status: 'failed', error: 'Job has no question', retryable: false };
+  }
+
+  const { data: question, error: questionError } = await admin
+    .from('questions_user')
+    .select(REFERENCE_QUESTION_COLUMNS)
+    .eq('id', questionId)
+    .single();
+
+  if (questionError || !question) {
+    return { status: 'failed', error: `Question not found: ${questionError?.message ?? questionId}`, retryable: false };
+  }
+
+  try {
+    const program = await getReferenceProgram(admin, question as ReferenceQuestion);
+    const verification = await verifyReference(admin, question as ReferenceQuestion, program);
+    if (verification.status === 'failed') {
+      console.warn(`Reference solution for question ${questionId} fails ${verification.total - verification.passed}/${verification.total} examples`);
+    }
+    return { status: 'succeeded', result: { status: verification.status, passed: verification.passed, total: verification.total } };
+  } catch (error) {
+    // Nothing to verify, or no toolchain to run it with: retrying will not help
+    if (error instanceof ReferenceError || (error instanceof SandboxError && error.kind !== 'busy')) {
+      return { status: 'failed', error: error.message, retryable: false };
+    }
+    throw error;
+  }
+};
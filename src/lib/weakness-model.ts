@@ -0,0 +1,384 @@
+/**
+ * Weakness Model
+ *
+ * Classifies the mistakes in a user's collaborator attempts and chat history,
+ * then aggregates them per topic tag so hints and recommendations can focus on
+ * the areas the user struggles with most.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StoredAttempts } from '@/lib/attempt-history';
+import { extractJson } from '@/lib/gemini-api';
+import { getLLMProvider, type LLMMessage, type LLMVendor } from '@/lib/llm/provider';
+import { renderPrompt, type RenderedPrompt } from '@/lib/prompts/registry';
+import type { ValidationResult } from '@/lib/solution-schema';
+
+export type MistakeCategory = 'off_by_one' | 'wrong_complexity' | 'missed_edge_case' | 'wrong_data_structure';
+
+export const MISTAKE_CATEGORIES: MistakeCategory[] = ['off_by_one', 'wrong_complexity', 'missed_edge_case', 'wrong_data_structure'];
+
+export const MISTAKE_LABELS: Record<MistakeCategory, string> = {
+  off_by_one: 'Off-by-one errors',
+  wrong_complexity: 'Wrong time complexity',
+  missed_edge_case: 'Missed edge cases',
+  wrong_data_structure: 'Wrong data structure',
+};
+
+export interface ClassifiedMistake {
+  category: MistakeCategory;
+  evidence: string;
+}
+
+// What the mistakeClassification prompt must return
+export interface MistakeClassification {
+  tags: string[];
+  mistakes: ClassifiedMistake[];
+}
+
+export interface QuestionAnalysis {
+  question_id: string;
+  signature: string;
+  tags: string[];
+  mistakes: ClassifiedMistake[];
+  analyzed_at: string;
+  // Prompt template version the analysis was produced with
+  prompt_version?: string | null;
+}
+
+export interface WeaknessRow {
+  tag: string;
+  category: MistakeCategory;
+  mistake_count: number;
+  question_count: number;
+  score: number;
+  last_seen_at: string | null;
+}
+
+export interface WeakSpot {
+  tag: string;
+  score: number;
+  question_count: number;
+  mistakes: Partial<Record<MistakeCategory, number>>;
+}
+
+interface AttemptSource {
+  id: string;
+  title: string;
+  question: string;
+  chat: { role: string; content: string }[] | null;
+  collaborator_chat: string[] | null;
+  tdiff: StoredAttempts | null;
+}
+
+// Vendor used for classification; shares the question-processing vendor setting
+const ANALYSIS_VENDOR = (process.env.QUESTION_LLM_VENDOR as LLMVendor) || 'gemini';
+
+// Keep each classification prompt bounded
+const MAX_ATTEMPTS_IN_PROMPT = 4;
+const MAX_CHAT_MESSAGES_IN_PROMPT = 8;
+const MAX_SECTION_CHARS = 1500;
+// Times the model is asked to fix output that fails validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const truncate = (text: string, max = MAX_SECTION_CHARS) =>
+  text.length > max ? `${text.slice(0, max)}\n...[truncated]` : text;
+
+// Changes whenever a new attempt or chat message is saved for the question
+function attemptSignature(question: AttemptSource): string {
+  return `${Object.keys(question.tdiff || {}).length}:${(question.chat || []).length}`;
+}
+
+function hasAttemptData(question: AttemptSource): boolean {
+  return Object.keys(question.tdiff || {}).length > 0
+    || (question.chat || []).some(message => message.role === 'user');
+}
+
+function normalizeTag(tag: string): string {
+  return tag.toLowerCase().replace(/[^a-z0-9+ -]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function buildClassificationPrompt(question: AttemptSource): RenderedPrompt {
+  const attempts = Object.keys(question.tdiff || {})
+    .sort((a, b) => Number(a) - Number(b))
+    .slice(-MAX_ATTEMPTS_IN_PROMPT)
+    .map(key => {
+      const attempt = question.tdiff?.[key];
+      return `Attempt ${Number(key) + 1} code:\n${truncate(attempt?.usercodediff || '')}\nReviewer feedback:\n${truncate(attempt?.llmreason || 'none')}`;
+    })
+    .join('\n\n');
+
+  const userMessages = (question.chat || [])
+    .filter(message => message.role === 'user')
+    .slice(-MAX_CHAT_MESSAGES_IN_PROMPT)
+    .map(message => `- ${truncate(message.content, 400)}`)
+    .join('\n');
+
+  return renderPrompt('mistakeClassification', {
+    title: question.title,
+    question: truncate(question.question || '') || '(no statement)',
+    attempts: attempts ? `Code attempts:\n${attempts}` : 'No code attempts.',
+    chatQuestions: userMessages ? `Questions the student asked the tutor:\n${userMessages}` : 'No tutor questions.',
+  });
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Strictly validate parsed mistakeClassification output. Errors are phrased so
+ * they can be sent back to the model in a repair prompt.
+ */
+export function validateMistakeClassification(value: unknown): ValidationResult<MistakeClassification> {
+  if (!isObject(value)) {
+    return { ok: false, errors: ['response must be a JSON object with tags and mistakes'] };
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(value.tags)) {
+    errors.push('tags must be an array of strings');
+  } else {
+    value.tags.forEach((tag, i) => {
+      if (typeof tag !== 'string' || !normalizeTag(tag)) errors.push(`tags[${i}] must be a non-empty topic name`);
+    });
+  }
+
+  if (!Array.isArray(value.mistakes)) {
+    errors.push('mistakes must be an array (empty when there are none)');
+  } else {
+    value.mistakes.forEach((mistake, i) => {
+      if (!isObject(mistake)) {
+        errors.push(`mistakes[${i}] must be an object with category and evidence`);
+        return;
+      }
+      if (!MISTAKE_CATEGORIES.includes(mistake.category as MistakeCategory)) {
+        errors.push(`mistakes[${i}].category must be one of: ${MISTAKE_CATEGORIES.join(', ')}`);
+      }
+      if (typeof mistake.evidence !== 'string') errors.push(`mistakes[${i}].evidence must be a string`);
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  // Re-build the output so unexpected extra keys are not persisted
+  const tags = (value.tags as string[]).map(normalizeTag).slice(0, 3);
+  const mistakes = (value.mistakes as ClassifiedMistake[]).map(mistake => ({ category: mistake.category, evidence: mistake.evidence }));
+  return { ok: true, value: { tags: tags.length > 0 ? tags : ['general'], mistakes } };
+}
+
+function validateClassificationResponse(response: string): ValidationResult<MistakeClassification> {
+  try {
+    return validateMistakeClassification(extractJson(response));
+  } catch (error) {
+    return { ok: false, errors: [`response is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+  }
+}
+
+/**
+ * Classify the mistakes for a single question with the LLM
+ */
+export async function classifyQuestionMistakes(
+  question: AttemptSource
+): Promise<MistakeClassification & { promptVersion: string }> {
+  const provider = getLLMProvider(ANALYSIS_VENDOR);
+  const prompt = buildClassificationPrompt(question);
+
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt.text }];
+  let result = await provider.chat(messages, { temperature: 0.1 });
+  let validation = validateClassificationResponse(result.content);
+
+  // Repair pass: show the model its own output and the exact validation errors
+  for (let attempt = 1; !validation.ok && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`Mistake classification failed validation (repair ${attempt}/${MAX_REPAIR_ATTEMPTS}):`, validation.errors);
+    messages.push(
+      { role: 'assistant', content: result.content },
+      {
+        role: 'user',
+        content: `Your response does not match the required JSON format. Fix these problems:\n${validation.errors.map(e => `- ${e}`).join('\n')}\n\nRespond with the complete corrected JSON object only.`,
+      }
+    );
+    result = await provider.chat(messages, { temperature: 0.1 });
+    validation = validateClassificationResponse(result.content);
+  }
+
+  if (!validation.ok) {
+    throw new Error(`Mistake classification failed validation: ${validation.errors.slice(0, 5).join('; ')}`);
+  }
+  return { ...validation.value, promptVersion: prompt.version };
+}
+
+/**
+ * Roll per-question analyses up into per-tag, per-category weaknesses.
+ * The score is the share of a tag's questions that showed the mistake, weighted
+ * by how many times it happened, so one bad problem does not dominate.
+ */
+export function aggregateWeaknesses(analyses: QuestionAnalysis[]): WeaknessRow[] {
+  const questionsPerTag = new Map<string, number>();
+  const rows = new Map<string, WeaknessRow & { questions: Set<string> }>();
+
+  for (const analysis of analyses) {
+    for (const tag of analysis.tags) {
+      questionsPerTag.set(tag, (questionsPerTag.get(tag) || 0) + 1);
+
+      for (const mistake of analysis.mistakes) {
+        const key = `${tag}\u0000${mistake.category}`;
+        const row = rows.get(key) || {
+          tag,
+          category: mistake.category,
+          mistake_count: 0,
+          question_count: 0,
+          score: 0,
+          last_seen_at: null,
+          questions: new Set<string>(),
+        };
+        row.mistake_count++;
+        row.questions.add(analysis.question_id);
+        if (!row.last_seen_at || analysis.analyzed_at > row.last_seen_at) {
+          row.last_seen_at = analysis.analyzed_at;
+        }
+        rows.set(key, row);
+      }
+    }
+  }
+
+  return Array.from(rows.values()).map(({ questions, ...row }) => {
+    const tagQuestions = questionsPerTag.get(row.tag) || 1;
+    return {
+      ...row,
+      question_count: tagQuestions,
+      score: Number(((questions.size / tagQuestions) * Math.log2(1 + row.mistake_count)).toFixed(3)),
+    };
+  });
+}
+
+/**
+ * Group weakness rows by tag, strongest weakness first
+ */
+export function toWeakSpots(rows: WeaknessRow[]): WeakSpot[] {
+  const spots = new Map<string, WeakSpot>();
+  for (const row of rows) {
+    const spot = spots.get(row.tag) || { tag: row.tag, score: 0, question_count: row.question_count, mistakes: {} };
+    spot.score = Number((spot.score + Number(row.score)).toFixed(3));
+    spot.mistakes[row.category] = row.mistake_count;
+    spots.set(row.tag, spot);
+  }
+  return Array.from(spots.values()).sort((a, b) => b.score - a.score);
+}
+
+export async function getWeakSpots(supabase: SupabaseClient, userId: string): Promise<WeakSpot[]> {
+  const { data, error } = await supabase
+    .from('user_weaknesses')
+    .select('tag, category, mistake_count, question_count, score, last_seen_at')
+    .eq('user_id', userId)
+    .order('score', { ascending: false });
+
+  if (error) throw new Error(`Failed to load weaknesses: ${error.message}`);
+  return toWeakSpots((data || []) as WeaknessRow[]);
+}
+
+/**
+ * One-paragraph summary of the user's weak spots for tutor prompts
+ */
+export function weaknessPromptContext(spots: WeakSpot[], limit = 3): string {
+  if (spots.length === 0) return '';
+  const lines = spots.slice(0, limit).map(spot => {
+    const mistakes = (Object.entries(spot.mistakes) as [MistakeCategory, number][])
+      .sort((a, b) => b[1] - a[1])
+      .map(([category, count]) => `${MISTAKE_LABELS[category].toLowerCase()} (${count}x)`)
+      .join(', ');
+    return `- ${spot.tag}: ${mistakes}`;
+  });
+  return `The student has a history of these mistakes, so nudge them to double-check these areas:\n${lines.join('\n')}`;
+}
+
+/**
+ * weaknessPromptContext for a user's stored weak spots. Prompts work without
+ * it, so a failure to load is logged and yields an empty context.
+ */
+export async function loadWeaknessPromptContext(supabase: SupabaseClient, userId: string): Promise<string> {
+  try {
+    return weaknessPromptContext(await getWeakSpots(supabase, userId));
+  } catch (error) {
+    console.error(`Failed to load weak spots for user ${userId}:`, error);
+    return '';
+  }
+}
+
+/**
+ * Re-classify the user's questions that have new attempts since their last analysis,
+ * then rebuild the aggregated weaknesses.
+ * @param maxQuestions Cap on LLM classifications per run; the rest are picked up next time
+ */
+export async function refreshUserWeaknesses(
+  supabase: SupabaseClient,
+  userId: string,
+  maxQuestions = 10
+): Promise<{ analyzed: number; pending: number; weakSpots: WeakSpot[] }> {
+  const { data: questions, error: questionsError } = await supabase
+    .from('questions_user')
+    .select('id, title, question, chat, collaborator_chat, tdiff')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (questionsError) throw new Error(`Failed to load questions: ${questionsError.message}`);
+
+  const { data: existing, error: analysesError } = await supabase
+    .from('question_mistake_analyses')
+    .select('question_id, signature, tags, mistakes, analyzed_at')
+    .eq('user_id', userId);
+
+  if (analysesError) throw new Error(`Failed to load analyses: ${analysesError.message}`);
+
+  const analyses = new Map<string, QuestionAnalysis>(
+    ((existing || []) as QuestionAnalysis[]).map(a => [a.question_id, a])
+  );
+
+  const stale = ((questions || []) as AttemptSource[]).filter(question =>
+    hasAttemptData(question) && analyses.get(question.id)?.signature !== attemptSignature(question)
+  );
+
+  let analyzed = 0;
+  for (const question of stale.slice(0, maxQuestions)) {
+    try {
+      const { tags, mistakes, promptVersion } = await classifyQuestionMistakes(question);
+      const analysis: QuestionAnalysis = {
+        question_id: question.id,
+        signature: attemptSignature(question),
+        tags,
+        mistakes,
+        analyzed_at: new Date().toISOString(),
+        prompt_version: promptVersion,
+      };
+
+      const { error: upsertError } = await supabase
+        .from('question_mistake_analyses')
+        .upsert({ user_id: userId, ...analysis }, { onConflict: 'user_id,question_id' });
+      if (upsertError) throw new Error(upsertError.message);
+
+      analyses.set(question.id, analysis);
+      analyzed++;
+    } catch (error) {
+      // Leave the question stale so the next run retries it
+      console.error(`Failed to classify mistakes for question ${question.id}:`, error);
+    }
+  }
+
+  // Drop analyses for deleted questions before aggregating
+  const questionIds = new Set((questions || []).map(q => q.id));
+  const rows = aggregateWeaknesses(Array.from(analyses.values()).filter(a => questionIds.has(a.question_id)));
+
+  const { error: deleteError } = await supabase.from('user_weaknesses').delete().eq('user_id', userId);
+  if (deleteError) throw new Error(`Failed to reset weaknesses: ${deleteError.message}`);
+
+  if (rows.length > 0) {
+    const now = new Date().toISOString();
+    const { error: insertError } = await supabase
+      .from('user_weaknesses')
+      .insert(rows.map(row => ({ user_id: userId, ...row, updated_at: now })));
+    if (insertError) throw new Error(`Failed to save weaknesses: ${insertError.message}`);
+  }
+
+  return {
+    analyzed,
+    pending: Math.max(stale.length - analyzed, 0),
+    weakSpots: toWeakSpots(rows),
+  };
+}
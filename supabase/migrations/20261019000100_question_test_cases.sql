@@ -0,0 +1,29 @@
+-- Structured test cases per user question, seeded from the statement's examples
+create table if not exists public.question_test_cases (
+  id uuid primary key default gen_random_uuid(),
+  question_id uuid not null references public.questions_user(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  input text not null,
+  expected text not null,
+  explanation text,
+  source text not null default 'custom' check (source in ('example', 'custom', 'ai')),
+  enabled boolean not null default true,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists question_test_cases_question_idx
+  on public.question_test_cases (question_id, position);
+
+-- Set once examples have been imported so deleting them does not trigger a re-seed
+alter table public.questions_user
+  add column if not exists test_cases_seeded_at timestamptz;
+
+alter table public.question_test_cases enable row level security;
+
+create policy "Users manage their own test cases"
+  on public.question_test_cases
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
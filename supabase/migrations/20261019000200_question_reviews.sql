@@ -0,0 +1,46 @@
+-- Spaced-repetition state per user and question
+create table if not exists public.question_reviews (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  question_id uuid not null references public.questions_user(id) on delete cascade,
+  ease_factor numeric(4, 2) not null default 2.5,
+  interval_days integer not null default 0,
+  repetitions integer not null default 0,
+  lapses integer not null default 0,
+  due_at timestamptz not null default now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (user_id, question_id)
+);
+
+create index if not exists question_reviews_due_idx
+  on public.question_reviews (user_id, due_at);
+
+-- Every self-rated attempt, kept for history and analytics
+create table if not exists public.review_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  question_id uuid not null references public.questions_user(id) on delete cascade,
+  rating text not null check (rating in ('again', 'hard', 'good', 'easy')),
+  quality smallint not null,
+  interval_days integer not null,
+  ease_factor numeric(4, 2) not null,
+  reviewed_at timestamptz not null default now()
+);
+
+create index if not exists review_attempts_question_idx
+  on public.review_attempts (user_id, question_id, reviewed_at desc);
+
+alter table public.question_reviews enable row level security;
+alter table public.review_attempts enable row level security;
+
+create policy "Users manage their own reviews"
+  on public.question_reviews
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their own review attempts"
+  on public.review_attempts
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
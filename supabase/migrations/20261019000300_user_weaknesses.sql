@@ -0,0 +1,42 @@
+-- Mistake classification per question, recomputed only when new attempts or chat arrive
+create table if not exists public.question_mistake_analyses (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  question_id uuid not null references public.questions_user(id) on delete cascade,
+  -- Attempt and chat counts the analysis was computed from, used to skip unchanged questions
+  signature text not null,
+  tags text[] not null default '{}',
+  mistakes jsonb not null default '[]',
+  analyzed_at timestamptz not null default now(),
+  primary key (user_id, question_id)
+);
+
+-- Aggregated weak spots per topic tag and mistake category
+create table if not exists public.user_weaknesses (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  tag text not null,
+  category text not null check (category in ('off_by_one', 'wrong_complexity', 'missed_edge_case', 'wrong_data_structure')),
+  mistake_count integer not null default 0,
+  question_count integer not null default 0,
+  score numeric(6, 3) not null default 0,
+  last_seen_at timestamptz,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, tag, category)
+);
+
+create index if not exists user_weaknesses_score_idx
+  on public.user_weaknesses (user_id, score desc);
+
+alter table public.question_mistake_analyses enable row level security;
+alter table public.user_weaknesses enable row level security;
+
+create policy "Users manage their own mistake analyses"
+  on public.question_mistake_analyses
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their own weaknesses"
+  on public.user_weaknesses
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
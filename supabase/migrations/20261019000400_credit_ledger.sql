@@ -0,0 +1,99 @@
+-- Append-only record of every credit change. users.credits is kept as a cached
+-- copy of the ledger sum and is only written by apply_credit_entry below.
+create table if not exists public.credit_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- Positive for grants and refunds, negative for debits
+  amount integer not null check (amount <> 0),
+  reason text not null check (reason in ('opening_balance', 'purchase', 'question_processing', 'refund', 'adjustment')),
+  -- e.g. payment:<razorpay_payment_id>, question:<question_id>#<attempt>
+  idempotency_key text not null unique,
+  -- Payment id, question id or the ledger entry a refund reverses
+  reference_id text,
+  metadata jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_ledger_user_idx
+  on public.credit_ledger (user_id, created_at desc);
+
+create index if not exists credit_ledger_reference_idx
+  on public.credit_ledger (user_id, reference_id);
+
+alter table public.credit_ledger enable row level security;
+
+-- Users can read their history; all writes go through apply_credit_entry
+create policy "Users read their own credit ledger"
+  on public.credit_ledger
+  for select
+  using (auth.uid() = user_id);
+
+-- Seed the ledger with balances that existed before it
+insert into public.credit_ledger (user_id, amount, reason, idempotency_key)
+select u.id, u.credits, 'opening_balance', 'opening:' || u.id
+from public.users u
+where coalesce(u.credits, 0) <> 0
+on conflict (idempotency_key) do nothing;
+
+-- Apply one ledger entry atomically. Returns:
+--   applied      the entry was written and users.credits updated
+--   duplicate    an entry with this idempotency key already exists, nothing changed
+--   insufficient a debit would take the balance below zero, nothing changed
+create or replace function public.apply_credit_entry(
+  p_user_id uuid,
+  p_amount integer,
+  p_reason text,
+  p_idempotency_key text,
+  p_reference_id text default null,
+  p_metadata jsonb default '{}'
+)
+returns table (entry_id uuid, status text, balance integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_existing public.credit_ledger%rowtype;
+  v_balance integer;
+  v_entry_id uuid;
+begin
+  -- Lock the user row so concurrent entries for the same user are serialized
+  perform 1 from public.users where id = p_user_id for update;
+  if not found then
+    raise exception 'User % not found', p_user_id using errcode = 'P0002';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_balance
+  from public.credit_ledger
+  where user_id = p_user_id;
+
+  select * into v_existing
+  from public.credit_ledger
+  where idempotency_key = p_idempotency_key;
+
+  if found then
+    if v_existing.user_id <> p_user_id then
+      raise exception 'Idempotency key % belongs to another user', p_idempotency_key;
+    end if;
+    return query select v_existing.id, 'duplicate'::text, v_balance;
+    return;
+  end if;
+
+  if p_amount < 0 and v_balance + p_amount < 0 then
+    return query select null::uuid, 'insufficient'::text, v_balance;
+    return;
+  end if;
+
+  insert into public.credit_ledger (user_id, amount, reason, idempotency_key, reference_id, metadata)
+  values (p_user_id, p_amount, p_reason, p_idempotency_key, p_reference_id, coalesce(p_metadata, '{}'))
+  returning id into v_entry_id;
+
+  v_balance := v_balance + p_amount;
+  update public.users set credits = v_balance where id = p_user_id;
+
+  return query select v_entry_id, 'applied'::text, v_balance;
+end;
+$$;
+
+revoke execute on function public.apply_credit_entry(uuid, integer, text, text, text, jsonb) from public, anon, authenticated;
+grant execute on function public.apply_credit_entry(uuid, integer, text, text, text, jsonb) to service_role;
@@ -0,0 +1,7 @@
+-- Outcome of the last AI processing run for a question.
+-- 'degraded' means the credit debited for the run is held for a free retry.
+alter table public.questions_user
+  add column if not exists processing_status text
+    check (processing_status in ('processing', 'success', 'degraded', 'failed')),
+  add column if not exists processing_reason text,
+  add column if not exists processing_updated_at timestamptz;
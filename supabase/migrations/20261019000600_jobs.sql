@@ -0,0 +1,72 @@
+-- Persistent background jobs, run by /api/jobs/worker
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  type text not null check (type in ('process_question')),
+  question_id uuid references public.questions_user(id) on delete cascade,
+  payload jsonb not null default '{}',
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 4,
+  -- Earliest time the next attempt may start, pushed back after each failure
+  run_after timestamptz not null default now(),
+  locked_at timestamptz,
+  last_error text,
+  result jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists jobs_pending_idx
+  on public.jobs (run_after)
+  where status in ('queued', 'running');
+
+create index if not exists jobs_user_idx
+  on public.jobs (user_id, created_at desc);
+
+-- At most one active job of each type per question
+create unique index if not exists jobs_active_question_idx
+  on public.jobs (question_id, type)
+  where status in ('queued', 'running');
+
+alter table public.jobs enable row level security;
+
+-- Users can watch their jobs; jobs are created and updated with the service role
+create policy "Users read their own jobs"
+  on public.jobs
+  for select
+  using (auth.uid() = user_id);
+
+-- Lets the upload screen and problem list subscribe to job changes
+alter publication supabase_realtime add table public.jobs;
+
+-- Claim up to p_limit due jobs for a worker. Jobs left running longer than
+-- p_lock_timeout (the worker died) are claimed again; each claim counts as an attempt.
+create or replace function public.claim_jobs(p_limit integer, p_lock_timeout interval default interval '10 minutes')
+returns setof public.jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  update public.jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = now(),
+      updated_at = now()
+  where j.id in (
+    select id from public.jobs
+    where (status = 'queued' and run_after <= now())
+       or (status = 'running' and locked_at < now() - p_lock_timeout)
+    order by run_after
+    limit p_limit
+    for update skip locked
+  )
+  returning j.*;
+end;
+$$;
+
+revoke execute on function public.claim_jobs(integer, interval) from public, anon, authenticated;
+grant execute on function public.claim_jobs(integer, interval) to service_role;
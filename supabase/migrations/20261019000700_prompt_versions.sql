@@ -0,0 +1,8 @@
+-- Prompt template version ("<name>@v<version>") that produced each stored AI output.
+-- Solutions record it inside the stored solution JSON, chat replies and
+-- collaborator attempts on the message / tdiff entry.
+alter table public.question_test_cases
+  add column if not exists prompt_version text;
+
+alter table public.question_mistake_analyses
+  add column if not exists prompt_version text;
@@ -0,0 +1,17 @@
+-- Tutor chat history for question bank problems. User questions keep theirs in
+-- questions_user.chat; both are written by /api/chat/mistral, not the browser.
+create table if not exists public.question_bank_chats (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  question_id uuid not null references public.questions_global(id) on delete cascade,
+  messages jsonb not null default '[]',
+  updated_at timestamptz not null default now(),
+  primary key (user_id, question_id)
+);
+
+alter table public.question_bank_chats enable row level security;
+
+create policy "Users manage their own question bank chats"
+  on public.question_bank_chats
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
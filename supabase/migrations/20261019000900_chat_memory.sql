@@ -0,0 +1,7 @@
+-- Rolling summary of chat turns that are no longer sent to the model verbatim:
+-- { summary, summarizedCount, promptVersion }. Written by /api/chat/mistral.
+alter table public.questions_user
+  add column if not exists chat_memory jsonb;
+
+alter table public.question_bank_chats
+  add column if not exists memory jsonb;
@@ -0,0 +1,32 @@
+-- Hints and solution sections a user has revealed, one row per unlock. Unlocks
+-- after the last review belong to the current attempt; older rows are history.
+create table if not exists public.question_unlocks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  question_id uuid not null references public.questions_user(id) on delete cascade,
+  kind text not null check (kind in ('hint', 'solution')),
+  -- Hint index, or solution section index in display order
+  position integer not null check (position >= 0),
+  unlocked_at timestamptz not null default now()
+);
+
+create index if not exists question_unlocks_question_idx
+  on public.question_unlocks (user_id, question_id, unlocked_at);
+
+alter table public.question_unlocks enable row level security;
+
+create policy "Users read their own unlocks"
+  on public.question_unlocks
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users record their own unlocks"
+  on public.question_unlocks
+  for insert
+  with check (auth.uid() = user_id);
+
+-- Assistance used on the attempt each review rated, for "solved with N hints" reporting
+alter table public.review_attempts
+  add column if not exists self_rating text check (self_rating in ('again', 'hard', 'good', 'easy')),
+  add column if not exists hints_used smallint,
+  add column if not exists solution_viewed boolean;
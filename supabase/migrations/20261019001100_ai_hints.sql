@@ -0,0 +1,41 @@
+-- Per-hint details aligned with questions_user.hint:
+-- [{ level, source: 'processing' | 'ai', promptVersion, createdAt }]. Null for
+-- rows whose hints all came from processing; their level is their position.
+alter table public.questions_user
+  add column if not exists hint_details jsonb;
+
+-- One row per hint generated on request; the user's count decides which
+-- hint starts a new paid pack (see lib/ai-hints)
+create table if not exists public.ai_hint_generations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  question_id uuid not null references public.questions_user(id) on delete cascade,
+  -- Index of the generated hint in questions_user.hint
+  position integer not null check (position >= 0),
+  level smallint not null check (level between 1 and 5),
+  prompt_version text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_hint_generations_user_idx
+  on public.ai_hint_generations (user_id, created_at);
+
+alter table public.ai_hint_generations enable row level security;
+
+create policy "Users read their own hint generations"
+  on public.ai_hint_generations
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users record their own hint generations"
+  on public.ai_hint_generations
+  for insert
+  with check (auth.uid() = user_id);
+
+-- Generated hints are charged a credit per pack
+alter table public.credit_ledger
+  drop constraint if exists credit_ledger_reason_check;
+
+alter table public.credit_ledger
+  add constraint credit_ledger_reason_check
+  check (reason in ('opening_balance', 'purchase', 'question_processing', 'refund', 'adjustment', 'ai_hint'));
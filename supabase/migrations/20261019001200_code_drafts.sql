@@ -0,0 +1,21 @@
+-- Collaborator editor drafts, one per question and editor language. revision
+-- goes up by one on every save; a save names the revision it was based on and
+-- is rejected when another device saved in between (see lib/code-drafts).
+create table if not exists public.code_drafts (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  question_id uuid not null references public.questions_user(id) on delete cascade,
+  -- Editor (Prism) language id, e.g. python or cpp
+  language text not null check (language ~ '^[a-z0-9+#-]{1,20}$'),
+  code text not null default '',
+  revision integer not null default 1 check (revision > 0),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, question_id, language)
+);
+
+alter table public.code_drafts enable row level security;
+
+create policy "Users manage their own code drafts"
+  on public.code_drafts
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- Starter programs generated while processing a question, one per editor
+-- language: a function stub for the user plus a stdin/stdout harness that
+-- calls it, so the code runner can execute drafts against the test cases.
+-- { functionName, languages: { python: { signature, code }, ... }, model, promptVersion, generatedAt }
+-- Null until generated; the editor then starts from its generic template.
+alter table public.questions_user
+  add column if not exists starter_code jsonb;
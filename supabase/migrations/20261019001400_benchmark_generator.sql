@@ -0,0 +1,6 @@
+-- Input generator used to benchmark a question's solutions: a Python program
+-- that reads a size n and prints a valid input of that size, generated from
+-- the statement's constraints on the first benchmark and reused afterwards.
+-- { code, sizeParameter, maxSize, model, promptVersion, generatedAt }
+alter table public.questions_user
+  add column if not exists benchmark_generator jsonb;
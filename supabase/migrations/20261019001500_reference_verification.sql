@@ -0,0 +1,19 @@
+-- Runnable form of the stored optimal solution: the reference code wrapped in a
+-- stdin/stdout harness, used as the oracle for stress tests (see lib/reference-program).
+-- { language, sourceLanguage, code, model, promptVersion, generatedAt }
+alter table public.questions_user
+  add column if not exists reference_program jsonb;
+
+-- Result of running the reference program on the statement's own examples.
+-- A failed status flags a stored solution that disagrees with its examples.
+-- { status: 'passed' | 'failed', passed, total, failures: [{ input, expected, actual }], checkedAt }
+alter table public.questions_user
+  add column if not exists reference_verification jsonb;
+
+-- Verification runs as a background job after processing
+alter table public.jobs
+  drop constraint if exists jobs_type_check;
+
+alter table public.jobs
+  add constraint jobs_type_check
+  check (type in ('process_question', 'verify_reference'));
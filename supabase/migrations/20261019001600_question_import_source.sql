@@ -0,0 +1,20 @@
+-- Questions imported from LeetCode, Codeforces or AtCoder exports keep the
+-- platform's difficulty and tags, and which problem they came from (see lib/problem-import).
+alter table public.questions_user
+  add column if not exists difficulty text check (difficulty in ('Easy', 'Medium', 'Hard')),
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists source_platform text check (source_platform in ('leetcode', 'codeforces', 'atcoder')),
+  -- Platform problem id: the LeetCode slug, Codeforces contest and index (1520B) or AtCoder task id
+  add column if not exists source_id text;
+
+alter table public.questions_user
+  drop constraint if exists questions_user_source_check;
+
+alter table public.questions_user
+  add constraint questions_user_source_check
+  check ((source_platform is null) = (source_id is null));
+
+-- A platform problem is imported at most once per user
+create unique index if not exists questions_user_source_idx
+  on public.questions_user (user_id, source_platform, source_id)
+  where source_id is not null;
@@ -0,0 +1,14 @@
+-- The weakness model is rebuilt by a background job after each analyzed attempt
+alter table public.jobs
+  drop constraint if exists jobs_type_check;
+
+alter table public.jobs
+  add constraint jobs_type_check
+  check (type in ('process_question', 'verify_reference', 'refresh_weaknesses'));
+
+-- At most one queued job of each type per user for jobs not tied to a question,
+-- so repeated analyses fold into the refresh that is already waiting. A running
+-- one does not block the next, which then sees attempts saved after it started.
+create unique index if not exists jobs_queued_user_idx
+  on public.jobs (user_id, type)
+  where status = 'queued' and question_id is null;
@@ -0,0 +1,40 @@
+-- Append turns to a stored tutor conversation in one statement, so concurrent
+-- sends and a clear during a stream cannot overwrite each other's history.
+-- Runs as the caller: RLS limits it to the user's own rows. Returns the
+-- history after the append, or null when the question is not the user's.
+create or replace function public.append_chat_messages(
+  p_question_id uuid,
+  p_source text,
+  p_messages jsonb
+)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_messages jsonb;
+begin
+  if jsonb_typeof(p_messages) <> 'array' then
+    raise exception 'p_messages must be a JSON array';
+  end if;
+
+  if p_source = 'user' then
+    update public.questions_user
+    set chat = case when jsonb_typeof(chat) = 'array' then chat else '[]'::jsonb end || p_messages
+    where id = p_question_id and user_id = auth.uid()
+    returning chat into v_messages;
+  else
+    insert into public.question_bank_chats (user_id, question_id, messages)
+    values (auth.uid(), p_question_id, p_messages)
+    on conflict (user_id, question_id) do update
+      set messages = public.question_bank_chats.messages || excluded.messages,
+          updated_at = now()
+    returning messages into v_messages;
+  end if;
+
+  return v_messages;
+end;
+$$;
+
+revoke execute on function public.append_chat_messages(uuid, text, jsonb) from public, anon;
+grant execute on function public.append_chat_messages(uuid, text, jsonb) to authenticated;
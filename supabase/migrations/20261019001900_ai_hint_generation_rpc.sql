@@ -0,0 +1,65 @@
+-- Generated hints are recorded, and charged for, only through
+-- record_ai_hint_generation below, so the count that decides the pack is
+-- taken under the same lock as the insert
+drop policy if exists "Users record their own hint generations" on public.ai_hint_generations;
+
+-- Record one generated hint. The first hint of every p_hints_per_credit a user
+-- generates debits one credit keyed by its pack; 0 makes them free. Returns
+-- the charge status (null when nothing was charged), the ledger entry and
+-- balance, and the user's generation count including this one. When the
+-- charge is insufficient nothing is recorded.
+create or replace function public.record_ai_hint_generation(
+  p_user_id uuid,
+  p_question_id uuid,
+  p_position integer,
+  p_level smallint,
+  p_prompt_version text,
+  p_hints_per_credit integer
+)
+returns table (charge_status text, entry_id uuid, balance integer, generated_count integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+  v_status text;
+  v_entry_id uuid;
+  v_balance integer;
+begin
+  -- Same lock as apply_credit_entry, so concurrent generations count in turn
+  perform 1 from public.users where id = p_user_id for update;
+  if not found then
+    raise exception 'User % not found', p_user_id using errcode = 'P0002';
+  end if;
+
+  select count(*) into v_count
+  from public.ai_hint_generations
+  where user_id = p_user_id;
+
+  if p_hints_per_credit > 0 and v_count % p_hints_per_credit = 0 then
+    select c.status, c.entry_id, c.balance into v_status, v_entry_id, v_balance
+    from public.apply_credit_entry(
+      p_user_id,
+      -1,
+      'ai_hint',
+      'ai_hint_pack:' || p_user_id || '#' || (v_count / p_hints_per_credit),
+      p_question_id::text,
+      jsonb_build_object('hintsPerCredit', p_hints_per_credit)
+    ) c;
+
+    if v_status = 'insufficient' then
+      return query select v_status, null::uuid, v_balance, v_count;
+      return;
+    end if;
+  end if;
+
+  insert into public.ai_hint_generations (user_id, question_id, position, level, prompt_version)
+  values (p_user_id, p_question_id, p_position, p_level, p_prompt_version);
+
+  return query select v_status, v_entry_id, v_balance, v_count + 1;
+end;
+$$;
+
+revoke execute on function public.record_ai_hint_generation(uuid, uuid, integer, smallint, text, integer) from public, anon, authenticated;
+grant execute on function public.record_ai_hint_generation(uuid, uuid, integer, smallint, text, integer) to service_role;